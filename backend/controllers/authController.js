@@ -1,7 +1,48 @@
 const User = require('../models/User');
 const Notification = require('../models/Notification');
-const { sendTokenResponse } = require('../utils/generateToken');
+const UserSettings = require('../models/UserSettings');
+const QRCode = require('qrcode');
+const { sendTokenResponse, generateTwoFactorToken, verifyTwoFactorToken } = require('../utils/generateToken');
 const { validationResult } = require('express-validator');
+const { sendVerificationEmail, sendPasswordResetEmail, sendLoginAlert } = require('../utils/accountEmails');
+const { otpauthUrl } = require('../utils/totp');
+
+// Fields needed to check a second factor
+const TWO_FACTOR_FIELDS = '+twoFactorSecret +twoFactorLastUsedStep +twoFactorRecoveryCodes';
+
+// Ask for the second factor instead of signing the user in
+const sendTwoFactorChallenge = (user, res, message) => {
+  res.status(200).json({
+    success: true,
+    message,
+    twoFactorRequired: true,
+    twoFactorToken: generateTwoFactorToken(user._id)
+  });
+};
+
+// Email a sign-in notice unless the user turned login alerts off. Never fails the login.
+const notifyLogin = async (user, req) => {
+  try {
+    const settings = await UserSettings.findOne({ user: user._id }).select('security.loginAlerts');
+    // Alerts are on by default, also for users who never opened their settings
+    if (settings && settings.security.loginAlerts === false) return;
+    await sendLoginAlert(user, { ip: req.ip, userAgent: req.get('user-agent') });
+  } catch (error) {
+    console.error('Login alert error:', error);
+  }
+};
+
+// Re-authenticate before changing 2FA: the account password plus an authenticator
+// or recovery code. Returns field errors, empty when both check out.
+const checkTwoFactorReauth = async (user, { password, code }) => {
+  if (!(await user.matchPassword(password))) {
+    return [{ path: 'password', msg: 'Password is incorrect' }];
+  }
+  if (!user.verifySecondFactor(code)) {
+    return [{ path: 'code', msg: 'Invalid authentication code' }];
+  }
+  return [];
+};
 
 // @desc    Register user
 // @route   POST /api/auth/register
@@ -66,6 +107,13 @@ const register = async (req, res, next) => {
       priority: 'normal'
     });
 
+    // A mail failure shouldn't fail the signup - the user can resend from the app
+    try {
+      await sendVerificationEmail(user);
+    } catch (mailError) {
+      console.error('Verification email error:', mailError);
+    }
+
     // Send token response
     sendTokenResponse(user, 201, res, 'User registered successfully');
 
@@ -119,6 +167,15 @@ const login = async (req, res, next) => {
       });
     }
 
+    // Check if a moderator has suspended the account
+    if (user.isSuspended()) {
+      return res.status(403).json({
+        success: false,
+        message: `Account suspended until ${user.suspendedUntil.toISOString()}${user.suspensionReason ? `: ${user.suspensionReason}` : ''}`,
+        suspendedUntil: user.suspendedUntil
+      });
+    }
+
     // Check password
     const isMatch = await user.matchPassword(password);
 
@@ -129,9 +186,15 @@ const login = async (req, res, next) => {
       });
     }
 
+    // Tokens are only issued once the second factor is checked
+    if (user.twoFactorEnabled) {
+      return sendTwoFactorChallenge(user, res, 'Enter the code from your authenticator app');
+    }
+
     // Update last login
     user.lastLogin = new Date();
     await user.save();
+    notifyLogin(user, req);
 
     // Send token response
     sendTokenResponse(user, 200, res, 'Login successful');
@@ -146,6 +209,313 @@ const login = async (req, res, next) => {
   }
 };
 
+// @desc    Complete login with an authenticator or recovery code
+// @route   POST /api/auth/login/2fa
+// @access  Public
+const loginTwoFactor = async (req, res, next) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const { twoFactorToken, code } = req.body;
+
+    let userId;
+    try {
+      userId = verifyTwoFactorToken(twoFactorToken);
+    } catch (error) {
+      return res.status(401).json({
+        success: false,
+        message: 'Your sign-in attempt has expired. Please log in again.'
+      });
+    }
+
+    const user = await User.findById(userId).select(TWO_FACTOR_FIELDS);
+
+    if (!user || !user.isActive || !user.twoFactorEnabled) {
+      return res.status(401).json({
+        success: false,
+        message: 'Your sign-in attempt has expired. Please log in again.'
+      });
+    }
+
+    if (user.isSuspended()) {
+      return res.status(403).json({
+        success: false,
+        message: `Account suspended until ${user.suspendedUntil.toISOString()}${user.suspensionReason ? `: ${user.suspensionReason}` : ''}`,
+        suspendedUntil: user.suspendedUntil
+      });
+    }
+
+    const factor = user.verifySecondFactor(code);
+    if (!factor) {
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid authentication code',
+        errors: [{ path: 'code', msg: 'Invalid authentication code' }]
+      });
+    }
+
+    // Update last login (and the used time step or recovery code)
+    user.lastLogin = new Date();
+    await user.save();
+    notifyLogin(user, req);
+
+    const remaining = user.twoFactorRecoveryCodes.length;
+    const message = factor === 'recovery'
+      ? `Login successful. You have ${remaining} recovery ${remaining === 1 ? 'code' : 'codes'} left.`
+      : 'Login successful';
+
+    sendTokenResponse(user, 200, res, message);
+
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error during login'
+    });
+  }
+};
+
+// @desc    Start two-factor setup: new secret, key URI and QR code
+// @route   POST /api/auth/2fa/setup
+// @access  Private
+const setupTwoFactor = async (req, res, next) => {
+  try {
+    const user = await User.findById(req.user.id);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled'
+      });
+    }
+
+    const secret = user.createTwoFactorSecret();
+    await user.save({ validateBeforeSave: false });
+
+    // The QR code is rendered here so the secret never goes to a third-party service
+    const url = otpauthUrl(secret, user.email);
+    const qrCode = await QRCode.toDataURL(url, { margin: 1, width: 220 });
+
+    res.status(200).json({
+      success: true,
+      message: 'Scan the QR code with your authenticator app',
+      data: {
+        secret,
+        otpauthUrl: url,
+        qrCode
+      }
+    });
+
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while setting up two-factor authentication'
+    });
+  }
+};
+
+// @desc    Confirm setup with a code and turn on two-factor authentication
+// @route   POST /api/auth/2fa/enable
+// @access  Private
+const enableTwoFactor = async (req, res, next) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const user = await User.findById(req.user.id).select('+twoFactorPendingSecret +twoFactorLastUsedStep');
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled'
+      });
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      return res.status(400).json({
+        success: false,
+        message: 'Start two-factor setup first'
+      });
+    }
+
+    if (!user.verifyTwoFactorCode(req.body.code, { pending: true })) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid authentication code',
+        errors: [{ path: 'code', msg: 'That code didn\'t match. Check the time on your device and try again.' }]
+      });
+    }
+
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorEnabled = true;
+    const recoveryCodes = user.createRecoveryCodes();
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: {
+        twoFactorEnabled: true,
+        recoveryCodes
+      }
+    });
+
+  } catch (error) {
+    console.error('Enable two-factor error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while enabling two-factor authentication'
+    });
+  }
+};
+
+// @desc    Turn off two-factor authentication
+// @route   POST /api/auth/2fa/disable
+// @access  Private
+const disableTwoFactor = async (req, res, next) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const user = await User.findById(req.user.id).select(`+password ${TWO_FACTOR_FIELDS}`);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled'
+      });
+    }
+
+    const reauthErrors = await checkTwoFactorReauth(user, req.body);
+    if (reauthErrors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: reauthErrors[0].msg,
+        errors: reauthErrors
+      });
+    }
+
+    user.disableTwoFactor();
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+      data: { twoFactorEnabled: false }
+    });
+
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while disabling two-factor authentication'
+    });
+  }
+};
+
+// @desc    Replace all recovery codes with a new set
+// @route   POST /api/auth/2fa/recovery-codes
+// @access  Private
+const regenerateRecoveryCodes = async (req, res, next) => {
+  try {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const user = await User.findById(req.user.id).select(`+password ${TWO_FACTOR_FIELDS}`);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled'
+      });
+    }
+
+    const reauthErrors = await checkTwoFactorReauth(user, req.body);
+    if (reauthErrors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: reauthErrors[0].msg,
+        errors: reauthErrors
+      });
+    }
+
+    const recoveryCodes = user.createRecoveryCodes();
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      success: true,
+      message: 'New recovery codes generated. Your old codes no longer work.',
+      data: { recoveryCodes }
+    });
+
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while generating recovery codes'
+    });
+  }
+};
+
 // @desc    Logout user / clear cookie
 // @route   POST /api/auth/logout
 // @access  Private
@@ -264,15 +634,18 @@ const updateProfile = async (req, res, next) => {
 // @access  Private
 const changePassword = async (req, res, next) => {
   try {
-    const { currentPassword, newPassword } = req.body;
-
-    if (!currentPassword || !newPassword) {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
       return res.status(400).json({
         success: false,
-        message: 'Please provide current password and new password'
+        message: 'Validation errors',
+        errors: errors.array()
       });
     }
 
+    const { currentPassword, newPassword } = req.body;
+
     // Get user with password
     const user = await User.findById(req.user.id).select('+password');
 
@@ -289,7 +662,8 @@ const changePassword = async (req, res, next) => {
     if (!isMatch) {
       return res.status(400).json({
         success: false,
-        message: 'Current password is incorrect'
+        message: 'Current password is incorrect',
+        errors: [{ path: 'currentPassword', msg: 'Current password is incorrect' }]
       });
     }
 
@@ -316,39 +690,39 @@ const changePassword = async (req, res, next) => {
 // @access  Public
 const forgotPassword = async (req, res, next) => {
   try {
-    const { email } = req.body;
-
-    if (!email) {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
       return res.status(400).json({
         success: false,
-        message: 'Please provide email address'
+        message: 'Validation errors',
+        errors: errors.array()
       });
     }
 
-    const user = await User.findOne({ email: email.toLowerCase() });
+    // Same answer whether or not the account exists, so emails can't be probed
+    const response = {
+      success: true,
+      message: 'If an account exists for that email, we sent a link to reset the password'
+    };
 
-    if (!user) {
-      return res.status(404).json({
-        success: false,
-        message: 'No user found with that email address'
-      });
+    const user = await User.findOne({ email: req.body.email.toLowerCase() });
+
+    if (!user || !user.isActive) {
+      return res.status(200).json(response);
     }
 
-    // Generate reset token (for now, just send a placeholder response)
-    // In production, you would generate a secure token and send via email
-    const resetToken = Math.random().toString(36).substring(2, 15);
+    // A failed send is only logged: an error here would reveal the account exists
+    try {
+      await sendPasswordResetEmail(user);
+    } catch (mailError) {
+      console.error('Password reset email error:', mailError);
+      user.passwordResetToken = undefined;
+      user.passwordResetExpires = undefined;
+      await user.save({ validateBeforeSave: false });
+    }
 
-    // Save reset token and expiry (expires in 1 hour)
-    user.passwordResetToken = resetToken;
-    user.passwordResetExpires = Date.now() + 60 * 60 * 1000; // 1 hour
-    await user.save();
-
-    res.status(200).json({
-      success: true,
-      message: 'Password reset instructions sent to email',
-      // In development, return the token (remove in production)
-      ...(process.env.NODE_ENV === 'development' && { resetToken })
-    });
+    res.status(200).json(response);
 
   } catch (error) {
     console.error('Forgot password error:', error);
@@ -364,35 +738,50 @@ const forgotPassword = async (req, res, next) => {
 // @access  Public
 const resetPassword = async (req, res, next) => {
   try {
-    const { resettoken } = req.params;
-    const { password } = req.body;
-
-    if (!password) {
+    // Check for validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
       return res.status(400).json({
         success: false,
-        message: 'Please provide new password'
+        message: 'Validation errors',
+        errors: errors.array()
       });
     }
 
-    // Find user by reset token and check if token is still valid
+    // Tokens are stored hashed, so look up the hash of the one in the link
     const user = await User.findOne({
-      passwordResetToken: resettoken,
+      passwordResetToken: User.hashToken(req.params.resettoken),
       passwordResetExpires: { $gt: Date.now() }
     });
 
     if (!user) {
       return res.status(400).json({
         success: false,
-        message: 'Invalid or expired reset token'
+        message: 'This reset link is invalid or has expired'
       });
     }
 
-    // Set new password
-    user.password = password;
+    if (!user.isActive) {
+      return res.status(401).json({
+        success: false,
+        message: 'Account has been deactivated. Please contact support.'
+      });
+    }
+
+    // Set new password and sign out other sessions
+    user.password = req.body.password;
     user.passwordResetToken = undefined;
     user.passwordResetExpires = undefined;
+    user.refreshToken = undefined;
+    // Opening the emailed link proves the address belongs to the user
+    user.isVerified = true;
     await user.save();
 
+    // An emailed link alone doesn't get past two-factor authentication
+    if (user.twoFactorEnabled) {
+      return sendTwoFactorChallenge(user, res, 'Password reset. Enter the code from your authenticator app to sign in.');
+    }
+
     // Send token response
     sendTokenResponse(user, 200, res, 'Password reset successful');
 
@@ -405,6 +794,95 @@ const resetPassword = async (req, res, next) => {
   }
 };
 
+// @desc    Verify email address
+// @route   POST /api/auth/verify-email/:token
+// @access  Public
+const verifyEmail = async (req, res, next) => {
+  try {
+    const user = await User.findOne({
+      emailVerificationToken: User.hashToken(req.params.token),
+      emailVerificationExpires: { $gt: Date.now() }
+    });
+
+    if (!user) {
+      return res.status(400).json({
+        success: false,
+        message: 'This verification link is invalid or has expired'
+      });
+    }
+
+    user.isVerified = true;
+    user.emailVerificationToken = undefined;
+    user.emailVerificationExpires = undefined;
+    await user.save({ validateBeforeSave: false });
+
+    res.status(200).json({
+      success: true,
+      message: 'Email verified successfully',
+      data: { isVerified: true }
+    });
+
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while verifying email'
+    });
+  }
+};
+
+// @desc    Resend verification email
+// @route   POST /api/auth/resend-verification
+// @access  Private
+const resendVerification = async (req, res, next) => {
+  try {
+    const user = await User.findById(req.user.id).select('+emailVerificationExpires');
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    if (user.isVerified) {
+      return res.status(400).json({
+        success: false,
+        message: 'Your email is already verified'
+      });
+    }
+
+    if (user.verificationEmailSentRecently()) {
+      return res.status(429).json({
+        success: false,
+        message: 'A verification email was just sent. Please wait a minute before asking for another.'
+      });
+    }
+
+    try {
+      await sendVerificationEmail(user);
+    } catch (mailError) {
+      console.error('Verification email error:', mailError);
+      return res.status(500).json({
+        success: false,
+        message: 'Verification email could not be sent. Please try again later.'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `Verification email sent to ${user.email}`
+    });
+
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while sending verification email'
+    });
+  }
+};
+
 // @desc    Refresh token
 // @route   POST /api/auth/refresh-token
 // @access  Public
@@ -500,12 +978,19 @@ const getUserStats = async (req, res, next) => {
 module.exports = {
   register,
   login,
+  loginTwoFactor,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
   logout,
   getMe,
   updateProfile,
   changePassword,
   forgotPassword,
   resetPassword,
+  verifyEmail,
+  resendVerification,
   refreshToken,
   getUserStats
 };
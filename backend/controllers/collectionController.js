@@ -0,0 +1,643 @@
+const Collection = require('../models/Collection');
+const Post = require('../models/Post');
+const Trip = require('../models/Trip');
+const { validationResult } = require('express-validator');
+const { can } = require('../utils/tripPermissions');
+
+// Load a post or trip and check the user may save it.
+// Returns { item } or { status, message } when it can't be saved.
+const findSaveableItem = async (itemType, itemId, userId) => {
+  if (itemType === 'post') {
+    const post = await Post.findById(itemId).select('userId isPublic isBlocked');
+    if (!post || post.isBlocked) return { status: 404, message: 'Post not found' };
+    if (!post.isPublic && post.userId.toString() !== userId) {
+      return { status: 403, message: 'Access denied to private post' };
+    }
+    return { item: post };
+  }
+
+  const trip = await Trip.findById(itemId);
+  if (!trip || trip.isBlocked) return { status: 404, message: 'Trip not found' };
+  if (!trip.isPublic && !can(trip, userId, 'view')) {
+    return { status: 403, message: 'Only public trips can be saved' };
+  }
+  return { item: trip };
+};
+
+// Turn collection items into cards with the post or trip attached.
+// Items that were deleted, blocked or made private are only shown to the owner, flagged as unavailable.
+const buildItems = async (collection, viewerId) => {
+  const isOwner = collection.owner.toString() === viewerId;
+  const idsOf = (type) => collection.items.filter(i => i.itemType === type).map(i => i.itemId);
+  const baseUrl = process.env.BASE_URL || '';
+
+  const [posts, trips] = await Promise.all([
+    Post.find({ _id: { $in: idsOf('post') } })
+      .select('userId caption media likes commentsCount isPublic isBlocked createdAt')
+      .populate('userId', 'username fullName profilePicture'),
+    Trip.find({ _id: { $in: idsOf('trip') } })
+      .select('tripName destination coverImage startDate endDate status isPublic isBlocked createdBy collaborators members')
+      .populate('createdBy', 'username fullName profilePicture')
+  ]);
+
+  const postsById = new Map(posts.map(p => [p._id.toString(), p]));
+  const tripsById = new Map(trips.map(t => [t._id.toString(), t]));
+
+  return collection.items.reduce((cards, item) => {
+    const id = item.itemId.toString();
+    const card = { _id: item._id, itemType: item.itemType, itemId: id, addedAt: item.addedAt, unavailable: false };
+
+    if (item.itemType === 'post') {
+      const post = postsById.get(id);
+      const visible = post && !post.isBlocked && (post.isPublic || post.userId._id.toString() === viewerId);
+      if (visible) {
+        card.post = {
+          _id: post._id,
+          userId: post.userId,
+          caption: post.caption,
+          media: post.media,
+          likesCount: post.likes.length,
+          commentsCount: post.commentsCount,
+          createdAt: post.createdAt
+        };
+      } else {
+        card.unavailable = true;
+      }
+    } else {
+      const trip = tripsById.get(id);
+      const visible = trip && !trip.isBlocked && (trip.isPublic || can(trip, viewerId, 'view'));
+      if (visible) {
+        card.trip = {
+          _id: trip._id,
+          tripName: trip.tripName,
+          destination: trip.destination,
+          coverImage: trip.coverImage && trip.coverImage.startsWith('/') ? `${baseUrl}${trip.coverImage}` : trip.coverImage,
+          startDate: trip.startDate,
+          endDate: trip.endDate,
+          status: trip.status,
+          createdBy: trip.createdBy
+        };
+      } else {
+        card.unavailable = true;
+      }
+    }
+
+    if (!card.unavailable || isOwner) cards.push(card);
+    return cards;
+  }, []);
+};
+
+// Summary shown in collection lists: counts plus a few preview images
+const summarizeCollection = (collection, previews) => ({
+  _id: collection._id,
+  owner: collection.owner,
+  name: collection.name,
+  description: collection.description,
+  isPublic: collection.isPublic,
+  isDefault: collection.isDefault,
+  position: collection.position,
+  itemsCount: collection.items.length,
+  previews: previews || [],
+  updatedAt: collection.updatedAt
+});
+
+// First few post images of each collection, for the collection grid
+const getPreviews = async (collections) => {
+  const firstPostIds = collections.flatMap(c => c.items.filter(i => i.itemType === 'post').slice(0, 4).map(i => i.itemId));
+  const posts = await Post.find({ _id: { $in: firstPostIds }, isBlocked: false }).select('media');
+  const mediaById = new Map(posts.map(p => [p._id.toString(), p.media[0]]));
+
+  return collections.map(c => c.items
+    .filter(i => i.itemType === 'post')
+    .slice(0, 4)
+    .map(i => mediaById.get(i.itemId.toString()))
+    .filter(Boolean));
+};
+
+// @desc    Get the current user's collections
+// @route   GET /api/collections
+// @access  Private
+const getMyCollections = async (req, res, next) => {
+  try {
+    // Make sure the default collection exists so there is always somewhere to save to
+    await Collection.getDefaultCollection(req.user.id);
+
+    const collections = await Collection.find({ owner: req.user.id }).sort({ isDefault: -1, position: 1, createdAt: 1 });
+    const previews = await getPreviews(collections);
+
+    res.status(200).json({
+      success: true,
+      data: collections.map((c, i) => summarizeCollection(c, previews[i]))
+    });
+
+  } catch (error) {
+    console.error('Get collections error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching collections'
+    });
+  }
+};
+
+// @desc    Get a user's shared collections (all of them for the owner)
+// @route   GET /api/collections/user/:userId
+// @access  Public
+const getUserCollections = async (req, res, next) => {
+  try {
+    const isOwner = req.user && req.user.id === req.params.userId;
+    const query = { owner: req.params.userId };
+    if (!isOwner) query.isPublic = true;
+
+    const collections = await Collection.find(query).sort({ isDefault: -1, position: 1, createdAt: 1 });
+    const previews = await getPreviews(collections);
+
+    res.status(200).json({
+      success: true,
+      data: collections.map((c, i) => summarizeCollection(c, previews[i]))
+    });
+
+  } catch (error) {
+    console.error('Get user collections error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching collections'
+    });
+  }
+};
+
+// @desc    Get a collection with its items
+// @route   GET /api/collections/:id
+// @access  Public for shared collections, owner only for private ones
+const getCollection = async (req, res, next) => {
+  try {
+    const collection = await Collection.findById(req.params.id);
+    const viewerId = req.user ? req.user.id : null;
+
+    if (!collection || (!collection.isPublic && collection.owner.toString() !== viewerId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Collection not found'
+      });
+    }
+
+    await collection.populate('owner', 'username fullName profilePicture');
+    const items = await buildItems({ ...collection.toObject(), owner: collection.owner._id }, viewerId);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...summarizeCollection(collection),
+        items
+      }
+    });
+
+  } catch (error) {
+    console.error('Get collection error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching collection'
+    });
+  }
+};
+
+// @desc    Create a collection
+// @route   POST /api/collections
+// @access  Private
+const createCollection = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const { name, description, isPublic } = req.body;
+    const last = await Collection.findOne({ owner: req.user.id }).sort({ position: -1 }).select('position');
+
+    const collection = await Collection.create({
+      owner: req.user.id,
+      name,
+      description,
+      isPublic: isPublic === true,
+      position: last ? last.position + 1 : 1
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Collection created',
+      data: summarizeCollection(collection)
+    });
+
+  } catch (error) {
+    console.error('Create collection error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while creating collection'
+    });
+  }
+};
+
+// @desc    Rename a collection, change its description or share it
+// @route   PUT /api/collections/:id
+// @access  Private (owner only)
+const updateCollection = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const collection = await Collection.findOne({ _id: req.params.id, owner: req.user.id });
+
+    if (!collection) {
+      return res.status(404).json({
+        success: false,
+        message: 'Collection not found'
+      });
+    }
+
+    const { name, description, isPublic } = req.body;
+    if (name !== undefined) collection.name = name;
+    if (description !== undefined) collection.description = description;
+    if (isPublic !== undefined) collection.isPublic = isPublic === true;
+    await collection.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Collection updated',
+      data: summarizeCollection(collection)
+    });
+
+  } catch (error) {
+    console.error('Update collection error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while updating collection'
+    });
+  }
+};
+
+// @desc    Delete a collection (saved items stay in other collections)
+// @route   DELETE /api/collections/:id
+// @access  Private (owner only)
+const deleteCollection = async (req, res, next) => {
+  try {
+    const collection = await Collection.findOne({ _id: req.params.id, owner: req.user.id });
+
+    if (!collection) {
+      return res.status(404).json({
+        success: false,
+        message: 'Collection not found'
+      });
+    }
+
+    if (collection.isDefault) {
+      return res.status(400).json({
+        success: false,
+        message: 'The default collection cannot be deleted'
+      });
+    }
+
+    await collection.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: 'Collection deleted'
+    });
+
+  } catch (error) {
+    console.error('Delete collection error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while deleting collection'
+    });
+  }
+};
+
+// @desc    Reorder the current user's collections
+// @route   PUT /api/collections/order
+// @access  Private
+const reorderCollections = async (req, res, next) => {
+  try {
+    const { collectionIds } = req.body;
+
+    if (!Array.isArray(collectionIds)) {
+      return res.status(400).json({
+        success: false,
+        message: 'collectionIds must be an array'
+      });
+    }
+
+    const owned = await Collection.find({ owner: req.user.id, isDefault: false }).select('_id');
+    const ownedIds = new Set(owned.map(c => c._id.toString()));
+    if (collectionIds.length !== ownedIds.size || collectionIds.some(id => !ownedIds.has(String(id)))) {
+      return res.status(400).json({
+        success: false,
+        message: 'The order must list each of your collections exactly once'
+      });
+    }
+
+    await Collection.bulkWrite(collectionIds.map((id, index) => ({
+      updateOne: {
+        filter: { _id: id, owner: req.user.id },
+        update: { $set: { position: index + 1 } }
+      }
+    })));
+
+    res.status(200).json({
+      success: true,
+      message: 'Collections reordered'
+    });
+
+  } catch (error) {
+    console.error('Reorder collections error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while reordering collections'
+    });
+  }
+};
+
+// @desc    Add a post or trip to a collection
+// @route   POST /api/collections/:id/items
+// @access  Private (owner only)
+const addItem = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const { itemType, itemId } = req.body;
+    const collection = await Collection.findOne({ _id: req.params.id, owner: req.user.id });
+    if (!collection) {
+      return res.status(404).json({
+        success: false,
+        message: 'Collection not found'
+      });
+    }
+
+    const result = await findSaveableItem(itemType, itemId, req.user.id);
+    if (!result.item) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.message
+      });
+    }
+
+    collection.addItem(itemType, result.item._id);
+    await collection.save();
+
+    res.status(200).json({
+      success: true,
+      message: `Saved to ${collection.name}`,
+      data: summarizeCollection(collection)
+    });
+
+  } catch (error) {
+    console.error('Add collection item error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while saving item'
+    });
+  }
+};
+
+// @desc    Remove a post or trip from a collection
+// @route   DELETE /api/collections/:id/items/:itemType/:itemId
+// @access  Private (owner only)
+const removeItem = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const { itemType, itemId } = req.params;
+    const collection = await Collection.findOne({ _id: req.params.id, owner: req.user.id });
+
+    if (!collection) {
+      return res.status(404).json({
+        success: false,
+        message: 'Collection not found'
+      });
+    }
+
+    collection.removeItem(itemType, itemId);
+    await collection.save();
+
+    res.status(200).json({
+      success: true,
+      message: `Removed from ${collection.name}`,
+      data: summarizeCollection(collection)
+    });
+
+  } catch (error) {
+    console.error('Remove collection item error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while removing item'
+    });
+  }
+};
+
+// @desc    Reorder the items of a collection
+// @route   PUT /api/collections/:id/items/order
+// @access  Private (owner only)
+const reorderItems = async (req, res, next) => {
+  try {
+    const { itemIds } = req.body;
+
+    if (!Array.isArray(itemIds)) {
+      return res.status(400).json({
+        success: false,
+        message: 'itemIds must be an array'
+      });
+    }
+
+    const collection = await Collection.findOne({ _id: req.params.id, owner: req.user.id });
+
+    if (!collection) {
+      return res.status(404).json({
+        success: false,
+        message: 'Collection not found'
+      });
+    }
+
+    if (!collection.reorderItems(itemIds)) {
+      return res.status(409).json({
+        success: false,
+        message: 'The collection changed in the meantime, please reload it'
+      });
+    }
+
+    await collection.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Collection reordered'
+    });
+
+  } catch (error) {
+    console.error('Reorder collection items error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while reordering collection'
+    });
+  }
+};
+
+// @desc    Save a post or trip (to the default collection unless one is given)
+// @route   POST /api/collections/save
+// @access  Private
+const saveItem = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const { itemType, itemId, collectionId } = req.body;
+    const result = await findSaveableItem(itemType, itemId, req.user.id);
+    if (!result.item) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.message
+      });
+    }
+
+    const collection = collectionId
+      ? await Collection.findOne({ _id: collectionId, owner: req.user.id })
+      : await Collection.getDefaultCollection(req.user.id);
+
+    if (!collection) {
+      return res.status(404).json({
+        success: false,
+        message: 'Collection not found'
+      });
+    }
+
+    collection.addItem(itemType, result.item._id);
+    await collection.save();
+
+    res.status(200).json({
+      success: true,
+      message: `Saved to ${collection.name}`,
+      data: {
+        isSaved: true,
+        collectionId: collection._id
+      }
+    });
+
+  } catch (error) {
+    console.error('Save item error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while saving item'
+    });
+  }
+};
+
+// @desc    Unsave a post or trip from all of the user's collections
+// @route   DELETE /api/collections/save/:itemType/:itemId
+// @access  Private
+const unsaveItem = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const { itemType, itemId } = req.params;
+
+    await Collection.unsaveEverywhere(req.user.id, itemType, itemId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Removed from saved',
+      data: {
+        isSaved: false
+      }
+    });
+
+  } catch (error) {
+    console.error('Unsave item error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while removing saved item'
+    });
+  }
+};
+
+// @desc    Get which of the current user's collections contain a post or trip
+// @route   GET /api/collections/containing/:itemType/:itemId
+// @access  Private
+const getContainingCollections = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const { itemType, itemId } = req.params;
+    const collections = await Collection.find({
+      owner: req.user.id,
+      items: { $elemMatch: { itemType, itemId } }
+    }).select('_id');
+
+    res.status(200).json({
+      success: true,
+      data: collections.map(c => c._id)
+    });
+
+  } catch (error) {
+    console.error('Get containing collections error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching saved state'
+    });
+  }
+};
+
+module.exports = {
+  getMyCollections,
+  getUserCollections,
+  getCollection,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  reorderCollections,
+  addItem,
+  removeItem,
+  reorderItems,
+  saveItem,
+  unsaveItem,
+  getContainingCollections
+};
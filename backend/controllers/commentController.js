@@ -1,6 +1,8 @@
 const Comment = require('../models/Comment');
 const Post = require('../models/Post');
+const Notification = require('../models/Notification');
 const { validationResult } = require('express-validator');
+const { resolveMentions, notifyMentions } = require('../utils/textEntities');
 
 // @desc    Get comments for a post
 // @route   GET /api/comments/post/:postId
@@ -11,7 +13,7 @@ const getCommentsForPost = async (req, res, next) => {
     const page = parseInt(req.query.page) || 1;
     const limit = parseInt(req.query.limit) || 20;
 
-    // Check if post exists
+    // Check if post exists and is visible to the viewer
     const post = await Post.findById(postId);
     if (!post) {
       return res.status(404).json({
@@ -20,6 +22,14 @@ const getCommentsForPost = async (req, res, next) => {
       });
     }
 
+    const accessError = post.getAccessError(req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        message: accessError.message
+      });
+    }
+
     // Get comments
     const comments = await Comment.getCommentsForPost(postId, page, limit);
     const totalComments = await Comment.countDocuments({
@@ -77,26 +87,52 @@ const createComment = async (req, res, next) => {
     }
 
     // If this is a reply, check if parent comment exists
+    let parentCommentDoc = null;
     if (parentComment) {
-      const parentCommentDoc = await Comment.findById(parentComment);
-      if (!parentCommentDoc) {
+      parentCommentDoc = await Comment.findById(parentComment);
+      if (!parentCommentDoc || parentCommentDoc.isBlocked || !parentCommentDoc.postId.equals(post._id)) {
         return res.status(404).json({
           success: false,
           message: 'Parent comment not found'
         });
       }
+      if (parentCommentDoc.isDeleted) {
+        return res.status(400).json({
+          success: false,
+          message: 'Cannot reply to a deleted comment'
+        });
+      }
     }
 
+    // Threads are one level deep: replies to a reply join the top-level comment's thread
+    const threadId = parentCommentDoc
+      ? (parentCommentDoc.parentComment || parentCommentDoc._id)
+      : null;
+
     // Create comment
     const comment = new Comment({
       postId,
       userId: req.user.id,
       commentText,
-      parentComment: parentComment || null
+      parentComment: threadId
     });
+    comment.mentions = await resolveMentions(commentText);
 
     await comment.save();
 
+    // Notify the post owner, and the parent comment's author for replies
+    await Notification.createCommentNotification(post._id, req.user.id, post.userId);
+    if (parentCommentDoc && !parentCommentDoc.userId.equals(post.userId)) {
+      await Notification.createReplyNotification(post._id, req.user.id, parentCommentDoc.userId);
+    }
+    await notifyMentions({
+      mentionedIds: comment.mentions,
+      senderId: req.user.id,
+      referenceId: post._id,
+      referenceModel: 'Post',
+      context: 'comment'
+    });
+
     // Populate user data for response
     await comment.populate('userId', 'username fullName profilePicture');
 
@@ -132,7 +168,7 @@ const updateComment = async (req, res, next) => {
     const { commentText } = req.body;
     const comment = await Comment.findById(req.params.id);
 
-    if (!comment) {
+    if (!comment || comment.isDeleted) {
       return res.status(404).json({
         success: false,
         message: 'Comment not found'
@@ -147,10 +183,21 @@ const updateComment = async (req, res, next) => {
       });
     }
 
-    // Update comment
+    // Update comment; only users mentioned by this edit are notified
+    const previousMentions = [...comment.mentions];
     comment.commentText = commentText;
+    comment.mentions = await resolveMentions(commentText);
     await comment.save();
 
+    await notifyMentions({
+      mentionedIds: comment.mentions,
+      previousIds: previousMentions,
+      senderId: req.user.id,
+      referenceId: comment.postId,
+      referenceModel: 'Post',
+      context: 'comment'
+    });
+
     // Populate user data for response
     await comment.populate('userId', 'username fullName profilePicture');
 
@@ -169,14 +216,14 @@ const updateComment = async (req, res, next) => {
   }
 };
 
-// @desc    Delete a comment
+// @desc    Delete a comment; comments with replies are kept as a "[deleted]" placeholder
 // @route   DELETE /api/comments/:id
 // @access  Private (owner or admin)
 const deleteComment = async (req, res, next) => {
   try {
     const comment = await Comment.findById(req.params.id);
 
-    if (!comment) {
+    if (!comment || comment.isDeleted) {
       return res.status(404).json({
         success: false,
         message: 'Comment not found'
@@ -191,11 +238,32 @@ const deleteComment = async (req, res, next) => {
       });
     }
 
+    if (comment.replyCount > 0) {
+      await comment.softDelete();
+
+      return res.status(200).json({
+        success: true,
+        message: 'Comment deleted successfully',
+        data: {
+          placeholder: true,
+          comment
+        }
+      });
+    }
+
     await comment.deleteOne();
 
+    // Remove a "[deleted]" parent once its last reply is gone
+    if (comment.parentComment) {
+      await Comment.deleteOne({ _id: comment.parentComment, isDeleted: true, replyCount: 0 });
+    }
+
     res.status(200).json({
       success: true,
-      message: 'Comment deleted successfully'
+      message: 'Comment deleted successfully',
+      data: {
+        placeholder: false
+      }
     });
 
   } catch (error) {
@@ -214,7 +282,7 @@ const toggleLikeComment = async (req, res, next) => {
   try {
     const comment = await Comment.findById(req.params.id);
 
-    if (!comment) {
+    if (!comment || comment.isDeleted) {
       return res.status(404).json({
         success: false,
         message: 'Comment not found'
@@ -259,6 +327,15 @@ const getRepliesForComment = async (req, res, next) => {
       });
     }
 
+    const post = await Post.findById(parentComment.postId);
+    const accessError = post ? post.getAccessError(req.user) : { status: 404, message: 'Post not found' };
+    if (accessError) {
+      return res.status(accessError.status).json({
+        success: false,
+        message: accessError.message
+      });
+    }
+
     // Get replies
     const replies = await Comment.getRepliesForComment(id, page, limit);
     const totalReplies = await Comment.countDocuments({
@@ -2,6 +2,28 @@ const Message = require('../models/Message');
 const Conversation = require('../models/Conversation');
 const User = require('../models/User');
 const { validationResult } = require('express-validator');
+const { getPresence } = require('../utils/presence');
+const { resolveMentions, notifyMentions } = require('../utils/textEntities');
+
+// Push an event to connected clients through the Socket.IO server set up in server.js
+const emitToRooms = (req, rooms, event, payload) => {
+  const io = req.app.get('io');
+  if (io) {
+    io.to(rooms).emit(event, payload);
+  }
+};
+
+// Attach online/last-seen status to populated members, respecting each member's showOnline setting
+const withPresence = (conversation) => {
+  const data = conversation.toObject ? conversation.toObject() : conversation;
+  return {
+    ...data,
+    members: data.members.map(({ showOnline, lastSeen, ...member }) => ({
+      ...member,
+      ...getPresence({ _id: member._id, showOnline, lastSeen })
+    }))
+  };
+};
 
 // @desc    Get user's conversations
 // @route   GET /api/messages/conversations
@@ -24,7 +46,7 @@ const getUserConversations = async (req, res, next) => {
         });
 
         return {
-          ...conversation.toObject(),
+          ...withPresence(conversation),
           unreadCount
         };
       })
@@ -103,12 +125,12 @@ const createOrGetConversation = async (req, res, next) => {
     }
 
     // Populate conversation data
-    await conversation.populate('members', 'username fullName profilePicture');
+    await conversation.populate('members', 'username fullName profilePicture showOnline lastSeen');
     await conversation.populate('lastMessageBy', 'username fullName');
 
     res.status(200).json({
       success: true,
-      data: [conversation]
+      data: [withPresence(conversation)]
     });
 
   } catch (error) {
@@ -150,14 +172,21 @@ const getConversationMessages = async (req, res, next) => {
 
     // Mark messages as read
     await Message.markAllAsReadInConversation(conversationId, req.user.id);
+    emitToRooms(req, `conversation-${conversationId}`, 'message-read', {
+      conversationId,
+      userId: req.user.id,
+      readAt: new Date()
+    });
 
     // Reverse messages to show oldest first (like Instagram)
     const reversedMessages = messages.reverse();
 
+    await conversation.populate('members', 'username fullName profilePicture showOnline lastSeen');
+
     res.status(200).json({
       success: true,
       data: {
-        conversation,
+        conversation: withPresence(conversation),
         messages: reversedMessages,
         pagination: {
           page,
@@ -234,9 +263,20 @@ const sendMessage = async (req, res, next) => {
       }
     }
 
+    // Only members of the conversation can be mentioned
+    messageData.mentions = await resolveMentions(messageText, { allowedIds: conversation.members });
+
     const message = new Message(messageData);
     await message.save();
 
+    await notifyMentions({
+      mentionedIds: message.mentions,
+      senderId: req.user.id,
+      referenceId: message._id,
+      referenceModel: 'Message',
+      context: 'message'
+    });
+
     // Populate message data
     await message.populate('senderId', 'username fullName profilePicture');
     if (message.replyTo) {
@@ -246,6 +286,9 @@ const sendMessage = async (req, res, next) => {
     // Update conversation's last message
     await conversation.updateLastMessage(messageText, req.user.id);
 
+    // Deliver to every member's personal room so conversation lists update too
+    emitToRooms(req, conversation.members.map(member => `user-${member}`), 'new-message', message);
+
     res.status(201).json({
       success: true,
       data: message
@@ -286,6 +329,13 @@ const markMessageAsRead = async (req, res, next) => {
 
     await message.markAsReadBy(req.user.id);
 
+    emitToRooms(req, `conversation-${message.conversationId}`, 'message-read', {
+      conversationId: message.conversationId,
+      messageId: message._id,
+      userId: req.user.id,
+      readAt: new Date()
+    });
+
     res.status(200).json({
       success: true,
       data: message
@@ -372,6 +422,13 @@ const addReaction = async (req, res, next) => {
     }
 
     await message.addReaction(req.user.id, emoji);
+    await message.populate('reactions.user', 'username fullName profilePicture');
+
+    emitToRooms(req, `conversation-${message.conversationId}`, 'message-reaction', {
+      conversationId: message.conversationId,
+      messageId: message._id,
+      reactions: message.reactions
+    });
 
     res.status(200).json({
       success: true,
@@ -412,6 +469,13 @@ const removeReaction = async (req, res, next) => {
     }
 
     await message.removeReaction(req.user.id);
+    await message.populate('reactions.user', 'username fullName profilePicture');
+
+    emitToRooms(req, `conversation-${message.conversationId}`, 'message-reaction', {
+      conversationId: message.conversationId,
+      messageId: message._id,
+      reactions: message.reactions
+    });
 
     res.status(200).json({
       success: true,
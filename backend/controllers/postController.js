@@ -1,49 +1,132 @@
+const mongoose = require('mongoose');
 const Post = require('../models/Post');
 const User = require('../models/User');
 const Notification = require('../models/Notification');
+const Collection = require('../models/Collection');
+const FeedSession = require('../models/FeedSession');
 const { validationResult } = require('express-validator');
-const multer = require('multer');
+const { FEED_MODES, buildRankingContext, rankPosts } = require('../utils/feedRanking');
+const { resolveMentions, notifyMentions } = require('../utils/textEntities');
+const { mediaUpload } = require('../middleware/upload');
 const path = require('path');
 const fs = require('fs').promises;
 
-// Multer storage configuration for posts
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    const uploadPath = path.join(__dirname, '../uploads/posts');
-    fs.mkdir(uploadPath, { recursive: true })
-      .then(() => cb(null, uploadPath))
-      .catch(err => cb(err));
-  },
-  filename: (req, file, cb) => {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    cb(null, `post-${uniqueSuffix}${path.extname(file.originalname)}`);
+// Multer upload middleware for posts
+const upload = mediaUpload('posts', 'post');
+
+// Most media files a post can have
+const MAX_POST_MEDIA = 10;
+
+// Delete uploaded media files from disk, ignoring files that are already gone
+const removeMediaFiles = async (mediaUrls) => {
+  for (const mediaUrl of mediaUrls) {
+    try {
+      const filePath = path.join(__dirname, '..', mediaUrl);
+      await fs.unlink(filePath);
+    } catch (error) {
+      console.log('Error deleting media file:', error);
+    }
   }
-});
+};
 
-// Multer upload middleware for posts
-const upload = multer({
-  storage: storage,
-  limits: { fileSize: 50 * 1024 * 1024 }, // 50MB limit for videos
-  fileFilter: (req, file, cb) => {
-    const allowedTypes = /jpeg|jpg|png|gif|mp4|mov|avi|webm/;
-    const mimetype = allowedTypes.test(file.mimetype);
-    const extname = allowedTypes.test(path.extname(file.originalname).toLowerCase());
-
-    if (mimetype && extname) {
-      return cb(null, true);
-    } else {
-      cb(new Error('Only images and videos are allowed!'));
+// Parse a location from the request body; null clears it, undefined leaves it unchanged
+const parseLocation = (location) => {
+  if (location === undefined) return undefined;
+  if (location === null || location === '') return null;
+
+  const parsedLocation = typeof location === 'string' ? JSON.parse(location) : location;
+  if (!parsedLocation || !(parsedLocation.name || (parsedLocation.lat && parsedLocation.lng))) {
+    return null;
+  }
+  return {
+    name: parsedLocation.name || '',
+    lat: parsedLocation.lat || null,
+    lng: parsedLocation.lng || null,
+    placeId: parsedLocation.placeId || undefined
+  };
+};
+
+// Build the new media list of an edited post. `mediaOrder` lists the post's current
+// media URLs to keep and "upload:<index>" for newly uploaded files, in display order.
+// Without it, uploads are appended to the current media.
+const resolveMediaOrder = (mediaOrder, currentMedia, uploadedUrls) => {
+  if (mediaOrder === undefined) {
+    return { media: [...currentMedia, ...uploadedUrls] };
+  }
+
+  let entries;
+  try {
+    entries = typeof mediaOrder === 'string' ? JSON.parse(mediaOrder) : mediaOrder;
+  } catch (error) {
+    return { error: 'Invalid media order' };
+  }
+  if (!Array.isArray(entries)) {
+    return { error: 'Invalid media order' };
+  }
+
+  const media = [];
+  for (const entry of entries) {
+    const upload = /^upload:(\d+)$/.exec(entry);
+    const url = upload ? uploadedUrls[Number(upload[1])] : entry;
+    const known = upload ? url !== undefined : currentMedia.includes(url);
+    if (!known || media.includes(url)) {
+      return { error: 'Media order refers to unknown or duplicate media' };
     }
+    media.push(url);
   }
-});
+  return { media };
+};
+
+// Parse the placeholders sent with new uploads: one { blurhash, width, height }
+// or null per uploaded file, in upload order
+const parseMediaMeta = (mediaMeta, uploadedUrls) => {
+  if (mediaMeta === undefined || mediaMeta === null || mediaMeta === '') {
+    return { meta: [] };
+  }
+
+  let entries;
+  try {
+    entries = typeof mediaMeta === 'string' ? JSON.parse(mediaMeta) : mediaMeta;
+  } catch (error) {
+    return { error: 'Invalid media metadata' };
+  }
+  if (!Array.isArray(entries)) {
+    return { error: 'Invalid media metadata' };
+  }
+
+  const isSize = (value) => Number.isFinite(value) && value >= 1;
+  const meta = [];
+  for (const [index, entry] of entries.entries()) {
+    if (entry === null) continue;
+    if (typeof entry !== 'object' || typeof entry.blurhash !== 'string' || !entry.blurhash ||
+        entry.blurhash.length > 100 || !isSize(entry.width) || !isSize(entry.height)) {
+      return { error: 'Invalid media metadata' };
+    }
+    if (uploadedUrls[index]) {
+      meta.push({ url: uploadedUrls[index], blurhash: entry.blurhash, width: entry.width, height: entry.height });
+    }
+  }
+  return { meta };
+};
+
+const isSameLocation = (a, b) => {
+  const normalize = (location) => location && (location.name || location.lat != null)
+    ? [location.name || '', location.lat ?? null, location.lng ?? null].join('|')
+    : '';
+  return normalize(a) === normalize(b);
+};
 
 // @desc    Create a new post
 // @route   POST /api/posts
 // @access  Private
 const createPost = async (req, res, next) => {
+  const mediaUrls = (req.files || []).map(file => `/uploads/posts/${file.filename}`);
+  let saved = false;
+
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
+      await removeMediaFiles(mediaUrls);
       return res.status(400).json({
         success: false,
         message: 'Validation errors',
@@ -51,13 +134,15 @@ const createPost = async (req, res, next) => {
       });
     }
 
-    const { caption, location, isPublic } = req.body;
+    const { caption, location, isPublic, mediaMeta } = req.body;
 
-    // Process uploaded media files
-    const mediaUrls = [];
-    if (req.files && req.files.length > 0) {
-      req.files.forEach(file => {
-        mediaUrls.push(`/uploads/posts/${file.filename}`);
+    // Placeholders arrive in upload order; null entries are files without one
+    const { meta: mediaMetaData, error: mediaMetaError } = parseMediaMeta(mediaMeta, mediaUrls);
+    if (mediaMetaError) {
+      await removeMediaFiles(mediaUrls);
+      return res.status(400).json({
+        success: false,
+        message: mediaMetaError
       });
     }
 
@@ -78,7 +163,8 @@ const createPost = async (req, res, next) => {
           locationData = {
             name: parsedLocation.name || '',
             lat: parsedLocation.lat || null,
-            lng: parsedLocation.lng || null
+            lng: parsedLocation.lng || null,
+            placeId: parsedLocation.placeId || undefined
           };
         }
       } catch (error) {
@@ -91,11 +177,22 @@ const createPost = async (req, res, next) => {
       userId: req.user.id,
       caption: caption || '',
       media: mediaUrls,
+      mediaMeta: mediaMetaData,
       location: locationData,
       isPublic: isPublic !== undefined ? isPublic : true
     });
+    post.mentions = await resolveMentions(post.caption);
 
     await post.save();
+    saved = true;
+
+    await notifyMentions({
+      mentionedIds: post.mentions,
+      senderId: req.user.id,
+      referenceId: post._id,
+      referenceModel: 'Post',
+      context: 'post'
+    });
 
     // Populate user data
     await post.populate('userId', 'username fullName profilePicture');
@@ -111,6 +208,8 @@ const createPost = async (req, res, next) => {
 
   } catch (error) {
     console.error('Create post error:', error);
+    // Once saved, the post serves the uploaded files
+    if (!saved) await removeMediaFiles(mediaUrls);
     res.status(500).json({
       success: false,
       message: 'Server error while creating post',
@@ -119,39 +218,161 @@ const createPost = async (req, res, next) => {
   }
 };
 
-// @desc    Get all posts (feed)
-// @route   GET /api/posts
-// @access  Public
+// Attach the current user's save state to each post
+const withSaveState = async (posts, user) => {
+  const saved = await Collection.getSavedItemIds(user && user.id, 'post', posts.map(post => post._id));
+  return posts.map(post => ({ ...post.toJSON(), isSaved: saved.has(post._id.toString()) }));
+};
+
+// How many candidate posts are ranked at a time as a feed session is scrolled
+const FEED_BATCH_SIZE = 200;
+
+// Most posts a feed session ranks; scrolling stops there so a single request
+// can't rank the whole collection into one session document
+const MAX_FEED_SESSION_POSTS = 1000;
+
+// Posts that can appear in a feed session of the given mode
+const getFeedFilter = (session, viewer) => {
+  const filter = {
+    isPublic: true,
+    isBlocked: false,
+    createdAt: { $lte: session.snapshotAt }
+  };
+  if (session.mode === 'following') {
+    // Posts by the viewer and followed users, or tagged with a followed hashtag
+    filter.$or = [
+      { userId: { $in: viewer ? [viewer._id, ...viewer.following] : [] } },
+      { hashtags: { $in: viewer ? viewer.followedHashtags : [] } }
+    ];
+  }
+  return filter;
+};
+
+// Rank the next batch of older candidates and append them to the session
+const extendFeedSession = async (session, viewer) => {
+  const filter = getFeedFilter(session, viewer);
+  if (session.cursorCreatedAt) {
+    filter.$and = [{
+      $or: [
+        { createdAt: { $lt: session.cursorCreatedAt } },
+        { createdAt: session.cursorCreatedAt, _id: { $lt: session.cursorId } }
+      ]
+    }];
+  }
+
+  const candidates = await Post.find(filter)
+    .select('userId caption hashtags location likes commentsCount createdAt')
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(FEED_BATCH_SIZE);
+
+  if (candidates.length < FEED_BATCH_SIZE) session.exhausted = true;
+  if (candidates.length === 0) return;
+
+  const oldest = candidates[candidates.length - 1];
+  session.cursorCreatedAt = oldest.createdAt;
+  session.cursorId = oldest._id;
+
+  // "Following" is simply newest first; "For you" is ranked
+  const ordered = session.mode === 'following'
+    ? candidates
+    : rankPosts(candidates, buildRankingContext({
+      viewer,
+      origin: session.origin,
+      now: session.snapshotAt,
+      posts: candidates
+    }));
+
+  session.postIds.push(...ordered.map(post => post._id));
+};
+
+// Where proximity is measured from: the given coordinates, else the viewer's latest geotagged post
+const getFeedOrigin = async (query, viewer) => {
+  const lat = parseFloat(query.lat);
+  const lng = parseFloat(query.lng);
+  if (Number.isFinite(lat) && Number.isFinite(lng)) return { lat, lng };
+  if (!viewer) return undefined;
+
+  const lastTagged = await Post.findOne({
+    userId: viewer._id,
+    'location.lat': { $ne: null },
+    'location.lng': { $ne: null }
+  }).sort({ createdAt: -1 }).select('location');
+
+  return lastTagged ? { lat: lastTagged.location.lat, lng: lastTagged.location.lng } : undefined;
+};
+
+// @desc    Get the feed, ranked ("for_you") or from followed users only ("following")
+// @route   GET /api/posts?mode=for_you|following&page=1&limit=20&session=<id>
+// @access  Public (following mode requires login)
 const getAllPosts = async (req, res, next) => {
   try {
-    const page = parseInt(req.query.page) || 1;
-    const limit = parseInt(req.query.limit) || 20;
-    const skip = (page - 1) * limit;
+    const page = Math.max(parseInt(req.query.page) || 1, 1);
+    const limit = Math.min(parseInt(req.query.limit) || 20, 50);
+    const mode = FEED_MODES.includes(req.query.mode) ? req.query.mode : 'for_you';
 
-    const posts = await Post.find({
-      isPublic: true,
-      isBlocked: false
-    })
-    .populate('userId', 'username fullName profilePicture')
-    .sort({ createdAt: -1 })
-    .skip(skip)
-    .limit(limit);
+    if (mode === 'following' && !req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Log in to see posts from people you follow'
+      });
+    }
 
-    const totalPosts = await Post.countDocuments({
-      isPublic: true,
-      isBlocked: false
-    });
+    const viewer = req.user
+      ? await User.findById(req.user.id).select('following interests followedHashtags')
+      : null;
+
+    // Later pages continue the session the first page started
+    let session = null;
+    let sessionExpired = false;
+    if (page > 1 && mongoose.isValidObjectId(req.query.session)) {
+      session = await FeedSession.findOne({ _id: req.query.session, user: viewer ? viewer._id : null, mode });
+    }
+    if (page > 1 && !session) {
+      // The session ran out; start over so the client can replace its list
+      sessionExpired = true;
+    }
+    const currentPage = sessionExpired ? 1 : page;
+
+    if (!session) {
+      session = new FeedSession({
+        user: viewer ? viewer._id : null,
+        mode,
+        snapshotAt: new Date(),
+        origin: mode === 'for_you' ? await getFeedOrigin(req.query, viewer) : undefined
+      });
+    }
+
+    const pageEnd = Math.min(currentPage * limit, MAX_FEED_SESSION_POSTS);
+    while (session.postIds.length < pageEnd && !session.exhausted) {
+      await extendFeedSession(session, viewer);
+    }
+    await session.save();
+
+    // Load the page in session order; posts deleted or removed since are skipped
+    const pageIds = session.postIds.slice((currentPage - 1) * limit, pageEnd);
+    const found = await Post.find({ _id: { $in: pageIds }, isBlocked: false })
+      .populate('userId', 'username fullName profilePicture');
+    const byId = new Map(found.map(post => [post._id.toString(), post]));
+    const posts = pageIds.map(id => byId.get(id.toString())).filter(Boolean);
+
+    const totalPosts = Math.min(session.exhausted
+      ? session.postIds.length
+      : await Post.countDocuments(getFeedFilter(session, viewer)), MAX_FEED_SESSION_POSTS);
+    const totalPages = Math.ceil(totalPosts / limit);
 
     res.status(200).json({
       success: true,
       data: {
-        posts,
+        posts: await withSaveState(posts, req.user),
+        mode,
+        session: session._id,
+        sessionExpired,
         pagination: {
-          currentPage: page,
-          totalPages: Math.ceil(totalPosts / limit),
+          currentPage,
+          totalPages,
           totalItems: totalPosts,
-          hasNext: page < Math.ceil(totalPosts / limit),
-          hasPrev: page > 1
+          hasNext: pageEnd < MAX_FEED_SESSION_POSTS && (session.postIds.length > pageEnd || !session.exhausted),
+          hasPrev: currentPage > 1
         }
       }
     });
@@ -170,12 +391,15 @@ const getAllPosts = async (req, res, next) => {
 // @access  Public
 const getPostById = async (req, res, next) => {
   try {
-    const post = await Post.findById(req.params.id)
-      .populate('userId', 'username fullName profilePicture')
-      .populate({
-        path: 'likes',
-        select: 'username fullName profilePicture'
-      });
+    // Malformed ids are reported as missing, as shared links can be mistyped
+    const post = mongoose.isValidObjectId(req.params.id)
+      ? await Post.findById(req.params.id)
+        .populate('userId', 'username fullName profilePicture')
+        .populate({
+          path: 'likes',
+          select: 'username fullName profilePicture'
+        })
+      : null;
 
     if (!post) {
       return res.status(404).json({
@@ -184,16 +408,19 @@ const getPostById = async (req, res, next) => {
       });
     }
 
-    if (!post.isPublic && (!req.user || !req.user.id.equals(post.userId._id))) {
-      return res.status(403).json({
+    const accessError = post.getAccessError(req.user);
+    if (accessError) {
+      return res.status(accessError.status).json({
         success: false,
-        message: 'Access denied to private post'
+        message: accessError.message
       });
     }
 
+    const [postWithSaveState] = await withSaveState([post], req.user);
+
     res.status(200).json({
       success: true,
-      data: post
+      data: postWithSaveState
     });
 
   } catch (error) {
@@ -205,14 +432,29 @@ const getPostById = async (req, res, next) => {
   }
 };
 
-// @desc    Update post
+// @desc    Update post: caption, location, visibility and media (add, remove, reorder).
+//          Changes to the caption, media or location keep the previous version in the edit history.
 // @route   PUT /api/posts/:id
 // @access  Private (owner only)
 const updatePost = async (req, res, next) => {
+  const uploadedUrls = (req.files || []).map(file => `/uploads/posts/${file.filename}`);
+  let saved = false;
+
   try {
-    const post = await Post.findById(req.params.id);
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      await removeMediaFiles(uploadedUrls);
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const post = await Post.findById(req.params.id).select('+editHistory');
 
     if (!post) {
+      await removeMediaFiles(uploadedUrls);
       return res.status(404).json({
         success: false,
         message: 'Post not found'
@@ -221,43 +463,95 @@ const updatePost = async (req, res, next) => {
 
     // Check if user owns the post
     if (!post.userId.equals(req.user.id)) {
+      await removeMediaFiles(uploadedUrls);
       return res.status(403).json({
         success: false,
         message: 'Not authorized to update this post'
       });
     }
 
-    const { caption, location, isPublic } = req.body;
+    const { caption, location, isPublic, mediaOrder } = req.body;
 
-    // Update allowed fields
-    if (caption !== undefined) post.caption = caption;
-    if (isPublic !== undefined) post.isPublic = isPublic;
+    const { media, error: mediaError } = resolveMediaOrder(mediaOrder, post.media, uploadedUrls);
+    let newLocation;
+    try {
+      newLocation = parseLocation(location);
+    } catch (error) {
+      console.log('Location parsing error:', error);
+      newLocation = undefined;
+    }
+    const newCaption = caption !== undefined ? caption.trim() : post.caption;
 
-    // Update location if provided
-    if (location) {
-      try {
-        const parsedLocation = typeof location === 'string' ? JSON.parse(location) : location;
-        post.location = {
-          name: parsedLocation.name || '',
-          lat: parsedLocation.lat || null,
-          lng: parsedLocation.lng || null
-        };
-      } catch (error) {
-        console.log('Location parsing error:', error);
-      }
+    if (mediaError || media.length > MAX_POST_MEDIA || (media.length === 0 && !newCaption)) {
+      await removeMediaFiles(uploadedUrls);
+      return res.status(400).json({
+        success: false,
+        message: mediaError ||
+          (media.length > MAX_POST_MEDIA
+            ? `A post can have at most ${MAX_POST_MEDIA} media files`
+            : 'Post must have either caption or media')
+      });
+    }
+
+    const captionChanged = newCaption !== post.caption;
+    const mediaChanged = media.length !== post.media.length || media.some((url, i) => url !== post.media[i]);
+    const locationChanged = newLocation !== undefined && !isSameLocation(newLocation, post.location);
+
+    // Keep the current version before changing what readers see
+    const previousMedia = [...post.media];
+    let droppedMedia = [];
+    if (captionChanged || mediaChanged || locationChanged) {
+      droppedMedia = post.recordEdit();
     }
 
+    const previousMentions = [...post.mentions];
+    if (captionChanged) {
+      post.caption = newCaption;
+      post.mentions = await resolveMentions(newCaption);
+    }
+    if (mediaChanged) {
+      post.media = media;
+      post.mediaMeta = (post.mediaMeta || []).filter(meta => media.includes(meta.url));
+    }
+    if (locationChanged) post.location = newLocation;
+    if (isPublic !== undefined) post.isPublic = isPublic;
+
+    // Removed media stop being served, even to the history
+    const forgottenMedia = post.forgetRemovedMedia();
+
     await post.save();
+    saved = true;
+
+    // Files no longer used by the post or any version it still remembers
+    const referenced = post.getReferencedMedia();
+    await removeMediaFiles([...previousMedia, ...droppedMedia, ...forgottenMedia, ...uploadedUrls]
+      .filter((url, i, all) => !referenced.has(url) && all.indexOf(url) === i));
+
+    // Only users mentioned by this edit are notified
+    await notifyMentions({
+      mentionedIds: post.mentions,
+      previousIds: previousMentions,
+      senderId: req.user.id,
+      referenceId: post._id,
+      referenceModel: 'Post',
+      context: 'post'
+    });
+
     await post.populate('userId', 'username fullName profilePicture');
 
+    const data = post.toJSON();
+    delete data.editHistory;
+
     res.status(200).json({
       success: true,
       message: 'Post updated successfully',
-      data: post
+      data
     });
 
   } catch (error) {
     console.error('Update post error:', error);
+    // Once saved, the post serves the uploaded files
+    if (!saved) await removeMediaFiles(uploadedUrls);
     res.status(500).json({
       success: false,
       message: 'Server error while updating post'
@@ -265,12 +559,50 @@ const updatePost = async (req, res, next) => {
   }
 };
 
+// @desc    Get the previous versions of a post, newest first
+// @route   GET /api/posts/:id/history
+// @access  Private (owner only)
+const getPostEditHistory = async (req, res, next) => {
+  try {
+    const post = await Post.findById(req.params.id).select('+editHistory userId editedAt');
+
+    if (!post) {
+      return res.status(404).json({
+        success: false,
+        message: 'Post not found'
+      });
+    }
+
+    if (!post.userId.equals(req.user.id)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the author can see the edit history of this post'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        editedAt: post.editedAt,
+        versions: [...(post.editHistory || [])].reverse()
+      }
+    });
+
+  } catch (error) {
+    console.error('Get post edit history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching edit history'
+    });
+  }
+};
+
 // @desc    Delete post
 // @route   DELETE /api/posts/:id
 // @access  Private (owner only)
 const deletePost = async (req, res, next) => {
   try {
-    const post = await Post.findById(req.params.id);
+    const post = await Post.findById(req.params.id).select('+editHistory');
 
     if (!post) {
       return res.status(404).json({
@@ -287,17 +619,8 @@ const deletePost = async (req, res, next) => {
       });
     }
 
-    // Delete media files
-    if (post.media && post.media.length > 0) {
-      for (const mediaUrl of post.media) {
-        try {
-          const filePath = path.join(__dirname, '..', mediaUrl);
-          await fs.unlink(filePath);
-        } catch (error) {
-          console.log('Error deleting media file:', error);
-        }
-      }
-    }
+    // Delete media files, including those only kept for the edit history
+    await removeMediaFiles([...post.getReferencedMedia()]);
 
     await Post.findByIdAndDelete(req.params.id);
 
@@ -385,7 +708,7 @@ const getPostsByUser = async (req, res, next) => {
     res.status(200).json({
       success: true,
       data: {
-        posts,
+        posts: await withSaveState(posts, req.user),
         pagination: {
           currentPage: page,
           totalPages: Math.ceil(totalPosts / limit),
@@ -431,11 +754,26 @@ const getPostsByHashtag = async (req, res, next) => {
       isBlocked: false
     });
 
+    // Related tags and followers only with the first page
+    let relatedTags;
+    let followersCount;
+    let isFollowing = false;
+    if (page === 1) {
+      relatedTags = await Post.getRelatedHashtags({ hashtags: hashtag.toLowerCase() }, hashtag.toLowerCase());
+      followersCount = await User.countDocuments({ followedHashtags: hashtag.toLowerCase() });
+    }
+    if (req.user) {
+      isFollowing = !!(await User.exists({ _id: req.user.id, followedHashtags: hashtag.toLowerCase() }));
+    }
+
     res.status(200).json({
       success: true,
       data: {
-        posts,
+        posts: await withSaveState(posts, req.user),
         hashtag: hashtag,
+        relatedTags,
+        followersCount,
+        isFollowing,
         pagination: {
           currentPage: page,
           totalPages: Math.ceil(totalPosts / limit),
@@ -455,6 +793,151 @@ const getPostsByHashtag = async (req, res, next) => {
   }
 };
 
+// @desc    Suggest hashtags starting with a prefix, most used first
+// @route   GET /api/posts/hashtags/search
+// @access  Public
+const searchHashtags = async (req, res, next) => {
+  try {
+    const prefix = String(req.query.q || '').replace(/^#/, '').toLowerCase();
+    const limit = Math.min(parseInt(req.query.limit) || 8, 20);
+
+    if (!/^[a-z0-9_]+$/.test(prefix)) {
+      return res.status(200).json({
+        success: true,
+        data: {
+          hashtags: []
+        }
+      });
+    }
+
+    const match = { $regex: `^${prefix}` };
+    const hashtags = await Post.aggregate([
+      { $match: { hashtags: match, isPublic: true, isBlocked: false } },
+      { $unwind: '$hashtags' },
+      { $match: { hashtags: match } },
+      { $group: { _id: '$hashtags', postsCount: { $sum: 1 } } },
+      { $sort: { postsCount: -1, _id: 1 } },
+      { $limit: limit }
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        hashtags: hashtags.map(tag => ({ tag: tag._id, postsCount: tag.postsCount }))
+      }
+    });
+
+  } catch (error) {
+    console.error('Search hashtags error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while searching hashtags'
+    });
+  }
+};
+
+// How far back trending hashtags look by default
+const TRENDING_WINDOW_HOURS = Number(process.env.TRENDING_WINDOW_HOURS) || 72;
+
+// @desc    Get trending hashtags over a sliding time window
+// @route   GET /api/posts/hashtags/trending
+// @access  Public
+const getTrendingHashtags = async (req, res, next) => {
+  try {
+    const hours = Math.min(Math.max(parseInt(req.query.hours) || TRENDING_WINDOW_HOURS, 1), 24 * 30);
+    const limit = Math.min(parseInt(req.query.limit) || 10, 30);
+
+    const hashtags = await Post.getTrendingHashtags(hours, limit);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        hashtags,
+        windowHours: hours
+      }
+    });
+
+  } catch (error) {
+    console.error('Get trending hashtags error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching trending hashtags'
+    });
+  }
+};
+
+// @desc    Get posts tagged at a place
+// @route   GET /api/posts/place/:placeId
+// @access  Public
+const getPostsByPlace = async (req, res, next) => {
+  try {
+    const { placeId } = req.params;
+    const page = Math.max(parseInt(req.query.page) || 1, 1);
+    const limit = Math.min(parseInt(req.query.limit) || 20, 50);
+    const skip = (page - 1) * limit;
+
+    const filter = {
+      'location.placeId': placeId,
+      isPublic: true,
+      isBlocked: false
+    };
+
+    const posts = await Post.find(filter)
+      .populate('userId', 'username fullName profilePicture')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    const totalPosts = await Post.countDocuments(filter);
+
+    // Place details come from its most recent post
+    let place = null;
+    let relatedTags;
+    if (page === 1) {
+      const latest = posts[0] || await Post.findOne(filter).sort({ createdAt: -1 }).select('location');
+      if (latest) {
+        place = {
+          placeId,
+          name: latest.location.name,
+          lat: latest.location.lat,
+          lng: latest.location.lng
+        };
+      }
+      relatedTags = await Post.getRelatedHashtags({ 'location.placeId': placeId });
+    }
+
+    if (page === 1 && !place) {
+      return res.status(404).json({
+        success: false,
+        message: 'Place not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        posts: await withSaveState(posts, req.user),
+        place,
+        relatedTags,
+        pagination: {
+          currentPage: page,
+          totalPages: Math.ceil(totalPosts / limit),
+          totalItems: totalPosts,
+          hasNext: page < Math.ceil(totalPosts / limit),
+          hasPrev: page > 1
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Get place posts error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching place posts'
+    });
+  }
+};
+
 // @desc    Get posts by location (nearby)
 // @route   GET /api/posts/location
 // @access  Public
@@ -492,7 +975,7 @@ const getPostsByLocation = async (req, res, next) => {
     res.status(200).json({
       success: true,
       data: {
-        posts,
+        posts: await withSaveState(posts, req.user),
         location: { lat: parseFloat(lat), lng: parseFloat(lng) },
         radius: radiusKm
       }
@@ -536,7 +1019,7 @@ const searchPosts = async (req, res, next) => {
     res.status(200).json({
       success: true,
       data: {
-        posts,
+        posts: await withSaveState(posts, req.user),
         query: query.trim(),
         pagination: {
           currentPage: parseInt(page)
@@ -558,10 +1041,14 @@ module.exports = {
   getAllPosts,
   getPostById,
   updatePost,
+  getPostEditHistory,
   deletePost,
   toggleLikePost,
   getPostsByUser,
   getPostsByHashtag,
+  searchHashtags,
+  getTrendingHashtags,
+  getPostsByPlace,
   getPostsByLocation,
   searchPosts,
   upload
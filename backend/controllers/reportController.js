@@ -0,0 +1,542 @@
+const mongoose = require('mongoose');
+const Report = require('../models/Report');
+const Post = require('../models/Post');
+const Comment = require('../models/Comment');
+const User = require('../models/User');
+const Message = require('../models/Message');
+const Conversation = require('../models/Conversation');
+const Trip = require('../models/Trip');
+const Notification = require('../models/Notification');
+const { validationResult } = require('express-validator');
+const { can } = require('../utils/tripPermissions');
+
+// How to find the author and a text preview for each kind of reportable content
+const REPORT_TARGETS = {
+  post: { model: Post, modelName: 'Post', owner: (doc) => doc.userId, preview: (doc) => doc.caption },
+  comment: { model: Comment, modelName: 'Comment', owner: (doc) => doc.userId, preview: (doc) => doc.commentText },
+  user: { model: User, modelName: 'User', owner: (doc) => doc._id, preview: (doc) => `@${doc.username}` },
+  message: { model: Message, modelName: 'Message', owner: (doc) => doc.senderId, preview: (doc) => doc.messageText },
+  trip: { model: Trip, modelName: 'Trip', owner: (doc) => doc.createdBy, preview: (doc) => doc.tripName }
+};
+
+const OPEN_STATUSES = ['pending', 'investigating'];
+const PRIORITY_ORDER = ['urgent', 'high', 'medium', 'low'];
+const DEFAULT_SUSPENSION_DAYS = 7;
+
+const REPORT_POPULATE = [
+  { path: 'reporterId', select: 'username fullName profilePicture' },
+  { path: 'handledBy', select: 'username fullName profilePicture' },
+  { path: 'reportedUser', select: 'username fullName profilePicture role isActive suspendedUntil' }
+];
+
+const describeReason = (reason) => reason.replace(/_/g, ' ');
+
+// Hide the reported content from everyone but admins
+const removeContent = async (report, adminId, reason) => {
+  switch (report.reportedType) {
+    case 'post':
+      return Post.blockPost(report.reportedId, adminId, reason);
+    case 'comment':
+      return Comment.blockComment(report.reportedId, adminId, reason);
+    case 'message':
+      return Message.blockMessage(report.reportedId, adminId, reason);
+    case 'trip':
+      return Trip.findByIdAndUpdate(report.reportedId, {
+        isBlocked: true,
+        blockedReason: reason,
+        blockedBy: adminId,
+        blockedAt: new Date()
+      }, { new: true });
+    default:
+      return null;
+  }
+};
+
+// Whether the reported content is still shown, already removed, or gone entirely
+const attachContentState = async (reports) => {
+  const idsByType = {};
+  reports.forEach(report => {
+    if (report.reportedType === 'user') return;
+    (idsByType[report.reportedType] = idsByType[report.reportedType] || []).push(report.reportedId);
+  });
+
+  const blocked = new Map();
+  await Promise.all(Object.entries(idsByType).map(async ([type, ids]) => {
+    const docs = await REPORT_TARGETS[type].model.find({ _id: { $in: ids } }).select('isBlocked');
+    docs.forEach(doc => blocked.set(doc._id.toString(), !!doc.isBlocked));
+  }));
+
+  return reports.map(report => {
+    let contentState = 'visible';
+    if (report.reportedType === 'user') {
+      const user = report.reportedUser;
+      if (!user) contentState = 'deleted';
+      else if (!user.isActive) contentState = 'banned';
+      else if (user.suspendedUntil && new Date(user.suspendedUntil) > new Date()) contentState = 'suspended';
+    } else {
+      const id = report.reportedId.toString();
+      if (!blocked.has(id)) contentState = 'deleted';
+      else if (blocked.get(id)) contentState = 'removed';
+    }
+    return { ...report, contentState };
+  });
+};
+
+// Close every other open report about the same content with the same outcome
+const closeDuplicateReports = (report, adminId, status, actionTaken) => {
+  return Report.updateMany({
+    _id: { $ne: report._id },
+    reportedType: report.reportedType,
+    reportedId: report.reportedId,
+    status: { $in: OPEN_STATUSES }
+  }, {
+    status,
+    actionTaken,
+    handledBy: adminId,
+    adminNotes: `Closed together with report ${report._id}`,
+    resolvedAt: new Date()
+  });
+};
+
+// @desc    Report a post, comment, user, message or trip
+// @route   POST /api/reports
+// @access  Private
+const createReport = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const { reportedType, reportedId, reason, description } = req.body;
+    const target = REPORT_TARGETS[reportedType];
+    const content = await target.model.findById(reportedId);
+
+    if (!content) {
+      return res.status(404).json({
+        success: false,
+        message: 'Reported content not found'
+      });
+    }
+
+    const ownerId = target.owner(content);
+    if (ownerId && ownerId.toString() === req.user.id) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot report your own content'
+      });
+    }
+
+    // Only people who can see the content may report it
+    if (reportedType === 'message') {
+      const conversation = await Conversation.findById(content.conversationId);
+      if (!conversation || !conversation.isMember(req.user.id)) {
+        return res.status(403).json({
+          success: false,
+          message: 'You can only report messages from your own conversations'
+        });
+      }
+    }
+    if (reportedType === 'trip' && !content.isPublic && !can(content, req.user.id, 'view')) {
+      return res.status(403).json({
+        success: false,
+        message: 'Access denied'
+      });
+    }
+
+    let report;
+    try {
+      report = await Report.createReport({
+        reporterId: req.user.id,
+        reportedType,
+        reportedId,
+        reportedModel: target.modelName,
+        reportedUser: ownerId,
+        contentPreview: (target.preview(content) || '').slice(0, 500),
+        reason,
+        description
+      });
+    } catch (error) {
+      if (error.message === 'You have already reported this content') {
+        return res.status(400).json({
+          success: false,
+          message: error.message
+        });
+      }
+      throw error;
+    }
+
+    if (reportedType === 'post' || reportedType === 'comment') {
+      await target.model.findByIdAndUpdate(reportedId, { isReported: true });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Thanks, our moderators will review this report',
+      data: {
+        _id: report._id,
+        status: report.status
+      }
+    });
+
+  } catch (error) {
+    console.error('Create report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while creating report'
+    });
+  }
+};
+
+// @desc    Get the moderation queue
+// @route   GET /api/admin/reports
+// @access  Private (admin only)
+const getReports = async (req, res, next) => {
+  try {
+    const page = parseInt(req.query.page) || 1;
+    const limit = Math.min(parseInt(req.query.limit) || 20, 100);
+    const { status = 'open', priority, type, assignee } = req.query;
+
+    const match = {};
+    if (status === 'open') {
+      match.status = { $in: OPEN_STATUSES };
+    } else if (status !== 'all') {
+      match.status = status;
+    }
+    if (priority) match.priority = priority;
+    if (type) match.reportedType = type;
+    if (assignee === 'me') {
+      match.handledBy = req.user._id;
+    } else if (assignee === 'unassigned') {
+      match.handledBy = null;
+    } else if (assignee && mongoose.isValidObjectId(assignee)) {
+      match.handledBy = new mongoose.Types.ObjectId(assignee);
+    }
+
+    // Open reports are triaged most urgent first, then oldest first;
+    // closed ones are listed most recent first
+    const sort = status === 'open'
+      ? { priorityRank: 1, createdAt: 1 }
+      : { createdAt: -1 };
+
+    const [reports, total] = await Promise.all([
+      Report.aggregate([
+        { $match: match },
+        { $addFields: { priorityRank: { $indexOfArray: [PRIORITY_ORDER, '$priority'] } } },
+        { $sort: sort },
+        { $skip: (page - 1) * limit },
+        { $limit: limit },
+        { $project: { priorityRank: 0 } }
+      ]),
+      Report.countDocuments(match)
+    ]);
+
+    await Report.populate(reports, REPORT_POPULATE);
+
+    res.status(200).json({
+      success: true,
+      data: await attachContentState(reports),
+      pagination: {
+        page,
+        limit,
+        total,
+        hasMore: page * limit < total
+      }
+    });
+
+  } catch (error) {
+    console.error('Get reports error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching reports'
+    });
+  }
+};
+
+// @desc    Get report counts for the moderation dashboard
+// @route   GET /api/admin/reports/stats
+// @access  Private (admin only)
+const getReportStats = async (req, res, next) => {
+  try {
+    const [stats, priorityStats] = await Promise.all([
+      Report.getReportStats(),
+      Report.aggregate([
+        { $match: { status: { $in: OPEN_STATUSES } } },
+        { $group: { _id: '$priority', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...stats,
+        priorityStats
+      }
+    });
+
+  } catch (error) {
+    console.error('Get report stats error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching report statistics'
+    });
+  }
+};
+
+// @desc    Get admins that reports can be assigned to
+// @route   GET /api/admin/reports/assignees
+// @access  Private (admin only)
+const getAssignees = async (req, res, next) => {
+  try {
+    const admins = await User.getAdmins().select('username fullName profilePicture');
+
+    res.status(200).json({
+      success: true,
+      data: admins
+    });
+
+  } catch (error) {
+    console.error('Get assignees error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching admins'
+    });
+  }
+};
+
+// @desc    Assign a report to an admin (defaults to the current admin)
+// @route   PUT /api/admin/reports/:id/assign
+// @access  Private (admin only)
+const assignReport = async (req, res, next) => {
+  try {
+    const report = await Report.findById(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    if (!OPEN_STATUSES.includes(report.status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'This report has already been closed'
+      });
+    }
+
+    const adminId = req.body.adminId || req.user.id;
+    const admin = mongoose.isValidObjectId(adminId)
+      ? await User.findOne({ _id: adminId, role: 'admin', isActive: true })
+      : null;
+
+    if (!admin) {
+      return res.status(400).json({
+        success: false,
+        message: 'Reports can only be assigned to an active admin'
+      });
+    }
+
+    await report.assignTo(admin._id);
+    await report.populate(REPORT_POPULATE);
+
+    res.status(200).json({
+      success: true,
+      message: `Report assigned to ${admin.username}`,
+      data: report
+    });
+
+  } catch (error) {
+    console.error('Assign report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while assigning report'
+    });
+  }
+};
+
+// @desc    Resolve a report by warning, removing content, suspending or banning
+// @route   PUT /api/admin/reports/:id/resolve
+// @access  Private (admin only)
+const resolveReport = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const { action, adminNotes, suspensionDays } = req.body;
+    const report = await Report.findById(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    if (!OPEN_STATUSES.includes(report.status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'This report has already been closed'
+      });
+    }
+
+    const offender = report.reportedUser ? await User.findById(report.reportedUser) : null;
+    if (!offender && action !== 'content_removed') {
+      return res.status(400).json({
+        success: false,
+        message: 'The reported user no longer exists'
+      });
+    }
+
+    if (action !== 'content_removed' && offender.role === 'admin') {
+      return res.status(400).json({
+        success: false,
+        message: 'Admins cannot be warned, suspended or banned through reports'
+      });
+    }
+
+    const reasonText = adminNotes || describeReason(report.reason);
+
+    switch (action) {
+      case 'warning':
+        await Notification.createAdminWarningNotification(
+          offender._id,
+          `Your ${report.reportedType} was reported for ${describeReason(report.reason)}`,
+          req.user.id
+        );
+        break;
+
+      case 'content_removed': {
+        if (report.reportedType === 'user') {
+          return res.status(400).json({
+            success: false,
+            message: 'Accounts cannot be removed as content; suspend or ban the user instead'
+          });
+        }
+        const removed = await removeContent(report, req.user.id, reasonText);
+        if (!removed) {
+          return res.status(404).json({
+            success: false,
+            message: 'Reported content no longer exists'
+          });
+        }
+        if (offender) await Notification.createAdminWarningNotification(
+          offender._id,
+          `Your ${report.reportedType} was removed for ${describeReason(report.reason)}`,
+          req.user.id
+        );
+        break;
+      }
+
+      case 'user_suspended': {
+        const days = parseInt(suspensionDays) || DEFAULT_SUSPENSION_DAYS;
+        offender.suspendedUntil = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+        offender.suspensionReason = reasonText;
+        await offender.save({ validateModifiedOnly: true });
+        break;
+      }
+
+      case 'user_banned':
+        offender.isActive = false;
+        offender.suspensionReason = reasonText;
+        offender.refreshToken = undefined;
+        await offender.save({ validateModifiedOnly: true });
+        break;
+    }
+
+    // Drop live connections of suspended or banned users straight away
+    if (action === 'user_suspended' || action === 'user_banned') {
+      const io = req.app.get('io');
+      if (io) io.in(`user-${offender._id}`).disconnectSockets(true);
+    }
+
+    await report.resolve(req.user.id, action, adminNotes);
+    await closeDuplicateReports(report, req.user.id, 'resolved', action);
+    await report.populate(REPORT_POPULATE);
+
+    res.status(200).json({
+      success: true,
+      message: 'Report resolved',
+      data: report
+    });
+
+  } catch (error) {
+    console.error('Resolve report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while resolving report'
+    });
+  }
+};
+
+// @desc    Dismiss a report without taking action
+// @route   PUT /api/admin/reports/:id/dismiss
+// @access  Private (admin only)
+const dismissReport = async (req, res, next) => {
+  try {
+    const report = await Report.findById(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        message: 'Report not found'
+      });
+    }
+
+    if (!OPEN_STATUSES.includes(report.status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'This report has already been closed'
+      });
+    }
+
+    await report.dismiss(req.user.id, req.body.adminNotes);
+
+    // Clear the reported flag once nothing else is waiting on the content
+    if (report.reportedType === 'post' || report.reportedType === 'comment') {
+      const stillOpen = await Report.exists({
+        reportedType: report.reportedType,
+        reportedId: report.reportedId,
+        status: { $in: OPEN_STATUSES }
+      });
+      if (!stillOpen) {
+        await REPORT_TARGETS[report.reportedType].model.findByIdAndUpdate(report.reportedId, { isReported: false });
+      }
+    }
+
+    await report.populate(REPORT_POPULATE);
+
+    res.status(200).json({
+      success: true,
+      message: 'Report dismissed',
+      data: report
+    });
+
+  } catch (error) {
+    console.error('Dismiss report error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while dismissing report'
+    });
+  }
+};
+
+module.exports = {
+  createReport,
+  getReports,
+  getReportStats,
+  getAssignees,
+  assignReport,
+  resolveReport,
+  dismissReport
+};
@@ -0,0 +1,185 @@
+const User = require('../models/User');
+const UserSettings = require('../models/UserSettings');
+const { validationResult } = require('express-validator');
+const { getPresence, broadcastPresence } = require('../utils/presence');
+const { sendVerificationEmail, sendEmailChangedNotice } = require('../utils/accountEmails');
+
+// Settings kept on the UserSettings document, by path
+const SETTINGS_PATHS = [
+  'privacy.allowJoinRequests',
+  'security.loginAlerts',
+  'appearance.theme',
+  'appearance.compactMode'
+];
+
+// One view over the User fields and the settings document, grouped by settings tab
+const serializeSettings = (user, settings) => ({
+  account: {
+    fullName: user.fullName || '',
+    email: user.email,
+    isVerified: user.isVerified
+  },
+  privacy: {
+    showOnline: user.showOnline !== false,
+    allowJoinRequests: settings.privacy.allowJoinRequests
+  },
+  security: {
+    loginAlerts: settings.security.loginAlerts,
+    // Read-only here; changed through the /api/auth/2fa endpoints
+    twoFactorEnabled: !!user.twoFactorEnabled,
+    recoveryCodesRemaining: user.twoFactorEnabled ? (user.twoFactorRecoveryCodes || []).length : 0
+  },
+  appearance: {
+    theme: settings.appearance.theme,
+    compactMode: settings.appearance.compactMode
+  },
+  updatedAt: settings.updatedAt
+});
+
+const getValue = (source, path) => path.split('.').reduce((value, key) => value?.[key], source);
+
+// @desc    Get the current user's settings
+// @route   GET /api/settings
+// @access  Private
+const getSettings = async (req, res, next) => {
+  try {
+    const [user, settings] = await Promise.all([
+      User.findById(req.user.id).select('+twoFactorRecoveryCodes'),
+      UserSettings.forUser(req.user.id)
+    ]);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: serializeSettings(user, settings)
+    });
+
+  } catch (error) {
+    console.error('Get settings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching settings'
+    });
+  }
+};
+
+// @desc    Update the current user's settings (any subset of the fields)
+// @route   PUT /api/settings
+// @access  Private
+const updateSettings = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    const [user, settings] = await Promise.all([
+      User.findById(req.user.id).select('+password +twoFactorRecoveryCodes'),
+      UserSettings.forUser(req.user.id)
+    ]);
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const { account = {}, privacy = {} } = req.body;
+    const oldEmail = user.email;
+
+    if (account.fullName !== undefined) {
+      user.fullName = account.fullName;
+    }
+
+    // A new address has to be verified again
+    const emailChanged = account.email !== undefined && account.email !== user.email;
+    if (emailChanged) {
+      // Changing the email hands over password resets, so ask for the password like change-password does
+      if (!account.currentPassword) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation errors',
+          errors: [{ path: 'account.currentPassword', msg: 'Enter your current password to change your email' }]
+        });
+      }
+      if (!(await user.matchPassword(account.currentPassword))) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation errors',
+          errors: [{ path: 'account.currentPassword', msg: 'Current password is incorrect' }]
+        });
+      }
+
+      const taken = await User.exists({ email: account.email, _id: { $ne: user._id } });
+      if (taken) {
+        return res.status(400).json({
+          success: false,
+          message: 'Validation errors',
+          errors: [{ path: 'account.email', msg: 'That email is already used by another account' }]
+        });
+      }
+      user.email = account.email;
+      user.isVerified = false;
+    }
+
+    const showOnlineChanged = privacy.showOnline !== undefined && privacy.showOnline !== (user.showOnline !== false);
+    if (privacy.showOnline !== undefined) {
+      user.showOnline = privacy.showOnline;
+    }
+
+    SETTINGS_PATHS.forEach(path => {
+      const value = getValue(req.body, path);
+      if (value !== undefined) settings.set(path, value);
+    });
+
+    await user.save();
+    await settings.save();
+
+    // Hide or reveal presence for conversation partners straight away
+    if (showOnlineChanged) {
+      await broadcastPresence(req.app.get('io'), user, getPresence(user));
+    }
+
+    if (emailChanged) {
+      try {
+        await sendVerificationEmail(user);
+      } catch (mailError) {
+        console.error('Verification email error:', mailError);
+      }
+      try {
+        await sendEmailChangedNotice(user, oldEmail);
+      } catch (mailError) {
+        console.error('Email changed notice error:', mailError);
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      message: emailChanged ? `Settings saved. We sent a verification link to ${user.email}` : 'Settings saved',
+      data: serializeSettings(user, settings)
+    });
+
+  } catch (error) {
+    console.error('Update settings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while saving settings'
+    });
+  }
+};
+
+module.exports = {
+  getSettings,
+  updateSettings
+};
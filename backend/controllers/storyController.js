@@ -0,0 +1,295 @@
+const mongoose = require('mongoose');
+const Story = require('../models/Story');
+const User = require('../models/User');
+const { validationResult } = require('express-validator');
+const { mediaUpload } = require('../middleware/upload');
+const path = require('path');
+const fs = require('fs').promises;
+
+// Multer upload middleware for stories (same file types as posts)
+const upload = mediaUpload('stories', 'story');
+
+// Stories are visible to their author and the author's followers
+const canViewStories = (authorId, viewer) => {
+  if (!viewer) return false;
+  if (authorId.toString() === viewer._id.toString()) return true;
+  return viewer.following.some(id => id.toString() === authorId.toString());
+};
+
+// Shape a story for the viewer; only the author gets view counts
+const formatStory = (story, viewerId) => {
+  const isOwn = (story.userId._id || story.userId).toString() === viewerId;
+  return {
+    _id: story._id,
+    media: story.media,
+    mediaType: story.mediaType,
+    caption: story.caption,
+    createdAt: story.createdAt,
+    expiresAt: story.expiresAt,
+    seen: isOwn || story.isViewedBy(viewerId),
+    ...(isOwn && { viewersCount: story.viewers.length })
+  };
+};
+
+// @desc    Post a story
+// @route   POST /api/stories
+// @access  Private
+const createStory = async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation errors',
+        errors: errors.array()
+      });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'A story needs a photo or video'
+      });
+    }
+
+    const story = await Story.create({
+      userId: req.user.id,
+      media: `/uploads/stories/${req.file.filename}`,
+      mediaType: req.file.mimetype.startsWith('video/') ? 'video' : 'image',
+      caption: req.body.caption || ''
+    });
+
+    await story.populate('userId', 'username fullName profilePicture');
+
+    res.status(201).json({
+      success: true,
+      message: 'Story posted',
+      data: {
+        ...formatStory(story, req.user.id),
+        userId: story.userId
+      }
+    });
+
+  } catch (error) {
+    console.error('Create story error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while posting story'
+    });
+  }
+};
+
+// @desc    Get the stories tray: the current user's stories and those of followed users
+// @route   GET /api/stories/tray
+// @access  Private
+const getStoryTray = async (req, res, next) => {
+  try {
+    const viewerId = req.user.id;
+    const currentUser = await User.findById(viewerId).select('following');
+    const stories = await Story.getActiveStories([viewerId, ...currentUser.following]);
+
+    // Group by author, keeping each author's stories oldest first
+    const groups = new Map();
+    stories.forEach(story => {
+      if (!story.userId) return; // Author's account was deleted
+      const authorId = story.userId._id.toString();
+      if (!groups.has(authorId)) {
+        groups.set(authorId, { user: story.userId, stories: [] });
+      }
+      groups.get(authorId).stories.push(formatStory(story, viewerId));
+    });
+
+    const tray = [...groups.values()].map(group => ({
+      user: group.user,
+      stories: group.stories,
+      hasUnseen: group.stories.some(story => !story.seen),
+      latestAt: group.stories[group.stories.length - 1].createdAt,
+      isOwn: group.user._id.toString() === viewerId
+    }));
+
+    // Own stories first, then authors with something new, newest first
+    tray.sort((a, b) => {
+      if (a.isOwn !== b.isOwn) return a.isOwn ? -1 : 1;
+      if (a.hasUnseen !== b.hasUnseen) return a.hasUnseen ? -1 : 1;
+      return new Date(b.latestAt) - new Date(a.latestAt);
+    });
+
+    res.status(200).json({
+      success: true,
+      data: tray
+    });
+
+  } catch (error) {
+    console.error('Get story tray error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching stories'
+    });
+  }
+};
+
+// @desc    Get a user's active stories
+// @route   GET /api/stories/user/:userId
+// @access  Private (author and followers)
+const getUserStories = async (req, res, next) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.userId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const viewer = await User.findById(req.user.id).select('following');
+    if (!canViewStories(req.params.userId, viewer)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Follow this user to see their stories'
+      });
+    }
+
+    const stories = await Story.getActiveStories([req.params.userId]);
+
+    res.status(200).json({
+      success: true,
+      data: stories.map(story => formatStory(story, req.user.id))
+    });
+
+  } catch (error) {
+    console.error('Get user stories error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching stories'
+    });
+  }
+};
+
+// @desc    Mark a story as seen by the current user
+// @route   POST /api/stories/:id/view
+// @access  Private (author and followers)
+const viewStory = async (req, res, next) => {
+  try {
+    const story = await Story.findById(req.params.id);
+
+    if (!story || story.expiresAt <= new Date()) {
+      return res.status(404).json({
+        success: false,
+        message: 'Story not found'
+      });
+    }
+
+    const viewer = await User.findById(req.user.id).select('following');
+    if (!canViewStories(story.userId, viewer)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Follow this user to see their stories'
+      });
+    }
+
+    await story.markViewed(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        seen: true
+      }
+    });
+
+  } catch (error) {
+    console.error('View story error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while marking story as seen'
+    });
+  }
+};
+
+// @desc    Get who has seen a story
+// @route   GET /api/stories/:id/viewers
+// @access  Private (author only)
+const getStoryViewers = async (req, res, next) => {
+  try {
+    const story = await Story.findById(req.params.id)
+      .populate('viewers.user', 'username fullName profilePicture');
+
+    if (!story) {
+      return res.status(404).json({
+        success: false,
+        message: 'Story not found'
+      });
+    }
+
+    if (story.userId.toString() !== req.user.id) {
+      return res.status(403).json({
+        success: false,
+        message: 'Only the author can see who viewed a story'
+      });
+    }
+
+    const viewers = story.viewers
+      .filter(view => view.user) // Skip deleted accounts
+      .sort((a, b) => b.viewedAt - a.viewedAt);
+
+    res.status(200).json({
+      success: true,
+      data: viewers
+    });
+
+  } catch (error) {
+    console.error('Get story viewers error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching story viewers'
+    });
+  }
+};
+
+// @desc    Delete a story before it expires
+// @route   DELETE /api/stories/:id
+// @access  Private (author only)
+const deleteStory = async (req, res, next) => {
+  try {
+    const story = await Story.findById(req.params.id);
+
+    if (!story) {
+      return res.status(404).json({
+        success: false,
+        message: 'Story not found'
+      });
+    }
+
+    if (story.userId.toString() !== req.user.id) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to delete this story'
+      });
+    }
+
+    await fs.unlink(path.join(__dirname, '..', story.media)).catch(error => {
+      if (error.code !== 'ENOENT') console.error('Error deleting story media:', error.message);
+    });
+    await Story.findByIdAndDelete(story._id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Story deleted'
+    });
+
+  } catch (error) {
+    console.error('Delete story error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while deleting story'
+    });
+  }
+};
+
+module.exports = {
+  createStory,
+  getStoryTray,
+  getUserStories,
+  viewStory,
+  getStoryViewers,
+  deleteStory,
+  upload
+};
@@ -5,6 +5,56 @@ const fs = require('fs').promises;
 const multer = require('multer');
 const Trip = require('../models/Trip');
 const User = require('../models/User');
+const Notification = require('../models/Notification');
+const Collection = require('../models/Collection');
+const UserSettings = require('../models/UserSettings');
+const { toCents, fromCents, computeBalances, settleBalances } = require('../utils/expenseSettlement');
+const { normalizeCurrency, isValidCurrency, convertToBase, parseRatesCsv, rebaseRates } = require('../utils/exchangeRates');
+const { TRIP_ROLES, INVITE_ROLES, can, getAccess } = require('../utils/tripPermissions');
+const { transitionTripStatus } = require('../utils/tripLifecycle');
+const { mediaUpload, IMAGE_TYPES } = require('../middleware/upload');
+const { TRAVEL_MODES, DEFAULT_TRAVEL_MODE, DEFAULT_BUFFER_MINUTES, getTravelSpeeds, validateItinerary } = require('../utils/itineraryValidation');
+
+// Invite link limits
+const MAX_INVITE_EXPIRY_DAYS = 365;
+const MAX_INVITE_USES = 1000;
+
+const INVITE_STATUS_MESSAGES = {
+  invalid: 'This invite link is not valid',
+  revoked: 'This invite link has been revoked',
+  expired: 'This invite link has expired',
+  used_up: 'This invite link has reached its maximum number of uses'
+};
+
+const inviteUrl = (tripId, code) => `${process.env.FRONTEND_URL || 'http://localhost:4200'}/trips/${tripId}?code=${code}`;
+
+// What someone opening an invite link is told about it
+const describeInvite = (link) => {
+  if (!link) return { status: 'invalid', message: INVITE_STATUS_MESSAGES.invalid };
+  const status = link.getStatus();
+  return {
+    status,
+    message: INVITE_STATUS_MESSAGES[status],
+    role: link.role,
+    expiresAt: link.expiresAt,
+    remainingUses: link.maxUses ? Math.max(0, link.maxUses - link.uses.length) : null
+  };
+};
+
+// Full invite link details for the people managing members
+const serializeInviteLink = (link, tripId) => ({
+  _id: link._id,
+  code: link.code,
+  url: inviteUrl(tripId, link.code),
+  role: link.role,
+  status: link.getStatus(),
+  expiresAt: link.expiresAt,
+  maxUses: link.maxUses,
+  uses: link.uses,
+  createdBy: link.createdBy,
+  createdAt: link.createdAt,
+  revokedAt: link.revokedAt
+});
 
 const normalizeTripMedia = (trip, baseUrl) => {
   if (!trip) return trip;
@@ -19,6 +69,134 @@ const normalizeTripMedia = (trip, baseUrl) => {
   return t;
 };
 
+// Budget and expense totals only go to people allowed to see them
+const hideExpenses = (data, trip, userId) => {
+  if (can(trip, userId, 'viewExpenses')) return data;
+  const { budget, totalExpenses, remainingBudget, ...rest } = data;
+  return rest;
+};
+
+// Delete files multer already wrote for a request that didn't keep them
+const removeUploadedFiles = async (files = []) => {
+  for (const file of files) {
+    try {
+      await fs.unlink(file.path);
+    } catch (error) {
+      console.log('Error deleting uploaded file:', error);
+    }
+  }
+};
+
+// Album photos with uploader details, URLs resolved like the rest of the trip payload
+const buildPhotoList = async (trip) => {
+  await trip.populate('photos.uploadedBy', 'username fullName profilePicture');
+  return normalizeTripMedia(trip, process.env.BASE_URL || '').photos;
+};
+
+// Itinerary day (1-based) a date falls on, or null when it is outside the trip
+const dayForDate = (trip, date) => {
+  const msPerDay = 1000 * 60 * 60 * 24;
+  const start = new Date(trip.startDate).setHours(0, 0, 0, 0);
+  const end = new Date(trip.endDate).setHours(0, 0, 0, 0);
+  const target = new Date(date).setHours(0, 0, 0, 0);
+  if (Number.isNaN(target) || target < start || target > end) return null;
+  return Math.round((target - start) / msPerDay) + 1;
+};
+
+const TRIP_STATUSES = ['planning', 'active', 'completed', 'cancelled'];
+
+// Read a ?status= filter (single value, repeated or comma separated) into valid statuses
+const parseStatusFilter = (value) => {
+  if (!value) return [];
+  const values = Array.isArray(value) ? value : String(value).split(',');
+  return values.map(v => v.trim()).filter(v => TRIP_STATUSES.includes(v));
+};
+
+const EXPENSE_CATEGORIES = ['accommodation', 'transportation', 'food', 'activities', 'shopping', 'other'];
+
+// Budget, expenses, per-category totals and the settle-up plan in one payload.
+// Everything is converted to the budget currency; expenses without a known
+// rate are listed but left out of the totals until a rate is added.
+const buildExpenseSummary = (trip) => {
+  const baseCurrency = trip.budget?.currency || 'USD';
+  const rates = trip.budget?.exchangeRates || [];
+  const expenses = (trip.budget?.expenses || []).map(e => {
+    const expense = e.toObject ? e.toObject() : e;
+    const currency = expense.currency || baseCurrency;
+    return { ...expense, currency, convertedAmount: convertToBase(expense.amount, currency, baseCurrency, rates) };
+  });
+  const counted = expenses.filter(e => e.convertedAmount !== null);
+
+  const categoryTotals = {};
+  EXPENSE_CATEGORIES.forEach(category => {
+    const cents = counted
+      .filter(e => (e.category || 'other') === category)
+      .reduce((total, e) => total + toCents(e.convertedAmount), 0);
+    categoryTotals[category] = fromCents(cents);
+  });
+
+  const balances = computeBalances(counted.map(e => ({ ...e, amount: e.convertedAmount })));
+  const totalCents = counted.reduce((total, e) => total + toCents(e.convertedAmount), 0);
+  const totalBudget = trip.budget?.totalBudget ?? null;
+
+  return {
+    totalBudget,
+    currency: baseCurrency,
+    exchangeRates: [...rates]
+      .map(r => ({ currency: r.currency, rate: r.rate, updatedAt: r.updatedAt }))
+      .sort((a, b) => a.currency.localeCompare(b.currency)),
+    missingRates: [...new Set(expenses.filter(e => e.convertedAmount === null).map(e => e.currency))],
+    expenses: expenses.sort((a, b) => new Date(b.date) - new Date(a.date)),
+    totalExpenses: fromCents(totalCents),
+    remainingBudget: totalBudget === null ? null : fromCents(toCents(totalBudget) - totalCents),
+    categoryTotals,
+    balances: [...balances.entries()].map(([userId, cents]) => ({ userId, net: fromCents(cents) })),
+    settlements: settleBalances(balances).map(t => ({ from: t.from, to: t.to, amount: fromCents(t.cents) }))
+  };
+};
+
+// Merge rates into the trip's table, replacing existing entries for the same currency
+const applyExchangeRates = (trip, rates, userId, replace = false) => {
+  const table = replace ? [] : trip.budget.exchangeRates.map(r => ({ currency: r.currency, rate: r.rate, updatedBy: r.updatedBy, updatedAt: r.updatedAt }));
+  rates.forEach(({ currency, rate }) => {
+    const entry = { currency, rate, updatedBy: userId, updatedAt: new Date() };
+    const index = table.findIndex(r => r.currency === currency);
+    if (index >= 0) table[index] = entry;
+    else table.push(entry);
+  });
+  trip.budget.exchangeRates = table;
+};
+
+// Validate and normalise an expense body; returns { error } or { expense }
+const parseExpenseInput = (trip, body, userId) => {
+  const { description, amount, currency, category, paidBy, splitAmong, date } = body;
+  if (!description || !String(description).trim()) return { error: 'Description is required' };
+  const value = Number(amount);
+  if (!Number.isFinite(value) || value <= 0) return { error: 'Amount must be a positive number' };
+  if (currency && !isValidCurrency(currency)) return { error: 'Currency must be a 3-letter code' };
+  if (category && !EXPENSE_CATEGORIES.includes(category)) return { error: 'Invalid expense category' };
+
+  // Anyone with a role on the trip can pay or share, collaborators included
+  const payer = paidBy || userId;
+  if (!trip.getRole(payer)) return { error: 'Payer must be on the trip' };
+
+  // Default to splitting evenly between everyone on the trip
+  const participants = Array.isArray(splitAmong) && splitAmong.length > 0 ? [...new Set(splitAmong.map(String))] : trip.getParticipantIds();
+  if (participants.some(id => !trip.getRole(id))) return { error: 'Expenses can only be split among people on the trip' };
+
+  return {
+    expense: {
+      description: String(description).trim(),
+      amount: Math.round(value * 100) / 100,
+      currency: normalizeCurrency(currency || trip.budget.currency || 'USD'),
+      category: category || 'other',
+      paidBy: payer,
+      splitAmong: participants,
+      date: date || Date.now()
+    }
+  };
+};
+
 exports.createTrip = async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -73,8 +251,7 @@ exports.createTrip = async (req, res) => {
       coverImage: coverImagePath
     });
 
-    // Creator is implicit owner, also set share code
-    trip.shareCode = crypto.randomBytes(6).toString('hex');
+    // Creator is implicit owner
     await trip.save();
 
     await trip.populate('createdBy', 'username fullName profilePicture');
@@ -92,14 +269,29 @@ exports.getTrip = async (req, res) => {
       .populate('createdBy', 'username fullName profilePicture')
       .populate('members', 'username fullName profilePicture')
       .populate('collaborators.user', 'username fullName profilePicture')
-      .populate('joinRequests.user', 'username fullName profilePicture');
+      .populate('joinRequests.user', 'username fullName profilePicture')
+      .populate('photos.uploadedBy', 'username fullName profilePicture');
     if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (trip.isBlocked && req.user?.role !== 'admin') {
+      return res.status(403).json({ success: false, message: 'This trip has been removed by a moderator', blocked: true });
+    }
+
+    // An invite code lets its holder see the trip before joining
+    let invite = null;
+    if (req.query.code) {
+      const withLinks = await Trip.findById(trip._id).select('inviteLinks');
+      invite = describeInvite(withLinks.findInviteLink(req.query.code));
+    }
 
     // Access control for private trips
-    if (!trip.isPublic && !trip.isMember(req.user?.id || '')) {
-      return res.status(403).json({ success: false, message: 'Access denied' });
+    if (!trip.isPublic && !can(trip, req.user?.id, 'view') && invite?.status !== 'active') {
+      return res.status(403).json({ success: false, message: invite ? invite.message : 'Access denied', invite });
     }
-    res.status(200).json({ success: true, data: normalizeTripMedia(trip, process.env.BASE_URL || '') });
+    const saved = req.user ? await Collection.getSavedItemIds(req.user.id, 'trip', [trip._id]) : new Set();
+    res.status(200).json({
+      success: true,
+      data: { ...hideExpenses(normalizeTripMedia(trip, process.env.BASE_URL || ''), trip, req.user?.id), access: getAccess(trip, req.user?.id), isSaved: saved.has(trip._id.toString()), invite }
+    });
   } catch (error) {
     console.error('Get trip error:', error);
     res.status(500).json({ success: false, message: 'Server error while fetching trip' });
@@ -110,9 +302,10 @@ exports.updateTrip = async (req, res) => {
   try {
     const trip = await Trip.findById(req.params.id);
     if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
-    if (!trip.isCreator(req.user.id)) return res.status(403).json({ success: false, message: 'Only the creator can update trip' });
+    if (!can(trip, req.user.id, 'editSettings')) return res.status(403).json({ success: false, message: 'Only the owner or co-owners can update trip' });
 
-    const fields = [ 'tripName','description','destination','destinationCoordinates','destinationPlaceId','startDate','endDate','isPublic','maxMembers','tags','status','tripType','interests' ];
+    // Status follows the dates; cancelling goes through cancelTrip
+    const fields = [ 'tripName','description','destination','destinationCoordinates','destinationPlaceId','startDate','endDate','isPublic','maxMembers','tags','tripType','interests' ];
     fields.forEach(f => {
       if (req.body[f] !== undefined) {
         if (f === 'interests' && Array.isArray(req.body[f])) {
@@ -123,7 +316,8 @@ exports.updateTrip = async (req, res) => {
       }
     });
 
-    await trip.save();
+    // New dates can start, end or reopen the trip; members hear about it either way
+    await transitionTripStatus(trip, { changedBy: req.user.id });
     await trip.populate('createdBy', 'username fullName profilePicture');
     res.status(200).json({ success: true, message: 'Trip updated', data: normalizeTripMedia(trip, process.env.BASE_URL || '') });
   } catch (error) {
@@ -132,11 +326,43 @@ exports.updateTrip = async (req, res) => {
   }
 };
 
+exports.cancelTrip = async (req, res) => {
+  try {
+    const reason = (req.body.reason || '').trim();
+    const trip = await Trip.findById(req.params.id);
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (!can(trip, req.user.id, 'cancelTrip')) return res.status(403).json({ success: false, message: 'Only the owner can cancel trip' });
+    if (trip.status === 'cancelled') return res.status(400).json({ success: false, message: 'Trip is already cancelled' });
+    if (trip.status === 'completed') return res.status(400).json({ success: false, message: 'Completed trips cannot be cancelled' });
+    if (!reason) return res.status(400).json({ success: false, message: 'Please give a reason for cancelling' });
+    if (reason.length > 500) return res.status(400).json({ success: false, message: 'Reason cannot be more than 500 characters' });
+
+    trip.status = 'cancelled';
+    trip.cancellation = { reason, cancelledBy: req.user.id, cancelledAt: new Date() };
+
+    // Nobody can join a cancelled trip, so close out the pending requests
+    const pendingRequesters = trip.joinRequests.filter(r => r.status === 'pending').map(r => r.user);
+    trip.joinRequests.forEach(r => {
+      if (r.status === 'pending') r.status = 'rejected';
+    });
+
+    await trip.save();
+    await Notification.createTripStatusNotifications(trip, req.user.id);
+    await Promise.all(pendingRequesters.map(userId =>
+      Notification.createTripJoinResponseNotification(trip._id, req.user.id, userId, false)));
+
+    res.status(200).json({ success: true, message: 'Trip cancelled', data: { status: trip.status, cancellation: trip.cancellation } });
+  } catch (error) {
+    console.error('Cancel trip error:', error);
+    res.status(500).json({ success: false, message: 'Server error while cancelling trip' });
+  }
+};
+
 exports.deleteTrip = async (req, res) => {
   try {
     const trip = await Trip.findById(req.params.id);
     if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
-    if (!trip.isCreator(req.user.id)) return res.status(403).json({ success: false, message: 'Only the creator can delete trip' });
+    if (!can(trip, req.user.id, 'deleteTrip')) return res.status(403).json({ success: false, message: 'Only the owner can delete trip' });
     await trip.deleteOne();
     res.status(200).json({ success: true, message: 'Trip deleted' });
   } catch (error) {
@@ -149,11 +375,14 @@ exports.addItineraryItem = async (req, res) => {
   try {
     const trip = await Trip.findById(req.params.id);
     if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
-    if (!trip.isMember(req.user.id)) return res.status(403).json({ success: false, message: 'Not a member of this trip' });
-    const { day, date, title, location, notes, startTime, endTime, cost, coordinates } = req.body;
-    await trip.addItineraryItem({ day, date, title, location, notes, startTime, endTime, cost, coordinates });
+    if (!can(trip, req.user.id, 'editItinerary')) return res.status(403).json({ success: false, message: 'Viewers cannot edit the itinerary' });
+    const { day, date, title, location, notes, startTime, endTime, cost, coordinates, travelMode } = req.body;
+    await trip.addItineraryItem({ day, date, title, location, notes, startTime, endTime, cost, coordinates, travelMode: travelMode || undefined });
     res.status(200).json({ success: true, data: trip.itinerary });
   } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ success: false, message: Object.values(error.errors)[0].message });
+    }
     console.error('Add itinerary error:', error);
     res.status(500).json({ success: false, message: 'Server error while adding itinerary' });
   }
@@ -163,13 +392,23 @@ exports.updateItineraryItem = async (req, res) => {
   try {
     const trip = await Trip.findById(req.params.id);
     if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
-    if (!trip.isMember(req.user.id)) return res.status(403).json({ success: false, message: 'Not a member of this trip' });
+    if (!can(trip, req.user.id, 'editItinerary')) return res.status(403).json({ success: false, message: 'Viewers cannot edit the itinerary' });
     const item = trip.itinerary.id(req.params.itemId);
     if (!item) return res.status(404).json({ success: false, message: 'Itinerary item not found' });
-    Object.assign(item, req.body);
+
+    // Positions are owned by reorderItinerary; a day change from the form goes to the end of that day
+    const changes = { ...req.body };
+    delete changes._id;
+    delete changes.order;
+    if (changes.travelMode === '') changes.travelMode = undefined;
+    if (changes.day !== undefined && Number(changes.day) !== item.day) item.order = trip.nextItineraryOrder(changes.day);
+    Object.assign(item, changes);
     await trip.save();
     res.status(200).json({ success: true, data: item });
   } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ success: false, message: Object.values(error.errors)[0].message });
+    }
     console.error('Update itinerary error:', error);
     res.status(500).json({ success: false, message: 'Server error while updating itinerary' });
   }
@@ -179,23 +418,91 @@ exports.deleteItineraryItem = async (req, res) => {
   try {
     const trip = await Trip.findById(req.params.id);
     if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
-    if (!trip.isMember(req.user.id)) return res.status(403).json({ success: false, message: 'Not a member of this trip' });
+    if (!can(trip, req.user.id, 'editItinerary')) return res.status(403).json({ success: false, message: 'Viewers cannot edit the itinerary' });
     const item = trip.itinerary.id(req.params.itemId);
     if (!item) return res.status(404).json({ success: false, message: 'Itinerary item not found' });
     item.deleteOne();
     await trip.save();
-    res.status(200).json({ success: true, message: 'Itinerary item deleted' });
+    res.status(200).json({ success: true, message: 'Itinerary item deleted', data: { itineraryVersion: trip.itineraryVersion } });
   } catch (error) {
     console.error('Delete itinerary error:', error);
     res.status(500).json({ success: false, message: 'Server error while deleting itinerary item' });
   }
 };
 
+exports.getItineraryIssues = async (req, res) => {
+  try {
+    const trip = await Trip.findById(req.params.id);
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (!trip.isPublic && !can(trip, req.user?.id, 'view')) return res.status(403).json({ success: false, message: 'Access denied' });
+    res.status(200).json({ success: true, data: { issues: validateItinerary(trip), itineraryVersion: trip.itineraryVersion } });
+  } catch (error) {
+    console.error('Validate itinerary error:', error);
+    res.status(500).json({ success: false, message: 'Server error while validating itinerary' });
+  }
+};
+
+exports.reorderItinerary = async (req, res) => {
+  try {
+    const { version, items } = req.body; // items: [{ id, day, order }] for every itinerary item
+    const trip = await Trip.findById(req.params.id);
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (!can(trip, req.user.id, 'editItinerary')) return res.status(403).json({ success: false, message: 'Viewers cannot edit the itinerary' });
+    if (!Number.isInteger(version)) return res.status(400).json({ success: false, message: 'Itinerary version is required' });
+    if (!Array.isArray(items)) return res.status(400).json({ success: false, message: 'Items must be an array' });
+
+    // Hand back the latest itinerary so the client can redraw it
+    const conflict = (latest) => res.status(409).json({
+      success: false,
+      message: 'The itinerary was changed by someone else. Showing the latest version.',
+      data: { itinerary: latest.itinerary, itineraryVersion: latest.itineraryVersion }
+    });
+    if (version !== trip.itineraryVersion) return conflict(trip);
+
+    // The layout must place every current item exactly once
+    const ids = new Set(items.map(i => String(i.id)));
+    if (ids.size !== items.length || items.length !== trip.itinerary.length || items.some(i => !trip.itinerary.id(i.id))) {
+      return conflict(trip);
+    }
+
+    // Items left past the end after the dates were shortened may stay where they are
+    const totalDays = dayForDate(trip, trip.endDate);
+    const outOfRange = (i) => i.day < 1 || (i.day > totalDays && i.day !== trip.itinerary.id(i.id).day);
+    const invalid = items.find(i => !Number.isInteger(i.day) || outOfRange(i) || !Number.isFinite(i.order) || i.order < 0);
+    if (invalid) return res.status(400).json({ success: false, message: `Each item needs a day between 1 and ${totalDays} and a non-negative order` });
+    if (items.length === 0) return res.status(200).json({ success: true, data: { itinerary: [], itineraryVersion: trip.itineraryVersion } });
+
+    // Renumber each day 0..n-1 in the requested order
+    const layout = [];
+    const byDay = new Map();
+    items.forEach(i => byDay.set(i.day, [...(byDay.get(i.day) || []), i]));
+    byDay.forEach((dayItems, day) => {
+      const date = new Date(trip.startDate);
+      date.setDate(date.getDate() + day - 1);
+      dayItems
+        .sort((a, b) => a.order - b.order)
+        .forEach((i, order) => layout.push({ id: i.id, day, order, date }));
+    });
+
+    const updated = await Trip.reorderItinerary(trip._id, version, layout);
+    if (!updated) {
+      const latest = await Trip.findById(trip._id).select('itinerary itineraryVersion');
+      if (!latest) return res.status(404).json({ success: false, message: 'Trip not found' });
+      return conflict(latest);
+    }
+
+    res.status(200).json({ success: true, data: { itinerary: updated.itinerary, itineraryVersion: updated.itineraryVersion } });
+  } catch (error) {
+    console.error('Reorder itinerary error:', error);
+    res.status(500).json({ success: false, message: 'Server error while reordering itinerary' });
+  }
+};
+
 exports.addChecklistItem = async (req, res) => {
   try {
     const trip = await Trip.findById(req.params.id);
     if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
-    if (!trip.isMember(req.user.id)) return res.status(403).json({ success: false, message: 'Not a member of this trip' });
+    if (!can(trip, req.user.id, 'editChecklist')) return res.status(403).json({ success: false, message: 'Viewers cannot edit the checklist' });
     const { item } = req.body;
     await trip.addChecklistItem({ item }, req.user.id);
     res.status(200).json({ success: true, data: trip.checklist });
@@ -207,32 +514,12 @@ exports.addChecklistItem = async (req, res) => {
 
 exports.toggleChecklistItem = async (req, res) => {
   try {
-    console.log('=== BACKEND TOGGLE CHECKLIST ===');
-    console.log('Trip ID:', req.params.id);
-    console.log('Item ID:', req.params.itemId);
-    console.log('User ID:', req.user.id);
-
     const trip = await Trip.findById(req.params.id);
-    if (!trip) {
-      console.log('Trip not found');
-      return res.status(404).json({ success: false, message: 'Trip not found' });
-    }
-
-    console.log('Trip found:', trip.tripName);
-    console.log('Trip members:', trip.members);
-    console.log('Trip creator:', trip.createdBy);
-
-    if (!trip.isMember(req.user.id)) {
-      console.log('User is not a member');
-      return res.status(403).json({ success: false, message: 'Not a member of this trip' });
-    }
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (!can(trip, req.user.id, 'editChecklist')) return res.status(403).json({ success: false, message: 'Viewers cannot edit the checklist' });
 
-    console.log('User is a member, proceeding with toggle');
     const updated = await trip.toggleChecklistItem(req.params.itemId, req.user.id);
-    const updatedItem = updated.checklist.id(req.params.itemId);
-
-    console.log('Toggle completed, updated item:', updatedItem);
-    res.status(200).json({ success: true, data: updatedItem });
+    res.status(200).json({ success: true, data: updated.checklist.id(req.params.itemId) });
   } catch (error) {
     console.error('Toggle checklist error:', error);
     res.status(500).json({ success: false, message: 'Server error while toggling checklist' });
@@ -243,7 +530,7 @@ exports.deleteChecklistItem = async (req, res) => {
   try {
     const trip = await Trip.findById(req.params.id);
     if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
-    if (!trip.isMember(req.user.id)) return res.status(403).json({ success: false, message: 'Not a member of this trip' });
+    if (!can(trip, req.user.id, 'editChecklist')) return res.status(403).json({ success: false, message: 'Viewers cannot edit the checklist' });
     const item = trip.checklist.id(req.params.itemId);
     if (!item) return res.status(404).json({ success: false, message: 'Checklist item not found' });
     item.deleteOne();
@@ -255,19 +542,376 @@ exports.deleteChecklistItem = async (req, res) => {
   }
 };
 
-exports.generateShareLink = async (req, res) => {
+exports.getExpenses = async (req, res) => {
+  try {
+    const trip = await Trip.findById(req.params.id).populate('budget.expenses.paidBy', 'username fullName profilePicture');
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (!can(trip, req.user.id, 'viewExpenses')) return res.status(403).json({ success: false, message: 'Not a member of this trip' });
+    res.status(200).json({ success: true, data: buildExpenseSummary(trip) });
+  } catch (error) {
+    console.error('Get expenses error:', error);
+    res.status(500).json({ success: false, message: 'Server error while fetching expenses' });
+  }
+};
+
+exports.updateBudget = async (req, res) => {
+  try {
+    const { totalBudget, currency } = req.body;
+    const trip = await Trip.findById(req.params.id);
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (!can(trip, req.user.id, 'editBudget')) return res.status(403).json({ success: false, message: 'Only the owner or co-owners can update the budget' });
+    if (totalBudget !== undefined && totalBudget !== null && (!Number.isFinite(Number(totalBudget)) || Number(totalBudget) < 0)) {
+      return res.status(400).json({ success: false, message: 'Budget must be a non-negative number' });
+    }
+    if (currency !== undefined && !isValidCurrency(currency)) {
+      return res.status(400).json({ success: false, message: 'Currency must be a 3-letter code' });
+    }
+
+    if (totalBudget !== undefined) trip.budget.totalBudget = totalBudget === null ? undefined : Number(totalBudget);
+
+    const oldBase = trip.budget.currency || 'USD';
+    const newBase = currency !== undefined ? normalizeCurrency(currency) : oldBase;
+    if (newBase !== oldBase) {
+      // Rates are relative to the base currency, so re-express them against the new one
+      const rates = trip.budget.exchangeRates.map(r => ({ currency: r.currency, rate: r.rate }));
+      const rebased = rebaseRates(rates, oldBase, newBase);
+      const hasForeignAmounts = rates.length > 0 || trip.budget.expenses.some(e => e.currency && e.currency !== oldBase);
+      if (!rebased && hasForeignAmounts) {
+        return res.status(400).json({ success: false, message: `Add an exchange rate for ${newBase} before switching the base currency` });
+      }
+
+      // Pin expenses recorded in the old base so they keep their meaning
+      trip.budget.expenses.forEach(e => {
+        if (!e.currency) e.currency = oldBase;
+      });
+      trip.budget.exchangeRates = [];
+      applyExchangeRates(trip, rebased || [], req.user.id, true);
+      trip.budget.currency = newBase;
+    }
+
+    await trip.save();
+    await trip.populate('budget.expenses.paidBy', 'username fullName profilePicture');
+    res.status(200).json({ success: true, data: buildExpenseSummary(trip) });
+  } catch (error) {
+    console.error('Update budget error:', error);
+    res.status(500).json({ success: false, message: 'Server error while updating budget' });
+  }
+};
+
+exports.updateExchangeRates = async (req, res) => {
+  try {
+    const { rates } = req.body;
+    const trip = await Trip.findById(req.params.id);
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (!can(trip, req.user.id, 'editExchangeRates')) return res.status(403).json({ success: false, message: 'Only trip editors can change exchange rates' });
+    if (!Array.isArray(rates)) return res.status(400).json({ success: false, message: 'Rates must be an array' });
+
+    const baseCurrency = trip.budget.currency || 'USD';
+    const parsed = [];
+    for (const entry of rates) {
+      const code = normalizeCurrency(entry.currency);
+      const rate = Number(entry.rate);
+      if (!isValidCurrency(code)) return res.status(400).json({ success: false, message: `"${entry.currency}" is not a 3-letter currency code` });
+      if (!Number.isFinite(rate) || rate <= 0) return res.status(400).json({ success: false, message: `Rate for ${code} must be a positive number` });
+      if (code !== baseCurrency) parsed.push({ currency: code, rate });
+    }
+
+    applyExchangeRates(trip, parsed, req.user.id, true);
+    await trip.save();
+    await trip.populate('budget.expenses.paidBy', 'username fullName profilePicture');
+    res.status(200).json({ success: true, data: buildExpenseSummary(trip) });
+  } catch (error) {
+    console.error('Update exchange rates error:', error);
+    res.status(500).json({ success: false, message: 'Server error while updating exchange rates' });
+  }
+};
+
+exports.importExchangeRates = async (req, res) => {
+  try {
+    const { csv, replace } = req.body;
+    const trip = await Trip.findById(req.params.id);
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (!can(trip, req.user.id, 'editExchangeRates')) return res.status(403).json({ success: false, message: 'Only trip editors can change exchange rates' });
+    if (!csv || typeof csv !== 'string') return res.status(400).json({ success: false, message: 'CSV content is required' });
+
+    const { rates, errors } = parseRatesCsv(csv);
+    if (errors.length > 0) return res.status(400).json({ success: false, message: 'Could not import exchange rates', errors });
+    if (rates.length === 0) return res.status(400).json({ success: false, message: 'No exchange rates found in CSV' });
+
+    const baseCurrency = trip.budget.currency || 'USD';
+    applyExchangeRates(trip, rates.filter(r => r.currency !== baseCurrency), req.user.id, !!replace);
+    await trip.save();
+    await trip.populate('budget.expenses.paidBy', 'username fullName profilePicture');
+    res.status(200).json({ success: true, message: `Imported ${rates.length} exchange rates`, data: buildExpenseSummary(trip) });
+  } catch (error) {
+    console.error('Import exchange rates error:', error);
+    res.status(500).json({ success: false, message: 'Server error while importing exchange rates' });
+  }
+};
+
+exports.addExpense = async (req, res) => {
+  try {
+    const trip = await Trip.findById(req.params.id);
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (!can(trip, req.user.id, 'editExpenses')) return res.status(403).json({ success: false, message: 'Viewers cannot edit expenses' });
+
+    const { error, expense } = parseExpenseInput(trip, req.body, req.user.id);
+    if (error) return res.status(400).json({ success: false, message: error });
+
+    trip.budget.expenses.push(expense);
+    await trip.save();
+    await trip.populate('budget.expenses.paidBy', 'username fullName profilePicture');
+    res.status(201).json({ success: true, data: buildExpenseSummary(trip) });
+  } catch (error) {
+    console.error('Add expense error:', error);
+    res.status(500).json({ success: false, message: 'Server error while adding expense' });
+  }
+};
+
+exports.updateExpense = async (req, res) => {
+  try {
+    const trip = await Trip.findById(req.params.id);
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (!can(trip, req.user.id, 'editExpenses')) return res.status(403).json({ success: false, message: 'Viewers cannot edit expenses' });
+    const item = trip.budget.expenses.id(req.params.expenseId);
+    if (!item) return res.status(404).json({ success: false, message: 'Expense not found' });
+
+    const current = { description: item.description, amount: item.amount, currency: item.currency, category: item.category, paidBy: item.paidBy, splitAmong: item.splitAmong, date: item.date };
+    const { error, expense } = parseExpenseInput(trip, { ...current, ...req.body }, req.user.id);
+    if (error) return res.status(400).json({ success: false, message: error });
+
+    Object.assign(item, expense);
+    await trip.save();
+    await trip.populate('budget.expenses.paidBy', 'username fullName profilePicture');
+    res.status(200).json({ success: true, data: buildExpenseSummary(trip) });
+  } catch (error) {
+    console.error('Update expense error:', error);
+    res.status(500).json({ success: false, message: 'Server error while updating expense' });
+  }
+};
+
+exports.deleteExpense = async (req, res) => {
+  try {
+    const trip = await Trip.findById(req.params.id);
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (!can(trip, req.user.id, 'editExpenses')) return res.status(403).json({ success: false, message: 'Viewers cannot edit expenses' });
+    const item = trip.budget.expenses.id(req.params.expenseId);
+    if (!item) return res.status(404).json({ success: false, message: 'Expense not found' });
+    item.deleteOne();
+    await trip.save();
+    await trip.populate('budget.expenses.paidBy', 'username fullName profilePicture');
+    res.status(200).json({ success: true, data: buildExpenseSummary(trip) });
+  } catch (error) {
+    console.error('Delete expense error:', error);
+    res.status(500).json({ success: false, message: 'Server error while deleting expense' });
+  }
+};
+
+exports.uploadPhotos = async (req, res) => {
+  try {
+    const trip = await Trip.findById(req.params.id);
+    if (!trip) {
+      await removeUploadedFiles(req.files);
+      return res.status(404).json({ success: false, message: 'Trip not found' });
+    }
+    if (!can(trip, req.user.id, 'uploadPhotos')) {
+      await removeUploadedFiles(req.files);
+      return res.status(403).json({ success: false, message: 'Viewers cannot upload photos' });
+    }
+    if (!req.files || req.files.length === 0) return res.status(400).json({ success: false, message: 'Select at least one photo to upload' });
+
+    // Photos land on the chosen itinerary day, or on today's day while the trip is running
+    let day = dayForDate(trip, new Date());
+    if (req.body.day) {
+      day = parseInt(req.body.day);
+      if (!(day >= 1) || day > trip.durationDays + 1) {
+        await removeUploadedFiles(req.files);
+        return res.status(400).json({ success: false, message: 'Day is outside the trip' });
+      }
+    }
+
+    const caption = (req.body.caption || '').trim().slice(0, 500);
+    req.files.forEach(file => {
+      trip.photos.push({ url: `/uploads/trips/${file.filename}`, caption, day, uploadedBy: req.user.id });
+    });
+
+    await trip.save();
+    res.status(201).json({ success: true, message: `${req.files.length} photo(s) uploaded`, data: await buildPhotoList(trip) });
+  } catch (error) {
+    console.error('Upload photos error:', error);
+    await removeUploadedFiles(req.files);
+    res.status(500).json({ success: false, message: 'Server error while uploading photos' });
+  }
+};
+
+exports.updatePhoto = async (req, res) => {
+  try {
+    const trip = await Trip.findById(req.params.id);
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    const photo = trip.photos.id(req.params.photoId);
+    if (!photo) return res.status(404).json({ success: false, message: 'Photo not found' });
+    if (!photo.uploadedBy?.equals(req.user.id) && !can(trip, req.user.id, 'managePhotos')) {
+      return res.status(403).json({ success: false, message: 'Not authorized to edit this photo' });
+    }
+
+    const { caption, day } = req.body;
+    if (caption !== undefined) photo.caption = String(caption).trim().slice(0, 500);
+    if (day !== undefined) {
+      const value = day === null || day === '' ? null : parseInt(day);
+      if (value !== null && (!(value >= 1) || value > trip.durationDays + 1)) return res.status(400).json({ success: false, message: 'Day is outside the trip' });
+      photo.day = value;
+    }
+
+    await trip.save();
+    res.status(200).json({ success: true, data: await buildPhotoList(trip) });
+  } catch (error) {
+    console.error('Update photo error:', error);
+    res.status(500).json({ success: false, message: 'Server error while updating photo' });
+  }
+};
+
+exports.deletePhoto = async (req, res) => {
   try {
     const trip = await Trip.findById(req.params.id);
     if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
-    if (!trip.isCreator(req.user.id)) return res.status(403).json({ success: false, message: 'Only the creator can generate share link' });
-    trip.shareCode = crypto.randomBytes(6).toString('hex');
+    const photo = trip.photos.id(req.params.photoId);
+    if (!photo) return res.status(404).json({ success: false, message: 'Photo not found' });
+    if (!photo.uploadedBy?.equals(req.user.id) && !can(trip, req.user.id, 'managePhotos')) {
+      return res.status(403).json({ success: false, message: 'Not authorized to delete this photo' });
+    }
+
+    // A cover that points at the removed file would be broken
+    if (trip.coverImage === photo.url) trip.coverImage = undefined;
+    const url = photo.url;
+    photo.deleteOne();
     await trip.save();
-    const base = process.env.FRONTEND_URL || 'http://localhost:4200';
-    const url = `${base}/trips/${trip._id}?code=${trip.shareCode}`;
-    res.status(200).json({ success: true, data: { code: trip.shareCode, url } });
+
+    if (url && url.startsWith('/uploads/trips/')) {
+      try {
+        await fs.unlink(path.join(__dirname, '..', url));
+      } catch (error) {
+        console.log('Error deleting photo file:', error);
+      }
+    }
+
+    res.status(200).json({ success: true, message: 'Photo deleted', data: await buildPhotoList(trip) });
   } catch (error) {
-    console.error('Generate share link error:', error);
-    res.status(500).json({ success: false, message: 'Server error while generating share link' });
+    console.error('Delete photo error:', error);
+    res.status(500).json({ success: false, message: 'Server error while deleting photo' });
+  }
+};
+
+exports.setCoverPhoto = async (req, res) => {
+  try {
+    const trip = await Trip.findById(req.params.id);
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (!can(trip, req.user.id, 'managePhotos')) return res.status(403).json({ success: false, message: 'Only trip editors can change the cover image' });
+    const photo = trip.photos.id(req.params.photoId);
+    if (!photo) return res.status(404).json({ success: false, message: 'Photo not found' });
+
+    trip.coverImage = photo.url;
+    await trip.save();
+    res.status(200).json({ success: true, message: 'Cover image updated', data: { coverImage: normalizeTripMedia(trip, process.env.BASE_URL || '').coverImage } });
+  } catch (error) {
+    console.error('Set cover photo error:', error);
+    res.status(500).json({ success: false, message: 'Server error while updating cover image' });
+  }
+};
+
+exports.getInviteLinks = async (req, res) => {
+  try {
+    const trip = await Trip.findById(req.params.id).select('+inviteLinks')
+      .populate('inviteLinks.uses.user', 'username fullName profilePicture')
+      .populate('inviteLinks.createdBy', 'username fullName');
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (!can(trip, req.user.id, 'manageMembers')) return res.status(403).json({ success: false, message: 'Only the owner or co-owners can see invite links' });
+
+    // Newest first
+    const links = [...trip.inviteLinks].reverse().map(link => serializeInviteLink(link, trip._id));
+    res.status(200).json({ success: true, data: links });
+  } catch (error) {
+    console.error('Get invite links error:', error);
+    res.status(500).json({ success: false, message: 'Server error while fetching invite links' });
+  }
+};
+
+// Also serves the older POST /:id/share, which made a viewer link
+exports.createInviteLink = async (req, res) => {
+  try {
+    const { role = 'viewer', expiresInDays = null, maxUses = null } = req.body;
+    if (!INVITE_ROLES.includes(role)) return res.status(400).json({ success: false, message: 'Invalid invite role' });
+    if (expiresInDays !== null && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_INVITE_EXPIRY_DAYS)) {
+      return res.status(400).json({ success: false, message: `Expiry must be between 1 and ${MAX_INVITE_EXPIRY_DAYS} days` });
+    }
+    if (maxUses !== null && (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_INVITE_USES)) {
+      return res.status(400).json({ success: false, message: `Maximum uses must be between 1 and ${MAX_INVITE_USES}` });
+    }
+
+    const trip = await Trip.findById(req.params.id).select('+inviteLinks');
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (!can(trip, req.user.id, 'manageMembers')) return res.status(403).json({ success: false, message: 'Only the owner or co-owners can create invite links' });
+    if (trip.status === 'cancelled') return res.status(400).json({ success: false, message: 'This trip has been cancelled' });
+
+    trip.inviteLinks.push({
+      code: crypto.randomBytes(12).toString('base64url'),
+      role,
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      maxUses,
+      createdBy: req.user.id
+    });
+    await trip.save();
+
+    const link = trip.inviteLinks[trip.inviteLinks.length - 1];
+    res.status(201).json({ success: true, message: 'Invite link created', data: { ...serializeInviteLink(link, trip._id), code: link.code } });
+  } catch (error) {
+    console.error('Create invite link error:', error);
+    res.status(500).json({ success: false, message: 'Server error while creating invite link' });
+  }
+};
+
+exports.revokeInviteLink = async (req, res) => {
+  try {
+    const trip = await Trip.findById(req.params.id).select('+inviteLinks');
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (!can(trip, req.user.id, 'manageMembers')) return res.status(403).json({ success: false, message: 'Only the owner or co-owners can revoke invite links' });
+    const link = trip.inviteLinks.id(req.params.inviteId);
+    if (!link) return res.status(404).json({ success: false, message: 'Invite link not found' });
+
+    if (!link.revokedAt) {
+      link.revokedAt = new Date();
+      await trip.save();
+    }
+    res.status(200).json({ success: true, message: 'Invite link revoked', data: serializeInviteLink(link, trip._id) });
+  } catch (error) {
+    console.error('Revoke invite link error:', error);
+    res.status(500).json({ success: false, message: 'Server error while revoking invite link' });
+  }
+};
+
+exports.joinWithInviteLink = async (req, res) => {
+  try {
+    const trip = await Trip.findById(req.params.id).select('+inviteLinks');
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (trip.isBlocked) return res.status(403).json({ success: false, message: 'This trip has been removed by a moderator' });
+    if (trip.status === 'cancelled') return res.status(400).json({ success: false, message: 'This trip has been cancelled' });
+
+    const link = trip.findInviteLink(req.body.code);
+    const invite = describeInvite(link);
+    if (invite.status !== 'active') return res.status(410).json({ success: false, message: invite.message, invite });
+    if (trip.getRole(req.user.id)) return res.status(400).json({ success: false, message: 'You are already on this trip' });
+
+    let joined;
+    try {
+      joined = await trip.joinWithInvite(link, req.user.id);
+    } catch (joinError) {
+      return res.status(400).json({ success: false, message: joinError.message });
+    }
+    await Notification.createTripInviteLinkJoinNotification(trip._id, req.user.id, trip.createdBy, link.role);
+
+    res.status(200).json({ success: true, message: 'Joined trip', data: { access: getAccess(joined, req.user.id) } });
+  } catch (error) {
+    console.error('Join with invite link error:', error);
+    res.status(500).json({ success: false, message: 'Server error while joining trip' });
   }
 };
 
@@ -276,11 +920,19 @@ exports.requestJoin = async (req, res) => {
     const { message } = req.body;
     const trip = await Trip.findById(req.params.id);
     if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
-    if (trip.isMember(req.user.id)) return res.status(400).json({ success: false, message: 'Already a member' });
+    if (trip.status === 'cancelled') return res.status(400).json({ success: false, message: 'This trip has been cancelled' });
+    if (trip.isBlocked) return res.status(403).json({ success: false, message: 'This trip has been removed by a moderator' });
+    if (trip.getRole(req.user.id)) return res.status(400).json({ success: false, message: 'Already a member' });
     const exists = trip.joinRequests.find(r => r.user.equals(req.user.id) && r.status === 'pending');
     if (exists) return res.status(400).json({ success: false, message: 'Join request already pending' });
+    // The organizer can turn join requests off for all their trips in settings
+    const ownerSettings = await UserSettings.findOne({ user: trip.createdBy }).select('privacy.allowJoinRequests');
+    if (ownerSettings && ownerSettings.privacy.allowJoinRequests === false) {
+      return res.status(403).json({ success: false, message: "This trip's organizer isn't accepting join requests" });
+    }
     trip.joinRequests.push({ user: req.user.id, message });
     await trip.save();
+    await Notification.createTripJoinRequestNotification(trip._id, req.user.id, trip.createdBy);
     res.status(200).json({ success: true, message: 'Join request submitted' });
   } catch (error) {
     console.error('Request join error:', error);
@@ -293,13 +945,15 @@ exports.handleJoinRequest = async (req, res) => {
     const { action, userId } = req.body; // action: 'approve' | 'reject'
     const trip = await Trip.findById(req.params.id);
     if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
-    if (!trip.isCreator(req.user.id)) return res.status(403).json({ success: false, message: 'Only the creator can handle join requests' });
+    if (!can(trip, req.user.id, 'manageMembers')) return res.status(403).json({ success: false, message: 'Only the owner or co-owners can handle join requests' });
+    if (action === 'approve' && trip.status === 'cancelled') return res.status(400).json({ success: false, message: 'This trip has been cancelled' });
 
     if (action === 'approve') {
       await trip.approveJoin(userId);
     } else {
       await trip.rejectJoin(userId);
     }
+    await Notification.createTripJoinResponseNotification(trip._id, req.user.id, userId, action === 'approve');
 
     // Populate user data for response
     await trip.populate({
@@ -322,17 +976,23 @@ exports.handleJoinRequest = async (req, res) => {
 
 exports.addCollaborator = async (req, res) => {
   try {
-    const { username, role } = req.body;
+    const { username, role = 'editor' } = req.body;
+    if (!TRIP_ROLES.includes(role)) return res.status(400).json({ success: false, message: 'Invalid collaborator role' });
     const trip = await Trip.findById(req.params.id);
     if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
-    if (!trip.isCreator(req.user.id)) return res.status(403).json({ success: false, message: 'Only the creator can add collaborators' });
-    const user = await User.findOne({ username: username.toLowerCase() });
+    if (!can(trip, req.user.id, 'manageMembers')) return res.status(403).json({ success: false, message: 'Only the owner or co-owners can add collaborators' });
+    if (role === 'co-owner' && !trip.isCreator(req.user.id)) return res.status(403).json({ success: false, message: 'Only the owner can add co-owners' });
+    const user = await User.findOne({ username: String(username || '').toLowerCase() });
     if (!user) return res.status(404).json({ success: false, message: 'User not found' });
+    if (trip.isCreator(user._id)) return res.status(400).json({ success: false, message: 'The owner cannot be a collaborator' });
     const exists = trip.collaborators.find(c => c.user.equals(user._id));
-    if (!exists) {
-      trip.collaborators.push({ user: user._id, role: role === 'editor' ? 'editor' : 'editor' });
-      await trip.save();
-    }
+    if (exists) return res.status(400).json({ success: false, message: 'User is already a collaborator' });
+
+    trip.collaborators.push({ user: user._id, role });
+    await trip.save();
+    await Notification.createTripInviteNotification(trip._id, user._id, req.user.id);
+
+    await trip.populate('collaborators.user', 'username fullName profilePicture');
     res.status(200).json({ success: true, data: trip.collaborators });
   } catch (error) {
     console.error('Add collaborator error:', error);
@@ -340,11 +1000,41 @@ exports.addCollaborator = async (req, res) => {
   }
 };
 
+exports.updateCollaboratorRole = async (req, res) => {
+  try {
+    const { role } = req.body;
+    if (!TRIP_ROLES.includes(role)) return res.status(400).json({ success: false, message: 'Invalid collaborator role' });
+    const trip = await Trip.findById(req.params.id);
+    if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
+    if (!can(trip, req.user.id, 'manageMembers')) return res.status(403).json({ success: false, message: 'Only the owner or co-owners can change roles' });
+    const collaborator = trip.collaborators.find(c => c.user.equals(req.params.userId));
+    if (!collaborator) return res.status(404).json({ success: false, message: 'Collaborator not found' });
+
+    // Co-owners manage everyone else, but only the owner promotes or demotes co-owners
+    if ((collaborator.role === 'co-owner' || role === 'co-owner') && !trip.isCreator(req.user.id)) {
+      return res.status(403).json({ success: false, message: 'Only the owner can change co-owner roles' });
+    }
+
+    collaborator.role = role;
+    await trip.save();
+    await trip.populate('collaborators.user', 'username fullName profilePicture');
+    res.status(200).json({ success: true, message: 'Collaborator role updated', data: trip.collaborators });
+  } catch (error) {
+    console.error('Update collaborator role error:', error);
+    res.status(500).json({ success: false, message: 'Server error while updating collaborator role' });
+  }
+};
+
 exports.removeCollaborator = async (req, res) => {
   try {
     const trip = await Trip.findById(req.params.id);
     if (!trip) return res.status(404).json({ success: false, message: 'Trip not found' });
-    if (!trip.isCreator(req.user.id)) return res.status(403).json({ success: false, message: 'Only the creator can remove collaborators' });
+    if (!can(trip, req.user.id, 'manageMembers')) return res.status(403).json({ success: false, message: 'Only the owner or co-owners can remove collaborators' });
+    const collaborator = trip.collaborators.find(c => c.user.equals(req.params.userId));
+    if (!collaborator) return res.status(404).json({ success: false, message: 'Collaborator not found' });
+    if (collaborator.role === 'co-owner' && !trip.isCreator(req.user.id)) {
+      return res.status(403).json({ success: false, message: 'Only the owner can remove co-owners' });
+    }
     trip.collaborators = trip.collaborators.filter(c => !c.user.equals(req.params.userId));
     await trip.save();
     res.status(200).json({ success: true, message: 'Collaborator removed' });
@@ -361,9 +1051,11 @@ exports.listTripsForUser = async (req, res) => {
     const skip = (page - 1) * limit;
     const userId = req.user.id;
 
-    const trips = await Trip.find({
-      $or: [ { createdBy: userId }, { members: userId } ]
-    })
+    const query = { $or: [ { createdBy: userId }, { members: userId }, { 'collaborators.user': userId } ] };
+    const statuses = parseStatusFilter(req.query.status);
+    if (statuses.length > 0) query.status = { $in: statuses };
+
+    const trips = await Trip.find(query)
     .populate('createdBy', 'username fullName profilePicture')
     .populate('members', 'username fullName profilePicture')
     .sort({ startDate: -1 })
@@ -399,7 +1091,7 @@ exports.getRequestedTrips = async (req, res) => {
     // Normalize the trips and add request status
     const baseUrl = process.env.BASE_URL || '';
     const normalizedTrips = trips.map(trip => {
-      const normalizedTrip = normalizeTripMedia(trip, baseUrl);
+      const normalizedTrip = hideExpenses(normalizeTripMedia(trip, baseUrl), trip, userId);
       // Find the user's join request for this trip
       const userRequest = trip.joinRequests.find(req => req.user._id.toString() === userId);
       return {
@@ -442,10 +1134,13 @@ exports.filterPublicTrips = async (req, res) => {
     if (req.query.query) {
       filters.destination = req.query.query;
     }
+    if (req.query.status) {
+      filters.status = parseStatusFilter(req.query.status);
+    }
 
     const trips = await Trip.filterTrips(filters, page, limit);
     const baseUrl = process.env.BASE_URL || '';
-    const normalizedTrips = trips.map(trip => normalizeTripMedia(trip, baseUrl));
+    const normalizedTrips = trips.map(trip => hideExpenses(normalizeTripMedia(trip, baseUrl), trip, req.user?.id));
 
     res.status(200).json({
       success: true,
@@ -488,7 +1183,11 @@ exports.getTripConstants = async (req, res) => {
           'backpacking',
           'luxury',
           'budget-travel'
-        ]
+        ],
+        travelModes: TRAVEL_MODES,
+        defaultTravelMode: DEFAULT_TRAVEL_MODE,
+        travelSpeeds: getTravelSpeeds(),
+        transferBufferMinutes: DEFAULT_BUFFER_MINUTES
       }
     });
   } catch (error) {
@@ -530,3 +1229,6 @@ const upload = multer({
 
 exports.upload = upload;
 
+// Album photos go through the same pipeline as post media, images only
+exports.photoUpload = mediaUpload('trips', 'trip', IMAGE_TYPES);
+
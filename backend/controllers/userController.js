@@ -3,6 +3,8 @@ const Post = require('../models/Post');
 const Trip = require('../models/Trip');
 const Notification = require('../models/Notification');
 const { validationResult } = require('express-validator');
+const { getPresence, broadcastPresence } = require('../utils/presence');
+const { getUserSuggestions } = require('../utils/userSuggestions');
 const multer = require('multer');
 const path = require('path');
 const fs = require('fs').promises;
@@ -66,7 +68,8 @@ const getUserProfile = async (req, res, next) => {
       $or: [
         { createdBy: user._id },
         { members: user._id }
-      ]
+      ],
+      isBlocked: { $ne: true }
     })
     .select('tripName startDate endDate coverImage')
     .sort({ startDate: -1 })
@@ -76,10 +79,17 @@ const getUserProfile = async (req, res, next) => {
     user.postsCount = postsCount;
     user.tripsCount = tripsCount;
 
+    // Whether the viewer has blocked this user
+    let isBlocked = false;
+    if (req.user && req.user.id !== user._id.toString()) {
+      isBlocked = !!(await User.exists({ _id: req.user.id, blockedUsers: user._id }));
+    }
+
     res.status(200).json({
       success: true,
       data: {
         user,
+        isBlocked,
         posts: recentPosts.map(post => ({
           id: post._id,
           imageUrl: post.media[0] || '/assets/images/trip-placeholder.jpg',
@@ -129,7 +139,8 @@ const updateProfile = async (req, res, next) => {
       interests: req.body.interests,
       travelHistory: req.body.travelHistory,
       profilePicture: req.body.profilePicture,
-      coverImage: req.body.coverImage
+      coverImage: req.body.coverImage,
+      showOnline: req.body.showOnline
     };
 
     // Remove undefined fields
@@ -155,6 +166,11 @@ const updateProfile = async (req, res, next) => {
       });
     }
 
+    // Hide or reveal presence for conversation partners straight away
+    if (req.body.showOnline !== undefined) {
+      await broadcastPresence(req.app.get('io'), user, getPresence(user));
+    }
+
     res.status(200).json({
       success: true,
       message: 'Profile updated successfully',
@@ -201,6 +217,13 @@ const followUser = async (req, res, next) => {
       });
     }
 
+    if (await User.isBlockedBetween(currentUserId, userId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You cannot follow this user'
+      });
+    }
+
     const currentUser = await User.findById(currentUserId);
 
     // Check if already following
@@ -273,6 +296,233 @@ const unfollowUser = async (req, res, next) => {
   }
 };
 
+// @desc    Get suggested users to follow
+// @route   GET /api/users/suggestions
+// @access  Private
+const getSuggestions = async (req, res, next) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 10, 1), 30);
+
+    const suggestions = await getUserSuggestions(req.user.id, { limit });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        suggestions
+      }
+    });
+
+  } catch (error) {
+    console.error('Get suggestions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching suggestions'
+    });
+  }
+};
+
+// @desc    Block a user
+// @route   POST /api/users/block/:userId
+// @access  Private
+const blockUser = async (req, res, next) => {
+  try {
+    const { userId } = req.params;
+    const currentUserId = req.user.id;
+
+    if (userId === currentUserId) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot block yourself'
+      });
+    }
+
+    const userToBlock = await User.findById(userId);
+    if (!userToBlock) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+
+    const currentUser = await User.findById(currentUserId).select('+blockedUsers');
+
+    if (currentUser.blockedUsers.some(id => id.toString() === userId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'You have already blocked this user'
+      });
+    }
+
+    currentUser.blockedUsers.push(userToBlock._id);
+    await currentUser.save();
+
+    // Blocking removes follows in both directions
+    if (currentUser.isFollowing(userId)) {
+      await currentUser.unfollow(userId);
+    }
+    if (userToBlock.isFollowing(currentUserId)) {
+      await userToBlock.unfollow(currentUserId);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'User blocked successfully'
+    });
+
+  } catch (error) {
+    console.error('Block user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while blocking user'
+    });
+  }
+};
+
+// @desc    Unblock a user
+// @route   DELETE /api/users/block/:userId
+// @access  Private
+const unblockUser = async (req, res, next) => {
+  try {
+    const { userId } = req.params;
+
+    const currentUser = await User.findById(req.user.id).select('+blockedUsers');
+
+    if (!currentUser.blockedUsers.some(id => id.toString() === userId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'You have not blocked this user'
+      });
+    }
+
+    currentUser.blockedUsers = currentUser.blockedUsers.filter(id => id.toString() !== userId);
+    await currentUser.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'User unblocked successfully'
+    });
+
+  } catch (error) {
+    console.error('Unblock user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while unblocking user'
+    });
+  }
+};
+
+// Most hashtags a user can follow
+const MAX_FOLLOWED_HASHTAGS = 200;
+
+// @desc    Get hashtags the current user follows
+// @route   GET /api/users/hashtags
+// @access  Private
+const getFollowedHashtags = async (req, res, next) => {
+  try {
+    const user = await User.findById(req.user.id).select('followedHashtags');
+
+    res.status(200).json({
+      success: true,
+      data: {
+        hashtags: user.followedHashtags
+      }
+    });
+
+  } catch (error) {
+    console.error('Get followed hashtags error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching followed hashtags'
+    });
+  }
+};
+
+// @desc    Follow a hashtag so its posts appear in the feed
+// @route   POST /api/users/hashtags/:tag
+// @access  Private
+const followHashtag = async (req, res, next) => {
+  try {
+    const tag = req.params.tag.replace(/^#/, '').toLowerCase();
+
+    if (!/^[a-z0-9_]{1,100}$/.test(tag)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid hashtag'
+      });
+    }
+
+    const user = await User.findById(req.user.id).select('followedHashtags');
+
+    if (user.followedHashtags.includes(tag)) {
+      return res.status(400).json({
+        success: false,
+        message: 'You are already following this hashtag'
+      });
+    }
+
+    if (user.followedHashtags.length >= MAX_FOLLOWED_HASHTAGS) {
+      return res.status(400).json({
+        success: false,
+        message: `You can follow up to ${MAX_FOLLOWED_HASHTAGS} hashtags`
+      });
+    }
+
+    user.followedHashtags.push(tag);
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Hashtag followed successfully',
+      data: {
+        hashtags: user.followedHashtags
+      }
+    });
+
+  } catch (error) {
+    console.error('Follow hashtag error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while following hashtag'
+    });
+  }
+};
+
+// @desc    Unfollow a hashtag
+// @route   DELETE /api/users/hashtags/:tag
+// @access  Private
+const unfollowHashtag = async (req, res, next) => {
+  try {
+    const tag = req.params.tag.replace(/^#/, '').toLowerCase();
+
+    const user = await User.findById(req.user.id).select('followedHashtags');
+
+    if (!user.followedHashtags.includes(tag)) {
+      return res.status(400).json({
+        success: false,
+        message: 'You are not following this hashtag'
+      });
+    }
+
+    user.followedHashtags = user.followedHashtags.filter(followed => followed !== tag);
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Hashtag unfollowed successfully',
+      data: {
+        hashtags: user.followedHashtags
+      }
+    });
+
+  } catch (error) {
+    console.error('Unfollow hashtag error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while unfollowing hashtag'
+    });
+  }
+};
+
 // @desc    Get user's followers
 // @route   GET /api/users/followers/:userId
 // @access  Public
@@ -593,6 +843,12 @@ module.exports = {
   updateProfile,
   followUser,
   unfollowUser,
+  getSuggestions,
+  blockUser,
+  unblockUser,
+  getFollowedHashtags,
+  followHashtag,
+  unfollowHashtag,
   getUserFollowers,
   getUserFollowing,
   searchUsers,
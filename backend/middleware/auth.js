@@ -40,6 +40,15 @@ const protect = async (req, res, next) => {
         });
       }
 
+      // Check if a moderator has suspended the account
+      if (user.isSuspended()) {
+        return res.status(403).json({
+          success: false,
+          message: `Account suspended until ${user.suspendedUntil.toISOString()}`,
+          suspendedUntil: user.suspendedUntil
+        });
+      }
+
       req.user = user;
       next();
     } catch (error) {
@@ -91,7 +100,7 @@ const optionalAuth = async (req, res, next) => {
         const decoded = jwt.verify(token, process.env.JWT_SECRET);
         const user = await User.findById(decoded.id).select('-password');
 
-        if (user && user.isActive) {
+        if (user && user.isActive && !user.isSuspended()) {
           req.user = user;
         }
       } catch (error) {
@@ -106,9 +115,33 @@ const optionalAuth = async (req, res, next) => {
   }
 };
 
+// Socket.IO auth - verifies the JWT sent in the handshake and attaches the user
+const socketAuth = async (socket, next) => {
+  try {
+    const token = socket.handshake.auth && socket.handshake.auth.token;
+
+    if (!token) {
+      return next(new Error('Not authorized'));
+    }
+
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    const user = await User.findById(decoded.id).select('-password');
+
+    if (!user || !user.isActive || user.isSuspended()) {
+      return next(new Error('Not authorized'));
+    }
+
+    socket.user = user;
+    next();
+  } catch (error) {
+    next(new Error('Not authorized'));
+  }
+};
+
 module.exports = {
   protect,
   authorize,
   requireAdmin,
-  optionalAuth
+  optionalAuth,
+  socketAuth
 };
@@ -0,0 +1,39 @@
+const multer = require('multer');
+const path = require('path');
+const fs = require('fs').promises;
+
+// Image and video types accepted for posts and stories
+const MEDIA_TYPES = /jpeg|jpg|png|gif|webp|mp4|mov|avi|webm/;
+
+// Image types only, e.g. for trip albums
+const IMAGE_TYPES = /jpeg|jpg|png|gif|webp/;
+
+// Multer upload middleware for photos and videos, stored under uploads/<folder>
+// as <prefix>-<unique suffix><extension>
+const mediaUpload = (folder, prefix, types = MEDIA_TYPES) => multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      const uploadPath = path.join(__dirname, '../uploads', folder);
+      fs.mkdir(uploadPath, { recursive: true })
+        .then(() => cb(null, uploadPath))
+        .catch(err => cb(err));
+    },
+    filename: (req, file, cb) => {
+      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+      cb(null, `${prefix}-${uniqueSuffix}${path.extname(file.originalname)}`);
+    }
+  }),
+  limits: { fileSize: 50 * 1024 * 1024 }, // 50MB limit for videos
+  fileFilter: (req, file, cb) => {
+    const mimetype = types.test(file.mimetype);
+    const extname = types.test(path.extname(file.originalname).toLowerCase());
+
+    if (mimetype && extname) {
+      return cb(null, true);
+    } else {
+      cb(new Error(types === IMAGE_TYPES ? 'Only image files are allowed!' : 'Only images and videos are allowed!'));
+    }
+  }
+});
+
+module.exports = { mediaUpload, IMAGE_TYPES };
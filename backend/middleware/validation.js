@@ -1,4 +1,4 @@
-const { body } = require('express-validator');
+const { body, param } = require('express-validator');
 
 // Validation rules for user registration
 const validateRegister = [
@@ -152,6 +152,62 @@ const validateResetPassword = [
     .withMessage('Password must contain at least one uppercase letter, one lowercase letter, and one number')
 ];
 
+// Validation rules for two-factor authentication
+const validateTwoFactorCode = [
+  body('code')
+    .trim()
+    .notEmpty()
+    .withMessage('Authentication code is required')
+];
+
+const validateTwoFactorLogin = [
+  body('twoFactorToken')
+    .notEmpty()
+    .withMessage('Sign-in token is required'),
+
+  ...validateTwoFactorCode
+];
+
+const validateTwoFactorReauth = [
+  body('password')
+    .notEmpty()
+    .withMessage('Password is required'),
+
+  ...validateTwoFactorCode
+];
+
+// Validation rules for the settings page (every field optional)
+const validateUpdateSettings = [
+  body('account.fullName')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Display name must be between 2 and 100 characters'),
+
+  body('account.email')
+    .optional()
+    .trim()
+    .isEmail()
+    .withMessage('Please provide a valid email address')
+    .normalizeEmail(),
+
+  // Checked against the account password in the controller when the email changes
+  body('account.currentPassword')
+    .optional()
+    .isString()
+    .withMessage('Current password must be text'),
+
+  body(['privacy.showOnline', 'privacy.allowJoinRequests', 'security.loginAlerts', 'appearance.compactMode'])
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('Must be true or false'),
+
+  body('appearance.theme')
+    .optional()
+    .isIn(['system', 'light', 'dark'])
+    .withMessage('Theme must be system, light or dark')
+];
+
 // Validation rules for profile update
 const validateUpdateProfile = [
   body('firstName')
@@ -219,7 +275,13 @@ const validateUpdateProfile = [
   body('profilePicture')
     .optional()
     .isURL()
-    .withMessage('Profile picture must be a valid URL')
+    .withMessage('Profile picture must be a valid URL'),
+
+  body('showOnline')
+    .optional()
+    .isBoolean()
+    .withMessage('showOnline must be a boolean')
+    .toBoolean()
 ];
 
 // Validation rules for refresh token
@@ -268,6 +330,9 @@ const validateCreatePost = [
           if (parsed.lng && (typeof parsed.lng !== 'number' || parsed.lng < -180 || parsed.lng > 180)) {
             throw new Error('Invalid longitude');
           }
+          if (parsed.placeId && !/^[A-Za-z0-9_.-]{1,300}$/.test(parsed.placeId)) {
+            throw new Error('Invalid place ID');
+          }
           return true;
         } catch (error) {
           throw new Error('Invalid location format');
@@ -279,7 +344,31 @@ const validateCreatePost = [
   body('isPublic')
     .optional()
     .isBoolean()
-    .withMessage('isPublic must be a boolean value')
+    .withMessage('isPublic must be a boolean value'),
+
+  body('mediaMeta')
+    .optional()
+    .custom((value) => {
+      let parsed;
+      try {
+        parsed = typeof value === 'string' ? JSON.parse(value) : value;
+      } catch (error) {
+        throw new Error('Invalid media metadata format');
+      }
+      if (!Array.isArray(parsed) || parsed.length > 10) {
+        throw new Error('mediaMeta must be a list of at most 10 entries');
+      }
+      for (const entry of parsed) {
+        if (entry === null) continue;
+        if (typeof entry.blurhash !== 'string' || !/^[0-9A-Za-z#$%*+,\-.:;=?@[\]^_{|}~]{6,100}$/.test(entry.blurhash)) {
+          throw new Error('Invalid blurhash');
+        }
+        if (!Number.isInteger(entry.width) || !Number.isInteger(entry.height) || entry.width < 1 || entry.height < 1) {
+          throw new Error('Media width and height must be positive integers');
+        }
+      }
+      return true;
+    })
 ];
 
 // Validation rules for updating posts
@@ -302,6 +391,9 @@ const validateUpdatePost = [
           if (parsed.lng && (typeof parsed.lng !== 'number' || parsed.lng < -180 || parsed.lng > 180)) {
             throw new Error('Invalid longitude');
           }
+          if (parsed.placeId && !/^[A-Za-z0-9_.-]{1,300}$/.test(parsed.placeId)) {
+            throw new Error('Invalid place ID');
+          }
           return true;
         } catch (error) {
           throw new Error('Invalid location format');
@@ -313,7 +405,22 @@ const validateUpdatePost = [
   body('isPublic')
     .optional()
     .isBoolean()
-    .withMessage('isPublic must be a boolean value')
+    .withMessage('isPublic must be a boolean value'),
+
+  body('mediaOrder')
+    .optional()
+    .custom((value) => {
+      let parsed;
+      try {
+        parsed = typeof value === 'string' ? JSON.parse(value) : value;
+      } catch (error) {
+        throw new Error('Invalid media order format');
+      }
+      if (!Array.isArray(parsed) || parsed.length > 10 || parsed.some(entry => typeof entry !== 'string')) {
+        throw new Error('mediaOrder must be a list of at most 10 media URLs or upload references');
+      }
+      return true;
+    })
 ];
 
 // Validation rules for creating comments
@@ -417,13 +524,146 @@ const validateAddReaction = [
     .withMessage('Emoji must be between 1 and 10 characters')
 ];
 
+// Validation rules for reporting content
+const validateCreateReport = [
+  body('reportedType')
+    .isIn(['post', 'comment', 'user', 'message', 'trip'])
+    .withMessage('Invalid report type'),
+
+  body('reportedId')
+    .isMongoId()
+    .withMessage('Invalid reported ID format'),
+
+  body('reason')
+    .isIn([
+      'spam',
+      'harassment',
+      'hate_speech',
+      'violence',
+      'nudity',
+      'false_information',
+      'copyright',
+      'impersonation',
+      'inappropriate_content',
+      'other'
+    ])
+    .withMessage('Invalid report reason'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Description cannot be more than 1000 characters')
+];
+
+// Validation rules for resolving reports
+const validateResolveReport = [
+  body('action')
+    .isIn(['warning', 'content_removed', 'user_suspended', 'user_banned'])
+    .withMessage('Invalid moderation action'),
+
+  body('adminNotes')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Admin notes cannot be more than 1000 characters'),
+
+  body('suspensionDays')
+    .optional()
+    .isInt({ min: 1, max: 365 })
+    .withMessage('Suspension must be between 1 and 365 days')
+];
+
+// Validation rules for creating collections
+const validateCreateCollection = [
+  body('name')
+    .trim()
+    .notEmpty()
+    .withMessage('Collection name is required')
+    .isLength({ max: 60 })
+    .withMessage('Collection name cannot be more than 60 characters'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 300 })
+    .withMessage('Description cannot be more than 300 characters'),
+
+  body('isPublic')
+    .optional()
+    .isBoolean()
+    .withMessage('isPublic must be a boolean')
+];
+
+// Validation rules for updating collections
+const validateUpdateCollection = [
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Collection name cannot be empty')
+    .isLength({ max: 60 })
+    .withMessage('Collection name cannot be more than 60 characters'),
+
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 300 })
+    .withMessage('Description cannot be more than 300 characters'),
+
+  body('isPublic')
+    .optional()
+    .isBoolean()
+    .withMessage('isPublic must be a boolean')
+];
+
+// Validation rules for saving posts and trips
+const validateSaveItem = [
+  body('itemType')
+    .isIn(['post', 'trip'])
+    .withMessage('Only posts and trips can be saved'),
+
+  body('itemId')
+    .isMongoId()
+    .withMessage('Invalid item ID format'),
+
+  body('collectionId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid collection ID format')
+];
+
+// Validation rules for routes addressing a saved item
+const validateSavedItemParams = [
+  param('itemType')
+    .isIn(['post', 'trip'])
+    .withMessage('Only posts and trips can be saved'),
+
+  param('itemId')
+    .isMongoId()
+    .withMessage('Invalid item ID format')
+];
+
+// Validation rules for posting stories
+const validateCreateStory = [
+  body('caption')
+    .optional()
+    .isLength({ max: 200 })
+    .withMessage('Caption cannot be more than 200 characters')
+    .trim()
+];
+
 module.exports = {
   validateRegister,
   validateLogin,
   validateChangePassword,
   validateForgotPassword,
   validateResetPassword,
+  validateTwoFactorCode,
+  validateTwoFactorLogin,
+  validateTwoFactorReauth,
   validateUpdateProfile,
+  validateUpdateSettings,
   validateRefreshToken,
   validateUserSearch,
   validateFollowUser,
@@ -433,5 +673,12 @@ module.exports = {
   validateUpdateComment,
   validateCreateConversation,
   validateSendMessage,
-  validateAddReaction
+  validateAddReaction,
+  validateCreateReport,
+  validateResolveReport,
+  validateCreateCollection,
+  validateUpdateCollection,
+  validateSaveItem,
+  validateSavedItemParams,
+  validateCreateStory
 };
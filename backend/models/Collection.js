@@ -0,0 +1,156 @@
+const mongoose = require('mongoose');
+
+// Name of the collection every user saves into when they don't pick one
+const DEFAULT_COLLECTION_NAME = 'Saved';
+
+const collectionItemSchema = new mongoose.Schema({
+  itemType: {
+    type: String,
+    enum: ['post', 'trip'],
+    required: true
+  },
+  itemId: {
+    type: mongoose.Schema.Types.ObjectId,
+    refPath: 'items.itemModel',
+    required: true
+  },
+  itemModel: {
+    type: String,
+    enum: ['Post', 'Trip'],
+    required: true
+  },
+  addedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const collectionSchema = new mongoose.Schema({
+  // Who owns the collection
+  owner: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Collection owner is required']
+  },
+
+  name: {
+    type: String,
+    required: [true, 'Collection name is required'],
+    trim: true,
+    maxlength: [60, 'Collection name cannot be more than 60 characters']
+  },
+
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [300, 'Description cannot be more than 300 characters']
+  },
+
+  // Shared collections are listed on the owner's profile and can be opened by anyone
+  isPublic: {
+    type: Boolean,
+    default: false
+  },
+
+  // The catch-all collection used by the bookmark button; cannot be deleted
+  isDefault: {
+    type: Boolean,
+    default: false
+  },
+
+  // Position among the owner's collections
+  position: {
+    type: Number,
+    default: 0
+  },
+
+  // Saved posts and trips, in the order the owner arranged them
+  items: [collectionItemSchema]
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Virtual for number of saved items
+collectionSchema.virtual('itemsCount').get(function() {
+  return this.items ? this.items.length : 0;
+});
+
+// Indexes for performance
+collectionSchema.index({ owner: 1, position: 1 }); // Owner's collections in order
+collectionSchema.index({ owner: 1, 'items.itemType': 1, 'items.itemId': 1 }); // Save state lookups
+collectionSchema.index({ owner: 1, isDefault: 1 }, { unique: true, partialFilterExpression: { isDefault: true } }); // One default per user
+
+// Instance method to check if an item is in this collection
+collectionSchema.methods.hasItem = function(itemType, itemId) {
+  return this.items.some(item => item.itemType === itemType && item.itemId.toString() === itemId.toString());
+};
+
+// Instance method to add an item at the top of the collection
+collectionSchema.methods.addItem = function(itemType, itemId) {
+  if (!this.hasItem(itemType, itemId)) {
+    this.items.unshift({ itemType, itemId, itemModel: itemType === 'post' ? 'Post' : 'Trip' });
+  }
+  return this;
+};
+
+// Instance method to remove an item
+collectionSchema.methods.removeItem = function(itemType, itemId) {
+  this.items = this.items.filter(item => !(item.itemType === itemType && item.itemId.toString() === itemId.toString()));
+  return this;
+};
+
+// Instance method to reorder items; returns false when the ids don't match the current items
+collectionSchema.methods.reorderItems = function(itemIds) {
+  const byId = new Map(this.items.map(item => [item._id.toString(), item]));
+  if (itemIds.length !== byId.size || itemIds.some(id => !byId.has(String(id)))) {
+    return false;
+  }
+  this.items = itemIds.map(id => byId.get(String(id)));
+  return true;
+};
+
+// Static method to get (or lazily create) a user's default collection
+collectionSchema.statics.getDefaultCollection = async function(userId) {
+  const existing = await this.findOne({ owner: userId, isDefault: true });
+  if (existing) return existing;
+
+  try {
+    return await this.create({ owner: userId, name: DEFAULT_COLLECTION_NAME, isDefault: true, position: 0 });
+  } catch (error) {
+    // Another request created it first
+    if (error.code === 11000) return this.findOne({ owner: userId, isDefault: true });
+    throw error;
+  }
+};
+
+// Static method to get the ids of the given items that a user has saved anywhere
+collectionSchema.statics.getSavedItemIds = async function(userId, itemType, itemIds) {
+  if (!userId || itemIds.length === 0) return new Set();
+
+  const wanted = new Set(itemIds.map(id => id.toString()));
+  const collections = await this.find({
+    owner: userId,
+    items: { $elemMatch: { itemType, itemId: { $in: itemIds } } }
+  }).select('items.itemType items.itemId');
+
+  const saved = new Set();
+  collections.forEach(collection => {
+    collection.items.forEach(item => {
+      const id = item.itemId.toString();
+      if (item.itemType === itemType && wanted.has(id)) saved.add(id);
+    });
+  });
+  return saved;
+};
+
+// Static method to remove an item from every collection of a user
+collectionSchema.statics.unsaveEverywhere = function(userId, itemType, itemId) {
+  return this.updateMany(
+    { owner: userId },
+    { $pull: { items: { itemType, itemId } } }
+  );
+};
+
+module.exports = mongoose.model('Collection', collectionSchema);
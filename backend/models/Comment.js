@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const { extractHashtags } = require('../utils/textEntities');
 
 const commentSchema = new mongoose.Schema({
   // Post this comment belongs to
@@ -30,6 +31,34 @@ const commentSchema = new mongoose.Schema({
     default: null
   },
 
+  // Number of replies to this comment
+  replyCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+
+  // Deleted by its author while it still had replies; kept as a "[deleted]"
+  // placeholder so the thread stays readable
+  isDeleted: {
+    type: Boolean,
+    default: false
+  },
+  deletedAt: {
+    type: Date
+  },
+
+  // Hashtags and @mentioned users in the comment text
+  hashtags: [{
+    type: String,
+    lowercase: true,
+    trim: true
+  }],
+  mentions: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+
   // Users who liked this comment
   likes: [{
     type: mongoose.Schema.Types.ObjectId,
@@ -56,9 +85,18 @@ const commentSchema = new mongoose.Schema({
     type: Date
   }
 }, {
-  timestamps: true // adds createdAt and updatedAt
+  timestamps: true, // adds createdAt and updatedAt
+  toJSON: {
+    // Don't expose who wrote a deleted comment
+    transform: (doc, ret) => {
+      if (ret.isDeleted) ret.userId = null;
+      return ret;
+    }
+  }
 });
 
+const DELETED_COMMENT_TEXT = '[deleted]';
+
 // Virtual for likes count
 commentSchema.virtual('likesCount').get(function() {
   return this.likes.length;
@@ -75,6 +113,16 @@ commentSchema.index({ userId: 1, createdAt: -1 }); // User's comments
 commentSchema.index({ parentComment: 1 }); // Reply comments
 commentSchema.index({ isBlocked: 1 }); // Non-blocked comments
 
+// Pre-save middleware to extract hashtags from the comment text
+commentSchema.pre('save', function(next) {
+  // isNew is already false in post-save hooks
+  this.$locals.wasNew = this.isNew;
+  if (this.isModified('commentText')) {
+    this.hashtags = extractHashtags(this.commentText);
+  }
+  next();
+});
+
 // Instance method to check if user liked this comment
 commentSchema.methods.isLikedBy = function(userId) {
   return this.likes.includes(userId);
@@ -110,6 +158,21 @@ commentSchema.statics.getCommentsForPost = function(postId, page = 1, limit = 20
   .limit(limit);
 };
 
+// Instance method to turn the comment into a "[deleted]" placeholder, keeping its replies
+commentSchema.methods.softDelete = async function() {
+  this.isDeleted = true;
+  this.deletedAt = new Date();
+  this.commentText = DELETED_COMMENT_TEXT;
+  this.mentions = [];
+  this.likes = [];
+  await this.save();
+
+  // The placeholder no longer counts as a comment on the post
+  const Post = mongoose.model('Post');
+  await Post.findByIdAndUpdate(this.postId, { $inc: { commentsCount: -1 } });
+  return this;
+};
+
 // Static method to get replies for a comment
 commentSchema.statics.getRepliesForComment = function(commentId, page = 1, limit = 10) {
   const skip = (page - 1) * limit;
@@ -149,18 +212,30 @@ commentSchema.statics.blockComment = async function(commentId, adminId, reason)
   }, { new: true });
 };
 
-// Pre-save middleware to update post comment count
+// Post-save middleware to update post comment count and the parent's reply count
 commentSchema.post('save', async function(doc) {
-  if (doc.isNew) {
+  if (doc.$locals.wasNew) {
     const Post = mongoose.model('Post');
     await Post.findByIdAndUpdate(doc.postId, { $inc: { commentsCount: 1 } });
+    if (doc.parentComment) {
+      await doc.constructor.findByIdAndUpdate(doc.parentComment, { $inc: { replyCount: 1 } });
+    }
   }
 });
 
-// Pre-remove middleware to update post comment count
+// Pre-remove middleware to update post comment count and the parent's reply count
 commentSchema.pre('deleteOne', { document: true }, async function() {
-  const Post = mongoose.model('Post');
-  await Post.findByIdAndUpdate(this.postId, { $inc: { commentsCount: -1 } });
+  // Placeholders were already taken off the post's count when soft deleted
+  if (!this.isDeleted) {
+    const Post = mongoose.model('Post');
+    await Post.findByIdAndUpdate(this.postId, { $inc: { commentsCount: -1 } });
+  }
+  if (this.parentComment) {
+    await this.constructor.findOneAndUpdate(
+      { _id: this.parentComment, replyCount: { $gt: 0 } },
+      { $inc: { replyCount: -1 } }
+    );
+  }
 });
 
 module.exports = mongoose.model('Comment', commentSchema);
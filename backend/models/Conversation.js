@@ -163,7 +163,7 @@ conversationSchema.statics.getUserConversations = function(userId, page = 1, lim
     members: userId,
     isActive: true
   })
-  .populate('members', 'username fullName profilePicture')
+  .populate('members', 'username fullName profilePicture showOnline lastSeen')
   .populate('lastMessageBy', 'username fullName')
   .sort({ lastMessageAt: -1 })
   .skip(skip)
@@ -0,0 +1,55 @@
+const mongoose = require('mongoose');
+
+// A feed session pins the order of a user's feed while they scroll, so posts
+// published or liked in the meantime don't duplicate or skip items across pages.
+// Sessions are extended one batch of candidates at a time and expire after an hour.
+const feedSessionSchema = new mongoose.Schema({
+  // Viewer; null for logged-out visitors
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+
+  mode: {
+    type: String,
+    enum: ['for_you', 'following'],
+    required: true
+  },
+
+  // Only posts created before this are part of the session
+  snapshotAt: {
+    type: Date,
+    required: true
+  },
+
+  // Where proximity is measured from, fixed for the session
+  origin: {
+    lat: Number,
+    lng: Number
+  },
+
+  // Ranked post ids, in the order they are served
+  postIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Post'
+  }],
+
+  // Position of the oldest candidate ranked so far (createdAt, then _id)
+  cursorCreatedAt: Date,
+  cursorId: mongoose.Schema.Types.ObjectId,
+
+  // No older candidates left to rank
+  exhausted: {
+    type: Boolean,
+    default: false
+  },
+
+  createdAt: {
+    type: Date,
+    default: Date.now,
+    expires: 60 * 60 // TTL: 1 hour
+  }
+});
+
+module.exports = mongoose.model('FeedSession', feedSessionSchema);
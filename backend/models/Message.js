@@ -29,6 +29,12 @@ const messageSchema = new mongoose.Schema({
     trim: true
   },
 
+  // Conversation members @mentioned in the message
+  mentions: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+
   // Message type
   messageType: {
     type: String,
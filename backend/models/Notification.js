@@ -20,7 +20,7 @@ const notificationSchema = new mongoose.Schema({
     required: [true, 'Notification type is required'],
     enum: [
       'like', 'comment', 'follow', 'unfollow',
-      'trip_invite', 'trip_join', 'trip_leave',
+      'trip_invite', 'trip_join', 'trip_leave', 'trip_update',
       'message', 'mention',
       'admin_warning', 'admin_ban', 'system'
     ]
@@ -271,6 +271,122 @@ notificationSchema.statics.createTripInviteNotification = async function(tripId,
   });
 };
 
+notificationSchema.statics.createReplyNotification = async function(postId, repliedBy, commentOwnerId) {
+  const User = mongoose.model('User');
+  const replier = await User.findById(repliedBy).select('username fullName');
+
+  return this.createNotification({
+    userId: commentOwnerId,
+    senderId: repliedBy,
+    type: 'comment',
+    referenceId: postId,
+    referenceModel: 'Post',
+    message: `${replier.fullName || replier.username} replied to your comment`
+  });
+};
+
+notificationSchema.statics.createTripJoinRequestNotification = async function(tripId, requestedBy, tripOwnerId) {
+  const User = mongoose.model('User');
+  const Trip = mongoose.model('Trip');
+
+  const [requester, trip] = await Promise.all([
+    User.findById(requestedBy).select('username fullName'),
+    Trip.findById(tripId).select('tripName')
+  ]);
+
+  return this.createNotification({
+    userId: tripOwnerId,
+    senderId: requestedBy,
+    type: 'trip_join',
+    referenceId: tripId,
+    referenceModel: 'Trip',
+    message: `${requester.fullName || requester.username} asked to join "${trip.tripName}"`,
+    priority: 'high',
+    additionalData: { action: 'requested' }
+  });
+};
+
+notificationSchema.statics.createTripJoinResponseNotification = async function(tripId, handledBy, requesterId, approved) {
+  const Trip = mongoose.model('Trip');
+  const trip = await Trip.findById(tripId).select('tripName');
+
+  return this.createNotification({
+    userId: requesterId,
+    senderId: handledBy,
+    type: 'trip_join',
+    referenceId: tripId,
+    referenceModel: 'Trip',
+    message: approved
+      ? `Your request to join "${trip.tripName}" was approved`
+      : `Your request to join "${trip.tripName}" was declined`,
+    additionalData: { action: approved ? 'approved' : 'rejected' }
+  });
+};
+
+notificationSchema.statics.createTripInviteLinkJoinNotification = async function(tripId, joinedBy, tripOwnerId, role) {
+  const User = mongoose.model('User');
+  const Trip = mongoose.model('Trip');
+
+  const [joiner, trip] = await Promise.all([
+    User.findById(joinedBy).select('username fullName'),
+    Trip.findById(tripId).select('tripName')
+  ]);
+
+  return this.createNotification({
+    userId: tripOwnerId,
+    senderId: joinedBy,
+    type: 'trip_join',
+    referenceId: tripId,
+    referenceModel: 'Trip',
+    message: `${joiner.fullName || joiner.username} joined "${trip.tripName}" with an invite link`,
+    additionalData: { action: 'joined', role }
+  });
+};
+
+// Tell everyone on a trip that it started, finished or was cancelled.
+// changedBy is empty for automatic date-based transitions.
+notificationSchema.statics.createTripStatusNotifications = async function(trip, changedBy = null) {
+  const messages = {
+    active: `"${trip.tripName}" has started - have a great trip!`,
+    completed: `"${trip.tripName}" has ended. Share your photos in the trip album`,
+    cancelled: trip.cancellation?.reason
+      ? `"${trip.tripName}" was cancelled: ${trip.cancellation.reason}`
+      : `"${trip.tripName}" was cancelled`
+  };
+  if (!messages[trip.status]) return [];
+
+  const recipients = [trip.createdBy, ...trip.members]
+    .map(id => (id._id || id).toString())
+    .filter((id, index, all) => all.indexOf(id) === index);
+
+  return Promise.all(recipients.map(userId => this.createNotification({
+    userId,
+    senderId: changedBy || undefined,
+    type: 'trip_update',
+    referenceId: trip._id,
+    referenceModel: 'Trip',
+    message: messages[trip.status].slice(0, 500),
+    priority: trip.status === 'cancelled' ? 'high' : 'normal',
+    additionalData: { status: trip.status }
+  })));
+};
+
+// context is where the mention was made: 'post', 'comment' or 'message'
+notificationSchema.statics.createMentionNotification = async function(referenceId, referenceModel, mentionedUserId, mentionedBy, context) {
+  const User = mongoose.model('User');
+  const mentioner = await User.findById(mentionedBy).select('username fullName');
+
+  return this.createNotification({
+    userId: mentionedUserId,
+    senderId: mentionedBy,
+    type: 'mention',
+    referenceId,
+    referenceModel,
+    message: `${mentioner.fullName || mentioner.username} mentioned you in a ${context}`,
+    additionalData: { context }
+  });
+};
+
 notificationSchema.statics.createAdminWarningNotification = async function(userId, reason, adminId) {
   return this.createNotification({
     userId,
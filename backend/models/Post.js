@@ -1,4 +1,31 @@
 const mongoose = require('mongoose');
+const { extractHashtags } = require('../utils/textEntities');
+
+// Most previous versions kept per post
+const MAX_EDIT_HISTORY = 20;
+
+// A previous version of a post, saved when its caption, media or location changed
+const postVersionSchema = new mongoose.Schema({
+  caption: String,
+  // Only media the post still shows; removed files are deleted, not kept here
+  media: [String],
+  // How many of the version's media files have since been removed
+  removedMedia: {
+    type: Number,
+    default: 0
+  },
+  location: {
+    name: String,
+    lat: Number,
+    lng: Number,
+    placeId: String
+  },
+  // When this version was replaced
+  editedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: true });
 
 const postSchema = new mongoose.Schema({
   // User who created the post
@@ -22,6 +49,15 @@ const postSchema = new mongoose.Schema({
     required: true
   }],
 
+  // Blurhash placeholders and pixel sizes of images processed before upload
+  mediaMeta: [{
+    _id: false,
+    url: { type: String, required: true },
+    blurhash: { type: String, required: true, maxlength: 100 },
+    width: { type: Number, min: 1 },
+    height: { type: Number, min: 1 }
+  }],
+
   // Location information
   location: {
     name: {
@@ -38,6 +74,12 @@ const postSchema = new mongoose.Schema({
       type: Number,
       min: [-180, 'Longitude must be between -180 and 180'],
       max: [180, 'Longitude must be between -180 and 180']
+    },
+    // Google place id when picked from autocomplete, otherwise a slug of the name
+    placeId: {
+      type: String,
+      trim: true,
+      maxlength: [300, 'Place ID cannot be more than 300 characters']
     }
   },
 
@@ -48,6 +90,12 @@ const postSchema = new mongoose.Schema({
     trim: true
   }],
 
+  // Users @mentioned in the caption
+  mentions: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+
   // Users who liked this post
   likes: [{
     type: mongoose.Schema.Types.ObjectId,
@@ -60,6 +108,18 @@ const postSchema = new mongoose.Schema({
     default: 0
   },
 
+  // Last time the caption, media or location changed
+  editedAt: {
+    type: Date,
+    default: null
+  },
+
+  // Previous versions, newest last; only shown to the author
+  editHistory: {
+    type: [postVersionSchema],
+    select: false
+  },
+
   // Post visibility
   isPublic: {
     type: Boolean,
@@ -105,7 +165,9 @@ postSchema.virtual('hasLocation').get(function() {
 postSchema.index({ userId: 1, createdAt: -1 }); // User's posts sorted by date
 postSchema.index({ createdAt: -1 }); // All posts sorted by date (feed)
 postSchema.index({ hashtags: 1 }); // Search by hashtags
+postSchema.index({ mentions: 1 }); // Posts mentioning a user
 postSchema.index({ 'location.lat': 1, 'location.lng': 1 }); // Geospatial queries
+postSchema.index({ 'location.placeId': 1, createdAt: -1 }); // Posts at a place
 postSchema.index({ likes: 1 }); // Find posts liked by user
 postSchema.index({ isPublic: 1, isBlocked: 1 }); // Public, non-blocked posts
 
@@ -119,19 +181,15 @@ postSchema.index({
 // Pre-save middleware to extract hashtags from caption
 postSchema.pre('save', function(next) {
   if (this.isModified('caption')) {
-    // Extract hashtags from caption
-    const hashtagRegex = /#([a-zA-Z0-9_]+)/g;
-    const hashtags = [];
-    let match;
-
-    while ((match = hashtagRegex.exec(this.caption)) !== null) {
-      const hashtag = match[1].toLowerCase();
-      if (!hashtags.includes(hashtag)) {
-        hashtags.push(hashtag);
-      }
-    }
+    this.hashtags = extractHashtags(this.caption);
+  }
+  next();
+});
 
-    this.hashtags = hashtags;
+// Pre-save middleware to give named locations without a Google place id a stable slug
+postSchema.pre('save', function(next) {
+  if (this.location && this.location.name && !this.location.placeId) {
+    this.location.placeId = this.constructor.getPlaceSlug(this.location.name) || undefined;
   }
   next();
 });
@@ -156,6 +214,67 @@ postSchema.methods.toggleLike = async function(userId) {
   return await this.save();
 };
 
+// Instance method to save the current caption, media and location as a previous
+// version; returns media dropped from the history so their files can be removed
+postSchema.methods.recordEdit = function(now = new Date()) {
+  const history = this.editHistory || [];
+  history.push({
+    caption: this.caption,
+    media: [...this.media],
+    location: this.location && (this.location.name || this.location.lat != null)
+      ? {
+          name: this.location.name,
+          lat: this.location.lat,
+          lng: this.location.lng,
+          placeId: this.location.placeId
+        }
+      : undefined,
+    editedAt: now
+  });
+
+  const dropped = history.splice(0, Math.max(0, history.length - MAX_EDIT_HISTORY));
+  this.editHistory = history;
+  this.editedAt = now;
+  return dropped.flatMap(version => version.media);
+};
+
+// Instance method to forget media the post no longer shows: previous versions
+// only count them, so the files can be deleted. Returns the forgotten URLs.
+postSchema.methods.forgetRemovedMedia = function() {
+  const current = new Set(this.media);
+  const forgotten = new Set();
+  for (const version of this.editHistory || []) {
+    const removed = version.media.filter(url => !current.has(url));
+    if (removed.length === 0) continue;
+    removed.forEach(url => forgotten.add(url));
+    version.media = version.media.filter(url => current.has(url));
+    version.removedMedia = (version.removedMedia || 0) + removed.length;
+  }
+  return [...forgotten];
+};
+
+// Instance method to list every media file still used by the post or its history
+postSchema.methods.getReferencedMedia = function() {
+  return new Set([
+    ...this.media,
+    ...(this.editHistory || []).flatMap(version => version.media)
+  ]);
+};
+
+// Instance method to check whether a viewer may see the post and its comments;
+// returns null when allowed, otherwise the status and message to respond with.
+// Blocked posts look missing to everyone but admins; private posts are author only.
+postSchema.methods.getAccessError = function(user) {
+  if (this.isBlocked && user?.role !== 'admin') {
+    return { status: 404, message: 'Post not found' };
+  }
+  const authorId = this.userId?._id || this.userId;
+  if (!this.isPublic && (!user || String(user.id) !== String(authorId))) {
+    return { status: 403, message: 'Access denied to private post' };
+  }
+  return null;
+};
+
 // Instance method to increment comment count
 postSchema.methods.incrementComments = async function() {
   this.commentsCount += 1;
@@ -198,6 +317,17 @@ postSchema.statics.getPostsByUser = function(userId, page = 1, limit = 20) {
   .limit(limit);
 };
 
+// Static method to turn a place name into a URL-safe id, e.g. "São Paulo, Brazil" -> "sao-paulo-brazil"
+postSchema.statics.getPlaceSlug = function(name) {
+  return String(name)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 100);
+};
+
 // Static method to get posts by hashtag
 postSchema.statics.getPostsByHashtag = function(hashtag, page = 1, limit = 20) {
   const skip = (page - 1) * limit;
@@ -235,6 +365,56 @@ postSchema.statics.getPostsByLocation = function(lat, lng, radiusKm = 10, page =
   .limit(limit);
 };
 
+// Static method to get the hashtags most used alongside others in matching posts
+postSchema.statics.getRelatedHashtags = function(match, excludeTag = null, limit = 10) {
+  const pipeline = [
+    { $match: { ...match, isPublic: true, isBlocked: false } },
+    { $unwind: '$hashtags' }
+  ];
+  if (excludeTag) {
+    pipeline.push({ $match: { hashtags: { $ne: excludeTag } } });
+  }
+  pipeline.push(
+    { $group: { _id: '$hashtags', postsCount: { $sum: 1 } } },
+    { $sort: { postsCount: -1, _id: 1 } },
+    { $limit: limit },
+    { $project: { _id: 0, tag: '$_id', postsCount: 1 } }
+  );
+  return this.aggregate(pipeline);
+};
+
+// Static method to get trending hashtags over a sliding window ending now.
+// Each use counts less the older it is, and tags used by more people rank higher.
+postSchema.statics.getTrendingHashtags = function(windowHours = 72, limit = 10, now = new Date()) {
+  const windowMs = windowHours * 60 * 60 * 1000;
+
+  return this.aggregate([
+    {
+      $match: {
+        createdAt: { $gte: new Date(now.getTime() - windowMs), $lte: now },
+        isPublic: true,
+        isBlocked: false,
+        'hashtags.0': { $exists: true }
+      }
+    },
+    { $unwind: '$hashtags' },
+    {
+      $group: {
+        _id: '$hashtags',
+        postsCount: { $sum: 1 },
+        authors: { $addToSet: '$userId' },
+        // 1 for a use right now, falling linearly to 0 at the start of the window
+        recency: { $sum: { $subtract: [1, { $divide: [{ $subtract: [now, '$createdAt'] }, windowMs] }] } }
+      }
+    },
+    { $addFields: { authorsCount: { $size: '$authors' } } },
+    { $addFields: { score: { $multiply: ['$recency', { $sqrt: '$authorsCount' }] } } },
+    { $sort: { score: -1, postsCount: -1, _id: 1 } },
+    { $limit: limit },
+    { $project: { _id: 0, tag: '$_id', postsCount: 1, authorsCount: 1, score: 1 } }
+  ]);
+};
+
 // Static method to search posts
 postSchema.statics.searchPosts = function(query, page = 1, limit = 20) {
   const skip = (page - 1) * limit;
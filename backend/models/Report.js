@@ -28,6 +28,18 @@ const reportSchema = new mongoose.Schema({
     enum: ['Post', 'Comment', 'User', 'Message', 'Trip']
   },
 
+  // Author of the reported content (the user themselves for user reports)
+  reportedUser: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+
+  // Copy of the reported text, so the report still makes sense if the content is deleted
+  contentPreview: {
+    type: String,
+    maxlength: [500, 'Content preview cannot be more than 500 characters']
+  },
+
   // Reason for the report
   reason: {
     type: String,
@@ -123,6 +135,7 @@ reportSchema.index({ reporterId: 1, createdAt: -1 });
 reportSchema.index({ reportedType: 1, reportedId: 1 });
 reportSchema.index({ status: 1, priority: 1 });
 reportSchema.index({ handledBy: 1 });
+reportSchema.index({ reportedUser: 1 });
 reportSchema.index({ createdAt: -1 });
 
 // Instance method to resolve report
@@ -162,6 +175,8 @@ reportSchema.statics.createReport = async function(data) {
     reportedType,
     reportedId,
     reportedModel,
+    reportedUser,
+    contentPreview,
     reason,
     description,
     evidence = []
@@ -194,6 +209,8 @@ reportSchema.statics.createReport = async function(data) {
     reportedType,
     reportedId,
     reportedModel,
+    reportedUser,
+    contentPreview,
     reason,
     description,
     evidence,
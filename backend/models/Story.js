@@ -0,0 +1,95 @@
+const mongoose = require('mongoose');
+
+// How long a story stays up
+const STORY_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+const storyViewSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  viewedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const storySchema = new mongoose.Schema({
+  // Who posted the story
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+
+  // Single photo or video, stored with the other uploads
+  media: {
+    type: String,
+    required: [true, 'Story media is required']
+  },
+  mediaType: {
+    type: String,
+    enum: ['image', 'video'],
+    required: true
+  },
+
+  caption: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Caption cannot be more than 200 characters']
+  },
+
+  // Who has watched the story, once per user
+  viewers: [storyViewSchema],
+
+  // Stories disappear from the tray once this passes and are deleted by the cleanup job
+  expiresAt: {
+    type: Date,
+    default: () => new Date(Date.now() + STORY_LIFETIME_MS)
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+// Virtual for number of viewers
+storySchema.virtual('viewersCount').get(function() {
+  return this.viewers ? this.viewers.length : 0;
+});
+
+// Indexes for performance
+storySchema.index({ userId: 1, expiresAt: 1 }); // A user's active stories
+storySchema.index({ expiresAt: 1 }); // Cleanup of expired stories
+
+// Instance method to check if a user has seen this story
+storySchema.methods.isViewedBy = function(userId) {
+  return this.viewers.some(view => view.user.toString() === userId.toString());
+};
+
+// Instance method to record a view; the author's own views aren't counted
+storySchema.methods.markViewed = async function(userId) {
+  if (this.userId.toString() === userId.toString() || this.isViewedBy(userId)) {
+    return this;
+  }
+  this.viewers.push({ user: userId });
+  return await this.save();
+};
+
+// Static method to get active stories from the given users, oldest first
+storySchema.statics.getActiveStories = function(userIds, now = new Date()) {
+  return this.find({
+    userId: { $in: userIds },
+    expiresAt: { $gt: now }
+  })
+  .populate('userId', 'username fullName profilePicture')
+  .sort({ createdAt: 1 });
+};
+
+// Static method to find stories that have expired
+storySchema.statics.findExpired = function(now = new Date()) {
+  return this.find({ expiresAt: { $lte: now } }).select('media');
+};
+
+module.exports = mongoose.model('Story', storySchema);
@@ -1,4 +1,7 @@
 const mongoose = require('mongoose');
+const { convertToBase } = require('../utils/exchangeRates');
+const { TRAVEL_MODES, TIME_PATTERN } = require('../utils/itineraryValidation');
+const { INVITE_ROLES } = require('../utils/tripPermissions');
 
 const tripSchema = new mongoose.Schema({
   // Who created the trip
@@ -67,6 +70,12 @@ const tripSchema = new mongoose.Schema({
       required: true,
       min: 1
     },
+    // Position within the day, set by drag-and-drop reordering
+    order: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
     date: {
       type: Date
     },
@@ -87,10 +96,17 @@ const tripSchema = new mongoose.Schema({
       trim: true
     },
     startTime: {
-      type: String // Format: "HH:MM"
+      type: String, // Format: "HH:MM"
+      match: [TIME_PATTERN, 'Start time must be in HH:MM format']
     },
     endTime: {
-      type: String // Format: "HH:MM"
+      type: String, // Format: "HH:MM"
+      match: [TIME_PATTERN, 'End time must be in HH:MM format']
+    },
+    // How travellers get here from the previous activity, used for transfer estimates
+    travelMode: {
+      type: String,
+      enum: TRAVEL_MODES
     },
     cost: {
       type: Number,
@@ -102,6 +118,12 @@ const tripSchema = new mongoose.Schema({
     }
   }],
 
+  // Bumped on every itinerary change so reorders made against a stale copy are rejected
+  itineraryVersion: {
+    type: Number,
+    default: 0
+  },
+
   // Trip checklist
   checklist: [{
     item: {
@@ -141,7 +163,7 @@ const tripSchema = new mongoose.Schema({
     },
     role: {
       type: String,
-      enum: ['editor'],
+      enum: ['viewer', 'editor', 'co-owner'],
       default: 'editor'
     }
   }],
@@ -181,6 +203,12 @@ const tripSchema = new mongoose.Schema({
         required: true,
         min: 0
       },
+      // Currency the expense was paid in; falls back to the budget currency
+      currency: {
+        type: String,
+        uppercase: true,
+        maxlength: 3
+      },
       category: {
         type: String,
         enum: ['accommodation', 'transportation', 'food', 'activities', 'shopping', 'other'],
@@ -198,6 +226,28 @@ const tripSchema = new mongoose.Schema({
         type: Date,
         default: Date.now
       }
+    }],
+    // Offline rate table: units of the budget currency per 1 unit of `currency`
+    exchangeRates: [{
+      currency: {
+        type: String,
+        required: true,
+        uppercase: true,
+        maxlength: 3
+      },
+      rate: {
+        type: Number,
+        required: true,
+        min: 0
+      },
+      updatedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User'
+      },
+      updatedAt: {
+        type: Date,
+        default: Date.now
+      }
     }]
   },
 
@@ -208,6 +258,38 @@ const tripSchema = new mongoose.Schema({
     default: 'planning'
   },
 
+  // Admin moderation
+  isBlocked: {
+    type: Boolean,
+    default: false
+  },
+  blockedReason: {
+    type: String
+  },
+  blockedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  blockedAt: {
+    type: Date
+  },
+
+  // Set when the owner cancels the trip
+  cancellation: {
+    reason: {
+      type: String,
+      maxlength: [500, 'Cancellation reason cannot be more than 500 characters'],
+      trim: true
+    },
+    cancelledBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    cancelledAt: {
+      type: Date
+    }
+  },
+
   // Trip tags
   tags: [{
     type: String,
@@ -265,7 +347,16 @@ const tripSchema = new mongoose.Schema({
   // Trip photos
   photos: [{
     url: String,
-    caption: String,
+    caption: {
+      type: String,
+      maxlength: [500, 'Caption cannot be more than 500 characters'],
+      trim: true
+    },
+    // Itinerary day the photo belongs to; unset for photos from outside the trip dates
+    day: {
+      type: Number,
+      min: 1
+    },
     uploadedBy: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User'
@@ -281,13 +372,43 @@ const tripSchema = new mongoose.Schema({
   toObject: { virtuals: true }
 });
 
+// Invite link that lets anyone holding its code join the trip with a role.
+// Revoked links are kept so the owner can still see who joined through them.
+const inviteLinkSchema = new mongoose.Schema({
+  code: { type: String, required: true },
+  role: { type: String, enum: INVITE_ROLES, default: 'viewer' },
+  expiresAt: { type: Date, default: null },
+  maxUses: { type: Number, min: 1, default: null }, // null for unlimited
+  uses: [{
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    joinedAt: { type: Date, default: Date.now }
+  }],
+  createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  createdAt: { type: Date, default: Date.now },
+  revokedAt: { type: Date, default: null }
+});
+
+// Whether the link can still be used: 'active', 'revoked', 'expired' or 'used_up'
+inviteLinkSchema.methods.getStatus = function(now = new Date()) {
+  if (this.revokedAt) return 'revoked';
+  if (this.expiresAt && this.expiresAt <= now) return 'expired';
+  if (this.maxUses && this.uses.length >= this.maxUses) return 'used_up';
+  return 'active';
+};
+
 // Sharing and join requests
 tripSchema.add({
+  // Legacy single share code; access now goes through invite links
   shareCode: {
     type: String,
     unique: true,
     sparse: true
   },
+  // Only loaded for the people managing members, since the codes grant access
+  inviteLinks: {
+    type: [inviteLinkSchema],
+    select: false
+  },
   joinRequests: [{
     user: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
     status: { type: String, enum: ['pending', 'approved', 'rejected'], default: 'pending' },
@@ -304,6 +425,20 @@ tripSchema.pre('save', function(next) {
   next();
 });
 
+// New trips start in the status their dates call for. Later changes go through
+// transitionTripStatus (utils/tripLifecycle) so members are notified.
+tripSchema.pre('save', function(next) {
+  if (this.isNew) this.status = this.statusForDate();
+  next();
+});
+
+tripSchema.pre('save', function(next) {
+  if (!this.isNew && this.isModified('itinerary')) {
+    this.itineraryVersion += 1;
+  }
+  next();
+});
+
 // Virtual for trip duration in days
 tripSchema.virtual('durationDays').get(function() {
   const diffTime = Math.abs(this.endDate - this.startDate);
@@ -329,7 +464,10 @@ tripSchema.virtual('checklistCompletionPercentage').get(function() {
 // Virtual for total expenses
 tripSchema.virtual('totalExpenses').get(function() {
   if (!this.budget || !this.budget.expenses) return 0;
-  return this.budget.expenses.reduce((total, expense) => total + expense.amount, 0);
+  // Expenses in a currency without a known rate are left out
+  const converted = this.budget.expenses.map(expense =>
+    convertToBase(expense.amount, expense.currency, this.budget.currency, this.budget.exchangeRates));
+  return Math.round(converted.reduce((total, amount) => total + (amount || 0), 0) * 100) / 100;
 });
 
 // Virtual for remaining budget
@@ -357,6 +495,38 @@ tripSchema.methods.isMember = function(userId) {
   return this.members.includes(userId) || this.createdBy.toString() === userId.toString();
 };
 
+// Instance method to get a user's role on the trip, or null for outsiders
+tripSchema.methods.getRole = function(userId) {
+  const id = userId.toString();
+  if ((this.createdBy._id || this.createdBy).toString() === id) return 'owner';
+
+  const collaborator = this.collaborators.find(c => c.user && (c.user._id || c.user).toString() === id);
+  if (collaborator) return collaborator.role;
+
+  // Members who joined through a request can help plan
+  return this.members.some(member => (member._id || member).toString() === id) ? 'editor' : null;
+};
+
+// Instance method to list everyone on the trip (creator, members and collaborators) as id strings
+tripSchema.methods.getParticipantIds = function() {
+  const ids = [
+    this.createdBy,
+    ...this.members,
+    ...this.collaborators.map(c => c.user).filter(Boolean)
+  ].map(person => (person._id || person).toString());
+  return [...new Set(ids)];
+};
+
+// Instance method to get the status the trip's dates call for; cancelled trips stay cancelled
+tripSchema.methods.statusForDate = function(now = new Date()) {
+  if (this.status === 'cancelled') return 'cancelled';
+  if (now < this.startDate) return 'planning';
+
+  // The end date counts as a full day of travel
+  const endOfTrip = new Date(this.endDate.getTime() + 24 * 60 * 60 * 1000);
+  return now < endOfTrip ? 'active' : 'completed';
+};
+
 // Instance method to check if user is creator
 tripSchema.methods.isCreator = function(userId) {
   return this.createdBy.toString() === userId.toString();
@@ -376,6 +546,59 @@ tripSchema.methods.addMember = async function(userId) {
   return this;
 };
 
+// Instance method to find an invite link by its code (needs inviteLinks selected)
+tripSchema.methods.findInviteLink = function(code) {
+  if (!code) return null;
+  return (this.inviteLinks || []).find(link => link.code === String(code)) || null;
+};
+
+// Instance method to join the trip through an invite link: 'member' links add a
+// member, the others a collaborator with the link's role. Records the use.
+// Runs as one conditional update so concurrent joins can't go past the link's
+// maxUses or the trip's maxMembers; resolves to the updated trip.
+tripSchema.methods.joinWithInvite = async function(link, userId, now = new Date()) {
+  const linkConditions = {
+    _id: link._id,
+    revokedAt: null,
+    $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }]
+  };
+  // Fewer than maxUses recorded uses means the last allowed slot is still empty
+  if (link.maxUses) linkConditions[`uses.${link.maxUses - 1}`] = { $exists: false };
+
+  const filter = {
+    _id: this._id,
+    createdBy: { $ne: userId },
+    members: { $ne: userId },
+    'collaborators.user': { $ne: userId },
+    inviteLinks: { $elemMatch: linkConditions }
+  };
+  const update = {
+    $push: { 'inviteLinks.$.uses': { user: userId, joinedAt: now } },
+    // A pending request is settled by joining
+    $set: { 'joinRequests.$[request].status': 'approved' }
+  };
+  if (link.role === 'member') {
+    filter.$expr = { $lt: [{ $size: '$members' }, '$maxMembers'] };
+    update.$push.members = userId;
+  } else {
+    update.$push.collaborators = { user: userId, role: link.role };
+  }
+
+  const trip = await this.constructor.findOneAndUpdate(filter, update, {
+    new: true,
+    arrayFilters: [{ 'request.user': userId, 'request.status': 'pending' }]
+  }).select('+inviteLinks');
+  if (trip) return trip;
+
+  // Someone else got there first; report what changed
+  const current = await this.constructor.findById(this._id).select('+inviteLinks');
+  if (!current) throw new Error('Trip not found');
+  if (current.getRole(userId)) throw new Error('You are already on this trip');
+  const currentLink = current.inviteLinks.id(link._id);
+  if (!currentLink || currentLink.getStatus(now) !== 'active') throw new Error('This invite link can no longer be used');
+  throw new Error('Trip has reached maximum member limit');
+};
+
 // Instance method to approve join request and add member
 tripSchema.methods.approveJoin = async function(userId) {
   const req = this.joinRequests.find(r => r.user.toString() === userId.toString());
@@ -414,13 +637,40 @@ tripSchema.methods.removeMember = async function(userId, removedBy) {
   return this;
 };
 
+// Instance method to get the next free order index on a day
+tripSchema.methods.nextItineraryOrder = function(day) {
+  const orders = this.itinerary.filter(i => i.day === Number(day)).map(i => i.order || 0);
+  return orders.length > 0 ? Math.max(...orders) + 1 : 0;
+};
+
 // Instance method to add itinerary item
 tripSchema.methods.addItineraryItem = async function(item) {
-  this.itinerary.push(item);
-  this.itinerary.sort((a, b) => a.day - b.day); // Keep sorted by day
+  this.itinerary.push({ ...item, order: this.nextItineraryOrder(item.day) });
+  this.itinerary.sort((a, b) => a.day - b.day || a.order - b.order); // Keep sorted by day, then order
   return await this.save();
 };
 
+// Static method to apply a full itinerary layout in one atomic update.
+// `layout` is [{ id, day, order, date }] covering every item; resolves to null
+// when someone else changed the itinerary since `version` was read.
+tripSchema.statics.reorderItinerary = function(tripId, version, layout) {
+  const set = {};
+  const arrayFilters = [];
+  layout.forEach((entry, index) => {
+    const key = `item${index}`;
+    set[`itinerary.$[${key}].day`] = entry.day;
+    set[`itinerary.$[${key}].order`] = entry.order;
+    set[`itinerary.$[${key}].date`] = entry.date;
+    arrayFilters.push({ [`${key}._id`]: entry.id });
+  });
+
+  return this.findOneAndUpdate(
+    { _id: tripId, itineraryVersion: version },
+    { $set: set, $inc: { itineraryVersion: 1 } },
+    { new: true, arrayFilters, runValidators: true }
+  );
+};
+
 // Instance method to add checklist item
 tripSchema.methods.addChecklistItem = async function(item, addedBy) {
   this.checklist.push({
@@ -501,6 +751,7 @@ tripSchema.statics.getPublicTrips = function(page = 1, limit = 20) {
 
   return this.find({
     isPublic: true,
+    isBlocked: { $ne: true }, // $ne so trips saved before the field existed still match
     status: { $in: ['planning', 'active'] }
   })
   .populate('createdBy', 'username fullName profilePicture')
@@ -510,6 +761,16 @@ tripSchema.statics.getPublicTrips = function(page = 1, limit = 20) {
   .limit(limit);
 };
 
+// Static method to find trips whose start or end date has passed without their status moving on
+tripSchema.statics.findDueForStatusChange = function(now = new Date()) {
+  return this.find({
+    $or: [
+      { status: 'planning', startDate: { $lte: now } },
+      { status: 'active', endDate: { $lte: new Date(now.getTime() - 24 * 60 * 60 * 1000) } }
+    ]
+  });
+};
+
 // Static method to get trips by user
 tripSchema.statics.getTripsByUser = function(userId, page = 1, limit = 20) {
   const skip = (page - 1) * limit;
@@ -517,7 +778,8 @@ tripSchema.statics.getTripsByUser = function(userId, page = 1, limit = 20) {
   return this.find({
     $or: [
       { createdBy: userId },
-      { members: userId }
+      { members: userId },
+      { 'collaborators.user': userId }
     ]
   })
   .populate('createdBy', 'username fullName profilePicture')
@@ -538,6 +800,7 @@ tripSchema.statics.searchTrips = function(query, page = 1, limit = 20) {
       { tags: { $in: [new RegExp(query, 'i')] } }
     ],
     isPublic: true,
+    isBlocked: { $ne: true },
     status: { $in: ['planning', 'active'] }
   })
   .populate('createdBy', 'username fullName profilePicture')
@@ -551,7 +814,8 @@ tripSchema.statics.filterTrips = function(filters = {}, page = 1, limit = 20) {
   const skip = (page - 1) * limit;
   const query = {
     isPublic: true,
-    status: { $in: ['planning', 'active'] }
+    isBlocked: { $ne: true },
+    status: { $in: filters.status && filters.status.length > 0 ? filters.status : ['planning', 'active'] }
   };
 
   // Add trip type filter
@@ -609,6 +873,7 @@ tripSchema.statics.findTripsNearLocation = function(lat, lng, maxDistanceKm = 50
 
   return this.find({
     isPublic: true,
+    isBlocked: { $ne: true },
     status: { $in: ['planning', 'active'] },
     destinationCoordinates: {
       $near: {
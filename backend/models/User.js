@@ -1,5 +1,11 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const crypto = require('crypto');
+const { generateSecret, verifyTotp, generateRecoveryCodes, normalizeRecoveryCode } = require('../utils/totp');
+
+// How long emailed links stay valid
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_MINUTES = 24 * 60;
 
 const userSchema = new mongoose.Schema({
   // Basic Information
@@ -80,12 +86,33 @@ const userSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User'
   }],
+  // Hashtags whose posts show up in this user's feed
+  followedHashtags: [{
+    type: String,
+    lowercase: true,
+    trim: true
+  }],
+  // Users this user has blocked; never sent to other users
+  blockedUsers: {
+    type: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    }],
+    select: false
+  },
 
   // Account Status
   isActive: {
     type: Boolean,
     default: true
   },
+  suspendedUntil: {
+    type: Date
+  },
+  suspensionReason: {
+    type: String,
+    maxlength: [500, 'Suspension reason cannot be more than 500 characters']
+  },
   isVerified: {
     type: Boolean,
     default: false
@@ -101,10 +128,48 @@ const userSchema = new mongoose.Schema({
     type: String,
     select: false
   },
-  passwordResetToken: String,
-  passwordResetExpires: Date,
-  emailVerificationToken: String,
-  emailVerificationExpires: Date,
+  // Only SHA-256 hashes of emailed tokens are stored
+  passwordResetToken: {
+    type: String,
+    select: false
+  },
+  passwordResetExpires: {
+    type: Date,
+    select: false
+  },
+  emailVerificationToken: {
+    type: String,
+    select: false
+  },
+  emailVerificationExpires: {
+    type: Date,
+    select: false
+  },
+
+  // Two-factor authentication (TOTP, RFC 6238)
+  twoFactorEnabled: {
+    type: Boolean,
+    default: false
+  },
+  twoFactorSecret: {
+    type: String,
+    select: false
+  },
+  // Secret shown during enrollment, promoted once the user confirms a code
+  twoFactorPendingSecret: {
+    type: String,
+    select: false
+  },
+  // Last accepted time step, so a code can't be used twice
+  twoFactorLastUsedStep: {
+    type: Number,
+    select: false
+  },
+  // SHA-256 hashes of unused recovery codes
+  twoFactorRecoveryCodes: {
+    type: [String],
+    select: false
+  },
 
   // Statistics (computed fields)
   postsCount: {
@@ -120,6 +185,15 @@ const userSchema = new mongoose.Schema({
   lastLogin: {
     type: Date,
     default: Date.now
+  },
+
+  // Presence
+  showOnline: {
+    type: Boolean,
+    default: true
+  },
+  lastSeen: {
+    type: Date
   }
 }, {
   timestamps: true, // adds createdAt and updatedAt
@@ -146,6 +220,8 @@ userSchema.virtual('followingCount').get(function() {
 // username and email indexes are automatically created by unique: true
 userSchema.index({ 'followers': 1 });
 userSchema.index({ 'following': 1 });
+userSchema.index({ 'blockedUsers': 1 });
+userSchema.index({ followedHashtags: 1 });
 userSchema.index({ location: 1 });
 userSchema.index({ interests: 1 });
 userSchema.index({ createdAt: -1 });
@@ -165,6 +241,89 @@ userSchema.methods.matchPassword = async function(enteredPassword) {
   return await bcrypt.compare(enteredPassword, this.password);
 };
 
+// Hash an emailed token the same way it was stored
+userSchema.statics.hashToken = function(token) {
+  return crypto.createHash('sha256').update(String(token)).digest('hex');
+};
+
+// Issue a password reset token; returns the raw token for the email, stores only its hash
+userSchema.methods.createPasswordResetToken = function() {
+  const token = crypto.randomBytes(32).toString('hex');
+  this.passwordResetToken = this.constructor.hashToken(token);
+  this.passwordResetExpires = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+  return token;
+};
+
+// Issue an email verification token; returns the raw token for the email, stores only its hash
+userSchema.methods.createEmailVerificationToken = function() {
+  const token = crypto.randomBytes(32).toString('hex');
+  this.emailVerificationToken = this.constructor.hashToken(token);
+  this.emailVerificationExpires = new Date(Date.now() + EMAIL_VERIFICATION_TTL_MINUTES * 60 * 1000);
+  return token;
+};
+
+// Whether a verification email went out within the last minute, to throttle resends
+userSchema.methods.verificationEmailSentRecently = function() {
+  if (!this.emailVerificationExpires) return false;
+  const sentAt = this.emailVerificationExpires.getTime() - EMAIL_VERIFICATION_TTL_MINUTES * 60 * 1000;
+  return Date.now() - sentAt < 60 * 1000;
+};
+
+// Start 2FA enrollment; returns the new secret, which stays pending until confirmed
+userSchema.methods.createTwoFactorSecret = function() {
+  this.twoFactorPendingSecret = generateSecret();
+  return this.twoFactorPendingSecret;
+};
+
+// Issue a fresh set of recovery codes; returns the raw codes, stores only their hashes
+userSchema.methods.createRecoveryCodes = function() {
+  const codes = generateRecoveryCodes();
+  this.twoFactorRecoveryCodes = codes.map(code => this.constructor.hashToken(normalizeRecoveryCode(code)));
+  return codes;
+};
+
+// Check a TOTP code against the active (or pending) secret and mark its time step used.
+// Requires +twoFactorSecret/+twoFactorPendingSecret and +twoFactorLastUsedStep.
+userSchema.methods.verifyTwoFactorCode = function(code, { pending = false } = {}) {
+  const secret = pending ? this.twoFactorPendingSecret : this.twoFactorSecret;
+  const step = verifyTotp(secret, code, {
+    lastUsedStep: this.twoFactorLastUsedStep ?? -1
+  });
+  if (step === null) return false;
+
+  this.twoFactorLastUsedStep = step;
+  return true;
+};
+
+// Consume a recovery code if it matches one that hasn't been used. Requires +twoFactorRecoveryCodes.
+userSchema.methods.useRecoveryCode = function(code) {
+  const normalized = normalizeRecoveryCode(code);
+  if (!normalized) return false;
+
+  const hash = this.constructor.hashToken(normalized);
+  const codes = this.twoFactorRecoveryCodes || [];
+  if (!codes.includes(hash)) return false;
+
+  this.twoFactorRecoveryCodes = codes.filter(stored => stored !== hash);
+  return true;
+};
+
+// Accept either an authenticator code or a recovery code as the second factor;
+// returns 'totp', 'recovery' or null
+userSchema.methods.verifySecondFactor = function(code) {
+  if (this.verifyTwoFactorCode(code)) return 'totp';
+  if (this.useRecoveryCode(code)) return 'recovery';
+  return null;
+};
+
+userSchema.methods.disableTwoFactor = function() {
+  this.twoFactorEnabled = false;
+  this.twoFactorSecret = undefined;
+  this.twoFactorPendingSecret = undefined;
+  this.twoFactorLastUsedStep = undefined;
+  this.twoFactorRecoveryCodes = [];
+};
+
 // Instance method to check if user is following another user
 userSchema.methods.isFollowing = function(userId) {
   return this.following.some(id => id.toString() === userId.toString());
@@ -198,6 +357,17 @@ userSchema.methods.unfollow = async function(userId) {
   }
 };
 
+// Static method to check whether either of two users has blocked the other
+userSchema.statics.isBlockedBetween = async function(userId, otherUserId) {
+  const block = await this.exists({
+    $or: [
+      { _id: userId, blockedUsers: otherUserId },
+      { _id: otherUserId, blockedUsers: userId }
+    ]
+  });
+  return !!block;
+};
+
 // Static method to find users by interests
 userSchema.statics.findByInterests = function(interests) {
   return this.find({
@@ -224,6 +394,11 @@ userSchema.methods.isAdmin = function() {
   return this.role === 'admin';
 };
 
+// Instance method to check if a moderator suspension is still running
+userSchema.methods.isSuspended = function() {
+  return !!this.suspendedUntil && this.suspendedUntil > new Date();
+};
+
 // Static method to get all admins
 userSchema.statics.getAdmins = function() {
   return this.find({ role: 'admin', isActive: true }).select('-password -refreshToken');
@@ -0,0 +1,53 @@
+const mongoose = require('mongoose');
+
+// Preferences edited on the settings page. Account fields (name, email) and
+// showOnline stay on User because other features read them from there.
+const userSettingsSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Settings owner is required'],
+    unique: true
+  },
+
+  privacy: {
+    // Whether others can ask to join the user's trips
+    allowJoinRequests: {
+      type: Boolean,
+      default: true
+    }
+  },
+
+  security: {
+    // Email the user after each sign-in
+    loginAlerts: {
+      type: Boolean,
+      default: true
+    }
+  },
+
+  appearance: {
+    theme: {
+      type: String,
+      enum: ['system', 'light', 'dark'],
+      default: 'system'
+    },
+    compactMode: {
+      type: Boolean,
+      default: false
+    }
+  }
+}, {
+  timestamps: true
+});
+
+// Get a user's settings, creating the document with defaults on first use
+userSettingsSchema.statics.forUser = function(userId) {
+  return this.findOneAndUpdate(
+    { user: userId },
+    { $setOnInsert: { user: userId } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+};
+
+module.exports = mongoose.model('UserSettings', userSettingsSchema);
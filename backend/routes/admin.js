@@ -0,0 +1,28 @@
+const express = require('express');
+const router = express.Router();
+
+// Import controllers
+const {
+  getReports,
+  getReportStats,
+  getAssignees,
+  assignReport,
+  resolveReport,
+  dismissReport
+} = require('../controllers/reportController');
+
+const { protect, requireAdmin } = require('../middleware/auth');
+const { validateResolveReport } = require('../middleware/validation');
+
+// All routes require an admin account
+router.use(protect, requireAdmin);
+
+// Moderation queue
+router.get('/reports', getReports);
+router.get('/reports/stats', getReportStats);
+router.get('/reports/assignees', getAssignees);
+router.put('/reports/:id/assign', assignReport);
+router.put('/reports/:id/resolve', validateResolveReport, resolveReport);
+router.put('/reports/:id/dismiss', dismissReport);
+
+module.exports = router;
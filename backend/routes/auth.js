@@ -1,4 +1,5 @@
 const express = require('express');
+const rateLimit = require('express-rate-limit');
 const router = express.Router();
 const User = require('../models/User');
 const Post = require('../models/Post');
@@ -13,12 +14,19 @@ const Report = require('../models/Report');
 const {
   register,
   login,
+  loginTwoFactor,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
   logout,
   getMe,
   updateProfile,
   changePassword,
   forgotPassword,
   resetPassword,
+  verifyEmail,
+  resendVerification,
   refreshToken,
   getUserStats
 } = require('../controllers/authController');
@@ -30,10 +38,25 @@ const {
   validateChangePassword,
   validateForgotPassword,
   validateResetPassword,
+  validateTwoFactorCode,
+  validateTwoFactorLogin,
+  validateTwoFactorReauth,
   validateUpdateProfile,
   validateRefreshToken
 } = require('../middleware/validation');
 
+// A 6-digit code is easy to guess given enough tries, so 2FA checks get a much tighter limit
+const twoFactorLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10,
+  message: {
+    success: false,
+    message: 'Too many authentication attempts. Please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // Test endpoint to verify database connection and all models
 router.get('/test-db', async (req, res) => {
   try {
@@ -149,14 +172,23 @@ router.post('/test-create-user', async (req, res) => {
 // Authentication routes
 router.post('/register', validateRegister, register);
 router.post('/login', validateLogin, login);
+router.post('/login/2fa', twoFactorLimiter, validateTwoFactorLogin, loginTwoFactor);
 router.post('/logout', protect, logout);
 router.get('/me', protect, getMe);
 router.put('/profile', protect, validateUpdateProfile, updateProfile);
 router.put('/change-password', protect, validateChangePassword, changePassword);
 router.post('/forgot-password', validateForgotPassword, forgotPassword);
 router.put('/reset-password/:resettoken', validateResetPassword, resetPassword);
+router.post('/verify-email/:token', verifyEmail);
+router.post('/resend-verification', protect, resendVerification);
 router.post('/refresh-token', validateRefreshToken, refreshToken);
 
+// Two-factor authentication
+router.post('/2fa/setup', protect, setupTwoFactor);
+router.post('/2fa/enable', protect, twoFactorLimiter, validateTwoFactorCode, enableTwoFactor);
+router.post('/2fa/disable', protect, twoFactorLimiter, validateTwoFactorReauth, disableTwoFactor);
+router.post('/2fa/recovery-codes', protect, twoFactorLimiter, validateTwoFactorReauth, regenerateRecoveryCodes);
+
 // Admin routes
 router.get('/stats', protect, requireAdmin, getUserStats);
 
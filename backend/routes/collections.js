@@ -0,0 +1,48 @@
+const express = require('express');
+const router = express.Router();
+
+// Import controllers
+const {
+  getMyCollections,
+  getUserCollections,
+  getCollection,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  reorderCollections,
+  addItem,
+  removeItem,
+  reorderItems,
+  saveItem,
+  unsaveItem,
+  getContainingCollections
+} = require('../controllers/collectionController');
+
+const { protect, optionalAuth } = require('../middleware/auth');
+const {
+  validateCreateCollection,
+  validateUpdateCollection,
+  validateSaveItem,
+  validateSavedItemParams
+} = require('../middleware/validation');
+
+// Saving posts and trips
+router.post('/save', protect, validateSaveItem, saveItem); // Save to default (or given) collection
+router.delete('/save/:itemType/:itemId', protect, validateSavedItemParams, unsaveItem); // Unsave everywhere
+router.get('/containing/:itemType/:itemId', protect, validateSavedItemParams, getContainingCollections); // Which collections hold an item
+
+// Collections
+router.get('/', protect, getMyCollections); // Current user's collections
+router.post('/', protect, validateCreateCollection, createCollection); // Create collection
+router.put('/order', protect, reorderCollections); // Reorder collections
+router.get('/user/:userId', optionalAuth, getUserCollections); // A user's shared collections
+router.get('/:id', optionalAuth, getCollection); // Collection with items
+router.put('/:id', protect, validateUpdateCollection, updateCollection); // Rename / share
+router.delete('/:id', protect, deleteCollection); // Delete collection
+
+// Collection items
+router.post('/:id/items', protect, validateSaveItem, addItem); // Add item
+router.put('/:id/items/order', protect, reorderItems); // Reorder items
+router.delete('/:id/items/:itemType/:itemId', protect, validateSavedItemParams, removeItem); // Remove item
+
+module.exports = router;
@@ -11,12 +11,12 @@ const {
   getRepliesForComment
 } = require('../controllers/commentController');
 
-const { protect } = require('../middleware/auth');
+const { protect, optionalAuth } = require('../middleware/auth');
 const { validateCreateComment, validateUpdateComment } = require('../middleware/validation');
 
 // Public routes
-router.get('/post/:postId', getCommentsForPost); // Get comments for a post
-router.get('/:id/replies', getRepliesForComment); // Get replies for a comment
+router.get('/post/:postId', optionalAuth, getCommentsForPost); // Get comments for a post
+router.get('/:id/replies', optionalAuth, getRepliesForComment); // Get replies for a comment
 
 // Protected routes
 router.post('/', protect, validateCreateComment, createComment); // Create comment
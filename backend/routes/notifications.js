@@ -1,25 +1,24 @@
 const express = require('express');
 const router = express.Router();
 
-// Placeholder routes - will implement controllers next
-router.get('/', (req, res) => {
-  res.json({ message: 'Get user notifications endpoint - to be implemented' });
-});
+// Import controllers
+const {
+  getNotifications,
+  getUnreadCount,
+  markAsRead,
+  markAllAsRead,
+  deleteNotification
+} = require('../controllers/notificationController');
 
-router.put('/:id/read', (req, res) => {
-  res.json({ message: 'Mark notification as read endpoint - to be implemented' });
-});
+const { protect } = require('../middleware/auth');
 
-router.put('/mark-all-read', (req, res) => {
-  res.json({ message: 'Mark all notifications as read endpoint - to be implemented' });
-});
+// All routes require authentication
+router.use(protect);
 
-router.delete('/:id', (req, res) => {
-  res.json({ message: 'Delete notification endpoint - to be implemented' });
-});
-
-router.get('/unread-count', (req, res) => {
-  res.json({ message: 'Get unread notification count endpoint - to be implemented' });
-});
+router.get('/', getNotifications);
+router.get('/unread-count', getUnreadCount);
+router.put('/mark-all-read', markAllAsRead);
+router.put('/:id/read', markAsRead);
+router.delete('/:id', deleteNotification);
 
 module.exports = router;
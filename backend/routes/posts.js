@@ -7,10 +7,14 @@ const {
   getAllPosts,
   getPostById,
   updatePost,
+  getPostEditHistory,
   deletePost,
   toggleLikePost,
   getPostsByUser,
   getPostsByHashtag,
+  searchHashtags,
+  getTrendingHashtags,
+  getPostsByPlace,
   getPostsByLocation,
   searchPosts,
   upload
@@ -29,15 +33,19 @@ if (!fs.existsSync(uploadsDir)) {
 
 // Public routes
 router.get('/', optionalAuth, getAllPosts); // Feed
-router.get('/search', searchPosts); // Search posts
-router.get('/hashtag/:hashtag', getPostsByHashtag); // Posts by hashtag
-router.get('/location', getPostsByLocation); // Posts by location (nearby)
+router.get('/search', optionalAuth, searchPosts); // Search posts
+router.get('/hashtag/:hashtag', optionalAuth, getPostsByHashtag); // Posts by hashtag
+router.get('/hashtags/search', searchHashtags); // Hashtag autocomplete
+router.get('/hashtags/trending', getTrendingHashtags); // Trending hashtags
+router.get('/place/:placeId', optionalAuth, getPostsByPlace); // Posts at a place
+router.get('/location', optionalAuth, getPostsByLocation); // Posts by location (nearby)
 router.get('/user/:userId', optionalAuth, getPostsByUser); // Posts by user
 router.get('/:id', optionalAuth, getPostById); // Single post
 
 // Protected routes
 router.post('/', protect, upload.array('media', 10), validateCreatePost, createPost); // Create post
-router.put('/:id', protect, validateUpdatePost, updatePost); // Update post
+router.put('/:id', protect, upload.array('media', 10), validateUpdatePost, updatePost); // Update post (multipart: new `media`, `mediaOrder`)
+router.get('/:id/history', protect, getPostEditHistory); // Previous versions (author only)
 router.delete('/:id', protect, deletePost); // Delete post
 router.post('/:id/like', protect, toggleLikePost); // Like/unlike post
 
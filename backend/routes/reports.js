@@ -0,0 +1,12 @@
+const express = require('express');
+const router = express.Router();
+
+// Import controllers
+const { createReport } = require('../controllers/reportController');
+
+const { protect } = require('../middleware/auth');
+const { validateCreateReport } = require('../middleware/validation');
+
+router.post('/', protect, validateCreateReport, createReport); // Report content or a user
+
+module.exports = router;
@@ -0,0 +1,16 @@
+const express = require('express');
+const router = express.Router();
+
+// Import controllers
+const {
+  getSettings,
+  updateSettings
+} = require('../controllers/settingsController');
+
+const { protect } = require('../middleware/auth');
+const { validateUpdateSettings } = require('../middleware/validation');
+
+router.get('/', protect, getSettings); // Current user's settings
+router.put('/', protect, validateUpdateSettings, updateSettings); // Save any subset of settings
+
+module.exports = router;
@@ -0,0 +1,28 @@
+const express = require('express');
+const router = express.Router();
+
+// Import controllers
+const {
+  createStory,
+  getStoryTray,
+  getUserStories,
+  viewStory,
+  getStoryViewers,
+  deleteStory,
+  upload
+} = require('../controllers/storyController');
+
+const { protect } = require('../middleware/auth');
+const { validateCreateStory } = require('../middleware/validation');
+
+// All story routes require authentication
+router.use(protect);
+
+router.get('/tray', getStoryTray); // Own and followed users' active stories
+router.get('/user/:userId', getUserStories); // A user's active stories
+router.post('/', upload.single('media'), validateCreateStory, createStory); // Post a story
+router.post('/:id/view', viewStory); // Mark as seen
+router.get('/:id/viewers', getStoryViewers); // Who has seen it (author only)
+router.delete('/:id', deleteStory); // Delete before it expires
+
+module.exports = router;
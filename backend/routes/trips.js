@@ -6,22 +6,41 @@ const {
   getTrip,
   updateTrip,
   deleteTrip,
+  cancelTrip,
   addItineraryItem,
   updateItineraryItem,
   deleteItineraryItem,
+  reorderItinerary,
+  getItineraryIssues,
   addChecklistItem,
   toggleChecklistItem,
   deleteChecklistItem,
-  generateShareLink,
+  getExpenses,
+  updateBudget,
+  updateExchangeRates,
+  importExchangeRates,
+  addExpense,
+  updateExpense,
+  deleteExpense,
+  uploadPhotos,
+  updatePhoto,
+  deletePhoto,
+  setCoverPhoto,
+  getInviteLinks,
+  createInviteLink,
+  revokeInviteLink,
+  joinWithInviteLink,
   requestJoin,
   handleJoinRequest,
   addCollaborator,
+  updateCollaboratorRole,
   removeCollaborator,
   listTripsForUser,
   getRequestedTrips,
   filterPublicTrips,
   getTripConstants,
-  upload
+  upload,
+  photoUpload
 } = require('../controllers/tripController');
 
 // Get trip constants (types and interests)
@@ -43,9 +62,12 @@ router.post('/', protect, upload.single('coverImage'), createTrip);
 router.get('/:id', optionalAuth, getTrip);
 router.put('/:id', protect, updateTrip);
 router.delete('/:id', protect, deleteTrip);
+router.post('/:id/cancel', protect, cancelTrip);
 
 // Itinerary
+router.get('/:id/itinerary/issues', optionalAuth, getItineraryIssues);
 router.post('/:id/itinerary', protect, addItineraryItem);
+router.put('/:id/itinerary/reorder', protect, reorderItinerary);
 router.put('/:id/itinerary/:itemId', protect, updateItineraryItem);
 router.delete('/:id/itinerary/:itemId', protect, deleteItineraryItem);
 
@@ -54,12 +76,32 @@ router.post('/:id/checklist', protect, addChecklistItem);
 router.patch('/:id/checklist/:itemId', protect, toggleChecklistItem);
 router.delete('/:id/checklist/:itemId', protect, deleteChecklistItem);
 
+// Budget and expenses
+router.get('/:id/expenses', protect, getExpenses);
+router.put('/:id/budget', protect, updateBudget);
+router.put('/:id/budget/rates', protect, updateExchangeRates);
+router.post('/:id/budget/rates/import', protect, importExchangeRates);
+router.post('/:id/expenses', protect, addExpense);
+router.put('/:id/expenses/:expenseId', protect, updateExpense);
+router.delete('/:id/expenses/:expenseId', protect, deleteExpense);
+
+// Photo album
+router.post('/:id/photos', protect, photoUpload.array('photos', 10), uploadPhotos);
+router.put('/:id/photos/:photoId', protect, updatePhoto);
+router.delete('/:id/photos/:photoId', protect, deletePhoto);
+router.put('/:id/photos/:photoId/cover', protect, setCoverPhoto);
+
 // Collaborators
 router.post('/:id/collaborators', protect, addCollaborator);
+router.put('/:id/collaborators/:userId', protect, updateCollaboratorRole);
 router.delete('/:id/collaborators/:userId', protect, removeCollaborator);
 
 // Sharing and joining
-router.post('/:id/share', protect, generateShareLink);
+router.post('/:id/share', protect, createInviteLink); // Older clients; same as POST /:id/invites
+router.get('/:id/invites', protect, getInviteLinks);
+router.post('/:id/invites', protect, createInviteLink);
+router.post('/:id/invites/join', protect, joinWithInviteLink);
+router.delete('/:id/invites/:inviteId', protect, revokeInviteLink);
 router.post('/:id/join', protect, requestJoin);
 router.post('/:id/join/handle', protect, handleJoinRequest);
 
@@ -7,6 +7,12 @@ const {
   updateProfile,
   followUser,
   unfollowUser,
+  getSuggestions,
+  blockUser,
+  unblockUser,
+  getFollowedHashtags,
+  followHashtag,
+  unfollowHashtag,
   getUserFollowers,
   getUserFollowing,
   searchUsers,
@@ -38,6 +44,12 @@ router.get('/following/:userId', getUserFollowing);
 router.put('/profile', protect, validateUpdateProfile, updateProfile);
 router.post('/follow/:userId', protect, followUser);
 router.delete('/follow/:userId', protect, unfollowUser);
+router.get('/suggestions', protect, getSuggestions);
+router.post('/block/:userId', protect, blockUser);
+router.delete('/block/:userId', protect, unblockUser);
+router.get('/hashtags', protect, getFollowedHashtags);
+router.post('/hashtags/:tag', protect, followHashtag);
+router.delete('/hashtags/:tag', protect, unfollowHashtag);
 
 // File upload routes
 router.post('/upload/avatar', protect, upload.single('avatar'), uploadAvatar);
@@ -10,6 +10,12 @@ require('dotenv').config();
 
 const connectDB = require('./config/database');
 const errorHandler = require('./middleware/errorHandler');
+const { socketAuth } = require('./middleware/auth');
+const Conversation = require('./models/Conversation');
+const User = require('./models/User');
+const presence = require('./utils/presence');
+const { startTripStatusScheduler } = require('./utils/tripLifecycle');
+const { startStoryCleanupScheduler } = require('./utils/storyCleanup');
 
 const app = express();
 const server = createServer(app);
@@ -98,6 +104,11 @@ const tripRoutes = require('./routes/trips');
 const messageRoutes = require('./routes/messages');
 const notificationRoutes = require('./routes/notifications');
 const placesRoutes = require('./routes/places');
+const reportRoutes = require('./routes/reports');
+const adminRoutes = require('./routes/admin');
+const collectionRoutes = require('./routes/collections');
+const storyRoutes = require('./routes/stories');
+const settingsRoutes = require('./routes/settings');
 
 console.log('📝 Registering API routes...');
 app.use('/api/auth', authRoutes);
@@ -108,14 +119,27 @@ app.use('/api/trips', tripRoutes);
 app.use('/api/messages', messageRoutes);
 app.use('/api/notifications', notificationRoutes);
 app.use('/api/places', placesRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/collections', collectionRoutes);
+app.use('/api/stories', storyRoutes);
+app.use('/api/settings', settingsRoutes);
 console.log('✅ API routes registered successfully');
 
 // Socket.IO connection handling
+io.use(socketAuth);
+
 io.on('connection', (socket) => {
+  const userId = socket.user._id.toString();
   console.log('User connected:', socket.id);
 
-  // Join user to their personal room for notifications
-  socket.on('join-user-room', (userId) => {
+  if (presence.userConnected(userId) && socket.user.showOnline !== false) {
+    presence.broadcastPresence(io, socket.user, { isOnline: true, lastSeen: null })
+      .catch(error => console.error('Presence broadcast error:', error.message));
+  }
+
+  // Join user to their personal room for notifications and new messages
+  socket.on('join-user-room', () => {
     socket.join(`user-${userId}`);
     console.log(`User ${userId} joined their room`);
   });
@@ -126,22 +150,62 @@ io.on('connection', (socket) => {
     console.log(`User joined trip room: ${tripId}`);
   });
 
-  // Handle chat messages
-  socket.on('send-message', (messageData) => {
-    // Emit to specific conversation participants
-    socket.to(`conversation-${messageData.conversationId}`).emit('new-message', messageData);
+  // Join conversation room for read receipts, reactions and typing
+  socket.on('join-conversation', async (conversationId) => {
+    try {
+      const conversation = await Conversation.findById(conversationId);
+      if (conversation && conversation.isMember(userId)) {
+        socket.join(`conversation-${conversationId}`);
+      }
+    } catch (error) {
+      console.error('Join conversation error:', error.message);
+    }
+  });
+
+  socket.on('leave-conversation', (conversationId) => {
+    socket.leave(`conversation-${conversationId}`);
   });
 
-  // Handle typing indicators
-  socket.on('typing', (data) => {
-    socket.to(`conversation-${data.conversationId}`).emit('user-typing', {
-      userId: data.userId,
-      isTyping: data.isTyping
-    });
+  // Handle typing indicators - delivered to members' personal rooms so the
+  // conversation list can show "typing..." for conversations that aren't open.
+  // Typing gives presence away, so it isn't relayed for users who hide theirs.
+  socket.on('typing', async (data) => {
+    try {
+      const user = await User.findById(userId).select('showOnline');
+      if (!user || user.showOnline === false) return;
+
+      const conversation = await Conversation.findById(data.conversationId).select('members');
+      if (!conversation || !conversation.isMember(userId)) return;
+
+      const rooms = conversation.members
+        .map(id => id.toString())
+        .filter(id => id !== userId)
+        .map(id => `user-${id}`);
+
+      socket.to(rooms).emit('user-typing', {
+        conversationId: data.conversationId,
+        userId,
+        isTyping: Boolean(data.isTyping)
+      });
+    } catch (error) {
+      console.error('Typing relay error:', error.message);
+    }
   });
 
-  socket.on('disconnect', () => {
+  socket.on('disconnect', async () => {
     console.log('User disconnected:', socket.id);
+
+    if (!presence.userDisconnected(userId)) return;
+
+    try {
+      const lastSeen = new Date();
+      const user = await User.findByIdAndUpdate(userId, { lastSeen }, { new: true }).select('showOnline');
+      if (user && user.showOnline !== false) {
+        await presence.broadcastPresence(io, user, { isOnline: false, lastSeen });
+      }
+    } catch (error) {
+      console.error('Presence update error:', error.message);
+    }
   });
 });
 
@@ -165,4 +229,10 @@ server.listen(PORT, () => {
   console.log(`🚀 TravelConnect API Server running on port ${PORT}`);
   console.log(`📊 Environment: ${process.env.NODE_ENV}`);
   console.log(`🔗 Frontend URL: ${process.env.FRONTEND_URL}`);
+
+  // Move trips to active/completed as their dates pass
+  startTripStatusScheduler();
+
+  // Delete stories (and their media) once their 24 hours are up
+  startStoryCleanupScheduler();
 });
@@ -0,0 +1,51 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('path');
+const fs = require('fs');
+const mongoose = require('mongoose');
+const { createPost } = require('../controllers/postController');
+
+const uploadDir = path.join(__dirname, '../uploads/posts');
+
+// A request carrying one file multer already wrote to uploads/posts
+const buildRequest = (mediaMeta) => {
+  fs.mkdirSync(uploadDir, { recursive: true });
+  const filename = `post-test-${Date.now()}-${Math.round(Math.random() * 1E9)}.webp`;
+  fs.writeFileSync(path.join(uploadDir, filename), '');
+  return {
+    req: {
+      user: { id: new mongoose.Types.ObjectId().toString() },
+      body: { caption: 'Harbour', mediaMeta },
+      files: [{ filename }]
+    },
+    filePath: path.join(uploadDir, filename)
+  };
+};
+
+const mockResponse = () => {
+  const res = {};
+  res.status = (code) => { res.statusCode = code; return res; };
+  res.json = (body) => { res.body = body; return res; };
+  return res;
+};
+
+const badMeta = {
+  'malformed JSON': '{not json',
+  'a non-array value': JSON.stringify({ blurhash: 'LEHV6nWB2yk8' }),
+  'an entry without a blurhash': JSON.stringify([{ width: 10, height: 10 }]),
+  'a blurhash over 100 characters': JSON.stringify([{ blurhash: 'x'.repeat(101), width: 10, height: 10 }]),
+  'a zero width': JSON.stringify([{ blurhash: 'LEHV6nWB2yk8', width: 0, height: 10 }])
+};
+
+for (const [name, mediaMeta] of Object.entries(badMeta)) {
+  test(`rejects media metadata with ${name} and deletes the upload`, async () => {
+    const { req, filePath } = buildRequest(mediaMeta);
+    const res = mockResponse();
+
+    await createPost(req, res);
+
+    assert.equal(res.statusCode, 400);
+    assert.equal(res.body.message, 'Invalid media metadata');
+    assert.equal(fs.existsSync(filePath), false);
+  });
+}
@@ -0,0 +1,32 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+const Post = require('../models/Post');
+
+const buildPost = (media) => new Post({
+  userId: new mongoose.Types.ObjectId(),
+  caption: 'Sunset',
+  media
+});
+
+test('previous versions keep only media the post still shows', () => {
+  const post = buildPost(['/uploads/posts/a.jpg', '/uploads/posts/b.jpg']);
+  post.recordEdit();
+  post.media = ['/uploads/posts/b.jpg'];
+
+  const forgotten = post.forgetRemovedMedia();
+
+  assert.deepEqual(forgotten, ['/uploads/posts/a.jpg']);
+  assert.deepEqual([...post.editHistory[0].media], ['/uploads/posts/b.jpg']);
+  assert.equal(post.editHistory[0].removedMedia, 1);
+  assert.deepEqual([...post.getReferencedMedia()], ['/uploads/posts/b.jpg']);
+});
+
+test('caption-only edits forget nothing', () => {
+  const post = buildPost(['/uploads/posts/a.jpg']);
+  post.recordEdit();
+  post.caption = 'Sunrise';
+
+  assert.deepEqual(post.forgetRemovedMedia(), []);
+  assert.equal(post.editHistory[0].removedMedia, 0);
+});
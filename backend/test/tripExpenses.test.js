@@ -0,0 +1,73 @@
+const { test, mock, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+const Trip = require('../models/Trip');
+const { updateExpense } = require('../controllers/tripController');
+
+// A trip in USD with one expense paid in EUR; save/populate are stubbed so no database is needed
+const buildTrip = () => {
+  const ownerId = new mongoose.Types.ObjectId();
+  const trip = new Trip({
+    createdBy: ownerId,
+    tripName: 'Lisbon',
+    destination: 'Lisbon, Portugal',
+    startDate: new Date('2030-05-01'),
+    endDate: new Date('2030-05-07'),
+    budget: {
+      currency: 'USD',
+      exchangeRates: [{ currency: 'EUR', rate: 1.1 }],
+      expenses: [{ description: 'Dinner', amount: 50, currency: 'EUR', category: 'food', paidBy: ownerId, splitAmong: [ownerId] }]
+    }
+  });
+  trip.save = async () => trip;
+  trip.populate = async () => trip;
+  return { trip, ownerId };
+};
+
+const mockResponse = () => {
+  const res = {};
+  res.status = (code) => { res.statusCode = code; return res; };
+  res.json = (body) => { res.body = body; return res; };
+  return res;
+};
+
+afterEach(() => mock.restoreAll());
+
+test('updateExpense keeps the currency of a foreign-currency expense on a partial edit', async () => {
+  const { trip, ownerId } = buildTrip();
+  mock.method(Trip, 'findById', async () => trip);
+  const expense = trip.budget.expenses[0];
+
+  const res = mockResponse();
+  await updateExpense({
+    params: { id: trip._id.toString(), expenseId: expense._id.toString() },
+    body: { description: 'Dinner at the harbour' },
+    user: { id: ownerId.toString() }
+  }, res);
+
+  assert.equal(res.statusCode, 200);
+  assert.equal(expense.description, 'Dinner at the harbour');
+  assert.equal(expense.currency, 'EUR');
+  assert.equal(expense.amount, 50);
+
+  const summary = res.body.data.expenses[0];
+  assert.equal(summary.currency, 'EUR');
+  assert.equal(summary.convertedAmount, 55);
+});
+
+test('updateExpense changes the currency when the edit includes one', async () => {
+  const { trip, ownerId } = buildTrip();
+  mock.method(Trip, 'findById', async () => trip);
+  const expense = trip.budget.expenses[0];
+
+  const res = mockResponse();
+  await updateExpense({
+    params: { id: trip._id.toString(), expenseId: expense._id.toString() },
+    body: { currency: 'usd' },
+    user: { id: ownerId.toString() }
+  }, res);
+
+  assert.equal(res.statusCode, 200);
+  assert.equal(expense.currency, 'USD');
+  assert.equal(res.body.data.expenses[0].convertedAmount, 50);
+});
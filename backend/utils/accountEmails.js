@@ -0,0 +1,55 @@
+// Account emails (verification, password reset, security notices): issue any token and send the rendered template.
+const { sendMail } = require('./mailer');
+const { passwordResetEmail, emailVerificationEmail, emailChangedEmail, loginAlertEmail } = require('./emailTemplates');
+
+const frontendUrl = (path) => `${process.env.FRONTEND_URL || 'http://localhost:4200'}${path}`;
+
+// Minutes left before a token expiry, for the "expires in" line of an email
+const minutesUntil = (date) => Math.round((date.getTime() - Date.now()) / 60000);
+
+// Issue a fresh verification token (replacing any earlier one) and email the link
+const sendVerificationEmail = async (user) => {
+  const token = user.createEmailVerificationToken();
+  await user.save({ validateBeforeSave: false });
+
+  await sendMail(user.email, emailVerificationEmail({
+    user,
+    url: frontendUrl(`/verify-email/${token}`),
+    expiresInMinutes: minutesUntil(user.emailVerificationExpires)
+  }));
+};
+
+// Issue a password reset token and email the link
+const sendPasswordResetEmail = async (user) => {
+  const token = user.createPasswordResetToken();
+  await user.save({ validateBeforeSave: false });
+
+  await sendMail(user.email, passwordResetEmail({
+    user,
+    url: frontendUrl(`/reset-password/${token}`),
+    expiresInMinutes: minutesUntil(user.passwordResetExpires)
+  }));
+};
+
+// Tell the previous address that the account email changed
+const sendEmailChangedNotice = async (user, oldEmail) => {
+  await sendMail(oldEmail, emailChangedEmail({ user, oldEmail }));
+};
+
+// Tell the user about a new sign-in, with where it came from
+const sendLoginAlert = async (user, { ip, userAgent }) => {
+  await sendMail(user.email, loginAlertEmail({
+    user,
+    time: new Date(),
+    ip,
+    userAgent,
+    url: frontendUrl('/forgot-password')
+  }));
+};
+
+module.exports = {
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+  sendEmailChangedNotice,
+  sendLoginAlert
+};
@@ -0,0 +1,93 @@
+// Transactional email templates. Each returns { subject, text, html } for utils/mailer.
+
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const formatDuration = (minutes) => {
+  if (minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60);
+    return `${days} ${days === 1 ? 'day' : 'days'}`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+  return `${minutes} minutes`;
+};
+
+// Shared layout: a greeting, a paragraph, an optional call-to-action button and a footnote
+const render = ({ subject, name, intro, actionLabel, actionUrl, footnote }) => ({
+  subject,
+  text: [
+    `Hi ${name},`,
+    '',
+    intro,
+    '',
+    ...(actionUrl ? [`${actionLabel}: ${actionUrl}`, ''] : []),
+    footnote,
+    '',
+    '- The TravelConnect team'
+  ].join('\n'),
+  html: `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+    <div style="max-width:480px;margin:0 auto;padding:32px;background:#ffffff;border-radius:12px;">
+      <h1 style="margin:0 0 24px;font-size:20px;color:#3b82f6;">TravelConnect</h1>
+      <p style="margin:0 0 16px;">Hi ${escapeHtml(name)},</p>
+      <p style="margin:0 0 24px;line-height:1.5;">${escapeHtml(intro)}</p>${actionUrl ? `
+      <p style="margin:0 0 24px;">
+        <a href="${escapeHtml(actionUrl)}" style="display:inline-block;padding:12px 20px;border-radius:8px;background:#3b82f6;color:#ffffff;text-decoration:none;font-weight:bold;">${escapeHtml(actionLabel)}</a>
+      </p>
+      <p style="margin:0 0 8px;font-size:13px;color:#6b7280;">Or paste this link into your browser:<br>${escapeHtml(actionUrl)}</p>` : ''}
+      <p style="margin:16px 0 0;font-size:13px;color:#6b7280;">${escapeHtml(footnote)}</p>
+    </div>
+  </body>
+</html>`
+});
+
+const passwordResetEmail = ({ user, url, expiresInMinutes }) => render({
+  subject: 'Reset your TravelConnect password',
+  name: user.firstName || user.username,
+  intro: `We received a request to reset the password for ${user.email}. The link below works once and expires in ${formatDuration(expiresInMinutes)}.`,
+  actionLabel: 'Reset password',
+  actionUrl: url,
+  footnote: "If you didn't ask to reset your password, you can ignore this email - your password won't change."
+});
+
+const emailVerificationEmail = ({ user, url, expiresInMinutes }) => render({
+  subject: 'Verify your TravelConnect email address',
+  name: user.firstName || user.username,
+  intro: `Please confirm that ${user.email} is your email address. The link below expires in ${formatDuration(expiresInMinutes)}.`,
+  actionLabel: 'Verify email',
+  actionUrl: url,
+  footnote: "If you didn't create a TravelConnect account, you can ignore this email."
+});
+
+// Sent after each sign-in while login alerts are on
+const loginAlertEmail = ({ user, time, ip, userAgent, url }) => render({
+  subject: 'New sign-in to your TravelConnect account',
+  name: user.firstName || user.username,
+  intro: `Your account (${user.email}) was signed in to on ${time.toUTCString()} from ${userAgent || 'an unknown device'} (IP ${ip || 'unknown'}).`,
+  actionLabel: 'Reset password',
+  actionUrl: url,
+  footnote: "If this was you, there's nothing to do. If not, reset your password now. You can turn these emails off under Settings > Security."
+});
+
+// Sent to the old address, so a hijacked session can't quietly move the account
+const emailChangedEmail = ({ user, oldEmail }) => render({
+  subject: 'Your TravelConnect email address was changed',
+  name: user.firstName || user.username,
+  intro: `The email address on your TravelConnect account was changed from ${oldEmail} to ${user.email}.`,
+  footnote: "If you didn't make this change, contact support right away - someone else may have access to your account."
+});
+
+module.exports = {
+  passwordResetEmail,
+  emailVerificationEmail,
+  emailChangedEmail,
+  loginAlertEmail
+};
@@ -0,0 +1,71 @@
+// Offline exchange-rate helpers for trip budgets.
+// A rate is how many units of the trip's base currency one unit of `currency` buys.
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+const normalizeCurrency = (code) => String(code || '').trim().toUpperCase();
+
+const isValidCurrency = (code) => CURRENCY_PATTERN.test(normalizeCurrency(code));
+
+// Convert an amount into the base currency, or null when no rate is known
+const convertToBase = (amount, currency, baseCurrency, rates) => {
+  const code = normalizeCurrency(currency || baseCurrency);
+  if (code === normalizeCurrency(baseCurrency)) return Number(amount);
+
+  const entry = (rates || []).find(r => r.currency === code);
+  if (!entry) return null;
+  return Math.round(Number(amount) * entry.rate * 100) / 100;
+};
+
+// Parse "currency,rate" lines. A header row and blank lines are ignored;
+// returns { rates, errors } with 1-based line numbers in the errors.
+const parseRatesCsv = (text) => {
+  const rates = [];
+  const errors = [];
+
+  String(text || '').split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    const [rawCurrency, rawRate] = trimmed.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, ''));
+    const currency = normalizeCurrency(rawCurrency);
+    const rate = Number(rawRate);
+
+    if (index === 0 && !isValidCurrency(currency)) return; // header row
+    if (!isValidCurrency(currency)) {
+      errors.push(`Line ${index + 1}: "${rawCurrency}" is not a 3-letter currency code`);
+    } else if (!Number.isFinite(rate) || rate <= 0) {
+      errors.push(`Line ${index + 1}: rate for ${currency} must be a positive number`);
+    } else {
+      rates.push({ currency, rate });
+    }
+  });
+
+  return { rates, errors };
+};
+
+// Re-express a rate table against a new base currency.
+// Returns null when the table has no rate for the new base.
+const rebaseRates = (rates, oldBase, newBase) => {
+  const from = normalizeCurrency(oldBase);
+  const to = normalizeCurrency(newBase);
+  if (from === to) return rates;
+
+  const pivot = rates.find(r => r.currency === to);
+  if (!pivot) return null;
+
+  return [
+    { currency: from, rate: 1 / pivot.rate },
+    ...rates
+      .filter(r => r.currency !== to)
+      .map(r => ({ currency: r.currency, rate: r.rate / pivot.rate }))
+  ];
+};
+
+module.exports = {
+  normalizeCurrency,
+  isValidCurrency,
+  convertToBase,
+  parseRatesCsv,
+  rebaseRates
+};
@@ -0,0 +1,116 @@
+// Helpers for splitting trip expenses and settling up between members.
+// All arithmetic is done in integer cents so splits always add up exactly.
+
+const toCents = (amount) => Math.round(Number(amount || 0) * 100);
+const fromCents = (cents) => cents / 100;
+
+// Net balance per user id in cents: positive = is owed money, negative = owes money
+const computeBalances = (expenses) => {
+  const balances = new Map();
+  const adjust = (userId, cents) => {
+    const key = userId.toString();
+    balances.set(key, (balances.get(key) || 0) + cents);
+  };
+
+  expenses.forEach(expense => {
+    const payer = expense.paidBy && (expense.paidBy._id || expense.paidBy);
+    const participants = (expense.splitAmong || []).map(u => u._id || u);
+    if (!payer || participants.length === 0) return;
+
+    const total = toCents(expense.amount);
+    adjust(payer, total);
+
+    // Spread the remainder cent by cent so the shares sum to the total
+    const share = Math.floor(total / participants.length);
+    let remainder = total - share * participants.length;
+    participants.forEach(userId => {
+      const extra = remainder > 0 ? 1 : 0;
+      remainder -= extra;
+      adjust(userId, -(share + extra));
+    });
+  });
+
+  return balances;
+};
+
+// Settle a group whose balances sum to zero, matching largest debtor with largest creditor
+const settleGreedy = (entries) => {
+  const debtors = entries.filter(e => e.cents < 0).map(e => ({ ...e, cents: -e.cents }));
+  const creditors = entries.filter(e => e.cents > 0).map(e => ({ ...e }));
+  const transfers = [];
+
+  while (debtors.length > 0 && creditors.length > 0) {
+    debtors.sort((a, b) => b.cents - a.cents);
+    creditors.sort((a, b) => b.cents - a.cents);
+    const debtor = debtors[0];
+    const creditor = creditors[0];
+    const cents = Math.min(debtor.cents, creditor.cents);
+
+    transfers.push({ from: debtor.userId, to: creditor.userId, cents });
+    debtor.cents -= cents;
+    creditor.cents -= cents;
+    if (debtor.cents === 0) debtors.shift();
+    if (creditor.cents === 0) creditors.shift();
+  }
+
+  return transfers;
+};
+
+// Largest group size we solve exactly; above this the subset search gets too slow
+const EXACT_SETTLEMENT_LIMIT = 12;
+
+// Fewest transfers needed to settle the balances.
+// n people need n - k transfers where k is the largest number of groups the
+// balances split into that each sum to zero, so find that partition first and
+// settle each group on its own.
+const settleBalances = (balances) => {
+  const entries = [...balances.entries()]
+    .filter(([, cents]) => cents !== 0)
+    .map(([userId, cents]) => ({ userId, cents }));
+
+  if (entries.length > EXACT_SETTLEMENT_LIMIT) {
+    return settleGreedy(entries);
+  }
+
+  const n = entries.length;
+  const full = (1 << n) - 1;
+  const sums = new Array(full + 1).fill(0);
+  const groups = new Array(full + 1).fill(0);
+
+  for (let mask = 1; mask <= full; mask++) {
+    const low = mask & -mask;
+    const index = 31 - Math.clz32(low);
+    sums[mask] = sums[mask ^ low] + entries[index].cents;
+
+    let best = 0;
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i)) best = Math.max(best, groups[mask ^ (1 << i)]);
+    }
+    groups[mask] = best + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Peel off zero-sum groups that keep the partition count maximal
+  const transfers = [];
+  let remaining = full;
+  while (remaining) {
+    const low = remaining & -remaining;
+    let group = remaining;
+    for (let sub = remaining; sub; sub = (sub - 1) & remaining) {
+      if ((sub & low) && sums[sub] === 0 && groups[remaining ^ sub] === groups[remaining] - 1) {
+        group = sub;
+        break;
+      }
+    }
+    transfers.push(...settleGreedy(entries.filter((_, i) => group & (1 << i))));
+    remaining ^= group;
+  }
+
+  return transfers;
+};
+
+module.exports = {
+  toCents,
+  fromCents,
+  computeBalances,
+  settleBalances
+};
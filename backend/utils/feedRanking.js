@@ -0,0 +1,99 @@
+const { distanceKm } = require('./itineraryValidation');
+
+const FEED_MODES = ['for_you', 'following'];
+
+// Relative weight of each ranking signal; every signal is scaled to 0..1 first
+const DEFAULT_FEED_WEIGHTS = {
+  following: 3,   // Author or one of the post's hashtags is followed by the viewer
+  engagement: 1.5, // Likes and comments, on a log scale
+  interests: 1,   // Hashtags or caption match the viewer's interests
+  proximity: 1,   // Post location is near the viewer
+  freshness: 2    // Newer posts first, halving every FEED_FRESHNESS_HALF_LIFE_HOURS
+};
+
+// Freshness halves every this many hours
+const FRESHNESS_HALF_LIFE_HOURS = Number(process.env.FEED_FRESHNESS_HALF_LIFE_HOURS) || 24;
+
+// Distance at which the proximity signal drops to about a third
+const PROXIMITY_SCALE_KM = Number(process.env.FEED_PROXIMITY_SCALE_KM) || 500;
+
+// Comments count for more than likes when measuring engagement
+const COMMENT_WEIGHT = 2;
+
+// Weights can be overridden with FEED_WEIGHT_<SIGNAL>; 0 turns a signal off
+const getFeedWeights = () => Object.keys(DEFAULT_FEED_WEIGHTS).reduce((weights, signal) => {
+  const raw = process.env[`FEED_WEIGHT_${signal.toUpperCase()}`];
+  const override = Number(raw);
+  weights[signal] = raw !== undefined && raw !== '' && override >= 0 ? override : DEFAULT_FEED_WEIGHTS[signal];
+  return weights;
+}, {});
+
+const normalizeTerm = (term) => String(term).toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const getEngagement = (post) => (post.likes ? post.likes.length : 0) + COMMENT_WEIGHT * (post.commentsCount || 0);
+
+// Everything about the viewer the signals need, computed once per batch
+const buildRankingContext = ({ viewer, origin, now, posts }) => ({
+  viewerId: viewer ? viewer._id.toString() : null,
+  followingIds: new Set(viewer ? viewer.following.map(id => id.toString()) : []),
+  followedHashtags: new Set(viewer && viewer.followedHashtags ? viewer.followedHashtags : []),
+  interests: viewer ? viewer.interests.map(normalizeTerm).filter(Boolean) : [],
+  origin: origin && origin.lat != null && origin.lng != null ? origin : null,
+  now,
+  maxEngagement: Math.max(1, ...posts.map(getEngagement))
+});
+
+// Score each signal of a post between 0 and 1
+const getSignals = (post, context) => {
+  const authorId = (post.userId._id || post.userId).toString();
+
+  const ageHours = Math.max(0, (context.now - post.createdAt) / (1000 * 60 * 60));
+
+  let interests = 0;
+  if (context.interests.length > 0) {
+    const terms = new Set([
+      ...(post.hashtags || []).map(normalizeTerm),
+      ...(post.caption || '').split(/\s+/).map(normalizeTerm),
+      normalizeTerm(post.location && post.location.name ? post.location.name : '')
+    ]);
+    const matches = context.interests.filter(interest => terms.has(interest)).length;
+    interests = Math.min(1, matches / Math.min(context.interests.length, 3));
+  }
+
+  let proximity = 0;
+  if (context.origin && post.location && post.location.lat != null && post.location.lng != null) {
+    proximity = Math.exp(-distanceKm(context.origin, post.location) / PROXIMITY_SCALE_KM);
+  }
+
+  return {
+    following: context.followingIds.has(authorId) ||
+      (post.hashtags || []).some(tag => context.followedHashtags.has(tag)) ? 1 : 0,
+    engagement: Math.log1p(getEngagement(post)) / Math.log1p(context.maxEngagement),
+    interests,
+    proximity,
+    freshness: Math.pow(0.5, ageHours / FRESHNESS_HALF_LIFE_HOURS)
+  };
+};
+
+const scorePost = (post, context, weights) => {
+  const signals = getSignals(post, context);
+  return Object.keys(weights).reduce((score, signal) => score + weights[signal] * (signals[signal] || 0), 0);
+};
+
+// Order posts by score; ties go to the newer post so the order is deterministic
+const rankPosts = (posts, context, weights = getFeedWeights()) => posts
+  .map(post => ({ post, score: scorePost(post, context, weights) }))
+  .sort((a, b) => b.score - a.score ||
+    b.post.createdAt - a.post.createdAt ||
+    b.post._id.toString().localeCompare(a.post._id.toString()))
+  .map(({ post }) => post);
+
+module.exports = {
+  FEED_MODES,
+  DEFAULT_FEED_WEIGHTS,
+  getFeedWeights,
+  buildRankingContext,
+  getSignals,
+  scorePost,
+  rankPosts
+};
@@ -14,6 +14,29 @@ const generateRefreshToken = (id) => {
   });
 };
 
+// Short-lived token proving the password step passed, exchanged for real tokens
+// once the second factor is checked. Signed with its own secret so it can't be
+// used as an access token.
+const TWO_FACTOR_TOKEN_EXPIRES_IN = '5m';
+
+const twoFactorSecret = () =>
+  process.env.JWT_2FA_SECRET || `${process.env.JWT_SECRET}:2fa`;
+
+const generateTwoFactorToken = (id) => {
+  return jwt.sign({ id, purpose: '2fa' }, twoFactorSecret(), {
+    expiresIn: TWO_FACTOR_TOKEN_EXPIRES_IN
+  });
+};
+
+// Returns the user id, or throws if the token is invalid or expired
+const verifyTwoFactorToken = (token) => {
+  const decoded = jwt.verify(token, twoFactorSecret());
+  if (decoded.purpose !== '2fa') {
+    throw new Error('Invalid two-factor token');
+  }
+  return decoded.id;
+};
+
 // Send token response
 const sendTokenResponse = (user, statusCode, res, message = 'Success') => {
   // Create token
@@ -30,8 +53,16 @@ const sendTokenResponse = (user, statusCode, res, message = 'Success') => {
     sameSite: 'strict'
   };
 
-  // Remove password from output
+  // Remove password, emailed token hashes and 2FA secrets from output
   user.password = undefined;
+  user.passwordResetToken = undefined;
+  user.passwordResetExpires = undefined;
+  user.emailVerificationToken = undefined;
+  user.emailVerificationExpires = undefined;
+  user.twoFactorSecret = undefined;
+  user.twoFactorPendingSecret = undefined;
+  user.twoFactorLastUsedStep = undefined;
+  user.twoFactorRecoveryCodes = undefined;
 
   res
     .status(statusCode)
@@ -48,5 +79,7 @@ const sendTokenResponse = (user, statusCode, res, message = 'Success') => {
 module.exports = {
   generateToken,
   generateRefreshToken,
+  generateTwoFactorToken,
+  verifyTwoFactorToken,
   sendTokenResponse
 };
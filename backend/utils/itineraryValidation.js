@@ -0,0 +1,160 @@
+// Checks a trip itinerary for clashing times, items outside the trip dates and
+// transfers that are too short to travel between two places.
+
+// Average door-to-door speeds in km/h, overridable per mode with
+// TRAVEL_SPEED_<MODE>_KMH (e.g. TRAVEL_SPEED_TRANSIT_KMH=30)
+const DEFAULT_TRAVEL_SPEEDS = {
+  walking: 5,
+  cycling: 15,
+  transit: 25,
+  driving: 40
+};
+
+const TRAVEL_MODES = Object.keys(DEFAULT_TRAVEL_SPEEDS);
+const DEFAULT_TRAVEL_MODE = 'driving';
+
+// Slack added on top of the travel estimate before a transfer counts as tight
+const DEFAULT_BUFFER_MINUTES = Number(process.env.TRANSFER_BUFFER_MINUTES) || 10;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const getTravelSpeeds = () => TRAVEL_MODES.reduce((speeds, mode) => {
+  const override = Number(process.env[`TRAVEL_SPEED_${mode.toUpperCase()}_KMH`]);
+  speeds[mode] = override > 0 ? override : DEFAULT_TRAVEL_SPEEDS[mode];
+  return speeds;
+}, {});
+
+// "HH:MM" to minutes after midnight, or null when missing or malformed
+const toMinutes = (time) => {
+  const match = TIME_PATTERN.exec(time || '');
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+// Great-circle distance in kilometres, same formula as the client's GoogleMapsService
+const distanceKm = (from, to) => {
+  const toRadians = (degrees) => degrees * (Math.PI / 180);
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+const estimateTravelMinutes = (km, mode, speeds) =>
+  Math.ceil((km / (speeds[mode] || speeds[DEFAULT_TRAVEL_MODE])) * 60);
+
+const hasCoordinates = (item) =>
+  item.coordinates && Number.isFinite(item.coordinates.lat) && Number.isFinite(item.coordinates.lng);
+
+// Number of days the trip spans, counting both the first and last day
+const countTripDays = (trip) => {
+  const start = new Date(trip.startDate).setHours(0, 0, 0, 0);
+  const end = new Date(trip.endDate).setHours(0, 0, 0, 0);
+  return Math.round((end - start) / (1000 * 60 * 60 * 24)) + 1;
+};
+
+// Returns a list of issues: { type, severity, day, itemIds, message, ...details }
+const validateItinerary = (trip, options = {}) => {
+  const speeds = options.speeds || getTravelSpeeds();
+  const bufferMinutes = options.bufferMinutes ?? DEFAULT_BUFFER_MINUTES;
+  const totalDays = countTripDays(trip);
+  const issues = [];
+
+  const items = (trip.itinerary || []).map(item => ({
+    id: item._id.toString(),
+    day: item.day,
+    title: item.title,
+    start: toMinutes(item.startTime),
+    end: toMinutes(item.endTime),
+    coordinates: hasCoordinates(item) ? item.coordinates : null,
+    travelMode: item.travelMode || DEFAULT_TRAVEL_MODE
+  }));
+
+  items.forEach(item => {
+    if (item.day < 1 || item.day > totalDays) {
+      issues.push({
+        type: 'outside_dates',
+        severity: 'error',
+        day: item.day,
+        itemIds: [item.id],
+        message: `"${item.title}" is on day ${item.day}, but the trip only has ${totalDays} day${totalDays === 1 ? '' : 's'}`
+      });
+    }
+    if (item.start !== null && item.end !== null && item.end <= item.start) {
+      issues.push({
+        type: 'invalid_time',
+        severity: 'error',
+        day: item.day,
+        itemIds: [item.id],
+        message: `"${item.title}" ends before it starts`
+      });
+    }
+  });
+
+  const days = [...new Set(items.map(i => i.day))].sort((a, b) => a - b);
+  days.forEach(day => {
+    // Untimed items can happen any time, so only timed ones are checked
+    const timed = items
+      .filter(i => i.day === day && i.start !== null)
+      .sort((a, b) => a.start - b.start);
+
+    // Compare each item with whichever earlier item finishes last, so an
+    // item nested inside a long one is still caught
+    const endOf = (item) => (item.end !== null && item.end > item.start ? item.end : item.start);
+    let previous = timed[0];
+
+    for (let i = 1; i < timed.length; i++) {
+      const current = timed[i];
+      const gapMinutes = current.start - endOf(previous);
+      const latest = endOf(current) > endOf(previous) ? current : previous;
+
+      if (gapMinutes < 0) {
+        issues.push({
+          type: 'overlap',
+          severity: 'error',
+          day,
+          itemIds: [previous.id, current.id],
+          message: `"${current.title}" starts before "${previous.title}" ends`
+        });
+        previous = latest;
+        continue;
+      }
+
+      if (!previous.coordinates || !current.coordinates) {
+        previous = latest;
+        continue;
+      }
+
+      const km = distanceKm(previous.coordinates, current.coordinates);
+      const travelMinutes = estimateTravelMinutes(km, current.travelMode, speeds);
+      if (gapMinutes < travelMinutes + bufferMinutes) {
+        issues.push({
+          type: 'tight_transfer',
+          severity: 'warning',
+          day,
+          itemIds: [previous.id, current.id],
+          message: `Only ${gapMinutes} min to get from "${previous.title}" to "${current.title}" (about ${travelMinutes} min ${current.travelMode})`,
+          distanceKm: Math.round(km * 10) / 10,
+          travelMinutes,
+          gapMinutes,
+          travelMode: current.travelMode
+        });
+      }
+      previous = latest;
+    }
+  });
+
+  return issues;
+};
+
+module.exports = {
+  TRAVEL_MODES,
+  DEFAULT_TRAVEL_MODE,
+  DEFAULT_BUFFER_MINUTES,
+  TIME_PATTERN,
+  getTravelSpeeds,
+  toMinutes,
+  distanceKm,
+  estimateTravelMinutes,
+  validateItinerary
+};
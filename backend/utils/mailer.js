@@ -0,0 +1,93 @@
+// Outgoing mail behind a small transport abstraction.
+// EMAIL_TRANSPORT picks the driver: "smtp" sends through EMAIL_HOST, "file" writes each
+// message to EMAIL_OUTBOX_DIR as .eml, and "console" logs it. Outside production the
+// default is "console" so local development never needs an SMTP server.
+
+const fs = require('fs/promises');
+const path = require('path');
+const crypto = require('crypto');
+
+const DEFAULT_OUTBOX_DIR = path.join(__dirname, '..', 'mail-outbox');
+
+const getFromAddress = () =>
+  process.env.EMAIL_FROM || `TravelConnect <${process.env.EMAIL_USER || 'no-reply@travelconnect.local'}>`;
+
+// Plain RFC 822 rendering for the file driver, readable by any mail client
+const toEml = ({ from, to, subject, text, html }) => {
+  const boundary = `----travelconnect-${crypto.randomBytes(8).toString('hex')}`;
+  return [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: ${subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    text,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    '',
+    html,
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+};
+
+const drivers = {
+  smtp: () => {
+    // Only required when SMTP is actually used
+    const nodemailer = require('nodemailer');
+    const port = parseInt(process.env.EMAIL_PORT) || 587;
+    const transporter = nodemailer.createTransport({
+      host: process.env.EMAIL_HOST,
+      port,
+      secure: process.env.EMAIL_SECURE ? process.env.EMAIL_SECURE === 'true' : port === 465,
+      auth: process.env.EMAIL_USER ? { user: process.env.EMAIL_USER, pass: process.env.EMAIL_PASS } : undefined
+    });
+    return { send: (message) => transporter.sendMail(message) };
+  },
+
+  file: () => {
+    const dir = path.resolve(process.env.EMAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR);
+    return {
+      send: async (message) => {
+        await fs.mkdir(dir, { recursive: true });
+        const file = path.join(dir, `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`);
+        await fs.writeFile(file, toEml(message));
+        return { file };
+      }
+    };
+  },
+
+  console: () => ({
+    send: async (message) => {
+      console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+      return {};
+    }
+  })
+};
+
+let transport = null;
+
+const getTransportName = () => {
+  const name = (process.env.EMAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'smtp' : 'console')).toLowerCase();
+  if (!drivers[name]) throw new Error(`Unknown EMAIL_TRANSPORT "${name}" (expected smtp, file or console)`);
+  return name;
+};
+
+const getTransport = () => {
+  if (!transport) transport = drivers[getTransportName()]();
+  return transport;
+};
+
+// Send a rendered template ({ subject, text, html }) to an address
+const sendMail = (to, { subject, text, html }) =>
+  getTransport().send({ from: getFromAddress(), to, subject, text, html });
+
+module.exports = {
+  sendMail,
+  getTransportName
+};
@@ -0,0 +1,58 @@
+const Conversation = require('../models/Conversation');
+
+// Open socket count per user id. A user is online while at least one tab is connected.
+const connections = new Map();
+
+// Register a socket for a user, returns true when this is their first connection
+const userConnected = (userId) => {
+  const count = connections.get(userId) || 0;
+  connections.set(userId, count + 1);
+  return count === 0;
+};
+
+// Unregister a socket for a user, returns true when their last connection closed
+const userDisconnected = (userId) => {
+  const count = (connections.get(userId) || 1) - 1;
+  if (count <= 0) {
+    connections.delete(userId);
+    return true;
+  }
+  connections.set(userId, count);
+  return false;
+};
+
+const isOnline = (userId) => connections.has(userId.toString());
+
+// Presence as other users may see it - hidden entirely when showOnline is off
+const getPresence = (user) => {
+  if (user.showOnline === false) {
+    return { isOnline: false, lastSeen: null };
+  }
+  return {
+    isOnline: isOnline(user._id),
+    lastSeen: user.lastSeen || null
+  };
+};
+
+// Push a presence change to everyone who shares a conversation with the user
+const broadcastPresence = async (io, user, presence) => {
+  if (!io) return;
+
+  const memberIds = await Conversation.find({ members: user._id, isActive: true }).distinct('members');
+  const rooms = memberIds
+    .map(id => id.toString())
+    .filter(id => id !== user._id.toString())
+    .map(id => `user-${id}`);
+
+  if (rooms.length > 0) {
+    io.to(rooms).emit('presence', { userId: user._id.toString(), ...presence });
+  }
+};
+
+module.exports = {
+  userConnected,
+  userDisconnected,
+  isOnline,
+  getPresence,
+  broadcastPresence
+};
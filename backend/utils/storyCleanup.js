@@ -0,0 +1,41 @@
+const path = require('path');
+const fs = require('fs').promises;
+const Story = require('../models/Story');
+
+// How often to look for stories past their 24 hours
+const CLEANUP_INTERVAL = 15 * 60 * 1000; // 15 minutes
+
+// Delete expired stories along with their uploaded media
+const removeExpiredStories = async (now = new Date()) => {
+  const expired = await Story.findExpired(now);
+  if (expired.length === 0) return 0;
+
+  await Promise.all(expired.map(story => {
+    const filePath = path.join(__dirname, '..', story.media);
+    return fs.unlink(filePath).catch(error => {
+      if (error.code !== 'ENOENT') console.error('Story media cleanup error:', error.message);
+    });
+  }));
+
+  const result = await Story.deleteMany({ _id: { $in: expired.map(story => story._id) } });
+  return result.deletedCount;
+};
+
+// Run the cleanup now and then on a fixed interval for the life of the process
+const startStoryCleanupScheduler = () => {
+  const run = () => removeExpiredStories()
+    .then(count => {
+      if (count > 0) console.log(`🧹 Removed ${count} expired stor${count === 1 ? 'y' : 'ies'}`);
+    })
+    .catch(error => console.error('Story cleanup error:', error.message));
+
+  run();
+  const timer = setInterval(run, CLEANUP_INTERVAL);
+  timer.unref();
+  return timer;
+};
+
+module.exports = {
+  removeExpiredStories,
+  startStoryCleanupScheduler
+};
@@ -0,0 +1,58 @@
+const User = require('../models/User');
+const Notification = require('../models/Notification');
+
+// #tag: letters, numbers and underscores
+const HASHTAG_REGEX = /#([a-zA-Z0-9_]+)/g;
+
+// @username, matching the username rules; not preceded by a word character so emails don't count
+const MENTION_REGEX = /(^|[^a-zA-Z0-9_@])@([a-zA-Z0-9_]{3,30})(?![a-zA-Z0-9_])/g;
+
+// Unique, lowercased matches of one capture group
+const extractMatches = (text, regex, group) => {
+  const matches = [];
+  if (!text) return matches;
+
+  for (const match of String(text).matchAll(regex)) {
+    const value = match[group].toLowerCase();
+    if (!matches.includes(value)) {
+      matches.push(value);
+    }
+  }
+  return matches;
+};
+
+const extractHashtags = (text) => extractMatches(text, HASHTAG_REGEX, 1);
+
+const extractMentions = (text) => extractMatches(text, MENTION_REGEX, 2);
+
+// Active users mentioned in the text, optionally limited to a set of allowed user ids
+const resolveMentions = async (text, { allowedIds } = {}) => {
+  const usernames = extractMentions(text);
+  if (usernames.length === 0) return [];
+
+  const filter = { username: { $in: usernames }, isActive: true };
+  if (allowedIds) filter._id = { $in: allowedIds };
+
+  const users = await User.find(filter).select('_id');
+  return users.map(user => user._id);
+};
+
+// Notify users mentioned for the first time; previously mentioned users and
+// users on either side of a block are skipped
+const notifyMentions = async ({ mentionedIds, previousIds = [], senderId, referenceId, referenceModel, context }) => {
+  const previous = new Set(previousIds.map(id => id.toString()));
+
+  for (const userId of mentionedIds) {
+    if (previous.has(userId.toString())) continue;
+    if (await User.isBlockedBetween(userId, senderId)) continue;
+
+    await Notification.createMentionNotification(referenceId, referenceModel, userId, senderId, context);
+  }
+};
+
+module.exports = {
+  extractHashtags,
+  extractMentions,
+  resolveMentions,
+  notifyMentions
+};
@@ -0,0 +1,52 @@
+const Trip = require('../models/Trip');
+const Notification = require('../models/Notification');
+
+// How often to look for trips whose start or end date has passed
+const STATUS_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+// Save a trip with the status its dates call for and notify everyone on it if the
+// status changed. Every date-based transition goes through here, whether the
+// scheduler or an edit triggers it. Returns the status the trip left, or null.
+const transitionTripStatus = async (trip, { now = new Date(), changedBy = null } = {}) => {
+  const previousStatus = trip.status;
+  trip.status = trip.statusForDate(now);
+  await trip.save();
+
+  if (trip.status === previousStatus) return null;
+  await Notification.createTripStatusNotifications(trip, changedBy);
+  return previousStatus;
+};
+
+// Advance trip statuses by date; returns how many trips changed
+const runStatusTransitions = async (now = new Date()) => {
+  const trips = await Trip.findDueForStatusChange(now);
+  let changed = 0;
+  for (const trip of trips) {
+    try {
+      if (await transitionTripStatus(trip, { now })) changed += 1;
+    } catch (error) {
+      console.error(`Could not update status of trip ${trip._id}:`, error.message);
+    }
+  }
+  return changed;
+};
+
+// Run the transitions now and then on a fixed interval for the life of the process
+const startTripStatusScheduler = () => {
+  const run = () => runStatusTransitions()
+    .then(count => {
+      if (count > 0) console.log(`🗓️  Updated status of ${count} trip(s)`);
+    })
+    .catch(error => console.error('Trip status update error:', error.message));
+
+  run();
+  const timer = setInterval(run, STATUS_CHECK_INTERVAL);
+  timer.unref();
+  return timer;
+};
+
+module.exports = {
+  transitionTripStatus,
+  runStatusTransitions,
+  startTripStatusScheduler
+};
@@ -0,0 +1,47 @@
+// Permission matrix for trip roles.
+// The creator is the 'owner'; collaborators carry an explicit role and plain
+// members who joined through a request act as editors.
+
+const TRIP_ROLES = ['viewer', 'editor', 'co-owner'];
+
+// Roles an invite link can grant: collaborator roles below co-owner, or plain membership
+const INVITE_ROLES = ['viewer', 'editor', 'member'];
+
+const PERMISSIONS = {
+  view: ['viewer', 'editor', 'co-owner', 'owner'],
+  editItinerary: ['editor', 'co-owner', 'owner'],
+  editChecklist: ['editor', 'co-owner', 'owner'],
+  viewExpenses: ['viewer', 'editor', 'co-owner', 'owner'],
+  editExpenses: ['editor', 'co-owner', 'owner'],
+  editExchangeRates: ['editor', 'co-owner', 'owner'],
+  editBudget: ['co-owner', 'owner'],
+  uploadPhotos: ['editor', 'co-owner', 'owner'],
+  managePhotos: ['editor', 'co-owner', 'owner'],
+  manageMembers: ['co-owner', 'owner'],
+  editSettings: ['co-owner', 'owner'],
+  cancelTrip: ['owner'],
+  deleteTrip: ['owner']
+};
+
+const can = (trip, userId, action) => {
+  if (!userId) return false;
+  const role = trip.getRole(userId);
+  return !!role && PERMISSIONS[action].includes(role);
+};
+
+// Role and allowed actions for the current user, sent along with the trip
+const getAccess = (trip, userId) => {
+  const role = userId ? trip.getRole(userId) : null;
+  return {
+    role,
+    permissions: role ? Object.keys(PERMISSIONS).filter(action => PERMISSIONS[action].includes(role)) : []
+  };
+};
+
+module.exports = {
+  TRIP_ROLES,
+  INVITE_ROLES,
+  PERMISSIONS,
+  can,
+  getAccess
+};
@@ -0,0 +1,180 @@
+const User = require('../models/User');
+const Trip = require('../models/Trip');
+
+// Relative weight of each reason to suggest someone
+const SUGGESTION_WEIGHTS = {
+  mutual: 3,    // Per person you follow who follows them
+  trips: 2,     // Per public trip you are both on
+  interests: 1, // Per shared interest
+  travel: 1     // Per place you have both been
+};
+
+// Upper bound on users pulled in by shared interests or travel history
+const INTEREST_CANDIDATE_LIMIT = 200;
+
+const normalizeTerm = (term) => String(term).trim().toLowerCase();
+
+// Terms from `theirs` that also appear in `mine`, keeping their original spelling
+const getOverlap = (mine, theirs) => {
+  const own = new Set(mine.map(normalizeTerm));
+  return [...new Set((theirs || []).filter(term => own.has(normalizeTerm(term))))];
+};
+
+const formatList = (items) => items.length > 2
+  ? `${items.slice(0, 2).join(', ')} and more`
+  : items.join(' and ');
+
+// Human readable reasons, strongest first
+const getReasons = ({ mutuals, trips, interests, travel }) => {
+  const reasons = [];
+  if (mutuals.length === 1) {
+    reasons.push(`Followed by ${mutuals[0]}`);
+  } else if (mutuals.length > 1) {
+    reasons.push(`Followed by ${mutuals.length} people you follow`);
+  }
+  if (trips.length === 1) {
+    reasons.push(`Also on ${trips[0]}`);
+  } else if (trips.length > 1) {
+    reasons.push(`On ${trips.length} public trips with you`);
+  }
+  if (interests.length > 0) {
+    reasons.push(`Also into ${formatList(interests)}`);
+  }
+  if (travel.length > 0) {
+    reasons.push(`Also visited ${formatList(travel)}`);
+  }
+  return reasons;
+};
+
+// Active users who are not suspended right now
+const getEligibleFilter = (excludedIds, now) => ({
+  _id: { $nin: excludedIds },
+  isActive: true,
+  suspendedUntil: { $not: { $gt: now } }
+});
+
+// Suggest people for a user to follow, ranked by mutual follows, shared public
+// trips and overlapping interests or travel history. Followed and blocked users
+// (in either direction) are never suggested; if there are not enough matches the
+// rest is filled with the most followed users.
+const getUserSuggestions = async (viewerId, { limit = 10, now = new Date() } = {}) => {
+  const viewer = await User.findById(viewerId).select('+blockedUsers following interests travelHistory');
+  if (!viewer) return [];
+
+  const blockedBy = await User.find({ blockedUsers: viewer._id }).distinct('_id');
+  const excludedIds = [viewer._id, ...viewer.following, ...viewer.blockedUsers, ...blockedBy];
+  const excluded = new Set(excludedIds.map(id => id.toString()));
+
+  const candidates = new Map();
+  const getCandidate = (id) => {
+    const key = id.toString();
+    if (!candidates.has(key)) candidates.set(key, { mutuals: [], trips: [] });
+    return candidates.get(key);
+  };
+
+  // People followed by the people you follow
+  const followed = await User.find({ _id: { $in: viewer.following }, isActive: true })
+    .select('username following');
+  for (const followee of followed) {
+    for (const id of followee.following) {
+      if (!excluded.has(id.toString())) getCandidate(id).mutuals.push(followee.username);
+    }
+  }
+
+  // Other participants of public trips you are on
+  const trips = await Trip.find({
+    isPublic: true,
+    isBlocked: { $ne: true },
+    $or: [
+      { createdBy: viewer._id },
+      { members: viewer._id },
+      { 'collaborators.user': viewer._id }
+    ]
+  }).select('tripName createdBy members collaborators.user');
+  for (const trip of trips) {
+    const participants = new Set([
+      trip.createdBy,
+      ...trip.members,
+      ...trip.collaborators.map(c => c.user)
+    ].filter(Boolean).map(id => id.toString()));
+    for (const id of participants) {
+      if (!excluded.has(id)) getCandidate(id).trips.push(trip.tripName);
+    }
+  }
+
+  // People with overlapping interests or travel history
+  const termFilters = [];
+  if (viewer.interests.length > 0) termFilters.push({ interests: { $in: viewer.interests } });
+  if (viewer.travelHistory.length > 0) termFilters.push({ travelHistory: { $in: viewer.travelHistory } });
+  if (termFilters.length > 0) {
+    const similar = await User.find({ ...getEligibleFilter(excludedIds, now), $or: termFilters })
+      .collation({ locale: 'en', strength: 2 })
+      .select('_id')
+      .limit(INTEREST_CANDIDATE_LIMIT);
+    similar.forEach(user => getCandidate(user._id));
+  }
+
+  const users = await User.find({
+    ...getEligibleFilter(excludedIds, now),
+    _id: { $in: [...candidates.keys()], $nin: excludedIds }
+  }).select('username fullName profilePicture bio interests travelHistory');
+
+  const suggestions = users.map(user => {
+    const candidate = candidates.get(user._id.toString());
+    const matches = {
+      mutuals: candidate.mutuals,
+      trips: [...new Set(candidate.trips)],
+      interests: getOverlap(viewer.interests, user.interests),
+      travel: getOverlap(viewer.travelHistory, user.travelHistory)
+    };
+    const score = SUGGESTION_WEIGHTS.mutual * matches.mutuals.length +
+      SUGGESTION_WEIGHTS.trips * matches.trips.length +
+      SUGGESTION_WEIGHTS.interests * matches.interests.length +
+      SUGGESTION_WEIGHTS.travel * matches.travel.length;
+    const reasons = getReasons(matches);
+
+    return {
+      user: {
+        _id: user._id,
+        username: user.username,
+        fullName: user.fullName,
+        profilePicture: user.profilePicture,
+        bio: user.bio
+      },
+      reason: reasons[0],
+      reasons,
+      mutualCount: matches.mutuals.length,
+      score
+    };
+  })
+    .filter(suggestion => suggestion.score > 0)
+    .sort((a, b) => b.score - a.score ||
+      b.mutualCount - a.mutualCount ||
+      a.user.username.localeCompare(b.user.username))
+    .slice(0, limit);
+
+  // Not enough matches: fill up with the most followed users
+  if (suggestions.length < limit) {
+    const popular = await User.aggregate([
+      { $match: getEligibleFilter([...excludedIds, ...suggestions.map(s => s.user._id)], now) },
+      { $addFields: { followersCount: { $size: { $ifNull: ['$followers', []] } } } },
+      { $sort: { followersCount: -1, createdAt: -1 } },
+      { $limit: limit - suggestions.length },
+      { $project: { username: 1, fullName: 1, profilePicture: 1, bio: 1 } }
+    ]);
+    popular.forEach(user => suggestions.push({
+      user,
+      reason: 'Popular on TravelConnect',
+      reasons: ['Popular on TravelConnect'],
+      mutualCount: 0,
+      score: 0
+    }));
+  }
+
+  return suggestions;
+};
+
+module.exports = {
+  SUGGESTION_WEIGHTS,
+  getUserSuggestions
+};
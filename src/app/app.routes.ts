@@ -1,5 +1,6 @@
 import { Routes } from '@angular/router';
-import { authGuard, guestGuard } from './guards/auth.guard';
+import { authGuard, guestGuard, adminGuard } from './guards/auth.guard';
+import { unsavedChangesGuard } from './guards/unsaved-changes.guard';
 
 /**
  * Application routing configuration
@@ -37,6 +38,22 @@ export const routes: Routes = [
     path: 'signup',
     redirectTo: '/register'
   },
+  {
+    path: 'forgot-password',
+    loadComponent: () => import('./features/auth/forgot-password.component').then(m => m.ForgotPasswordComponent),
+    title: 'Forgot Password - Travel Connect',
+    canActivate: [guestGuard]
+  },
+  {
+    path: 'reset-password/:token',
+    loadComponent: () => import('./features/auth/reset-password.component').then(m => m.ResetPasswordComponent),
+    title: 'Reset Password - Travel Connect'
+  },
+  {
+    path: 'verify-email/:token',
+    loadComponent: () => import('./features/auth/verify-email.component').then(m => m.VerifyEmailComponent),
+    title: 'Verify Email - Travel Connect'
+  },
 
   // Main application routes
   {
@@ -96,10 +113,41 @@ export const routes: Routes = [
     loadComponent: () => import('./features/profile/profile.component').then(m => m.ProfileComponent),
     title: 'User Profile - Travel Connect'
   },
+  {
+    path: 'post/:id',
+    loadComponent: () => import('./features/posts/post-detail/post-detail.component').then(m => m.PostDetailComponent),
+    title: 'Post - Travel Connect'
+  },
+  {
+    path: 'hashtag/:tag',
+    loadComponent: () => import('./features/hashtag/hashtag.component').then(m => m.HashtagComponent),
+    title: 'Hashtag - Travel Connect'
+  },
+  {
+    path: 'place/:placeId',
+    loadComponent: () => import('./features/place/place.component').then(m => m.PlaceComponent),
+    title: 'Place - Travel Connect'
+  },
+  {
+    path: 'notifications',
+    loadComponent: () => import('./features/notifications/notifications.component').then(m => m.NotificationsComponent),
+    title: 'Notifications - Travel Connect',
+    canActivate: [authGuard]
+  },
   {
     path: 'settings',
     loadComponent: () => import('./features/settings/settings.component').then(m => m.SettingsComponent),
-    title: 'Settings - Travel Connect'
+    title: 'Settings - Travel Connect',
+    canActivate: [authGuard],
+    canDeactivate: [unsavedChangesGuard]
+  },
+
+  // Admin routes
+  {
+    path: 'admin/reports',
+    loadComponent: () => import('./features/admin/reports/admin-reports.component').then(m => m.AdminReportsComponent),
+    title: 'Moderation - Travel Connect',
+    canActivate: [authGuard, adminGuard]
   },
 
   // Wildcard route - must be last
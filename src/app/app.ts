@@ -1,7 +1,12 @@
-import { Component, signal, computed } from '@angular/core';
+import { Component, signal, computed, effect } from '@angular/core';
 import { RouterOutlet, RouterLink, RouterLinkActive, Router, NavigationEnd } from '@angular/router';
 import { CommonModule } from '@angular/common';
 import { AuthService } from './services/auth.service';
+import { NotificationService } from './services/notification.service';
+import { RealtimeService } from './services/realtime.service';
+import { ThemeService } from './services/theme.service';
+import { SettingsService } from './services/settings.service';
+import { interval } from 'rxjs';
 import { filter } from 'rxjs/operators';
 
 /**
@@ -18,7 +23,7 @@ import { filter } from 'rxjs/operators';
 })
 export class App {
   // Dark mode state
-  darkMode = signal(false);
+  darkMode = computed(() => this.themeService.isDark());
 
   // Current route tracking
   private currentRoute = signal('');
@@ -26,32 +31,70 @@ export class App {
   // Auth state
   isAuthenticated = computed(() => this.authService.isLoggedIn());
   currentUser = computed(() => this.authService.user());
+  isAdmin = computed(() => this.authService.isAdmin());
+
+  // Notification badge
+  unreadNotifications = computed(() => this.notificationService.unreadCount());
+
+  // Email verification prompt, hidden for the rest of the session once dismissed
+  verifyPromptDismissed = signal(false);
+  sendingVerification = signal(false);
+  verificationSent = signal(false);
+  verifyPromptMessage = signal('');
+  showVerifyPrompt = computed(() =>
+    this.isAuthenticated() && this.currentUser()?.isVerified === false && !this.verifyPromptDismissed()
+  );
 
   constructor(
     private authService: AuthService,
+    private notificationService: NotificationService,
+    private realtimeService: RealtimeService,
+    private themeService: ThemeService,
+    private settingsService: SettingsService,
     private router: Router
   ) {
-    // Check for saved theme preference
-    const savedTheme = localStorage.getItem('theme');
-    if (savedTheme === 'dark') {
-      this.darkMode.set(true);
-      document.body.classList.add('dark-mode');
-    }
-
-    // Check for system preference if no saved preference
-    if (!savedTheme) {
-      const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
-      if (prefersDark) {
-        this.darkMode.set(true);
-        document.body.classList.add('dark-mode');
-      }
-    }
 
     // Track route changes for layout switching
     this.router.events.pipe(
       filter(event => event instanceof NavigationEnd)
     ).subscribe((event: NavigationEnd) => {
       this.currentRoute.set(event.urlAfterRedirects);
+      this.refreshNotificationBadge();
+    });
+
+    // Keep the notification badge fresh while the app is open
+    interval(60000).subscribe(() => this.refreshNotificationBadge());
+
+    // Hold a live socket connection for as long as the user is signed in
+    effect(() => {
+      if (this.isAuthenticated()) {
+        this.realtimeService.connect();
+      } else {
+        this.realtimeService.disconnect();
+      }
+    });
+
+    // Appearance follows the account's saved settings on every device
+    effect(() => {
+      if (this.isAuthenticated()) {
+        this.settingsService.getSettings().subscribe({
+          next: (response) => this.themeService.apply(response.data.appearance),
+          error: (error) => console.error('Settings load error:', error)
+        });
+      }
+    });
+  }
+
+  /**
+   * Refresh the unread notification count for the signed-in user
+   */
+  private refreshNotificationBadge(): void {
+    if (!this.isAuthenticated() || this.isAuthRoute()) {
+      return;
+    }
+
+    this.notificationService.refreshUnreadCount().subscribe({
+      error: (error) => console.error('Notification count error:', error)
     });
   }
 
@@ -60,29 +103,48 @@ export class App {
    */
   isAuthRoute(): boolean {
     const route = this.currentRoute();
-    return route.includes('/login') || route.includes('/register') || route.includes('/signup');
+    return ['/login', '/register', '/signup', '/forgot-password', '/reset-password', '/verify-email']
+      .some(path => route.includes(path));
   }
 
   /**
    * Toggle between light and dark mode
    */
   toggleTheme(): void {
-    const newMode = !this.darkMode();
-    this.darkMode.set(newMode);
-
-    if (newMode) {
-      document.body.classList.add('dark-mode');
-      localStorage.setItem('theme', 'dark');
-    } else {
-      document.body.classList.remove('dark-mode');
-      localStorage.setItem('theme', 'light');
+    const theme = this.darkMode() ? 'light' : 'dark';
+    this.themeService.theme.set(theme);
+
+    if (this.isAuthenticated()) {
+      this.settingsService.updateSettings({ appearance: { theme } }).subscribe({
+        error: (error) => console.error('Theme save error:', error)
+      });
     }
   }
 
+  /**
+   * Send a new verification link to the signed-in user
+   */
+  resendVerification(): void {
+    this.sendingVerification.set(true);
+    this.authService.resendVerification().subscribe({
+      next: (response) => {
+        this.verifyPromptMessage.set(`${response.message}. Open the link in it to finish.`);
+        this.verificationSent.set(true);
+        this.sendingVerification.set(false);
+      },
+      error: (error) => {
+        this.verifyPromptMessage.set(error.message);
+        this.sendingVerification.set(false);
+      }
+    });
+  }
+
   /**
    * Logout user
    */
   logout(): void {
+    this.notificationService.clear();
+    this.realtimeService.disconnect();
     this.authService.logout().subscribe({
       next: () => {
         // Navigation is handled by the auth service
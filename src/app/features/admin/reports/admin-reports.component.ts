@@ -0,0 +1,263 @@
+import { Component, OnInit, signal, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import {
+  ReportService,
+  Report,
+  ReportFilters,
+  ReportStats,
+  ReportUser,
+  ReportPriority,
+  ReportType,
+  ModerationAction
+} from '../../../services/report.service';
+import { AuthService } from '../../../services/auth.service';
+import { environment } from '../../../../environments/environment';
+
+// Resolve form for the report currently being handled
+interface ResolveForm {
+  reportId: string;
+  action: ModerationAction;
+  adminNotes: string;
+  suspensionDays: number;
+}
+
+/**
+ * Admin Reports - Moderation queue for triaging, assigning and resolving user reports
+ */
+@Component({
+  selector: 'app-admin-reports',
+  standalone: true,
+  imports: [CommonModule, RouterModule],
+  templateUrl: './admin-reports.component.html',
+  styleUrl: './admin-reports.component.css'
+})
+export class AdminReportsComponent implements OnInit {
+  private reportService = inject(ReportService);
+  private authService = inject(AuthService);
+
+  readonly statusOptions: { value: NonNullable<ReportFilters['status']>; label: string }[] = [
+    { value: 'open', label: 'Open' },
+    { value: 'pending', label: 'Pending' },
+    { value: 'investigating', label: 'Investigating' },
+    { value: 'resolved', label: 'Resolved' },
+    { value: 'dismissed', label: 'Dismissed' },
+    { value: 'all', label: 'All' }
+  ];
+  readonly priorityOptions: ReportPriority[] = ['urgent', 'high', 'medium', 'low'];
+  readonly typeOptions: ReportType[] = ['post', 'comment', 'user', 'message', 'trip'];
+  readonly actionOptions: { value: ModerationAction; label: string }[] = [
+    { value: 'warning', label: 'Warn the author' },
+    { value: 'content_removed', label: 'Remove the content' },
+    { value: 'user_suspended', label: 'Suspend the account' },
+    { value: 'user_banned', label: 'Ban the account' }
+  ];
+
+  reports = signal<Report[]>([]);
+  stats = signal<ReportStats | null>(null);
+  assignees = signal<ReportUser[]>([]);
+  filters = signal<ReportFilters>({ status: 'open', priority: '', type: '', assignee: '' });
+  page = signal<number>(1);
+  hasMore = signal<boolean>(false);
+  total = signal<number>(0);
+  loading = signal<boolean>(false);
+  error = signal<string>('');
+
+  // Per-report action state
+  busyReportId = signal<string | null>(null);
+  resolveForm = signal<ResolveForm | null>(null);
+
+  readonly openCount = computed(() => {
+    const stats = this.stats();
+    if (!stats) return 0;
+    return stats.statusStats
+      .filter(s => s._id === 'pending' || s._id === 'investigating')
+      .reduce((sum, s) => sum + s.count, 0);
+  });
+
+  ngOnInit(): void {
+    this.loadReports(true);
+    this.loadStats();
+    this.reportService.getAssignees().subscribe({
+      next: (response) => this.assignees.set(response.data),
+      error: (err) => console.error('Error loading admins:', err)
+    });
+  }
+
+  loadReports(reset = false): void {
+    if (reset) this.page.set(1);
+    this.loading.set(true);
+    this.error.set('');
+
+    this.reportService.getReports({ ...this.filters(), page: this.page() }).subscribe({
+      next: (response) => {
+        this.reports.update(list => reset ? response.data : [...list, ...response.data]);
+        this.hasMore.set(response.pagination.hasMore);
+        this.total.set(response.pagination.total);
+        this.loading.set(false);
+      },
+      error: (err) => {
+        console.error('Error loading reports:', err);
+        this.error.set(err.error?.message || 'Failed to load reports');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  loadStats(): void {
+    this.reportService.getStats().subscribe({
+      next: (response) => this.stats.set(response.data),
+      error: (err) => console.error('Error loading report stats:', err)
+    });
+  }
+
+  loadMore(): void {
+    if (!this.hasMore() || this.loading()) return;
+    this.page.update(p => p + 1);
+    this.loadReports(false);
+  }
+
+  setFilter(key: keyof ReportFilters, value: string): void {
+    this.filters.update(filters => ({ ...filters, [key]: value }));
+    this.resolveForm.set(null);
+    this.loadReports(true);
+  }
+
+  getPriorityCount(priority: ReportPriority): number {
+    return this.stats()?.priorityStats.find(s => s._id === priority)?.count || 0;
+  }
+
+  isOpen(report: Report): boolean {
+    return report.status === 'pending' || report.status === 'investigating';
+  }
+
+  isAssignedToMe(report: Report): boolean {
+    return report.handledBy?._id === this.authService.user()?._id;
+  }
+
+  getReasonLabel(report: Report): string {
+    return this.reportService.getReasonLabel(report.reason);
+  }
+
+  getContentLink(report: Report): string[] | null {
+    switch (report.reportedType) {
+      case 'user':
+        return report.reportedUser ? ['/user', report.reportedUser.username] : null;
+      case 'post':
+        return ['/post', report.reportedId];
+      case 'trip':
+        return ['/trips', report.reportedId];
+      default:
+        return null; // Comments and messages have no page of their own yet
+    }
+  }
+
+  getContentStateLabel(report: Report): string {
+    switch (report.contentState) {
+      case 'removed': return 'Removed';
+      case 'deleted': return 'Deleted by author';
+      case 'suspended': return 'Account suspended';
+      case 'banned': return 'Account banned';
+      default: return 'Visible';
+    }
+  }
+
+  getAvatarUrl(user?: ReportUser | null): string {
+    if (!user?.profilePicture) return '/assets/images/avatars/default-avatar.svg';
+    return user.profilePicture.startsWith('http') ? user.profilePicture : `${environment.backendUrl}${user.profilePicture}`;
+  }
+
+  getAge(report: Report): string {
+    const hours = Math.floor((Date.now() - new Date(report.createdAt).getTime()) / (1000 * 60 * 60));
+    if (hours < 1) return 'just now';
+    if (hours < 24) return `${hours}h ago`;
+    return `${Math.floor(hours / 24)}d ago`;
+  }
+
+  assign(report: Report, adminId?: string): void {
+    this.busyReportId.set(report._id);
+    this.reportService.assignReport(report._id, adminId || undefined).subscribe({
+      next: (response) => {
+        this.replaceReport(response.data);
+        this.busyReportId.set(null);
+        this.loadStats();
+      },
+      error: (err) => {
+        this.error.set(err.error?.message || 'Failed to assign report');
+        this.busyReportId.set(null);
+      }
+    });
+  }
+
+  openResolveForm(report: Report): void {
+    this.resolveForm.set({
+      reportId: report._id,
+      action: report.reportedType === 'user' ? 'warning' : 'content_removed',
+      adminNotes: '',
+      suspensionDays: 7
+    });
+  }
+
+  closeResolveForm(): void {
+    this.resolveForm.set(null);
+  }
+
+  updateResolveForm(field: keyof ResolveForm, value: string | number): void {
+    this.resolveForm.update(form => form ? { ...form, [field]: value } : form);
+  }
+
+  // Accounts cannot be "removed" as content; that's what suspending or banning is for
+  getActionOptions(report: Report): { value: ModerationAction; label: string }[] {
+    return report.reportedType === 'user'
+      ? this.actionOptions.filter(a => a.value !== 'content_removed')
+      : this.actionOptions;
+  }
+
+  resolve(report: Report): void {
+    const form = this.resolveForm();
+    if (!form || form.reportId !== report._id) return;
+
+    this.busyReportId.set(report._id);
+    this.reportService.resolveReport(
+      report._id,
+      form.action,
+      form.adminNotes.trim() || undefined,
+      form.action === 'user_suspended' ? form.suspensionDays : undefined
+    ).subscribe({
+      next: () => {
+        this.busyReportId.set(null);
+        this.resolveForm.set(null);
+        // Other reports about the same content were closed too, so reload the queue
+        this.loadReports(true);
+        this.loadStats();
+      },
+      error: (err) => {
+        this.error.set(err.error?.message || err.error?.errors?.[0]?.msg || 'Failed to resolve report');
+        this.busyReportId.set(null);
+      }
+    });
+  }
+
+  dismiss(report: Report): void {
+    const notes = prompt('Reason for dismissing (optional):');
+    if (notes === null) return;
+
+    this.busyReportId.set(report._id);
+    this.reportService.dismissReport(report._id, notes.trim() || undefined).subscribe({
+      next: (response) => {
+        this.replaceReport(response.data);
+        this.busyReportId.set(null);
+        this.loadStats();
+      },
+      error: (err) => {
+        this.error.set(err.error?.message || 'Failed to dismiss report');
+        this.busyReportId.set(null);
+      }
+    });
+  }
+
+  // Merge an updated report in, keeping the content state computed by the queue
+  private replaceReport(updated: Report): void {
+    this.reports.update(list => list.map(r => r._id === updated._id ? { ...updated, contentState: r.contentState } : r));
+  }
+}
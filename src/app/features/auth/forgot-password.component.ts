@@ -0,0 +1,75 @@
+import { Component, signal } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { AuthService } from '../../services/auth.service';
+
+/**
+ * Forgot Password - Asks for an email address and sends a password reset link to it
+ */
+@Component({
+  selector: 'app-forgot-password',
+  standalone: true,
+  imports: [RouterLink, ReactiveFormsModule],
+  templateUrl: './forgot-password.component.html',
+  styleUrl: './login.component.css'
+})
+export class ForgotPasswordComponent {
+  forgotForm: FormGroup;
+
+  // UI state signals
+  isSubmitting = signal(false);
+  errorMessage = signal('');
+  sentMessage = signal('');
+
+  constructor(
+    private fb: FormBuilder,
+    private authService: AuthService
+  ) {
+    this.forgotForm = this.fb.group({
+      email: ['', [Validators.required, Validators.email]]
+    });
+  }
+
+  /**
+   * Request a reset link for the entered email
+   */
+  onSubmit(): void {
+    this.errorMessage.set('');
+
+    if (this.forgotForm.invalid) {
+      this.forgotForm.markAllAsTouched();
+      return;
+    }
+
+    this.isSubmitting.set(true);
+    this.authService.forgotPassword(this.forgotForm.value.email.trim()).subscribe({
+      next: (response) => {
+        this.sentMessage.set(response.message);
+        this.isSubmitting.set(false);
+      },
+      error: (error) => {
+        this.errorMessage.set(error.message || 'Could not send the reset link. Please try again.');
+        this.isSubmitting.set(false);
+      }
+    });
+  }
+
+  /**
+   * Go back to the form to use another address
+   */
+  tryAgain(): void {
+    this.sentMessage.set('');
+  }
+
+  /**
+   * Get field error message
+   */
+  getEmailError(): string {
+    const field = this.forgotForm.get('email');
+    if (field?.errors && field.touched) {
+      if (field.errors['required']) return 'Email is required';
+      if (field.errors['email']) return 'Please enter a valid email address';
+    }
+    return '';
+  }
+}
@@ -1,8 +1,8 @@
-import { Component, signal } from '@angular/core';
+import { Component, computed, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterLink, Router } from '@angular/router';
 import { FormsModule, ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
-import { AuthService, LoginRequest } from '../../services/auth.service';
+import { AuthService, LoginRequest, isTwoFactorChallenge } from '../../services/auth.service';
 
 @Component({
   selector: 'app-login',
@@ -12,12 +12,17 @@ import { AuthService, LoginRequest } from '../../services/auth.service';
   styleUrl: './login.component.css'
 })
 export class LoginComponent {
-  // Form
+  // Forms
   loginForm: FormGroup;
+  twoFactorForm: FormGroup;
 
   // UI state signals
   showPassword = signal(false);
   errorMessage = signal('');
+  useRecoveryCode = signal(false);
+
+  // Second step, shown once the password checks out on an account with 2FA
+  twoFactorChallenge = computed(() => this.authService.pendingTwoFactor());
 
   constructor(
     private fb: FormBuilder,
@@ -29,6 +34,10 @@ export class LoginComponent {
       email: ['', [Validators.required, Validators.minLength(3)]],
       password: ['', [Validators.required, Validators.minLength(6)]]
     });
+
+    this.twoFactorForm = this.fb.group({
+      code: ['', [Validators.required]]
+    });
   }
 
   /**
@@ -72,7 +81,11 @@ export class LoginComponent {
 
     this.authService.login(credentials).subscribe({
       next: (response) => {
-        if (response.success) {
+        if (isTwoFactorChallenge(response)) {
+          // Ask for the code from the authenticator app
+          this.useRecoveryCode.set(false);
+          this.twoFactorForm.reset();
+        } else if (response.success) {
           // Navigate to feed
           this.router.navigate(['/feed']);
         }
@@ -83,6 +96,48 @@ export class LoginComponent {
     });
   }
 
+  /**
+   * Handle the second login step
+   */
+  onVerifyCode(): void {
+    this.errorMessage.set('');
+
+    if (this.twoFactorForm.invalid) {
+      this.twoFactorForm.markAllAsTouched();
+      return;
+    }
+
+    this.authService.verifyTwoFactorLogin(this.twoFactorForm.value.code.trim()).subscribe({
+      next: (response) => {
+        if (response.success) {
+          this.router.navigate(['/feed']);
+        }
+      },
+      error: (error) => {
+        this.errorMessage.set(error.message || 'Verification failed. Please try again.');
+        this.twoFactorForm.reset();
+      }
+    });
+  }
+
+  /**
+   * Switch between the authenticator code and a recovery code
+   */
+  toggleRecoveryCode(): void {
+    this.useRecoveryCode.update(value => !value);
+    this.twoFactorForm.reset();
+    this.errorMessage.set('');
+  }
+
+  /**
+   * Leave the second step and sign in again from the password
+   */
+  cancelTwoFactor(): void {
+    this.authService.cancelTwoFactorLogin();
+    this.loginForm.get('password')?.reset();
+    this.errorMessage.set('');
+  }
+
   /**
    * Mark all form fields as touched to show validation errors
    */
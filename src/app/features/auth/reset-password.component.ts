@@ -0,0 +1,100 @@
+import { Component, OnInit, signal } from '@angular/core';
+import { RouterLink, Router, ActivatedRoute } from '@angular/router';
+import { ReactiveFormsModule, FormBuilder, FormGroup, Validators, AbstractControl, ValidationErrors } from '@angular/forms';
+import { AuthService, isTwoFactorChallenge } from '../../services/auth.service';
+
+/**
+ * Reset Password - Sets a new password using the token from an emailed reset link,
+ * then signs the user in (via the login code step if two-factor authentication is on)
+ */
+@Component({
+  selector: 'app-reset-password',
+  standalone: true,
+  imports: [RouterLink, ReactiveFormsModule],
+  templateUrl: './reset-password.component.html',
+  styleUrl: './login.component.css'
+})
+export class ResetPasswordComponent implements OnInit {
+  resetForm: FormGroup;
+
+  // UI state signals
+  showPassword = signal(false);
+  isSubmitting = signal(false);
+  errorMessage = signal('');
+  linkExpired = signal(false);
+
+  private token = '';
+
+  constructor(
+    private fb: FormBuilder,
+    private authService: AuthService,
+    private route: ActivatedRoute,
+    private router: Router
+  ) {
+    // Same rules as signup and the API's validateResetPassword
+    this.resetForm = this.fb.group({
+      password: ['', [Validators.required, Validators.minLength(6), Validators.pattern(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)]],
+      confirmPassword: ['', [Validators.required]]
+    }, { validators: this.passwordMatchValidator });
+  }
+
+  ngOnInit(): void {
+    this.token = this.route.snapshot.paramMap.get('token') || '';
+  }
+
+  /**
+   * Form-level validator so the mismatch clears as soon as either field changes
+   */
+  private passwordMatchValidator(form: AbstractControl): ValidationErrors | null {
+    const { password, confirmPassword } = form.value;
+    return confirmPassword && password !== confirmPassword ? { passwordMismatch: true } : null;
+  }
+
+  togglePassword(): void {
+    this.showPassword.update(value => !value);
+  }
+
+  onSubmit(): void {
+    this.errorMessage.set('');
+
+    if (this.resetForm.invalid) {
+      this.resetForm.markAllAsTouched();
+      return;
+    }
+
+    this.isSubmitting.set(true);
+    this.authService.resetPassword(this.token, this.resetForm.value.password).subscribe({
+      next: (response) => {
+        this.isSubmitting.set(false);
+        this.router.navigate([isTwoFactorChallenge(response) ? '/login' : '/feed']);
+      },
+      error: (error) => {
+        this.isSubmitting.set(false);
+        if (/invalid or has expired/i.test(error.message)) {
+          this.linkExpired.set(true);
+        } else {
+          this.errorMessage.set(error.message || 'Could not reset your password. Please try again.');
+        }
+      }
+    });
+  }
+
+  /**
+   * Get field error message
+   */
+  getFieldError(fieldName: 'password' | 'confirmPassword'): string {
+    const field = this.resetForm.get(fieldName);
+    if (!field?.touched) return '';
+
+    if (fieldName === 'confirmPassword') {
+      if (field.errors?.['required']) return 'Please confirm your new password';
+      if (this.resetForm.errors?.['passwordMismatch']) return 'Passwords do not match';
+      return '';
+    }
+
+    if (field.errors?.['required']) return 'Password is required';
+    if (field.errors?.['minlength']) return `Password must be at least ${field.errors['minlength'].requiredLength} characters`;
+    if (field.errors?.['pattern']) return 'Password must contain at least one uppercase letter, one lowercase letter, and one number';
+    return '';
+  }
+}
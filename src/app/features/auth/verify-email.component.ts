@@ -0,0 +1,54 @@
+import { Component, OnInit, computed, signal } from '@angular/core';
+import { RouterLink, ActivatedRoute } from '@angular/router';
+import { AuthService } from '../../services/auth.service';
+
+/**
+ * Verify Email - Landing page for the emailed verification link
+ */
+@Component({
+  selector: 'app-verify-email',
+  standalone: true,
+  imports: [RouterLink],
+  templateUrl: './verify-email.component.html',
+  styleUrl: './login.component.css'
+})
+export class VerifyEmailComponent implements OnInit {
+  status = signal<'verifying' | 'verified' | 'failed'>('verifying');
+  errorMessage = signal('');
+  resendState = signal<'idle' | 'sending' | 'sent'>('idle');
+  resendMessage = signal('');
+
+  isLoggedIn = computed(() => this.authService.isLoggedIn());
+  // A new link can only be sent to a signed-in, still unverified account
+  canResend = computed(() => this.isLoggedIn() && this.authService.user()?.isVerified === false);
+
+  constructor(
+    private authService: AuthService,
+    private route: ActivatedRoute
+  ) {}
+
+  ngOnInit(): void {
+    const token = this.route.snapshot.paramMap.get('token') || '';
+    this.authService.verifyEmail(token).subscribe({
+      next: () => this.status.set('verified'),
+      error: (error) => {
+        this.errorMessage.set(error.message || 'This verification link is invalid or has expired');
+        this.status.set('failed');
+      }
+    });
+  }
+
+  resend(): void {
+    this.resendState.set('sending');
+    this.authService.resendVerification().subscribe({
+      next: (response) => {
+        this.resendMessage.set(response.message);
+        this.resendState.set('sent');
+      },
+      error: (error) => {
+        this.resendMessage.set(error.message);
+        this.resendState.set('idle');
+      }
+    });
+  }
+}
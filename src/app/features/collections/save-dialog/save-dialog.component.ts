@@ -0,0 +1,127 @@
+import { Component, OnInit, inject, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { forkJoin } from 'rxjs';
+import { CollectionService, Collection, SavedItemType } from '../../../services/collection.service';
+
+/**
+ * Save Dialog - Lets a user pick which of their collections a post or trip is saved in
+ * Emits the item's overall saved state when closed so the host can update its bookmark
+ */
+@Component({
+  selector: 'app-save-dialog',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './save-dialog.component.html',
+  styleUrl: './save-dialog.component.css'
+})
+export class SaveDialogComponent implements OnInit {
+  private collectionService = inject(CollectionService);
+
+  itemType = input.required<SavedItemType>();
+  itemId = input.required<string>();
+  closed = output<boolean>();
+
+  collections = signal<Collection[]>([]);
+  containing = signal<Set<string>>(new Set());
+  loading = signal<boolean>(true);
+  busyCollectionId = signal<string | null>(null);
+  error = signal<string>('');
+
+  // New collection form
+  creating = signal<boolean>(false);
+  newName = signal<string>('');
+  newIsPublic = signal<boolean>(false);
+
+  ngOnInit(): void {
+    forkJoin({
+      collections: this.collectionService.getMyCollections(),
+      containing: this.collectionService.getContainingCollections(this.itemType(), this.itemId())
+    }).subscribe({
+      next: ({ collections, containing }) => {
+        this.collections.set(collections.data);
+        this.containing.set(new Set(containing.data));
+        this.loading.set(false);
+      },
+      error: (err) => {
+        console.error('Error loading collections:', err);
+        this.error.set(err.error?.message || 'Failed to load your collections');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  isInCollection(collection: Collection): boolean {
+    return this.containing().has(collection._id);
+  }
+
+  toggleCollection(collection: Collection): void {
+    if (this.busyCollectionId()) return;
+
+    const inCollection = this.isInCollection(collection);
+    const request = inCollection
+      ? this.collectionService.removeItem(collection._id, this.itemType(), this.itemId())
+      : this.collectionService.addItem(collection._id, this.itemType(), this.itemId());
+
+    this.busyCollectionId.set(collection._id);
+    this.error.set('');
+
+    request.subscribe({
+      next: (response) => {
+        this.containing.update(ids => {
+          const next = new Set(ids);
+          if (inCollection) next.delete(collection._id); else next.add(collection._id);
+          return next;
+        });
+        this.collections.update(list => list.map(c => c._id === collection._id ? response.data : c));
+        this.busyCollectionId.set(null);
+      },
+      error: (err) => {
+        this.error.set(err.error?.message || 'Failed to update collection');
+        this.busyCollectionId.set(null);
+      }
+    });
+  }
+
+  startCreating(): void {
+    this.creating.set(true);
+    this.newName.set('');
+    this.newIsPublic.set(false);
+  }
+
+  cancelCreating(): void {
+    this.creating.set(false);
+  }
+
+  updateNewName(value: string): void {
+    this.newName.set(value);
+  }
+
+  updateNewIsPublic(value: boolean): void {
+    this.newIsPublic.set(value);
+  }
+
+  createAndSave(): void {
+    const name = this.newName().trim();
+    if (!name || this.busyCollectionId()) return;
+
+    this.busyCollectionId.set('new');
+    this.error.set('');
+
+    this.collectionService.createCollection({ name, isPublic: this.newIsPublic() }).subscribe({
+      next: (response) => {
+        this.collections.update(list => [...list, response.data]);
+        this.creating.set(false);
+        this.busyCollectionId.set(null);
+        this.toggleCollection(response.data);
+      },
+      error: (err) => {
+        this.error.set(err.error?.errors?.[0]?.msg || err.error?.message || 'Failed to create collection');
+        this.busyCollectionId.set(null);
+      }
+    });
+  }
+
+  close(): void {
+    this.closed.emit(this.containing().size > 0);
+  }
+}
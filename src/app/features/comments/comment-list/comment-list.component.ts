@@ -0,0 +1,82 @@
+import { Component, OnInit, inject, input, output, signal } from '@angular/core';
+import { CommentService, Comment } from '../../../services/comment.service';
+import { CommentThreadComponent } from '../comment-thread/comment-thread.component';
+import { EntityAutocompleteComponent } from '../../mentions/entity-autocomplete/entity-autocomplete.component';
+
+const COMMENTS_PAGE_SIZE = 20;
+
+/**
+ * Comment List - All comment threads of a post, oldest first, with a box to add
+ * a top-level comment when logged in
+ */
+@Component({
+  selector: 'app-comment-list',
+  standalone: true,
+  imports: [CommentThreadComponent, EntityAutocompleteComponent],
+  templateUrl: './comment-list.component.html',
+  styleUrl: './comment-list.component.css'
+})
+export class CommentListComponent implements OnInit {
+  private commentService = inject(CommentService);
+
+  postId = input.required<string>();
+  currentUserId = input<string | undefined>();
+
+  // Change in the number of visible comments on the post
+  countChange = output<number>();
+  report = output<Comment>();
+
+  comments = signal<Comment[]>([]);
+  page = signal<number>(0);
+  hasMore = signal<boolean>(false);
+  loading = signal<boolean>(false);
+  commentText = signal<string>('');
+  submitting = signal<boolean>(false);
+
+  ngOnInit(): void {
+    this.loadComments();
+  }
+
+  loadComments(): void {
+    const page = this.page() + 1;
+    this.loading.set(true);
+
+    this.commentService.getCommentsForPost(this.postId(), page, COMMENTS_PAGE_SIZE).subscribe({
+      next: (response) => {
+        const known = new Set(this.comments().map(comment => comment._id));
+        const fresh = response.data.comments.filter(comment => !known.has(comment._id));
+        this.comments.update(comments => [...comments, ...fresh]);
+        this.page.set(page);
+        this.hasMore.set(response.data.pagination?.hasNext || false);
+        this.loading.set(false);
+      },
+      error: (error) => {
+        console.error('Error loading comments:', error);
+        this.loading.set(false);
+      }
+    });
+  }
+
+  addComment(): void {
+    const commentText = this.commentText().trim();
+    if (!commentText || this.submitting()) return;
+
+    this.submitting.set(true);
+    this.commentService.createComment({ postId: this.postId(), commentText }).subscribe({
+      next: (response) => {
+        this.comments.update(comments => [...comments, response.data]);
+        this.commentText.set('');
+        this.countChange.emit(1);
+        this.submitting.set(false);
+      },
+      error: (error) => {
+        console.error('Error adding comment:', error);
+        this.submitting.set(false);
+      }
+    });
+  }
+
+  removeComment(commentId: string): void {
+    this.comments.update(comments => comments.filter(comment => comment._id !== commentId));
+  }
+}
@@ -0,0 +1,202 @@
+import { Component, ElementRef, inject, input, linkedSignal, output, signal, viewChild } from '@angular/core';
+import { NgTemplateOutlet } from '@angular/common';
+import { CommentService, Comment } from '../../../services/comment.service';
+import { LinkedTextComponent } from '../../mentions/linked-text/linked-text.component';
+import { EntityAutocompleteComponent } from '../../mentions/entity-autocomplete/entity-autocomplete.component';
+
+const REPLIES_PAGE_SIZE = 5;
+
+/**
+ * Comment Thread - A top-level comment with its replies, loaded a page at a time
+ * behind "View N replies". Replying to a reply adds to the same thread and
+ * mentions the person replied to. Deleting a comment that has replies leaves a
+ * "[deleted]" placeholder so the replies stay readable.
+ */
+@Component({
+  selector: 'app-comment-thread',
+  standalone: true,
+  imports: [NgTemplateOutlet, LinkedTextComponent, EntityAutocompleteComponent],
+  templateUrl: './comment-thread.component.html',
+  styleUrl: './comment-thread.component.css'
+})
+export class CommentThreadComponent {
+  private commentService = inject(CommentService);
+
+  comment = input.required<Comment>();
+  currentUserId = input<string | undefined>();
+
+  // The top-level comment was removed entirely
+  removed = output<string>();
+  // Change in the number of visible comments on the post
+  countChange = output<number>();
+  report = output<Comment>();
+
+  root = linkedSignal(() => this.comment());
+  replies = signal<Comment[]>([]);
+  repliesPage = signal<number>(0);
+  hasMoreReplies = signal<boolean>(false);
+  showReplies = signal<boolean>(false);
+  loadingReplies = signal<boolean>(false);
+
+  replyTarget = signal<Comment | null>(null);
+  replyText = signal<string>('');
+  submitting = signal<boolean>(false);
+
+  private replyInput = viewChild<ElementRef<HTMLInputElement>>('replyInput');
+
+  /**
+   * Replies not loaded yet
+   */
+  getHiddenReplyCount(): number {
+    return Math.max(0, (this.root().replyCount || 0) - this.replies().length);
+  }
+
+  toggleReplies(): void {
+    if (this.showReplies()) {
+      this.showReplies.set(false);
+      return;
+    }
+
+    this.showReplies.set(true);
+    if (this.repliesPage() === 0) {
+      this.loadReplies();
+    }
+  }
+
+  /**
+   * Load the next page of replies, skipping replies already added in this session
+   */
+  loadReplies(): void {
+    const page = this.repliesPage() + 1;
+    this.loadingReplies.set(true);
+
+    this.commentService.getRepliesForComment(this.root()._id, page, REPLIES_PAGE_SIZE).subscribe({
+      next: (response) => {
+        const known = new Set(this.replies().map(reply => reply._id));
+        const fresh = response.data.replies.filter(reply => !known.has(reply._id));
+        this.replies.update(replies => [...replies, ...fresh]);
+        this.repliesPage.set(page);
+        this.hasMoreReplies.set(response.data.pagination.hasNext);
+        this.loadingReplies.set(false);
+      },
+      error: (error) => {
+        console.error('Error loading replies:', error);
+        this.loadingReplies.set(false);
+      }
+    });
+  }
+
+  startReply(target: Comment): void {
+    this.replyTarget.set(target);
+    // Replies to a reply land in this thread, so say who they answer
+    const isReply = target._id !== this.root()._id;
+    this.replyText.set(isReply && target.userId ? `@${target.userId.username} ` : '');
+    setTimeout(() => this.replyInput()?.nativeElement.focus());
+  }
+
+  cancelReply(): void {
+    this.replyTarget.set(null);
+    this.replyText.set('');
+  }
+
+  submitReply(): void {
+    const target = this.replyTarget();
+    const commentText = this.replyText().trim();
+    if (!target || !commentText || this.submitting()) return;
+
+    this.submitting.set(true);
+    this.commentService.createComment({
+      postId: this.root().postId,
+      commentText,
+      parentComment: target._id
+    }).subscribe({
+      next: (response) => {
+        this.replies.update(replies => [...replies, response.data]);
+        this.root.update(root => ({ ...root, replyCount: (root.replyCount || 0) + 1 }));
+        this.showReplies.set(true);
+        this.countChange.emit(1);
+        this.submitting.set(false);
+        this.cancelReply();
+      },
+      error: (error) => {
+        console.error('Error adding reply:', error);
+        this.submitting.set(false);
+      }
+    });
+  }
+
+  toggleLike(comment: Comment): void {
+    const userId = this.currentUserId();
+    if (!userId) return;
+
+    this.commentService.toggleLike(comment._id).subscribe({
+      next: (response) => {
+        const likes = response.data.isLiked
+          ? [...comment.likes.filter(id => id !== userId), userId]
+          : comment.likes.filter(id => id !== userId);
+        this.updateComment(comment._id, { likes, likesCount: response.data.likesCount });
+      },
+      error: (error) => {
+        console.error('Error toggling comment like:', error);
+      }
+    });
+  }
+
+  deleteComment(comment: Comment): void {
+    if (!confirm('Are you sure you want to delete this comment?')) return;
+
+    const isRoot = comment._id === this.root()._id;
+    this.commentService.deleteComment(comment._id).subscribe({
+      next: (response) => {
+        this.countChange.emit(-1);
+
+        if (isRoot) {
+          if (response.data.placeholder && response.data.comment) {
+            this.root.set({ ...this.root(), ...response.data.comment });
+          } else {
+            this.removed.emit(comment._id);
+          }
+          return;
+        }
+
+        this.replies.update(replies => replies.filter(reply => reply._id !== comment._id));
+        this.root.update(root => ({ ...root, replyCount: Math.max(0, (root.replyCount || 0) - 1) }));
+        // The server drops a "[deleted]" parent along with its last reply
+        if (this.root().isDeleted && !this.root().replyCount) {
+          this.removed.emit(this.root()._id);
+        }
+      },
+      error: (error) => {
+        console.error('Error deleting comment:', error);
+      }
+    });
+  }
+
+  getAvatarUrl(comment: Comment): string {
+    return comment.userId ? this.commentService.getUserAvatarUrl(comment.userId) : '';
+  }
+
+  formatDate(dateString: string): string {
+    return this.commentService.formatCommentDate(dateString);
+  }
+
+  getLikesCount(comment: Comment): number {
+    return comment.likes ? comment.likes.length : 0;
+  }
+
+  hasLiked(comment: Comment): boolean {
+    return this.commentService.hasLikedComment(comment, this.currentUserId());
+  }
+
+  canDelete(comment: Comment): boolean {
+    return this.commentService.canEditComment(comment, this.currentUserId());
+  }
+
+  private updateComment(commentId: string, changes: Partial<Comment>): void {
+    if (this.root()._id === commentId) {
+      this.root.update(root => ({ ...root, ...changes }));
+      return;
+    }
+    this.replies.update(replies => replies.map(reply => reply._id === commentId ? { ...reply, ...changes } : reply));
+  }
+}
@@ -5,18 +5,32 @@ import { RouterModule, Router } from '@angular/router';
 import { PostService, CreatePostData, PostLocation } from '../../services/post.service';
 import { AuthService } from '../../services/auth.service';
 import { GoogleMapsService, PlaceResult } from '../../services/google-maps.service';
+import { EntityAutocompleteComponent } from '../mentions/entity-autocomplete/entity-autocomplete.component';
+import {
+  ImageProcessingService,
+  ImageEdits,
+  CropAspect,
+  GpsCoordinates,
+  CROP_ASPECTS
+} from '../../services/image-processing.service';
 
 interface SelectedMedia {
   id: string;
-  file: File;
+  file: File; // What gets uploaded: the processed image, or the original video/GIF
+  original: File;
   url: string;
   type: 'image' | 'video';
+  edits: ImageEdits;
+  processing: boolean;
+  revision: number; // Bumped on every edit so stale processing results are dropped
+  meta: { blurhash: string; width: number; height: number } | null;
+  gps: GpsCoordinates | null; // Read from EXIF before it is stripped
 }
 
 @Component({
   selector: 'app-create',
   standalone: true,
-  imports: [CommonModule, FormsModule, RouterModule],
+  imports: [CommonModule, FormsModule, RouterModule, EntityAutocompleteComponent],
   templateUrl: './create.component.html',
   styleUrls: ['./create.component.css']
 })
@@ -27,6 +41,9 @@ export class CreateComponent implements OnInit, AfterViewInit {
   private authService = inject(AuthService);
   private router = inject(Router);
   private googleMapsService = inject(GoogleMapsService);
+  private imageProcessing = inject(ImageProcessingService);
+
+  readonly cropAspects = CROP_ASPECTS;
 
   caption = signal<string>('');
   location = signal<string>('');
@@ -44,7 +61,11 @@ export class CreateComponent implements OnInit, AfterViewInit {
   private locationSearchDebounce: any = null;
 
   charCount = computed(() => this.caption().length);
-  canPost = computed(() => this.caption().trim().length > 0 || this.selectedMedia().length > 0);
+  isProcessingMedia = computed(() => this.selectedMedia().some(m => m.processing));
+  canPost = computed(() =>
+    (this.caption().trim().length > 0 || this.selectedMedia().length > 0) && !this.isProcessingMedia());
+  // First photo location found, offered while the post has no location yet
+  photoLocation = computed(() => this.selectedMedia().find(m => m.gps)?.gps ?? null);
 
   ngOnInit(): void {
     // Check if user is authenticated
@@ -74,7 +95,8 @@ export class CreateComponent implements OnInit, AfterViewInit {
     this.locationCoords.set({
       name: place.name,
       lat: place.location.lat,
-      lng: place.location.lng
+      lng: place.location.lng,
+      placeId: place.placeId
     });
     this.error.set(''); // Clear any previous errors
     this.suggestions.set([]);
@@ -117,7 +139,18 @@ export class CreateComponent implements OnInit, AfterViewInit {
 
       const type = file.type.startsWith('video') ? 'video' : 'image';
       const url = URL.createObjectURL(file);
-      next.push({ id: `${Date.now()}-${file.name}`, file, url, type });
+      next.push({
+        id: `${Date.now()}-${file.name}`,
+        file,
+        original: file,
+        url,
+        type,
+        edits: { rotation: 0, crop: 'original' },
+        processing: type === 'image',
+        revision: 0,
+        meta: null,
+        gps: null
+      });
     }
 
     // Check total media limit
@@ -129,6 +162,12 @@ export class CreateComponent implements OnInit, AfterViewInit {
 
     this.selectedMedia.update(list => [...list, ...next]);
     this.error.set(''); // Clear error on successful add
+
+    for (const item of next) {
+      if (item.type !== 'image') continue;
+      this.readPhotoLocation(item);
+      this.processMedia(item.id);
+    }
   }
 
   removeMedia(id: string) {
@@ -137,8 +176,61 @@ export class CreateComponent implements OnInit, AfterViewInit {
     this.selectedMedia.update(list => list.filter(m => m.id !== id));
   }
 
+  rotateMedia(id: string) {
+    this.updateEdits(id, edits => ({ ...edits, rotation: ((edits.rotation + 90) % 360) as ImageEdits['rotation'] }));
+  }
+
+  setMediaCrop(id: string, crop: CropAspect) {
+    this.updateEdits(id, edits => ({ ...edits, crop }));
+  }
+
+  private updateEdits(id: string, change: (edits: ImageEdits) => ImageEdits) {
+    this.selectedMedia.update(list => list.map(m =>
+      m.id === id ? { ...m, edits: change(m.edits), processing: true, revision: m.revision + 1 } : m));
+    this.processMedia(id);
+  }
+
+  /**
+   * Resize, crop, rotate and re-encode an image (which strips its EXIF data) and compute its placeholder
+   */
+  private async processMedia(id: string): Promise<void> {
+    const item = this.selectedMedia().find(m => m.id === id);
+    if (!item) return;
+
+    try {
+      let file = item.original;
+      let meta: SelectedMedia['meta'];
+      if (this.imageProcessing.canProcess(item.original)) {
+        const processed = await this.imageProcessing.process(item.original, item.edits);
+        file = processed.file;
+        meta = { blurhash: processed.blurhash, width: processed.width, height: processed.height };
+      } else {
+        // GIFs are uploaded as they are so animations survive
+        meta = await this.imageProcessing.getFileBlurhash(item.original);
+      }
+
+      const current = this.selectedMedia().find(m => m.id === id);
+      if (!current || current.revision !== item.revision) return;
+
+      URL.revokeObjectURL(current.url);
+      const url = URL.createObjectURL(file);
+      this.selectedMedia.update(list => list.map(m =>
+        m.id === id ? { ...m, file, url, meta, processing: false } : m));
+    } catch (error) {
+      console.error('Image processing error:', error);
+      this.error.set(`Couldn't process ${item.original.name}. Try a JPEG, PNG or WebP image.`);
+      this.removeMedia(id);
+    }
+  }
+
+  private async readPhotoLocation(item: SelectedMedia): Promise<void> {
+    const gps = await this.imageProcessing.readGps(item.original);
+    if (!gps) return;
+    this.selectedMedia.update(list => list.map(m => m.id === item.id ? { ...m, gps } : m));
+  }
+
   addHashtagFromInput() {
-    const tag = this.newHashtag().trim().replace(/^#/, '');
+    const tag = this.newHashtag().trim().replace(/^#/, '').replace(/[^a-zA-Z0-9_]/g, '');
     if (!tag) return;
     if (!this.hashtags().includes(tag)) {
       this.hashtags.update(arr => [...arr, tag]);
@@ -159,7 +251,7 @@ export class CreateComponent implements OnInit, AfterViewInit {
     try {
       // Prepare post data
       const postData: CreatePostData = {
-        caption: this.caption().trim(),
+        caption: this.getCaptionWithHashtags(),
         isPublic: this.visibility() === 'public'
       };
 
@@ -170,11 +262,12 @@ export class CreateComponent implements OnInit, AfterViewInit {
         postData.location = { name: this.location().trim() };
       }
 
-      // Get media files
+      // Get media files, with the placeholders of processed images
       const mediaFiles = this.selectedMedia().map(media => media.file);
+      const mediaMeta = this.selectedMedia().map(media => media.meta);
 
       // Submit post
-      this.postService.createPost(postData, mediaFiles).subscribe({
+      this.postService.createPost(postData, mediaFiles, mediaMeta).subscribe({
         next: (response) => {
           if (response.success) {
             // Reset form
@@ -200,6 +293,19 @@ export class CreateComponent implements OnInit, AfterViewInit {
     }
   }
 
+  /**
+   * Caption with the separately added hashtags appended, since the server reads tags from the caption
+   */
+  private getCaptionWithHashtags(): string {
+    const caption = this.caption().trim();
+    const inCaption = this.postService.extractHashtags(caption);
+    const extra = this.hashtags().filter(tag => !inCaption.includes(tag.toLowerCase()));
+    if (extra.length === 0) return caption;
+
+    const tags = extra.map(tag => `#${tag}`).join(' ');
+    return caption ? `${caption}\n\n${tags}` : tags;
+  }
+
   /**
    * Reset form to initial state
    */
@@ -228,29 +334,7 @@ export class CreateComponent implements OnInit, AfterViewInit {
       // Get current coordinates
       const coordinates = await this.googleMapsService.getCurrentLocation();
 
-      // Reverse geocode to get address
-      const place = await this.googleMapsService.reverseGeocode(
-        coordinates.lat,
-        coordinates.lng
-      );
-
-      if (place) {
-        this.selectedPlace.set(place);
-        this.location.set(place.name);
-        this.locationCoords.set({
-          name: place.name,
-          lat: place.location.lat,
-          lng: place.location.lng
-        });
-      } else {
-        // Fallback to coordinates only
-        this.locationCoords.set({
-          name: 'Current Location',
-          lat: coordinates.lat,
-          lng: coordinates.lng
-        });
-        this.location.set('Current Location');
-      }
+      await this.setLocationFromCoordinates(coordinates.lat, coordinates.lng, 'Current Location');
 
     } catch (error: any) {
       console.error('Get current location error:', error);
@@ -260,6 +344,48 @@ export class CreateComponent implements OnInit, AfterViewInit {
     }
   }
 
+  /**
+   * Use the GPS position saved in a photo as the post location
+   */
+  async usePhotoLocation(): Promise<void> {
+    const gps = this.photoLocation();
+    if (!gps) return;
+
+    this.isLoadingLocation.set(true);
+    this.error.set('');
+
+    try {
+      await this.setLocationFromCoordinates(gps.lat, gps.lng, 'Photo Location');
+    } catch (error: any) {
+      console.error('Photo location error:', error);
+      this.error.set(error.message || 'Failed to look up photo location');
+    } finally {
+      this.isLoadingLocation.set(false);
+    }
+  }
+
+  /**
+   * Reverse geocode coordinates and use the place as the post location
+   */
+  private async setLocationFromCoordinates(lat: number, lng: number, fallbackName: string): Promise<void> {
+    const place = await this.googleMapsService.reverseGeocode(lat, lng);
+
+    if (place) {
+      this.selectedPlace.set(place);
+      this.location.set(place.name);
+      this.locationCoords.set({
+        name: place.name,
+        lat: place.location.lat,
+        lng: place.location.lng,
+        placeId: place.placeId
+      });
+    } else {
+      // Fallback to coordinates only
+      this.locationCoords.set({ name: fallbackName, lat, lng });
+      this.location.set(fallbackName);
+    }
+  }
+
   /**
    * Handle manual location search when user presses Enter
    */
@@ -4,6 +4,7 @@ import { FormsModule, ReactiveFormsModule, FormGroup, FormBuilder } from '@angul
 import { RouterModule, Router } from '@angular/router';
 import { TripService, TripPayload, JoinRequest } from '../../../services/trip.service';
 import { AuthService } from '../../../services/auth.service';
+import { TrendingTagsComponent } from '../../hashtag/trending-tags/trending-tags.component';
 import { environment } from '../../../../environments/environment';
 
 // Interfaces
@@ -24,7 +25,7 @@ interface PublicTrip extends TripPayload {
 @Component({
   selector: 'app-trip-explorer',
   standalone: true,
-  imports: [CommonModule, FormsModule, ReactiveFormsModule, RouterModule],
+  imports: [CommonModule, FormsModule, ReactiveFormsModule, RouterModule, TrendingTagsComponent],
   templateUrl: './trip-explorer.component.html',
   styleUrl: './trip-explorer.component.css'
 })
@@ -141,6 +142,7 @@ export class TripExplorerComponent implements OnInit {
       startDate: [''],
       endDate: [''],
       tripType: [''],
+      status: [''],
       interests: [''],
       minBudget: [''],
       maxBudget: [''],
@@ -227,6 +229,7 @@ export class TripExplorerComponent implements OnInit {
     if (formValues.maxBudget) filters.maxBudget = formValues.maxBudget;
     if (formValues.availableOnly) filters.availableOnly = true;
     if (formValues.tripType) filters.tripType = formValues.tripType;
+    if (formValues.status) filters.status = [formValues.status];
 
     return filters;
   }
@@ -450,6 +453,7 @@ export class TripExplorerComponent implements OnInit {
       startDate: '',
       endDate: '',
       tripType: '',
+      status: '',
       interests: '',
       minBudget: '',
       maxBudget: '',
@@ -1,29 +1,58 @@
 import { Component, signal, OnInit, inject } from '@angular/core';
 import { CommonModule, NgIf, NgFor } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { PostService, Post as BackendPost } from '../../services/post.service';
+import { RouterModule } from '@angular/router';
+import { PostService, Post as BackendPost, FeedMode, TrendingHashtag } from '../../services/post.service';
+import { ImageProcessingService } from '../../services/image-processing.service';
 import { CommentService, Comment } from '../../services/comment.service';
 import { AuthService } from '../../services/auth.service';
+import { ProfileService, SuggestedUser } from '../../services/profile.service';
+import { ReportTarget } from '../../services/report.service';
+import { ReportDialogComponent } from '../reports/report-dialog/report-dialog.component';
+import { SaveDialogComponent } from '../collections/save-dialog/save-dialog.component';
+import { StoryService, StoryGroup } from '../../services/story.service';
+import { StoryViewerComponent } from '../stories/story-viewer/story-viewer.component';
+import { StoryComposerComponent } from '../stories/story-composer/story-composer.component';
+import { LinkedTextComponent } from '../mentions/linked-text/linked-text.component';
+import { EntityAutocompleteComponent } from '../mentions/entity-autocomplete/entity-autocomplete.component';
+import { CommentThreadComponent } from '../comments/comment-thread/comment-thread.component';
+import { PostEditorComponent } from '../posts/post-editor/post-editor.component';
+import { PostHistoryComponent } from '../posts/post-history/post-history.component';
 import { environment } from '../../../environments/environment';
 
 // Frontend post interface for compatibility
 interface FeedPost {
   _id: string;
+  userId: string;
   username: string;
   profilePic: string;
   location?: string;
+  placeId?: string;
   caption: string;
   likes: number;
   commentCount: number;
   timestamp: string;
+  edited: boolean;
   liked: boolean;
   saved: boolean;
   type: 'single' | 'carousel';
   imageUrl?: string;
   images?: string[];
+  placeholders?: (ImagePlaceholder | null)[]; // Aligned with the post's media
   currentImageIndex?: number;
 }
 
+// Blurred preview shown while an image loads
+interface ImagePlaceholder {
+  background: string; // CSS background-image value
+  aspectRatio: string;
+}
+
+// Suggested account with local follow state
+interface FeedSuggestion extends SuggestedUser {
+  followed: boolean;
+}
+
 /**
  * Feed Component - Displays the main social feed
  * This component shows posts from users the current user follows
@@ -32,14 +61,17 @@ interface FeedPost {
 @Component({
   selector: 'app-feed',
   standalone: true,
-  imports: [CommonModule, NgIf, NgFor, FormsModule],
+  imports: [CommonModule, NgIf, NgFor, FormsModule, RouterModule, ReportDialogComponent, SaveDialogComponent, StoryViewerComponent, StoryComposerComponent, LinkedTextComponent, EntityAutocompleteComponent, CommentThreadComponent, PostEditorComponent, PostHistoryComponent],
   templateUrl: './feed.component.html',
   styleUrl: './feed.component.css'
 })
 export class FeedComponent implements OnInit {
   private postService = inject(PostService);
+  private imageProcessing = inject(ImageProcessingService);
   private commentService = inject(CommentService);
   private authService = inject(AuthService);
+  private profileService = inject(ProfileService);
+  private storyService = inject(StoryService);
 
   // Responsive design
   isMobile = window.innerWidth < 768;
@@ -61,16 +93,32 @@ export class FeedComponent implements OnInit {
   ngOnInit(): void {
     this.currentUser.set(this.authService.getCurrentUserFromStorage());
     this.loadFeed();
+    this.loadStories();
+    this.loadSuggestions();
+    this.loadTrendingHashtags();
   }
 
-  // Stories data (simplified for now)
-  stories = signal<any[]>([]);
+  // Stories tray, grouped by author with the current user's own stories first
+  stories = signal<StoryGroup[]>([]);
+  storyViewerIndex = signal<number | null>(null);
+  storyFile = signal<File | null>(null);
 
   // Posts data
   posts = signal<FeedPost[]>([]);
 
-  // Suggested accounts (simplified for now)
-  suggestedAccounts = signal<any[]>([]);
+  // People to follow, with the reason each one is suggested
+  suggestedAccounts = signal<FeedSuggestion[]>([]);
+
+  // Hashtags trending over the server's sliding window
+  trendingHashtags = signal<TrendingHashtag[]>([]);
+
+  // Feed mode and the server-side session that keeps its order stable while paging
+  readonly feedModes: { value: FeedMode; label: string }[] = [
+    { value: 'for_you', label: 'For you' },
+    { value: 'following', label: 'Following' }
+  ];
+  feedMode = signal<FeedMode>('for_you');
+  feedSession = signal<string | undefined>(undefined);
 
   // Pagination
   currentPage = signal<number>(1);
@@ -82,6 +130,17 @@ export class FeedComponent implements OnInit {
   showComments = signal<{ [postId: string]: boolean }>({});
   loadingComments = signal<{ [postId: string]: boolean }>({});
 
+  // Post options menu and report dialog
+  openMenuPostId = signal<string | null>(null);
+  reportTarget = signal<ReportTarget | null>(null);
+
+  // Post being saved into a specific collection
+  saveDialogPostId = signal<string | null>(null);
+
+  // Own post being edited, or whose edit history is open
+  editingPostId = signal<string | null>(null);
+  historyPostId = signal<string | null>(null);
+
   /**
    * Load feed data from backend
    */
@@ -89,10 +148,17 @@ export class FeedComponent implements OnInit {
     this.loading.set(true);
     this.error.set('');
 
-    this.postService.getAllPosts(this.currentPage()).subscribe({
+    const session = this.currentPage() > 1 ? this.feedSession() : undefined;
+    this.postService.getAllPosts(this.currentPage(), 20, this.feedMode(), session).subscribe({
       next: (response) => {
         if (response.success) {
           const feedPosts = response.data.posts.map(backendPost => this.convertBackendPostToFeedPost(backendPost));
+          this.feedSession.set(response.data.session);
+
+          // An expired session restarts the feed from the top
+          if (response.data.sessionExpired) {
+            this.currentPage.set(1);
+          }
 
           if (this.currentPage() === 1) {
             this.posts.set(feedPosts);
@@ -123,22 +189,52 @@ export class FeedComponent implements OnInit {
 
     return {
       _id: backendPost._id,
+      userId: backendPost.userId._id,
       username: backendPost.userId.username,
       profilePic: this.postService.getUserAvatarUrl(backendPost.userId),
       location: backendPost.location?.name,
+      placeId: backendPost.location?.placeId,
       caption: backendPost.caption,
       likes: backendPost.likesCount,
       commentCount: backendPost.commentsCount,
       timestamp: this.postService.formatPostDate(backendPost.createdAt),
+      edited: !!backendPost.editedAt,
       liked: isLiked,
-      saved: false, // TODO: Implement save functionality
+      saved: !!backendPost.isSaved,
       type: backendPost.media.length > 1 ? 'carousel' : 'single',
       imageUrl: backendPost.media.length > 0 ? this.postService.getMediaUrl(backendPost.media[0]) : undefined,
       images: backendPost.media.length > 1 ? backendPost.media.map(media => this.postService.getMediaUrl(media)) : undefined,
+      placeholders: this.getPlaceholders(backendPost),
       currentImageIndex: 0
     };
   }
 
+  /**
+   * Blurhash placeholders of the post's images, if any were processed before upload
+   */
+  private getPlaceholders(backendPost: BackendPost): (ImagePlaceholder | null)[] | undefined {
+    if (!backendPost.mediaMeta?.length) return undefined;
+
+    return backendPost.media.map(url => {
+      const meta = backendPost.mediaMeta!.find(entry => entry.url === url);
+      const placeholderUrl = meta ? this.imageProcessing.getPlaceholderUrl(meta.blurhash) : null;
+      if (!meta || !placeholderUrl) return null;
+      return { background: `url(${placeholderUrl})`, aspectRatio: `${meta.width} / ${meta.height}` };
+    });
+  }
+
+  /**
+   * Switch between the ranked "For you" feed and posts from followed users only
+   */
+  setFeedMode(mode: FeedMode): void {
+    if (mode === this.feedMode() || this.loading()) return;
+    this.feedMode.set(mode);
+    this.feedSession.set(undefined);
+    this.currentPage.set(1);
+    this.posts.set([]);
+    this.loadFeed();
+  }
+
   /**
    * Load more posts (infinite scroll)
    */
@@ -150,12 +246,94 @@ export class FeedComponent implements OnInit {
   }
 
   /**
-   * View a user's story
-   * @param storyId ID of the story to view
+   * Load the stories tray from followed users
+   */
+  loadStories(): void {
+    this.storyService.getTray().subscribe({
+      next: (response) => this.stories.set(response.data),
+      error: (error) => console.error('Error loading stories:', error)
+    });
+  }
+
+  hasOwnStory(): boolean {
+    return this.stories()[0]?.isOwn === true;
+  }
+
+  // Others' stories; the current user's own group is shown as "Your Story"
+  getFollowedStories(): StoryGroup[] {
+    return this.hasOwnStory() ? this.stories().slice(1) : this.stories();
+  }
+
+  getOwnAvatarUrl(): string {
+    const user = this.currentUser();
+    return user ? this.storyService.getAvatarUrl(user) : '/assets/images/avatars/default-avatar.svg';
+  }
+
+  getStoryAvatarUrl(group: StoryGroup): string {
+    return this.storyService.getAvatarUrl(group.user);
+  }
+
+  /**
+   * Open the story viewer at an author's stories
+   * @param group Stories of the author that was tapped
+   */
+  viewStory(group: StoryGroup): void {
+    this.storyViewerIndex.set(this.stories().indexOf(group));
+  }
+
+  viewOwnStory(fileInput: HTMLInputElement): void {
+    if (this.hasOwnStory()) {
+      this.storyViewerIndex.set(0);
+    } else {
+      fileInput.click();
+    }
+  }
+
+  closeStoryViewer(): void {
+    this.storyViewerIndex.set(null);
+    // Re-sort the tray now that some authors may have no unseen stories left
+    this.loadStories();
+  }
+
+  onStorySeen(event: { userId: string; storyId: string }): void {
+    this.stories.update(groups => groups.map(group => {
+      if (group.user._id !== event.userId) return group;
+      const stories = group.stories.map(story => story._id === event.storyId ? { ...story, seen: true } : story);
+      return { ...group, stories, hasUnseen: stories.some(story => !story.seen) };
+    }));
+  }
+
+  onStoryDeleted(event: { userId: string; storyId: string }): void {
+    this.stories.update(groups => groups
+      .map(group => group.user._id === event.userId
+        ? { ...group, stories: group.stories.filter(story => story._id !== event.storyId) }
+        : group)
+      .filter(group => group.stories.length > 0));
+  }
+
+  /**
+   * Pick a photo or video for a new story
    */
-  viewStory(storyId: number): void {
-    console.log('Viewing story:', storyId);
-    // Implementation would open story viewer
+  onStoryFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/') && !file.type.startsWith('video/')) {
+      alert('Stories can only be photos or videos.');
+      return;
+    }
+    this.storyFile.set(file);
+  }
+
+  onStoryPosted(): void {
+    this.storyFile.set(null);
+    this.loadStories();
+  }
+
+  closeStoryComposer(): void {
+    this.storyFile.set(null);
   }
 
   /**
@@ -191,16 +369,101 @@ export class FeedComponent implements OnInit {
    * @param postId ID of the post to save/unsave
    */
   toggleSave(postId: string): void {
-    this.posts.update(posts => {
-      return posts.map(post => {
-        if (post._id === postId) {
-          return {
-            ...post,
-            saved: !post.saved
-          };
-        }
-        return post;
-      });
+    const post = this.posts().find(p => p._id === postId);
+    if (!post) return;
+
+    // Flip the bookmark right away and put it back if the request fails
+    const wasSaved = post.saved;
+    this.setSaved(postId, !wasSaved);
+
+    const request = wasSaved ? this.postService.unsavePost(postId) : this.postService.savePost(postId);
+    request.subscribe({
+      next: (response) => {
+        this.setSaved(postId, response.data.isSaved);
+      },
+      error: (error) => {
+        console.error('Error toggling save:', error);
+        this.setSaved(postId, wasSaved);
+      }
+    });
+  }
+
+  /**
+   * Open the collection picker for a post
+   */
+  openSaveDialog(post: FeedPost): void {
+    this.openMenuPostId.set(null);
+    this.saveDialogPostId.set(post._id);
+  }
+
+  closeSaveDialog(isSaved: boolean): void {
+    const postId = this.saveDialogPostId();
+    if (postId) this.setSaved(postId, isSaved);
+    this.saveDialogPostId.set(null);
+  }
+
+  /**
+   * Open the editor for one of the current user's posts
+   */
+  editPost(post: FeedPost): void {
+    this.openMenuPostId.set(null);
+    this.editingPostId.set(post._id);
+  }
+
+  /**
+   * Show an edited post, keeping the viewer's like and save state
+   */
+  onPostEdited(updated: BackendPost): void {
+    this.posts.update(posts => posts.map(post => post._id === updated._id
+      ? { ...this.convertBackendPostToFeedPost(updated), liked: post.liked, saved: post.saved, commentCount: post.commentCount }
+      : post));
+    this.editingPostId.set(null);
+  }
+
+  closeEditor(): void {
+    this.editingPostId.set(null);
+  }
+
+  openHistory(post: FeedPost): void {
+    this.openMenuPostId.set(null);
+    this.historyPostId.set(post._id);
+  }
+
+  closeHistory(): void {
+    this.historyPostId.set(null);
+  }
+
+  private setSaved(postId: string, saved: boolean): void {
+    this.posts.update(posts => posts.map(post => post._id === postId ? { ...post, saved } : post));
+  }
+
+  /**
+   * Load suggested accounts for the sidebar
+   */
+  loadSuggestions(): void {
+    if (!this.currentUser()) return;
+
+    this.profileService.getSuggestions(5).subscribe({
+      next: (response) => {
+        this.suggestedAccounts.set(response.data.suggestions.map(suggestion => ({ ...suggestion, followed: false })));
+      },
+      error: (error) => {
+        console.error('Error loading suggestions:', error);
+      }
+    });
+  }
+
+  /**
+   * Load trending hashtags for the sidebar
+   */
+  loadTrendingHashtags(): void {
+    this.postService.getTrendingHashtags(5).subscribe({
+      next: (response) => {
+        this.trendingHashtags.set(response.data.hashtags);
+      },
+      error: (error) => {
+        console.error('Error loading trending hashtags:', error);
+      }
     });
   }
 
@@ -209,19 +472,21 @@ export class FeedComponent implements OnInit {
    * @param accountId ID of the account to follow
    */
   followAccount(accountId: string): void {
-    this.suggestedAccounts.update(accounts => {
-      return accounts.map(account => {
-        if (account._id === accountId) {
-          return {
-            ...account,
-            followed: true
-          };
-        }
-        return account;
-      });
+    this.setFollowed(accountId, true);
+    this.profileService.followUser(accountId).subscribe({
+      error: (error) => {
+        console.error('Error following account:', error);
+        this.setFollowed(accountId, false);
+      }
     });
   }
 
+  private setFollowed(accountId: string, followed: boolean): void {
+    this.suggestedAccounts.update(accounts => accounts.map(account =>
+      account.user._id === accountId ? { ...account, followed } : account
+    ));
+  }
+
   /**
    * Navigate to the next image in a carousel post
    * @param postId ID of the carousel post
@@ -272,6 +537,13 @@ export class FeedComponent implements OnInit {
     return '';
   }
 
+  /**
+   * Placeholder of the image currently shown, displayed until it loads
+   */
+  getImagePlaceholder(post: FeedPost): ImagePlaceholder | null {
+    return post.placeholders?.[post.currentImageIndex ?? 0] ?? null;
+  }
+
   /**
    * Get an array of indices for carousel indicators
    */
@@ -382,85 +654,51 @@ export class FeedComponent implements OnInit {
   }
 
   /**
-   * Like/unlike a comment
+   * Adjust a post's comment count after replies or deletions in a thread
    */
-  toggleCommentLike(commentId: string, postId: string): void {
-    this.commentService.toggleLike(commentId).subscribe({
-      next: (response) => {
-        if (response.success) {
-          const currentComments = this.comments()[postId] || [];
-          const updatedComments = currentComments.map(comment =>
-            comment._id === commentId
-              ? { ...comment, likes: response.data.isLiked ? [...comment.likes, this.currentUser()?._id] : comment.likes.filter(id => id !== this.currentUser()?._id), likesCount: response.data.likesCount }
-              : comment
-          );
-          this.comments.set({ ...this.comments(), [postId]: updatedComments });
-        }
-      },
-      error: (error) => {
-        console.error('Error toggling comment like:', error);
-      }
-    });
+  adjustCommentCount(postId: string, delta: number): void {
+    this.posts.update(posts =>
+      posts.map(post =>
+        post._id === postId
+          ? { ...post, commentCount: Math.max(0, post.commentCount + delta) }
+          : post
+      )
+    );
   }
 
   /**
-   * Delete a comment
+   * Remove a top-level comment that was deleted along with its thread
    */
-  deleteComment(commentId: string, postId: string): void {
-    if (confirm('Are you sure you want to delete this comment?')) {
-      this.commentService.deleteComment(commentId).subscribe({
-        next: (response) => {
-          if (response.success) {
-            // Remove comment from the list
-            const currentComments = this.comments()[postId] || [];
-            this.comments.set({
-              ...this.comments(),
-              [postId]: currentComments.filter(comment => comment._id !== commentId)
-            });
-
-            // Update post comment count
-            this.posts.update(posts =>
-              posts.map(post =>
-                post._id === postId
-                  ? { ...post, commentCount: Math.max(0, post.commentCount - 1) }
-                  : post
-              )
-            );
-          }
-        },
-        error: (error) => {
-          console.error('Error deleting comment:', error);
-        }
-      });
-    }
+  removeComment(postId: string, commentId: string): void {
+    const currentComments = this.comments()[postId] || [];
+    this.comments.set({
+      ...this.comments(),
+      [postId]: currentComments.filter(comment => comment._id !== commentId)
+    });
   }
 
   /**
-   * Get comment avatar URL
+   * Open or close the options menu of a post
    */
-  getCommentAvatarUrl(user: any): string {
-    return this.commentService.getUserAvatarUrl(user);
+  togglePostMenu(postId: string): void {
+    this.openMenuPostId.set(this.openMenuPostId() === postId ? null : postId);
   }
 
-  /**
-   * Format comment date
-   */
-  formatCommentDate(dateString: string): string {
-    return this.commentService.formatCommentDate(dateString);
+  isOwnPost(post: FeedPost): boolean {
+    return post.userId === this.currentUser()?._id;
   }
 
-  /**
-   * Check if user has liked comment
-   */
-  hasLikedComment(comment: Comment): boolean {
-    return this.commentService.hasLikedComment(comment, this.currentUser()?._id);
+  reportPost(post: FeedPost): void {
+    this.openMenuPostId.set(null);
+    this.reportTarget.set({ type: 'post', id: post._id, label: `${post.username}'s post` });
   }
 
-  /**
-   * Check if user can edit comment
-   */
-  canEditComment(comment: Comment): boolean {
-    return this.commentService.canEditComment(comment, this.currentUser()?._id);
+  reportComment(comment: Comment): void {
+    this.reportTarget.set({ type: 'comment', id: comment._id, label: `${comment.userId?.username || 'Deleted'}'s comment` });
+  }
+
+  closeReportDialog(): void {
+    this.reportTarget.set(null);
   }
 
   /**
@@ -0,0 +1,109 @@
+import { Component, OnDestroy, OnInit, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterModule } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { PostService, Post, HashtagSuggestion } from '../../services/post.service';
+import { ProfileService } from '../../services/profile.service';
+import { AuthService } from '../../services/auth.service';
+import { PostGridComponent } from '../posts/post-grid/post-grid.component';
+
+const PAGE_SIZE = 24;
+
+/**
+ * Hashtag Page - Grid of public posts tagged with a hashtag, newest first,
+ * with related tags and a follow button that adds the tag's posts to the feed
+ */
+@Component({
+  selector: 'app-hashtag',
+  standalone: true,
+  imports: [CommonModule, RouterModule, PostGridComponent],
+  templateUrl: './hashtag.component.html',
+  styleUrl: './hashtag.component.css'
+})
+export class HashtagComponent implements OnInit, OnDestroy {
+  private route = inject(ActivatedRoute);
+  private postService = inject(PostService);
+  private profileService = inject(ProfileService);
+  private authService = inject(AuthService);
+
+  readonly isLoggedIn = this.authService.isLoggedIn;
+
+  tag = signal<string>('');
+  posts = signal<Post[]>([]);
+  totalPosts = signal<number>(0);
+  relatedTags = signal<HashtagSuggestion[]>([]);
+  followersCount = signal<number>(0);
+  isFollowing = signal<boolean>(false);
+  followPending = signal<boolean>(false);
+  page = signal<number>(1);
+  hasMore = signal<boolean>(false);
+  loading = signal<boolean>(false);
+  error = signal<string>('');
+
+  private routeSubscription?: Subscription;
+
+  ngOnInit(): void {
+    this.routeSubscription = this.route.paramMap.subscribe(params => {
+      this.tag.set((params.get('tag') || '').replace(/^#/, '').toLowerCase());
+      this.posts.set([]);
+      this.relatedTags.set([]);
+      this.page.set(1);
+      this.loadPosts();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.routeSubscription?.unsubscribe();
+  }
+
+  loadPosts(): void {
+    if (!this.tag()) return;
+
+    this.loading.set(true);
+    this.error.set('');
+    this.postService.getPostsByHashtag(this.tag(), this.page(), PAGE_SIZE).subscribe({
+      next: (response) => {
+        const data = response.data;
+        this.posts.update(posts => this.page() === 1 ? data.posts : [...posts, ...data.posts]);
+        this.totalPosts.set(data.pagination?.totalItems || 0);
+        this.hasMore.set(data.pagination?.hasNext || false);
+        this.isFollowing.set(!!data.isFollowing);
+        if (this.page() === 1) {
+          this.relatedTags.set(data.relatedTags || []);
+          this.followersCount.set(data.followersCount || 0);
+        }
+        this.loading.set(false);
+      },
+      error: (error) => {
+        console.error('Error loading hashtag posts:', error);
+        this.error.set(error.message || 'Failed to load posts');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  loadMore(): void {
+    this.page.update(page => page + 1);
+    this.loadPosts();
+  }
+
+  toggleFollow(): void {
+    const following = this.isFollowing();
+    const request = following
+      ? this.profileService.unfollowHashtag(this.tag())
+      : this.profileService.followHashtag(this.tag());
+
+    this.followPending.set(true);
+    request.subscribe({
+      next: () => {
+        this.isFollowing.set(!following);
+        this.followersCount.update(count => Math.max(0, count + (following ? -1 : 1)));
+        this.followPending.set(false);
+      },
+      error: (error) => {
+        console.error('Error updating hashtag follow:', error);
+        this.followPending.set(false);
+      }
+    });
+  }
+}
@@ -0,0 +1,49 @@
+import { Component, OnInit, inject, input, signal } from '@angular/core';
+import { RouterModule } from '@angular/router';
+import { PostService, TrendingHashtag } from '../../../services/post.service';
+
+/**
+ * Trending Tags - Hashtags used most over the server's trending window,
+ * weighted towards recent posts and distinct authors
+ */
+@Component({
+  selector: 'app-trending-tags',
+  standalone: true,
+  imports: [RouterModule],
+  templateUrl: './trending-tags.component.html',
+  styleUrl: './trending-tags.component.css'
+})
+export class TrendingTagsComponent implements OnInit {
+  private postService = inject(PostService);
+
+  limit = input<number>(10);
+  title = input<string>('Trending now');
+
+  hashtags = signal<TrendingHashtag[]>([]);
+  windowHours = signal<number>(0);
+  loading = signal<boolean>(false);
+
+  ngOnInit(): void {
+    this.loading.set(true);
+    this.postService.getTrendingHashtags(this.limit()).subscribe({
+      next: (response) => {
+        this.hashtags.set(response.data.hashtags);
+        this.windowHours.set(response.data.windowHours);
+        this.loading.set(false);
+      },
+      error: (error) => {
+        console.error('Error loading trending hashtags:', error);
+        this.loading.set(false);
+      }
+    });
+  }
+
+  getWindowLabel(): string {
+    const hours = this.windowHours();
+    if (hours % 24 === 0) {
+      const days = hours / 24;
+      return days === 1 ? 'today' : `last ${days} days`;
+    }
+    return `last ${hours} hours`;
+  }
+}
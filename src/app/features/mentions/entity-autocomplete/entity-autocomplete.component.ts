@@ -0,0 +1,192 @@
+import { Component, OnDestroy, OnInit, inject, input, signal } from '@angular/core';
+import { Observable, Subject, Subscription, of } from 'rxjs';
+import { catchError, debounceTime, map, switchMap } from 'rxjs/operators';
+import { ProfileService } from '../../../services/profile.service';
+import { PostService } from '../../../services/post.service';
+import { environment } from '../../../../environments/environment';
+
+type Trigger = '@' | '#';
+
+export interface EntitySuggestion {
+  trigger: Trigger;
+  value: string; // Username or tag inserted after the trigger
+  label: string;
+  detail: string;
+  avatarUrl?: string;
+}
+
+// The @ or # token being typed, ending at the caret
+interface ActiveToken {
+  trigger: Trigger;
+  term: string;
+  start: number;
+  end: number;
+}
+
+// Same boundary rule as the server: @ and # must not follow a word character
+const TOKEN_REGEX = /(^|[^a-zA-Z0-9_@#])([@#])([a-zA-Z0-9_]{1,30})$/;
+const SEARCH_DEBOUNCE_MS = 150;
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * Entity Autocomplete - Suggests users after "@" and hashtags after "#" while typing
+ * in the target input; place it right after the input inside a positioned wrapper.
+ * Picking a suggestion rewrites the input's value and fires an input event so the
+ * host's own (input) binding picks up the change.
+ */
+@Component({
+  selector: 'app-entity-autocomplete',
+  standalone: true,
+  imports: [],
+  templateUrl: './entity-autocomplete.component.html',
+  styleUrl: './entity-autocomplete.component.css'
+})
+export class EntityAutocompleteComponent implements OnInit, OnDestroy {
+  private profileService = inject(ProfileService);
+  private postService = inject(PostService);
+
+  target = input.required<HTMLInputElement | HTMLTextAreaElement>();
+  // Open upwards where the list would be clipped below the input
+  placement = input<'below' | 'above'>('below');
+
+  suggestions = signal<EntitySuggestion[]>([]);
+  activeIndex = signal<number>(0);
+
+  private token: ActiveToken | null = null;
+  private search$ = new Subject<ActiveToken | null>();
+  private subscription?: Subscription;
+  // Enter picked a suggestion; swallow the matching keyup so the host doesn't submit
+  private swallowKeyup = false;
+
+  private readonly onInput = () => this.updateToken();
+  private readonly onBlur = () => this.close();
+  private readonly onKeydown = (event: Event) => this.handleKeydown(event as KeyboardEvent);
+  private readonly onKeyup = (event: Event) => {
+    if (this.swallowKeyup && (event as KeyboardEvent).key === 'Enter') {
+      this.swallowKeyup = false;
+      event.stopImmediatePropagation();
+      event.preventDefault();
+    }
+  };
+
+  ngOnInit(): void {
+    const element = this.target();
+    element.addEventListener('input', this.onInput);
+    element.addEventListener('blur', this.onBlur);
+    // Capture so navigation keys are handled before the host's own key bindings
+    element.addEventListener('keydown', this.onKeydown, true);
+    element.addEventListener('keyup', this.onKeyup, true);
+
+    this.subscription = this.search$.pipe(
+      debounceTime(SEARCH_DEBOUNCE_MS),
+      switchMap(token => token ? this.search(token) : of([]))
+    ).subscribe(suggestions => {
+      this.suggestions.set(suggestions);
+      this.activeIndex.set(0);
+    });
+  }
+
+  ngOnDestroy(): void {
+    const element = this.target();
+    element.removeEventListener('input', this.onInput);
+    element.removeEventListener('blur', this.onBlur);
+    element.removeEventListener('keydown', this.onKeydown, true);
+    element.removeEventListener('keyup', this.onKeyup, true);
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Replace the token being typed with the picked suggestion
+   */
+  select(suggestion: EntitySuggestion): void {
+    const element = this.target();
+    const token = this.token;
+    if (!token) return;
+
+    const insert = `${suggestion.trigger}${suggestion.value} `;
+    const value = element.value;
+    element.value = value.slice(0, token.start) + insert + value.slice(token.end);
+
+    const caret = token.start + insert.length;
+    element.setSelectionRange(caret, caret);
+    element.focus();
+    element.dispatchEvent(new Event('input', { bubbles: true }));
+    this.close();
+  }
+
+  close(): void {
+    this.token = null;
+    this.search$.next(null);
+    this.suggestions.set([]);
+  }
+
+  private handleKeydown(event: KeyboardEvent): void {
+    const suggestions = this.suggestions();
+    if (suggestions.length === 0) return;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        this.activeIndex.update(i => (i + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        this.activeIndex.update(i => (i - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        this.swallowKeyup = event.key === 'Enter';
+        this.select(suggestions[this.activeIndex()]);
+        break;
+      case 'Escape':
+        this.close();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    event.stopImmediatePropagation();
+  }
+
+  private updateToken(): void {
+    const element = this.target();
+    const caret = element.selectionStart ?? element.value.length;
+    const match = TOKEN_REGEX.exec(element.value.slice(0, caret));
+
+    if (!match) {
+      this.close();
+      return;
+    }
+
+    this.token = {
+      trigger: match[2] as Trigger,
+      term: match[3],
+      start: caret - match[3].length - 1,
+      end: caret
+    };
+    this.search$.next(this.token);
+  }
+
+  private search(token: ActiveToken): Observable<EntitySuggestion[]> {
+    const results: Observable<EntitySuggestion[]> = token.trigger === '@'
+      ? this.profileService.searchUsers(token.term, 1, MAX_SUGGESTIONS).pipe(
+          map(response => response.data.users.map(user => ({
+            trigger: '@' as Trigger,
+            value: user.username,
+            label: `@${user.username}`,
+            detail: user.fullName,
+            avatarUrl: user.profilePicture
+              ? (user.profilePicture.startsWith('http') ? user.profilePicture : `${environment.backendUrl}${user.profilePicture}`)
+              : '/assets/images/avatars/default-avatar.svg'
+          })))
+        )
+      : this.postService.searchHashtags(token.term, MAX_SUGGESTIONS).pipe(
+          map(response => response.data.hashtags.map(hashtag => ({
+            trigger: '#' as Trigger,
+            value: hashtag.tag,
+            label: `#${hashtag.tag}`,
+            detail: `${hashtag.postsCount} ${hashtag.postsCount === 1 ? 'post' : 'posts'}`
+          })))
+        );
+
+    return results.pipe(catchError(() => of([])));
+  }
+}
@@ -0,0 +1,56 @@
+import { Component, computed, input } from '@angular/core';
+import { RouterModule } from '@angular/router';
+
+// A run of plain text, an @mention or a #hashtag
+export interface TextSegment {
+  type: 'text' | 'mention' | 'hashtag';
+  text: string;
+  value?: string; // Username or tag, lowercased
+}
+
+// Same rules as the server: @ must not follow a word character, so emails stay plain text
+const ENTITY_REGEX = /(^|[^a-zA-Z0-9_@])@([a-zA-Z0-9_]{3,30})(?![a-zA-Z0-9_])|#([a-zA-Z0-9_]+)/g;
+
+/**
+ * Split text into plain runs, mentions and hashtags
+ */
+export function parseTextEntities(text: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(ENTITY_REGEX)) {
+    const prefix = match[1] || '';
+    const start = match.index! + prefix.length;
+    if (start > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, start) });
+    }
+    if (match[2]) {
+      segments.push({ type: 'mention', text: `@${match[2]}`, value: match[2].toLowerCase() });
+    } else {
+      segments.push({ type: 'hashtag', text: `#${match[3]}`, value: match[3].toLowerCase() });
+    }
+    lastIndex = match.index! + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+  return segments;
+}
+
+/**
+ * Linked Text - Renders captions, comments and messages with @mentions linked
+ * to the user's profile and #hashtags linked to the hashtag page
+ */
+@Component({
+  selector: 'app-linked-text',
+  standalone: true,
+  imports: [RouterModule],
+  templateUrl: './linked-text.component.html',
+  styleUrl: './linked-text.component.css'
+})
+export class LinkedTextComponent {
+  text = input<string>('');
+
+  readonly segments = computed(() => parseTextEntities(this.text() || ''));
+}
@@ -7,11 +7,15 @@ import { Subscription } from 'rxjs';
 import { MessageService, Conversation, Message, MessageUser } from '../../services/message.service';
 import { AuthService } from '../../services/auth.service';
 import { ProfileService } from '../../services/profile.service';
+import { RealtimeService } from '../../services/realtime.service';
+import { ReportTarget } from '../../services/report.service';
+import { ReportDialogComponent } from '../reports/report-dialog/report-dialog.component';
+import { LinkedTextComponent } from '../mentions/linked-text/linked-text.component';
 
 @Component({
   selector: 'app-messages',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, ReportDialogComponent, LinkedTextComponent],
   templateUrl: './messages.component.html',
   styleUrl: './messages.component.css'
 })
@@ -23,6 +27,7 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
   messageService = inject(MessageService);
   private authService = inject(AuthService);
   private profileService = inject(ProfileService);
+  private realtimeService = inject(RealtimeService);
   private router = inject(Router);
 
   // State
@@ -38,6 +43,7 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
   readonly showSearch = signal(false);
   readonly showNewConversation = signal(false);
   readonly selectedUsers = signal<MessageUser[]>([]);
+  readonly reportTarget = signal<ReportTarget | null>(null);
   readonly groupName = signal('');
   readonly isGroupChat = signal(false);
 
@@ -50,6 +56,11 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
   readonly currentPage = signal(1);
   readonly hasMoreMessages = signal(false);
 
+  // Typing indicator - re-announced at most every TYPING_THROTTLE ms while the user keeps typing
+  private readonly TYPING_THROTTLE = 3000;
+  private lastTypingSentAt = 0;
+  private typingStopTimer?: ReturnType<typeof setTimeout>;
+
   // Subscriptions
   private subscriptions = new Subscription();
 
@@ -88,6 +99,12 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
 
   ngOnDestroy(): void {
     this.subscriptions.unsubscribe();
+    this.stopTyping();
+
+    const conversation = this.activeConversation();
+    if (conversation) {
+      this.realtimeService.leaveConversation(conversation._id);
+    }
   }
 
   /**
@@ -106,8 +123,9 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
     // Subscribe to new messages
     this.subscriptions.add(
       this.messageService.getNewMessageObservable().subscribe(message => {
-        if (message) {
-          this.addMessageToConversation(message);
+        this.addMessageToConversation(message);
+        if (this.activeConversation()?._id === message.conversationId) {
+          this.markMessageAsRead(message);
         }
       })
     );
@@ -115,15 +133,37 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
     // Subscribe to message read updates
     this.subscriptions.add(
       this.messageService.getMessageReadObservable().subscribe(update => {
-        if (update) {
-          // Update message read status
-          this.messages.update(messages =>
-            messages.map(msg =>
-              msg._id === update.messageId
-                ? { ...msg, read: true }
-                : msg
-            )
-          );
+        this.messages.update(messages =>
+          messages.map(msg => {
+            const matches = update.messageId
+              ? msg._id === update.messageId
+              : msg.conversationId === update.conversationId && msg.senderId._id !== update.userId;
+            return matches ? { ...msg, read: true } : msg;
+          })
+        );
+      })
+    );
+
+    // Subscribe to reaction updates
+    this.subscriptions.add(
+      this.messageService.getMessageReactionObservable().subscribe(update => {
+        this.messages.update(messages =>
+          messages.map(msg =>
+            msg._id === update.messageId
+              ? { ...msg, reactions: update.reactions }
+              : msg
+          )
+        );
+      })
+    );
+
+    // Catch up on anything missed while the socket was down
+    this.subscriptions.add(
+      this.realtimeService.reconnected$.subscribe(() => {
+        this.loadConversations();
+        const conversation = this.activeConversation();
+        if (conversation) {
+          this.loadConversationMessages(conversation._id);
         }
       })
     );
@@ -134,7 +174,11 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
    */
   addMessageToConversation(message: Message): void {
     const currentConversation = this.activeConversation();
-    if (currentConversation && message.conversationId === currentConversation._id) {
+    if (
+      currentConversation &&
+      message.conversationId === currentConversation._id &&
+      !this.messages().some(msg => msg._id === message._id)
+    ) {
       this.messages.update(prev => [...prev, message]);
       this.scrollToBottom();
     }
@@ -144,6 +188,13 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
    * Select conversation
    */
   selectConversation(conversation: Conversation): void {
+    const previous = this.activeConversation();
+    if (previous && previous._id !== conversation._id) {
+      this.stopTyping();
+      this.realtimeService.leaveConversation(previous._id);
+    }
+    this.realtimeService.joinConversation(conversation._id);
+
     this.messageService.setCurrentConversation(conversation);
     this.loadConversationMessages(conversation._id);
     this.scrollToBottom();
@@ -189,6 +240,7 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
     const conversation = this.activeConversation();
     if (!conversation) return;
 
+    this.stopTyping();
     this.messageService.sendMessage(conversation._id, messageText).subscribe({
       next: (response) => {
         if (response.success) {
@@ -206,6 +258,42 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
   onMessageInput(event: Event): void {
     const target = event.target as HTMLTextAreaElement;
     this.newMessage.set(target.value);
+
+    if (target.value.trim()) {
+      this.notifyTyping();
+    } else {
+      this.stopTyping();
+    }
+  }
+
+  /**
+   * Announce that the current user is typing (throttled)
+   */
+  private notifyTyping(): void {
+    const conversation = this.activeConversation();
+    if (!conversation) return;
+
+    const now = Date.now();
+    if (now - this.lastTypingSentAt > this.TYPING_THROTTLE) {
+      this.realtimeService.sendTyping(conversation._id, true);
+      this.lastTypingSentAt = now;
+    }
+
+    clearTimeout(this.typingStopTimer);
+    this.typingStopTimer = setTimeout(() => this.stopTyping(), this.TYPING_THROTTLE);
+  }
+
+  /**
+   * Announce that the current user stopped typing
+   */
+  private stopTyping(): void {
+    clearTimeout(this.typingStopTimer);
+
+    const conversation = this.activeConversation();
+    if (conversation && this.lastTypingSentAt) {
+      this.realtimeService.sendTyping(conversation._id, false);
+    }
+    this.lastTypingSentAt = 0;
   }
 
   /**
@@ -245,6 +333,17 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
     }
   }
 
+  /**
+   * Report a message from someone else to the moderators
+   */
+  reportMessage(message: Message): void {
+    this.reportTarget.set({ type: 'message', id: message._id, label: `message from ${message.senderId.username}` });
+  }
+
+  closeReportDialog(): void {
+    this.reportTarget.set(null);
+  }
+
   /**
    * Add reaction to message
    */
@@ -294,6 +393,52 @@ export class MessagesComponent implements OnInit, OnDestroy, AfterViewInit {
     return message.senderId._id === this.currentUser()?._id;
   }
 
+  /**
+   * Get "typing…" label for a conversation, naming the typist in group chats
+   */
+  getTypingLabel(conversation: Conversation): string {
+    const typingIds = this.messageService.getTypingUserIds(conversation._id);
+    if (typingIds.length === 0) return '';
+    if (!conversation.isGroup) return 'typing…';
+
+    const names = conversation.members
+      .filter(member => typingIds.includes(member._id))
+      .map(member => member.fullName || member.username);
+    if (names.length === 0) return 'typing…';
+    return names.length === 1 ? `${names[0]} is typing…` : `${names.length} people are typing…`;
+  }
+
+  /**
+   * Check if the other member of a direct conversation is online
+   */
+  isConversationOnline(conversation: Conversation): boolean {
+    if (conversation.isGroup) return false;
+    return !!this.messageService.getOtherUser(conversation, this.currentUser()?._id || '')?.isOnline;
+  }
+
+  /**
+   * Get online / last seen status for the conversation header
+   */
+  getPresenceLabel(conversation: Conversation): string {
+    const currentUserId = this.currentUser()?._id || '';
+
+    if (conversation.isGroup) {
+      const online = conversation.members.filter(member => member._id !== currentUserId && member.isOnline).length;
+      return online > 0 ? `${conversation.members.length} members · ${online} online` : `${conversation.members.length} members`;
+    }
+
+    const otherUser = this.messageService.getOtherUser(conversation, currentUserId);
+    if (!otherUser) return '';
+    if (otherUser.isOnline) return 'Active now';
+    if (!otherUser.lastSeen) return '';
+
+    const minutes = Math.floor((Date.now() - new Date(otherUser.lastSeen).getTime()) / 60000);
+    if (minutes < 1) return 'Active just now';
+    if (minutes < 60) return `Active ${minutes}m ago`;
+    if (minutes < 60 * 24) return `Active ${Math.floor(minutes / 60)}h ago`;
+    return `Active ${Math.floor(minutes / (60 * 24))}d ago`;
+  }
+
   /**
    * Get formatted message time
    */
@@ -0,0 +1,113 @@
+import { Component, OnInit, signal, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { NotificationService, Notification } from '../../services/notification.service';
+
+@Component({
+  selector: 'app-notifications',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './notifications.component.html',
+  styleUrl: './notifications.component.css'
+})
+export class NotificationsComponent implements OnInit {
+  notificationService = inject(NotificationService);
+  private router = inject(Router);
+
+  readonly notifications = computed(() => this.notificationService.notifications());
+  readonly unreadCount = computed(() => this.notificationService.unreadCount());
+
+  loading = signal<boolean>(false);
+  error = signal<string | null>(null);
+  page = signal<number>(1);
+  hasMore = signal<boolean>(false);
+  showUnreadOnly = signal<boolean>(false);
+
+  ngOnInit(): void {
+    this.loadNotifications(true);
+  }
+
+  loadNotifications(reset = false): void {
+    if (reset) this.page.set(1);
+    this.loading.set(true);
+    this.error.set(null);
+
+    this.notificationService.getNotifications(this.page(), 20, this.showUnreadOnly()).subscribe({
+      next: (response) => {
+        this.hasMore.set(response.data.pagination.hasNext);
+        this.loading.set(false);
+      },
+      error: (err) => {
+        this.error.set(err.message || 'Failed to load notifications');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  loadMore(): void {
+    if (!this.hasMore() || this.loading()) return;
+    this.page.update(p => p + 1);
+    this.loadNotifications(false);
+  }
+
+  toggleUnreadOnly(): void {
+    this.showUnreadOnly.update(v => !v);
+    this.loadNotifications(true);
+  }
+
+  /**
+   * Mark as read and navigate to the notification's subject
+   */
+  openNotification(notification: Notification): void {
+    if (!notification.isRead) {
+      this.notificationService.markAsRead(notification._id).subscribe({
+        error: (err) => console.error('Error marking notification as read:', err)
+      });
+    }
+    this.router.navigate(this.notificationService.getNotificationLink(notification));
+  }
+
+  markAllAsRead(): void {
+    this.notificationService.markAllAsRead().subscribe({
+      error: (err) => this.error.set(err.message || 'Failed to mark notifications as read')
+    });
+  }
+
+  deleteNotification(notification: Notification, event: Event): void {
+    event.stopPropagation();
+    this.notificationService.deleteNotification(notification._id).subscribe({
+      error: (err) => this.error.set(err.message || 'Failed to delete notification')
+    });
+  }
+
+  getIconClass(notification: Notification): string {
+    switch (notification.type) {
+      case 'like':
+        return 'icon-heart';
+      case 'comment':
+      case 'mention':
+      case 'message':
+        return 'icon-message-circle';
+      case 'follow':
+      case 'unfollow':
+        return 'icon-users';
+      case 'trip_invite':
+      case 'trip_join':
+      case 'trip_leave':
+      case 'trip_update':
+        return 'icon-map';
+      default:
+        return 'icon-info';
+    }
+  }
+
+  getTimeAgo(notification: Notification): string {
+    if (notification.timeAgo) return notification.timeAgo;
+    const diffInMinutes = Math.floor((Date.now() - new Date(notification.createdAt).getTime()) / 60000);
+    if (diffInMinutes < 1) return 'Just now';
+    if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
+    const diffInHours = Math.floor(diffInMinutes / 60);
+    if (diffInHours < 24) return `${diffInHours}h ago`;
+    return `${Math.floor(diffInHours / 24)}d ago`;
+  }
+}
@@ -0,0 +1,92 @@
+import { Component, OnDestroy, OnInit, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterModule } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { PostService, Post, HashtagSuggestion, Place } from '../../services/post.service';
+import { PostGridComponent } from '../posts/post-grid/post-grid.component';
+
+const PAGE_SIZE = 24;
+
+/**
+ * Place Page - Grid of public posts tagged at a place, newest first,
+ * with the hashtags most used there
+ */
+@Component({
+  selector: 'app-place',
+  standalone: true,
+  imports: [CommonModule, RouterModule, PostGridComponent],
+  templateUrl: './place.component.html',
+  styleUrl: './place.component.css'
+})
+export class PlaceComponent implements OnInit, OnDestroy {
+  private route = inject(ActivatedRoute);
+  private postService = inject(PostService);
+
+  placeId = signal<string>('');
+  place = signal<Place | null>(null);
+  posts = signal<Post[]>([]);
+  totalPosts = signal<number>(0);
+  relatedTags = signal<HashtagSuggestion[]>([]);
+  page = signal<number>(1);
+  hasMore = signal<boolean>(false);
+  loading = signal<boolean>(false);
+  notFound = signal<boolean>(false);
+  error = signal<string>('');
+
+  private routeSubscription?: Subscription;
+
+  ngOnInit(): void {
+    this.routeSubscription = this.route.paramMap.subscribe(params => {
+      this.placeId.set(params.get('placeId') || '');
+      this.place.set(null);
+      this.posts.set([]);
+      this.relatedTags.set([]);
+      this.notFound.set(false);
+      this.page.set(1);
+      this.loadPosts();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.routeSubscription?.unsubscribe();
+  }
+
+  loadPosts(): void {
+    if (!this.placeId()) return;
+
+    this.loading.set(true);
+    this.error.set('');
+    this.postService.getPostsByPlace(this.placeId(), this.page(), PAGE_SIZE).subscribe({
+      next: (response) => {
+        const data = response.data;
+        this.posts.update(posts => this.page() === 1 ? data.posts : [...posts, ...data.posts]);
+        this.totalPosts.set(data.pagination?.totalItems || 0);
+        this.hasMore.set(data.pagination?.hasNext || false);
+        if (this.page() === 1) {
+          this.place.set(data.place || null);
+          this.relatedTags.set(data.relatedTags || []);
+        }
+        this.loading.set(false);
+      },
+      error: (error) => {
+        console.error('Error loading place posts:', error);
+        // PostService surfaces only the server message
+        if (error.message === 'Place not found') {
+          this.notFound.set(true);
+        } else {
+          this.error.set(error.message || 'Failed to load posts');
+        }
+        this.loading.set(false);
+      }
+    });
+  }
+
+  loadMore(): void {
+    this.page.update(page => page + 1);
+    this.loadPosts();
+  }
+
+  getMapUrl(place: Place): string {
+    return `https://www.google.com/maps/search/?api=1&query=${place.lat},${place.lng}`;
+  }
+}
@@ -0,0 +1,238 @@
+import { Component, ElementRef, OnDestroy, OnInit, computed, effect, inject, signal, untracked, viewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterModule } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { PostService, Post } from '../../../services/post.service';
+import { AuthService } from '../../../services/auth.service';
+import { GoogleMapsService } from '../../../services/google-maps.service';
+import { ImageProcessingService } from '../../../services/image-processing.service';
+import { Comment } from '../../../services/comment.service';
+import { ReportTarget } from '../../../services/report.service';
+import { CommentListComponent } from '../../comments/comment-list/comment-list.component';
+import { LinkedTextComponent } from '../../mentions/linked-text/linked-text.component';
+import { ReportDialogComponent } from '../../reports/report-dialog/report-dialog.component';
+import { SaveDialogComponent } from '../../collections/save-dialog/save-dialog.component';
+
+const VIDEO_EXTENSIONS = /\.(mp4|mov|avi|webm)$/i;
+
+/**
+ * Post Page - A single post at its share link (/post/:id) with its media,
+ * likes, comment threads and location map. Logged-out visitors get a
+ * read-only view; blocked posts show as not found and private ones as forbidden.
+ */
+@Component({
+  selector: 'app-post-detail',
+  standalone: true,
+  imports: [CommonModule, RouterModule, CommentListComponent, LinkedTextComponent, ReportDialogComponent, SaveDialogComponent],
+  templateUrl: './post-detail.component.html',
+  styleUrl: './post-detail.component.css'
+})
+export class PostDetailComponent implements OnInit, OnDestroy {
+  private route = inject(ActivatedRoute);
+  private postService = inject(PostService);
+  private authService = inject(AuthService);
+  private googleMapsService = inject(GoogleMapsService);
+  private imageProcessing = inject(ImageProcessingService);
+
+  private mapContainer = viewChild<ElementRef<HTMLElement>>('locationMap');
+
+  post = signal<Post | null>(null);
+  loading = signal<boolean>(false);
+  notFound = signal<boolean>(false);
+  forbidden = signal<boolean>(false);
+  error = signal<string>('');
+  currentIndex = signal<number>(0);
+  liked = signal<boolean>(false);
+  likesCount = signal<number>(0);
+  commentsCount = signal<number>(0);
+  saved = signal<boolean>(false);
+  mapFailed = signal<boolean>(false);
+  linkCopied = signal<boolean>(false);
+  showSaveDialog = signal<boolean>(false);
+  reportTarget = signal<ReportTarget | null>(null);
+
+  isLoggedIn = this.authService.isLoggedIn;
+  currentUserId = computed(() => this.authService.user()?.id);
+  isOwnPost = computed(() => !!this.post() && this.post()!.userId._id === this.currentUserId());
+  media = computed(() => (this.post()?.media || []).map(url => this.postService.getMediaUrl(url)));
+  currentMedia = computed(() => this.media()[this.currentIndex()] || '');
+  hasMap = computed(() => this.post()?.location?.lat != null && this.post()?.location?.lng != null);
+
+  private routeSubscription?: Subscription;
+  private linkCopiedTimer: any = null;
+
+  constructor() {
+    // Draw the location map once the post and its container are both there
+    effect(() => {
+      const container = this.mapContainer();
+      const location = this.post()?.location;
+      if (!container || location?.lat == null || location?.lng == null) return;
+      untracked(() => this.initMap(container.nativeElement, location.lat!, location.lng!, location.name));
+    });
+  }
+
+  ngOnInit(): void {
+    this.routeSubscription = this.route.paramMap.subscribe(params => {
+      this.loadPost(params.get('id') || '');
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.routeSubscription?.unsubscribe();
+    if (this.linkCopiedTimer) clearTimeout(this.linkCopiedTimer);
+  }
+
+  loadPost(postId: string): void {
+    this.post.set(null);
+    this.notFound.set(false);
+    this.forbidden.set(false);
+    this.error.set('');
+    this.mapFailed.set(false);
+    this.currentIndex.set(0);
+    if (!postId) {
+      this.notFound.set(true);
+      return;
+    }
+
+    this.loading.set(true);
+    this.postService.getPostById(postId).subscribe({
+      next: (response) => {
+        const post = response.data;
+        const userId = this.currentUserId();
+        // The single post endpoint returns likes as populated users
+        this.liked.set(!!userId && post.likes.some((like: any) => String(like?._id ?? like) === userId));
+        this.likesCount.set(post.likesCount ?? post.likes.length);
+        this.commentsCount.set(post.commentsCount);
+        this.saved.set(!!post.isSaved);
+        this.post.set(post);
+        this.loading.set(false);
+      },
+      error: (error) => {
+        console.error('Error loading post:', error);
+        // PostService surfaces only the server message
+        if (error.message === 'Post not found') {
+          this.notFound.set(true);
+        } else if (error.message === 'Access denied to private post') {
+          this.forbidden.set(true);
+        } else {
+          this.error.set(error.message || 'Failed to load post');
+        }
+        this.loading.set(false);
+      }
+    });
+  }
+
+  isVideo(url: string): boolean {
+    return VIDEO_EXTENSIONS.test(url);
+  }
+
+  nextMedia(): void {
+    this.currentIndex.update(index => (index + 1) % this.media().length);
+  }
+
+  prevMedia(): void {
+    this.currentIndex.update(index => (index - 1 + this.media().length) % this.media().length);
+  }
+
+  /**
+   * Blurhash placeholder of the media item shown, as a CSS background
+   */
+  getPlaceholder(): { background: string; aspectRatio: string } | null {
+    const post = this.post();
+    const url = post?.media[this.currentIndex()];
+    const meta = post?.mediaMeta?.find(entry => entry.url === url);
+    const placeholderUrl = meta ? this.imageProcessing.getPlaceholderUrl(meta.blurhash) : null;
+    if (!meta || !placeholderUrl) return null;
+    return { background: `url(${placeholderUrl})`, aspectRatio: `${meta.width} / ${meta.height}` };
+  }
+
+  getAvatarUrl(): string {
+    const post = this.post();
+    return post ? this.postService.getUserAvatarUrl(post.userId) : '';
+  }
+
+  getPostDate(): string {
+    const post = this.post();
+    return post ? this.postService.formatPostDate(post.createdAt) : '';
+  }
+
+  toggleLike(): void {
+    const post = this.post();
+    if (!post || !this.isLoggedIn()) return;
+
+    this.postService.toggleLike(post._id).subscribe({
+      next: (response) => {
+        this.liked.set(response.data.isLiked);
+        this.likesCount.set(response.data.likesCount);
+      },
+      error: (error) => {
+        console.error('Error toggling like:', error);
+      }
+    });
+  }
+
+  toggleSave(): void {
+    const post = this.post();
+    if (!post || !this.isLoggedIn()) return;
+
+    if (this.saved()) {
+      this.postService.unsavePost(post._id).subscribe({
+        next: (response) => this.saved.set(response.data.isSaved),
+        error: (error) => console.error('Error unsaving post:', error)
+      });
+    } else {
+      this.showSaveDialog.set(true);
+    }
+  }
+
+  closeSaveDialog(isSaved: boolean): void {
+    this.saved.set(isSaved);
+    this.showSaveDialog.set(false);
+  }
+
+  copyLink(): void {
+    navigator.clipboard.writeText(window.location.href).then(() => {
+      this.linkCopied.set(true);
+      if (this.linkCopiedTimer) clearTimeout(this.linkCopiedTimer);
+      this.linkCopiedTimer = setTimeout(() => this.linkCopied.set(false), 2000);
+    }).catch((error) => {
+      console.error('Error copying link:', error);
+    });
+  }
+
+  reportPost(): void {
+    const post = this.post();
+    if (!post) return;
+    this.reportTarget.set({ type: 'post', id: post._id, label: `${post.userId.username}'s post` });
+  }
+
+  reportComment(comment: Comment): void {
+    this.reportTarget.set({ type: 'comment', id: comment._id, label: `${comment.userId?.username || 'Deleted'}'s comment` });
+  }
+
+  closeReportDialog(): void {
+    this.reportTarget.set(null);
+  }
+
+  onCommentsChange(delta: number): void {
+    this.commentsCount.update(count => Math.max(0, count + delta));
+  }
+
+  getMapUrl(): string {
+    const location = this.post()?.location;
+    return `https://www.google.com/maps/search/?api=1&query=${location?.lat},${location?.lng}`;
+  }
+
+  private async initMap(container: HTMLElement, lat: number, lng: number, title?: string): Promise<void> {
+    try {
+      const map = await this.googleMapsService.createMap(container, { lat, lng }, 13, {
+        disableDefaultUI: true,
+        zoomControl: true
+      });
+      this.googleMapsService.addMarker(map, { lat, lng }, { title });
+    } catch (error) {
+      console.error('Error loading map:', error);
+      this.mapFailed.set(true);
+    }
+  }
+}
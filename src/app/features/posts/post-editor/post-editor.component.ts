@@ -0,0 +1,250 @@
+import { Component, OnDestroy, OnInit, inject, input, output, signal } from '@angular/core';
+import { PostService, Post, PostLocation } from '../../../services/post.service';
+import { GoogleMapsService, PlaceResult } from '../../../services/google-maps.service';
+import { EntityAutocompleteComponent } from '../../mentions/entity-autocomplete/entity-autocomplete.component';
+
+// A media item in the editor: either already on the post or a newly picked file
+interface EditorMedia {
+  id: string;
+  source: string | File; // Post media URL or file to upload
+  previewUrl: string;
+  type: 'image' | 'video';
+}
+
+const MAX_MEDIA = 10;
+const VIDEO_EXTENSIONS = /\.(mp4|mov|avi|webm)$/i;
+
+/**
+ * Post Editor - Edit an existing post's caption, location and media.
+ * Media can be added, removed and reordered by dragging or with the arrow buttons.
+ */
+@Component({
+  selector: 'app-post-editor',
+  standalone: true,
+  imports: [EntityAutocompleteComponent],
+  templateUrl: './post-editor.component.html',
+  styleUrl: './post-editor.component.css'
+})
+export class PostEditorComponent implements OnInit, OnDestroy {
+  private postService = inject(PostService);
+  private googleMapsService = inject(GoogleMapsService);
+
+  postId = input.required<string>();
+
+  saved = output<Post>();
+  closed = output<void>();
+
+  loading = signal<boolean>(true);
+  saving = signal<boolean>(false);
+  error = signal<string>('');
+
+  caption = signal<string>('');
+  media = signal<EditorMedia[]>([]);
+  draggedIndex = signal<number | null>(null);
+
+  locationQuery = signal<string>('');
+  location = signal<PostLocation | null>(null);
+  locationChanged = signal<boolean>(false);
+  suggestions = signal<PlaceResult[]>([]);
+  suggestionsOpen = signal<boolean>(false);
+
+  private locationSearchDebounce?: ReturnType<typeof setTimeout>;
+  private nextMediaId = 0;
+
+  ngOnInit(): void {
+    this.postService.getPostById(this.postId()).subscribe({
+      next: (response) => {
+        const post = response.data;
+        this.caption.set(post.caption || '');
+        this.media.set(post.media.map(url => ({
+          id: `media-${this.nextMediaId++}`,
+          source: url,
+          previewUrl: this.postService.getMediaUrl(url),
+          type: VIDEO_EXTENSIONS.test(url) ? 'video' : 'image'
+        })));
+        const location = post.location && post.location.name ? post.location : null;
+        this.location.set(location);
+        this.locationQuery.set(location?.name || '');
+        this.loading.set(false);
+      },
+      error: (error) => {
+        console.error('Error loading post for editing:', error);
+        this.error.set(error.message || 'Failed to load post');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    if (this.locationSearchDebounce) clearTimeout(this.locationSearchDebounce);
+    this.media().forEach(item => this.revokePreview(item));
+  }
+
+  handleFileInput(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    if (!input.files || input.files.length === 0) return;
+    this.addFiles(Array.from(input.files));
+    input.value = '';
+  }
+
+  addFiles(files: File[]): void {
+    const next: EditorMedia[] = [];
+    for (const file of files) {
+      if (!file.type.startsWith('image/') && !file.type.startsWith('video/')) {
+        this.error.set('Only image and video files are allowed');
+        continue;
+      }
+
+      // Same limits as a new post: 50MB for videos, 10MB for images
+      const maxSize = file.type.startsWith('video/') ? 50 * 1024 * 1024 : 10 * 1024 * 1024;
+      if (file.size > maxSize) {
+        this.error.set(`File size too large. Max: ${file.type.startsWith('video/') ? '50MB' : '10MB'}`);
+        continue;
+      }
+
+      next.push({
+        id: `media-${this.nextMediaId++}`,
+        source: file,
+        previewUrl: URL.createObjectURL(file),
+        type: file.type.startsWith('video/') ? 'video' : 'image'
+      });
+    }
+
+    if (this.media().length + next.length > MAX_MEDIA) {
+      next.forEach(item => this.revokePreview(item));
+      this.error.set(`Maximum ${MAX_MEDIA} media files allowed per post`);
+      return;
+    }
+
+    this.media.update(list => [...list, ...next]);
+    if (next.length > 0) this.error.set('');
+  }
+
+  removeMedia(id: string): void {
+    const item = this.media().find(m => m.id === id);
+    if (item) this.revokePreview(item);
+    this.media.update(list => list.filter(m => m.id !== id));
+  }
+
+  moveMedia(index: number, delta: number): void {
+    this.reorder(index, index + delta);
+  }
+
+  onDragStart(index: number): void {
+    this.draggedIndex.set(index);
+  }
+
+  onDragOver(event: DragEvent): void {
+    event.preventDefault();
+  }
+
+  onDrop(event: DragEvent, index: number): void {
+    event.preventDefault();
+    const from = this.draggedIndex();
+    this.draggedIndex.set(null);
+    if (from !== null) this.reorder(from, index);
+  }
+
+  onDragEnd(): void {
+    this.draggedIndex.set(null);
+  }
+
+  onLocationInputChange(value: string): void {
+    this.locationQuery.set(value);
+    const query = value.trim();
+    if (this.locationSearchDebounce) clearTimeout(this.locationSearchDebounce);
+    if (query.length < 3) {
+      this.suggestions.set([]);
+      this.suggestionsOpen.set(false);
+      return;
+    }
+    this.locationSearchDebounce = setTimeout(async () => {
+      try {
+        const results = await this.googleMapsService.searchPlacesNew(query);
+        this.suggestions.set(results);
+        this.suggestionsOpen.set(results.length > 0);
+      } catch {
+        this.suggestions.set([]);
+        this.suggestionsOpen.set(false);
+      }
+    }, 400);
+  }
+
+  selectSuggestion(place: PlaceResult): void {
+    this.setLocation({
+      name: place.name,
+      lat: place.location.lat,
+      lng: place.location.lng,
+      placeId: place.placeId
+    });
+  }
+
+  /**
+   * Use the typed text as a location without coordinates
+   */
+  handleLocationSearch(): void {
+    const name = this.locationQuery().trim();
+    if (name) this.setLocation({ name });
+  }
+
+  clearLocation(): void {
+    this.locationQuery.set('');
+    this.location.set(null);
+    this.locationChanged.set(true);
+    this.suggestions.set([]);
+    this.suggestionsOpen.set(false);
+  }
+
+  canSave(): boolean {
+    return !this.loading() && !this.saving() && (this.caption().trim().length > 0 || this.media().length > 0);
+  }
+
+  save(): void {
+    if (!this.canSave()) return;
+
+    this.saving.set(true);
+    this.error.set('');
+    this.postService.updatePost(
+      this.postId(),
+      {
+        caption: this.caption().trim(),
+        location: this.locationChanged() ? this.location() : undefined
+      },
+      this.media().map(item => item.source)
+    ).subscribe({
+      next: (response) => {
+        this.saving.set(false);
+        this.saved.emit(response.data);
+      },
+      error: (error) => {
+        console.error('Error updating post:', error);
+        this.error.set(error.message || 'Failed to update post');
+        this.saving.set(false);
+      }
+    });
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+
+  private setLocation(location: PostLocation): void {
+    this.location.set(location);
+    this.locationQuery.set(location.name || '');
+    this.locationChanged.set(true);
+    this.suggestions.set([]);
+    this.suggestionsOpen.set(false);
+  }
+
+  private reorder(from: number, to: number): void {
+    const list = [...this.media()];
+    if (from === to || to < 0 || to >= list.length) return;
+    const [item] = list.splice(from, 1);
+    list.splice(to, 0, item);
+    this.media.set(list);
+  }
+
+  private revokePreview(item: EditorMedia): void {
+    if (typeof item.source !== 'string') URL.revokeObjectURL(item.previewUrl);
+  }
+}
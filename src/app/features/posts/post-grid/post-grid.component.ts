@@ -0,0 +1,26 @@
+import { Component, inject, input } from '@angular/core';
+import { RouterModule } from '@angular/router';
+import { PostService, Post } from '../../../services/post.service';
+
+/**
+ * Post Grid - Square thumbnails linking to each post, with likes and comments on hover
+ * Used by the hashtag and place pages
+ */
+@Component({
+  selector: 'app-post-grid',
+  standalone: true,
+  imports: [RouterModule],
+  templateUrl: './post-grid.component.html',
+  styleUrl: './post-grid.component.css'
+})
+export class PostGridComponent {
+  private postService = inject(PostService);
+
+  posts = input.required<Post[]>();
+
+  getThumbnailUrl(post: Post): string {
+    return post.media.length > 0
+      ? this.postService.getMediaUrl(post.media[0])
+      : '/assets/images/trip-placeholder.jpg';
+  }
+}
@@ -0,0 +1,55 @@
+import { Component, OnInit, inject, input, output, signal } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { PostService, PostVersion } from '../../../services/post.service';
+import { LinkedTextComponent } from '../../mentions/linked-text/linked-text.component';
+
+const VIDEO_EXTENSIONS = /\.(mp4|mov|avi|webm)$/i;
+
+/**
+ * Post History - The previous versions of an edited post, newest first.
+ * Only the post's author can open it.
+ */
+@Component({
+  selector: 'app-post-history',
+  standalone: true,
+  imports: [DatePipe, LinkedTextComponent],
+  templateUrl: './post-history.component.html',
+  styleUrl: './post-history.component.css'
+})
+export class PostHistoryComponent implements OnInit {
+  private postService = inject(PostService);
+
+  postId = input.required<string>();
+
+  closed = output<void>();
+
+  versions = signal<PostVersion[]>([]);
+  loading = signal<boolean>(true);
+  error = signal<string>('');
+
+  ngOnInit(): void {
+    this.postService.getPostHistory(this.postId()).subscribe({
+      next: (response) => {
+        this.versions.set(response.data.versions);
+        this.loading.set(false);
+      },
+      error: (error) => {
+        console.error('Error loading post history:', error);
+        this.error.set(error.message || 'Failed to load edit history');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  getMediaUrl(url: string): string {
+    return this.postService.getMediaUrl(url);
+  }
+
+  isVideo(url: string): boolean {
+    return VIDEO_EXTENSIONS.test(url);
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+}
@@ -5,6 +5,14 @@ import { ProfileService, ProfileUser, ProfilePost, ProfileTrip } from '../../ser
 import { PostService, Post } from '../../services/post.service';
 import { environment } from '../../../environments/environment';
 import { AuthService } from '../../services/auth.service';
+import { ReportTarget } from '../../services/report.service';
+import { Comment } from '../../services/comment.service';
+import { ReportDialogComponent } from '../reports/report-dialog/report-dialog.component';
+import { SavedCollectionsComponent } from './saved-collections/saved-collections.component';
+import { LinkedTextComponent } from '../mentions/linked-text/linked-text.component';
+import { CommentListComponent } from '../comments/comment-list/comment-list.component';
+import { PostEditorComponent } from '../posts/post-editor/post-editor.component';
+import { PostHistoryComponent } from '../posts/post-history/post-history.component';
 
 interface ProfileStats {
   posts: number;
@@ -15,7 +23,7 @@ interface ProfileStats {
 @Component({
   selector: 'app-profile',
   standalone: true,
-  imports: [CommonModule, RouterModule],
+  imports: [CommonModule, RouterModule, ReportDialogComponent, SavedCollectionsComponent, LinkedTextComponent, CommentListComponent, PostEditorComponent, PostHistoryComponent],
   templateUrl: './profile.component.html',
   styleUrl: './profile.component.css'
 })
@@ -33,9 +41,10 @@ export class ProfileComponent implements OnInit {
   readonly loading = signal<boolean>(false);
   readonly error = signal<string>('');
   readonly following = signal<boolean>(false);
+  readonly blocked = signal<boolean>(false);
 
   // UI state
-  readonly tabs = ['Posts', 'Trips', 'About'] as const;
+  readonly tabs = ['Posts', 'Trips', 'Saved', 'About'] as const;
   readonly activeTab = signal<(typeof this.tabs)[number]>('Posts');
 
   // Lightbox state for viewing post images
@@ -52,6 +61,12 @@ export class ProfileComponent implements OnInit {
   readonly lightboxError = signal<string>('');
   readonly fullPost = signal<Post | null>(null);
 
+  // Report dialog for this user or one of their posts
+  readonly reportTarget = signal<ReportTarget | null>(null);
+  readonly currentUserId = computed(() => this.authService.user()?.id);
+  readonly editingPost = signal<boolean>(false);
+  readonly showingHistory = signal<boolean>(false);
+
   // Computed properties
   readonly isOwnProfile = computed(() => {
     const user = this.profileUser();
@@ -203,6 +218,22 @@ export class ProfileComponent implements OnInit {
     });
   }
 
+  toggleSaveCurrent(): void {
+    const post = this.fullPost();
+    if (!post) return;
+    const request = post.isSaved ? this.postService.unsavePost(post._id) : this.postService.savePost(post._id);
+    request.subscribe({
+      next: (res) => {
+        if (res.success) {
+          this.fullPost.set({ ...post, isSaved: res.data.isSaved });
+        }
+      },
+      error: (err) => {
+        console.error('Toggle save error:', err);
+      }
+    });
+  }
+
   // Helpers for template to avoid null checks in HTML
   getLightboxAvatarUrl(): string {
     const post = this.fullPost();
@@ -238,6 +269,11 @@ export class ProfileComponent implements OnInit {
     return loc && loc.name ? loc.name : '';
   }
 
+  getLightboxPlaceId(): string {
+    const post = this.fullPost();
+    return post && post.location && post.location.placeId ? post.location.placeId : '';
+  }
+
   getLightboxHashtags(): string[] {
     const post = this.fullPost();
     return post && Array.isArray(post.hashtags) ? post.hashtags : [];
@@ -276,6 +312,7 @@ export class ProfileComponent implements OnInit {
                 this.profileUser.set(response.data.user);
                 this.posts.set(response.data.posts);
                 this.trips.set(response.data.trips);
+                this.blocked.set(!!response.data.isBlocked);
 
                 // Check if current user is following this user
                 const currentUser = this.authService.user();
@@ -391,6 +428,80 @@ export class ProfileComponent implements OnInit {
     console.log('Message user functionality to be implemented');
   }
 
+  /**
+   * Block or unblock the profile user
+   */
+  toggleBlock(): void {
+    const user = this.profileUser();
+    if (!user || this.isOwnProfile()) return;
+
+    if (this.blocked()) {
+      this.profileService.unblockUser(user._id).subscribe({
+        next: () => this.blocked.set(false),
+        error: (error) => console.error('Profile: Error unblocking user:', error)
+      });
+      return;
+    }
+
+    if (!confirm(`Block @${user.username}? They won't be able to follow you and you will unfollow each other.`)) return;
+
+    this.profileService.blockUser(user._id).subscribe({
+      next: () => {
+        this.blocked.set(true);
+        if (this.following()) {
+          this.profileUser.set({ ...user, followersCount: user.followersCount - 1 });
+          this.following.set(false);
+        }
+      },
+      error: (error) => console.error('Profile: Error blocking user:', error)
+    });
+  }
+
+  /**
+   * Report this user to the moderators
+   */
+  reportUser(): void {
+    const user = this.profileUser();
+    if (!user) return;
+    this.reportTarget.set({ type: 'user', id: user._id, label: `@${user.username}` });
+  }
+
+  /**
+   * Report the post open in the lightbox
+   */
+  reportCurrentPost(): void {
+    const post = this.fullPost();
+    if (!post) return;
+    this.reportTarget.set({ type: 'post', id: post._id, label: `${post.userId.username}'s post` });
+  }
+
+  reportComment(comment: Comment): void {
+    this.reportTarget.set({ type: 'comment', id: comment._id, label: `${comment.userId?.username || 'Deleted'}'s comment` });
+  }
+
+  /**
+   * Keep the lightbox comment count in step with its comment threads
+   */
+  onLightboxCommentsChange(delta: number): void {
+    const post = this.fullPost();
+    if (!post) return;
+    this.fullPost.set({ ...post, commentsCount: Math.max(0, (post.commentsCount || 0) + delta) });
+  }
+
+  /**
+   * Refresh the lightbox and grid after the author edits the open post
+   */
+  onLightboxPostEdited(updated: Post): void {
+    this.editingPost.set(false);
+    const cover = updated.media.length ? this.postService.getMediaUrl(updated.media[0]) : '';
+    this.posts.update(posts => posts.map(p => p.id === updated._id && cover ? { ...p, imageUrl: cover } : p));
+    this.loadFullPost(updated._id);
+  }
+
+  closeReportDialog(): void {
+    this.reportTarget.set(null);
+  }
+
   /**
    * Set active tab
    */
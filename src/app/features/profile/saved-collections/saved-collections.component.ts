@@ -0,0 +1,274 @@
+import { Component, computed, effect, inject, input, signal, untracked } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { CdkDrag, CdkDragDrop, CdkDropList, moveItemInArray } from '@angular/cdk/drag-drop';
+import {
+  CollectionService,
+  Collection,
+  CollectionDetail,
+  CollectionItem,
+  CollectionData
+} from '../../../services/collection.service';
+import { PostService } from '../../../services/post.service';
+
+// Create / edit form for a collection
+interface CollectionForm {
+  collectionId: string | null; // null while creating
+  name: string;
+  description: string;
+  isPublic: boolean;
+}
+
+/**
+ * Saved Collections - The "Saved" tab of a profile
+ * Owners see all their collections and can organise them; everyone else sees only shared ones
+ */
+@Component({
+  selector: 'app-saved-collections',
+  standalone: true,
+  imports: [CommonModule, RouterModule, CdkDropList, CdkDrag],
+  templateUrl: './saved-collections.component.html',
+  styleUrl: './saved-collections.component.css'
+})
+export class SavedCollectionsComponent {
+  private collectionService = inject(CollectionService);
+  private postService = inject(PostService);
+
+  userId = input.required<string>();
+  isOwner = input<boolean>(false);
+
+  collections = signal<Collection[]>([]);
+  openCollection = signal<CollectionDetail | null>(null);
+  loading = signal<boolean>(false);
+  saving = signal<boolean>(false);
+  error = signal<string>('');
+  form = signal<CollectionForm | null>(null);
+
+  // The default collection stays first; only the others can be dragged around
+  readonly defaultCollection = computed(() => this.collections().find(c => c.isDefault) || null);
+  readonly customCollections = computed(() => this.collections().filter(c => !c.isDefault));
+
+  constructor() {
+    // Reload when the profile being viewed changes
+    effect(() => {
+      this.userId();
+      this.isOwner();
+      untracked(() => {
+        this.openCollection.set(null);
+        this.form.set(null);
+        this.loadCollections();
+      });
+    });
+  }
+
+  loadCollections(): void {
+    this.loading.set(true);
+    this.error.set('');
+
+    const request = this.isOwner()
+      ? this.collectionService.getMyCollections()
+      : this.collectionService.getUserCollections(this.userId());
+
+    request.subscribe({
+      next: (response) => {
+        this.collections.set(response.data);
+        this.loading.set(false);
+      },
+      error: (err) => {
+        console.error('Error loading collections:', err);
+        this.error.set(err.error?.message || 'Failed to load collections');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  open(collection: Collection): void {
+    this.loading.set(true);
+    this.error.set('');
+
+    this.collectionService.getCollection(collection._id).subscribe({
+      next: (response) => {
+        this.openCollection.set(response.data);
+        this.loading.set(false);
+      },
+      error: (err) => {
+        console.error('Error loading collection:', err);
+        this.error.set(err.error?.message || 'Failed to load collection');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  back(): void {
+    this.openCollection.set(null);
+    this.form.set(null);
+    this.loadCollections();
+  }
+
+  // Create / edit
+
+  startCreating(): void {
+    this.form.set({ collectionId: null, name: '', description: '', isPublic: false });
+  }
+
+  startEditing(collection: Collection): void {
+    this.form.set({
+      collectionId: collection._id,
+      name: collection.name,
+      description: collection.description || '',
+      isPublic: collection.isPublic
+    });
+  }
+
+  cancelForm(): void {
+    this.form.set(null);
+  }
+
+  updateForm(field: 'name' | 'description' | 'isPublic', value: string | boolean): void {
+    this.form.update(form => form ? { ...form, [field]: value } : form);
+  }
+
+  submitForm(): void {
+    const form = this.form();
+    if (!form || !form.name.trim() || this.saving()) return;
+
+    const data: CollectionData = { name: form.name.trim(), description: form.description.trim(), isPublic: form.isPublic };
+    const request = form.collectionId
+      ? this.collectionService.updateCollection(form.collectionId, data)
+      : this.collectionService.createCollection(data);
+
+    this.saving.set(true);
+    this.error.set('');
+
+    request.subscribe({
+      next: (response) => {
+        this.applySummary(response.data, !form.collectionId);
+        this.form.set(null);
+        this.saving.set(false);
+      },
+      error: (err) => {
+        this.error.set(err.error?.errors?.[0]?.msg || err.error?.message || 'Failed to save collection');
+        this.saving.set(false);
+      }
+    });
+  }
+
+  toggleShared(collection: Collection): void {
+    this.saving.set(true);
+    this.collectionService.updateCollection(collection._id, { isPublic: !collection.isPublic }).subscribe({
+      next: (response) => {
+        this.applySummary(response.data, false);
+        this.saving.set(false);
+      },
+      error: (err) => {
+        this.error.set(err.error?.message || 'Failed to update collection');
+        this.saving.set(false);
+      }
+    });
+  }
+
+  deleteCollection(collection: Collection): void {
+    if (collection.isDefault) return;
+    if (!confirm(`Delete "${collection.name}"? The posts and trips in it stay saved in your other collections.`)) return;
+
+    this.saving.set(true);
+    this.collectionService.deleteCollection(collection._id).subscribe({
+      next: () => {
+        this.collections.update(list => list.filter(c => c._id !== collection._id));
+        if (this.openCollection()?._id === collection._id) this.openCollection.set(null);
+        this.saving.set(false);
+      },
+      error: (err) => {
+        this.error.set(err.error?.message || 'Failed to delete collection');
+        this.saving.set(false);
+      }
+    });
+  }
+
+  // Reordering
+
+  onCollectionDrop(event: CdkDragDrop<Collection[]>): void {
+    if (event.previousIndex === event.currentIndex) return;
+
+    const previous = this.collections();
+    const custom = [...this.customCollections()];
+    moveItemInArray(custom, event.previousIndex, event.currentIndex);
+
+    const defaultCollection = this.defaultCollection();
+    this.collections.set(defaultCollection ? [defaultCollection, ...custom] : custom);
+
+    this.collectionService.reorderCollections(custom.map(c => c._id)).subscribe({
+      error: (err) => {
+        console.error('Error reordering collections:', err);
+        this.error.set(err.error?.message || 'Failed to reorder collections');
+        this.collections.set(previous);
+      }
+    });
+  }
+
+  onItemDrop(event: CdkDragDrop<CollectionItem[]>): void {
+    const collection = this.openCollection();
+    if (!collection || event.previousIndex === event.currentIndex) return;
+
+    const items = [...collection.items];
+    moveItemInArray(items, event.previousIndex, event.currentIndex);
+    this.openCollection.set({ ...collection, items });
+
+    this.collectionService.reorderItems(collection._id, items.map(i => i._id)).subscribe({
+      error: (err) => {
+        console.error('Error reordering items:', err);
+        if (err.status === 409) {
+          // Saved from another tab in the meantime; show the current contents
+          this.open(collection);
+        } else {
+          this.error.set(err.error?.message || 'Failed to reorder items');
+          this.openCollection.set(collection);
+        }
+      }
+    });
+  }
+
+  removeItem(item: CollectionItem): void {
+    const collection = this.openCollection();
+    if (!collection) return;
+
+    this.collectionService.removeItem(collection._id, item.itemType, item.itemId).subscribe({
+      next: () => {
+        this.openCollection.update(c => c ? {
+          ...c,
+          items: c.items.filter(i => i._id !== item._id),
+          itemsCount: c.itemsCount - 1
+        } : c);
+      },
+      error: (err) => {
+        this.error.set(err.error?.message || 'Failed to remove item');
+      }
+    });
+  }
+
+  // Template helpers
+
+  getMediaUrl(path?: string): string {
+    return path ? this.postService.getMediaUrl(path) : '';
+  }
+
+  getCountLabel(collection: Collection): string {
+    return `${collection.itemsCount} ${collection.itemsCount === 1 ? 'item' : 'items'}`;
+  }
+
+  getItemTitle(item: CollectionItem): string {
+    if (item.unavailable) return 'No longer available';
+    if (item.trip) return item.trip.tripName;
+    return item.post?.caption || `Post by @${item.post?.userId.username}`;
+  }
+
+  private applySummary(summary: Collection, isNew: boolean): void {
+    if (isNew) {
+      this.collections.update(list => [...list, summary]);
+      return;
+    }
+    // Summaries from updates don't carry previews
+    this.collections.update(list => list.map(c => c._id === summary._id ? { ...summary, previews: c.previews } : c));
+    this.openCollection.update(c => c && c._id === summary._id ? { ...c, ...summary, owner: c.owner, previews: c.previews } : c);
+  }
+}
@@ -0,0 +1,62 @@
+import { Component, inject, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ReportService, ReportTarget, ReportReason, REPORT_REASONS } from '../../../services/report.service';
+
+/**
+ * Report Dialog - Lets a user report a post, comment, user, message or trip
+ * Shared by every screen that shows user content; the host decides when to render it
+ */
+@Component({
+  selector: 'app-report-dialog',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './report-dialog.component.html',
+  styleUrl: './report-dialog.component.css'
+})
+export class ReportDialogComponent {
+  private reportService = inject(ReportService);
+
+  target = input.required<ReportTarget>();
+  closed = output<void>();
+
+  readonly reasons = REPORT_REASONS;
+
+  reason = signal<ReportReason | null>(null);
+  description = signal<string>('');
+  submitting = signal<boolean>(false);
+  submitted = signal<boolean>(false);
+  error = signal<string>('');
+
+  selectReason(reason: ReportReason): void {
+    this.reason.set(reason);
+    this.error.set('');
+  }
+
+  updateDescription(value: string): void {
+    this.description.set(value);
+  }
+
+  submit(): void {
+    const reason = this.reason();
+    if (!reason || this.submitting()) return;
+
+    this.submitting.set(true);
+    this.error.set('');
+
+    this.reportService.createReport(this.target(), reason, this.description().trim() || undefined).subscribe({
+      next: () => {
+        this.submitting.set(false);
+        this.submitted.set(true);
+      },
+      error: (err) => {
+        console.error('Error submitting report:', err);
+        this.error.set(err.error?.message || 'Failed to send report. Please try again.');
+        this.submitting.set(false);
+      }
+    });
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+}
@@ -1,76 +1,314 @@
-import { Component, signal } from '@angular/core';
+import { Component, HostListener, OnInit, signal, computed, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { HttpErrorResponse } from '@angular/common/http';
+import { AuthService, AuthError } from '../../services/auth.service';
+import { SettingsService, UserSettings, UserSettingsUpdate, FieldErrors, toFieldErrors } from '../../services/settings.service';
+import { ThemeService, ThemePreference } from '../../services/theme.service';
+import { HasUnsavedChanges } from '../../guards/unsaved-changes.guard';
+import { TwoFactorSettingsComponent, TwoFactorState } from './two-factor/two-factor.component';
+
+type SettingsTab = 'Account' | 'Security' | 'Privacy' | 'Appearance' | 'Sessions';
+
+// Tab that shows each settings group, to jump to the first invalid field after a save
+const TAB_BY_GROUP: Record<string, SettingsTab> = {
+  account: 'Account',
+  security: 'Security',
+  privacy: 'Privacy',
+  appearance: 'Appearance'
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PASSWORD_PATTERN = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/;
 
 @Component({
   selector: 'app-settings',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, RouterLink, TwoFactorSettingsComponent],
   templateUrl: './settings.component.html',
   styleUrl: './settings.component.css'
 })
-export class SettingsComponent {
-  readonly tabs = ['Account', 'Security', 'Privacy', 'Appearance', 'Sessions'] as const;
-  activeTab = signal<(typeof this.tabs)[number]>('Account');
+export class SettingsComponent implements OnInit, HasUnsavedChanges {
+  private authService = inject(AuthService);
+  private settingsService = inject(SettingsService);
+  private themeService = inject(ThemeService);
 
-  // Account
-  displayName = signal<string>('Alex Traveler');
-  email = signal<string>('alex@example.com');
+  readonly tabs: readonly SettingsTab[] = ['Account', 'Security', 'Privacy', 'Appearance', 'Sessions'];
+  activeTab = signal<SettingsTab>('Account');
 
+  // Last state loaded from or saved to the server
+  saved = signal<UserSettings | null>(null);
+  loading = signal<boolean>(true);
+  loadError = signal<string>('');
+  saving = signal<boolean>(false);
+  saveMessage = signal<string>('');
+  saveError = signal<string>('');
+  fieldErrors = signal<FieldErrors>({});
 
+  // Account
+  displayName = signal<string>('');
+  email = signal<string>('');
+  emailPassword = signal<string>(''); // Required by the API to change the email
 
   // Privacy
-  isPrivate = signal<boolean>(false);
   showOnline = signal<boolean>(true);
   allowRequests = signal<boolean>(true);
 
   // Security
-  twoFactor = signal<boolean>(false);
   loginAlerts = signal<boolean>(true);
   currentPassword = signal<string>('');
   newPassword = signal<string>('');
   confirmPassword = signal<string>('');
   passwordSaving = signal<boolean>(false);
   passwordMessage = signal<string>('');
+  passwordErrors = signal<FieldErrors>({});
 
   // Appearance
-  theme = signal<'system' | 'light' | 'dark'>('system');
+  theme = signal<ThemePreference>('system');
   compactMode = signal<boolean>(false);
 
-  setTab(tab: (typeof this.tabs)[number]) {
+  // The form as a settings document, normalized the way the API stores it
+  private formValues = computed(() => ({
+    account: { fullName: this.displayName().trim(), email: this.email().trim().toLowerCase() },
+    privacy: { showOnline: this.showOnline(), allowJoinRequests: this.allowRequests() },
+    security: { loginAlerts: this.loginAlerts() },
+    appearance: { theme: this.theme(), compactMode: this.compactMode() }
+  }));
+
+  // Only the fields that differ from the saved settings
+  changes = computed<UserSettingsUpdate>(() => {
+    const saved = this.saved();
+    if (!saved) return {};
+
+    const values = this.formValues();
+    const update: Record<string, Record<string, unknown>> = {};
+    (Object.keys(values) as (keyof typeof values)[]).forEach(group => {
+      const savedGroup = saved[group] as Record<string, unknown>;
+      Object.entries(values[group]).forEach(([key, value]) => {
+        if (savedGroup[key] !== value) {
+          (update[group] ||= {})[key] = value;
+        }
+      });
+    });
+    return update;
+  });
+
+  settingsChanged = computed(() => Object.keys(this.changes()).length > 0);
+  hasUnsavedChanges = computed(() =>
+    this.settingsChanged() || !!(this.currentPassword() || this.newPassword() || this.confirmPassword())
+  );
+
+  ngOnInit(): void {
+    this.loadSettings();
+  }
+
+  // Also warn before closing or reloading the tab
+  @HostListener('window:beforeunload', ['$event'])
+  onBeforeUnload(event: BeforeUnloadEvent): void {
+    if (this.hasUnsavedChanges()) {
+      event.preventDefault();
+    }
+  }
+
+  loadSettings(): void {
+    this.loading.set(true);
+    this.loadError.set('');
+    this.settingsService.getSettings().subscribe({
+      next: (response) => {
+        this.applySaved(response.data);
+        this.loading.set(false);
+      },
+      error: (err: HttpErrorResponse) => {
+        console.error('Error loading settings:', err);
+        this.loadError.set(err.error?.message || 'Failed to load your settings');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  setTab(tab: SettingsTab) {
     this.activeTab.set(tab);
   }
 
+  /**
+   * Update a field and clear its validation error
+   */
+  setField<T>(field: { set: (value: T) => void }, path: string, value: T): void {
+    field.set(value);
+    this.saveMessage.set('');
+    if (this.fieldErrors()[path]) {
+      this.fieldErrors.update(errors => {
+        const { [path]: _, ...rest } = errors;
+        return rest;
+      });
+    }
+  }
+
   saveAll() {
-    // In real app, call API to persist
-    console.log('Settings saved');
+    this.saveMessage.set('');
+    this.saveError.set('');
+
+    const errors = this.validateSettings();
+    this.fieldErrors.set(errors);
+    if (Object.keys(errors).length > 0) {
+      this.showFirstError(errors);
+      return;
+    }
+    if (!this.settingsChanged()) return;
+
+    const update = { ...this.changes() };
+    if (update.account?.email) {
+      update.account = { ...update.account, currentPassword: this.emailPassword() };
+    }
+
+    this.saving.set(true);
+    this.settingsService.updateSettings(update).subscribe({
+      next: (response) => {
+        this.emailPassword.set('');
+        this.applySaved(response.data);
+        this.syncCurrentUser(response.data);
+        this.saveMessage.set(response.message);
+        this.saving.set(false);
+      },
+      error: (err: HttpErrorResponse) => {
+        console.error('Error saving settings:', err);
+        const fieldErrors = toFieldErrors(err.error?.errors);
+        this.fieldErrors.set(fieldErrors);
+        if (Object.keys(fieldErrors).length > 0) {
+          this.showFirstError(fieldErrors);
+        } else {
+          this.saveError.set(err.error?.message || 'Failed to save settings');
+        }
+        this.saving.set(false);
+      }
+    });
+  }
+
+  /**
+   * Put the form back to the saved settings
+   */
+  discardChanges() {
+    const saved = this.saved();
+    if (saved) this.applySaved(saved);
+    this.emailPassword.set('');
+    this.saveMessage.set('');
+    this.saveError.set('');
   }
 
-  async changePassword() {
+  changePassword() {
     this.passwordMessage.set('');
-    const curr = this.currentPassword().trim();
-    const next = this.newPassword().trim();
-    const conf = this.confirmPassword().trim();
-    if (!curr || !next) {
-      this.passwordMessage.set('Please fill all password fields.');
-      return;
+
+    const errors = this.validatePassword();
+    this.passwordErrors.set(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    this.passwordSaving.set(true);
+    this.authService.changePassword(this.currentPassword(), this.newPassword()).subscribe({
+      next: (response) => {
+        this.passwordSaving.set(false);
+        this.currentPassword.set('');
+        this.newPassword.set('');
+        this.confirmPassword.set('');
+        this.passwordMessage.set(response.message);
+      },
+      error: (err: AuthError) => {
+        this.passwordSaving.set(false);
+        const fieldErrors = toFieldErrors(err.errors);
+        this.passwordErrors.set(fieldErrors);
+        if (Object.keys(fieldErrors).length === 0) {
+          this.passwordMessage.set(err.message || 'Failed to change password');
+        }
+      }
+    });
+  }
+
+  /**
+   * Two-factor changes are saved right away, so just keep the saved settings in step
+   */
+  onTwoFactorChanged(state: TwoFactorState): void {
+    this.saved.update(settings => settings && { ...settings, security: { ...settings.security, ...state } });
+  }
+
+  /**
+   * Update a password field and clear its validation error
+   */
+  setPasswordField(field: { set: (value: string) => void }, path: string, value: string): void {
+    field.set(value);
+    this.passwordMessage.set('');
+    if (this.passwordErrors()[path]) {
+      this.passwordErrors.update(errors => {
+        const { [path]: _, ...rest } = errors;
+        return rest;
+      });
     }
-    if (next.length < 8) {
-      this.passwordMessage.set('New password must be at least 8 characters.');
-      return;
+  }
+
+  // Same rules as the API's validateUpdateSettings
+  private validateSettings(): FieldErrors {
+    const errors: FieldErrors = {};
+    const { fullName, email } = this.formValues().account;
+    if (fullName.length < 2 || fullName.length > 100) {
+      errors['account.fullName'] = 'Display name must be between 2 and 100 characters';
     }
-    if (next !== conf) {
-      this.passwordMessage.set('Passwords do not match.');
-      return;
+    if (!EMAIL_PATTERN.test(email)) {
+      errors['account.email'] = 'Please provide a valid email address';
+    } else if (this.changes().account?.email && !this.emailPassword()) {
+      errors['account.currentPassword'] = 'Enter your current password to change your email';
     }
-    this.passwordSaving.set(true);
-    await new Promise(res => setTimeout(res, 800));
-    this.passwordSaving.set(false);
-    this.currentPassword.set('');
-    this.newPassword.set('');
-    this.confirmPassword.set('');
-    this.passwordMessage.set('Password updated successfully.');
+    return errors;
   }
-}
 
+  // Same rules as the API's validateChangePassword
+  private validatePassword(): FieldErrors {
+    const errors: FieldErrors = {};
+    const current = this.currentPassword();
+    const next = this.newPassword();
+
+    if (!current) {
+      errors['currentPassword'] = 'Current password is required';
+    }
+    if (next.length < 6) {
+      errors['newPassword'] = 'New password must be at least 6 characters long';
+    } else if (!PASSWORD_PATTERN.test(next)) {
+      errors['newPassword'] = 'New password must contain at least one uppercase letter, one lowercase letter, and one number';
+    } else if (next === current) {
+      errors['newPassword'] = 'New password must be different from current password';
+    }
+    if (next !== this.confirmPassword()) {
+      errors['confirmPassword'] = 'Passwords do not match';
+    }
+    return errors;
+  }
 
+  private showFirstError(errors: FieldErrors): void {
+    const group = Object.keys(errors)[0].split('.')[0];
+    const tab = TAB_BY_GROUP[group];
+    if (tab) this.activeTab.set(tab);
+  }
+
+  private applySaved(settings: UserSettings): void {
+    this.saved.set(settings);
+    this.displayName.set(settings.account.fullName);
+    this.email.set(settings.account.email);
+    this.showOnline.set(settings.privacy.showOnline);
+    this.allowRequests.set(settings.privacy.allowJoinRequests);
+    this.loginAlerts.set(settings.security.loginAlerts);
+    this.theme.set(settings.appearance.theme);
+    this.compactMode.set(settings.appearance.compactMode);
+    this.themeService.apply(settings.appearance);
+  }
+
+  // Account and presence fields live on the user, so keep the signed-in copy in step
+  private syncCurrentUser(settings: UserSettings): void {
+    const user = this.authService.user();
+    if (!user) return;
+    this.authService.updateCurrentUser({
+      ...user,
+      fullName: settings.account.fullName,
+      email: settings.account.email,
+      isVerified: settings.account.isVerified,
+      showOnline: settings.privacy.showOnline
+    });
+  }
+}
@@ -0,0 +1,183 @@
+import { Component, computed, inject, input, output, signal } from '@angular/core';
+import { AuthService, AuthError, TwoFactorSetup } from '../../../services/auth.service';
+import { FieldErrors, toFieldErrors } from '../../../services/settings.service';
+
+export interface TwoFactorState {
+  twoFactorEnabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// What the section is showing: status, enrollment, fresh recovery codes, or a re-auth form
+type TwoFactorStep = 'status' | 'setup' | 'codes' | 'reauth';
+type ReauthAction = 'disable' | 'regenerate';
+
+/**
+ * Two-Factor Settings - TOTP enrollment with a QR code and manual secret,
+ * one-time recovery codes, and turning 2FA off after re-authenticating
+ */
+@Component({
+  selector: 'app-two-factor-settings',
+  standalone: true,
+  templateUrl: './two-factor.component.html',
+  styleUrl: './two-factor.component.css'
+})
+export class TwoFactorSettingsComponent {
+  private authService = inject(AuthService);
+
+  enabled = input.required<boolean>();
+  recoveryCodesRemaining = input<number>(0);
+  changed = output<TwoFactorState>();
+
+  step = signal<TwoFactorStep>('status');
+  reauthFor = signal<ReauthAction>('disable');
+  setup = signal<TwoFactorSetup | null>(null);
+  recoveryCodes = signal<string[]>([]);
+  code = signal<string>('');
+  password = signal<string>('');
+  busy = signal<boolean>(false);
+  error = signal<string>('');
+  errors = signal<FieldErrors>({});
+  copied = signal<boolean>(false);
+
+  // Secret in groups of four, easier to type into an app by hand
+  formattedSecret = computed(() => this.setup()?.secret.match(/.{1,4}/g)?.join(' ') || '');
+
+  startSetup(): void {
+    this.resetForm();
+    this.busy.set(true);
+    this.authService.setupTwoFactor().subscribe({
+      next: (response) => {
+        this.setup.set(response.data);
+        this.step.set('setup');
+        this.busy.set(false);
+      },
+      error: (err: AuthError) => {
+        this.error.set(err.message || 'Failed to start two-factor setup');
+        this.busy.set(false);
+      }
+    });
+  }
+
+  confirmSetup(): void {
+    const code = this.code().trim();
+    if (!/^\d{6}$/.test(code)) {
+      this.errors.set({ code: 'Enter the 6-digit code from your authenticator app' });
+      return;
+    }
+
+    this.busy.set(true);
+    this.authService.enableTwoFactor(code).subscribe({
+      next: (response) => {
+        this.busy.set(false);
+        this.setup.set(null);
+        this.showRecoveryCodes(response.data.recoveryCodes);
+        this.changed.emit({ twoFactorEnabled: true, recoveryCodesRemaining: response.data.recoveryCodes.length });
+      },
+      error: (err: AuthError) => this.handleError(err, 'Failed to enable two-factor authentication')
+    });
+  }
+
+  /**
+   * Open the password + code form for turning 2FA off or replacing recovery codes
+   */
+  startReauth(action: ReauthAction): void {
+    this.resetForm();
+    this.reauthFor.set(action);
+    this.step.set('reauth');
+  }
+
+  submitReauth(): void {
+    const errors: FieldErrors = {};
+    if (!this.password()) errors['password'] = 'Password is required';
+    if (!this.code().trim()) errors['code'] = 'Authentication code is required';
+    this.errors.set(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    this.busy.set(true);
+    if (this.reauthFor() === 'disable') {
+      this.authService.disableTwoFactor(this.password(), this.code().trim()).subscribe({
+        next: () => {
+          this.busy.set(false);
+          this.cancel();
+          this.changed.emit({ twoFactorEnabled: false, recoveryCodesRemaining: 0 });
+        },
+        error: (err: AuthError) => this.handleError(err, 'Failed to disable two-factor authentication')
+      });
+    } else {
+      this.authService.regenerateRecoveryCodes(this.password(), this.code().trim()).subscribe({
+        next: (response) => {
+          this.busy.set(false);
+          this.showRecoveryCodes(response.data.recoveryCodes);
+          this.changed.emit({ twoFactorEnabled: true, recoveryCodesRemaining: response.data.recoveryCodes.length });
+        },
+        error: (err: AuthError) => this.handleError(err, 'Failed to generate recovery codes')
+      });
+    }
+  }
+
+  /**
+   * Back to the status view; recovery codes are never shown again
+   */
+  cancel(): void {
+    this.resetForm();
+    this.setup.set(null);
+    this.recoveryCodes.set([]);
+    this.step.set('status');
+  }
+
+  setInput(field: 'code' | 'password', value: string): void {
+    this[field].set(value);
+    this.error.set('');
+    if (this.errors()[field]) {
+      this.errors.update(errors => {
+        const { [field]: _, ...rest } = errors;
+        return rest;
+      });
+    }
+  }
+
+  copyCodes(): void {
+    navigator.clipboard.writeText(this.recoveryCodes().join('\n')).then(() => {
+      this.copied.set(true);
+      setTimeout(() => this.copied.set(false), 2000);
+    }).catch(err => console.error('Error copying recovery codes:', err));
+  }
+
+  downloadCodes(): void {
+    const text = [
+      'TravelConnect recovery codes',
+      'Each code can be used once to sign in without your authenticator app.',
+      '',
+      ...this.recoveryCodes()
+    ].join('\n');
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'travelconnect-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private showRecoveryCodes(codes: string[]): void {
+    this.resetForm();
+    this.recoveryCodes.set(codes);
+    this.step.set('codes');
+  }
+
+  private handleError(err: AuthError, fallback: string): void {
+    this.busy.set(false);
+    const fieldErrors = toFieldErrors(err.errors);
+    this.errors.set(fieldErrors);
+    if (Object.keys(fieldErrors).length === 0) {
+      this.error.set(err.message || fallback);
+    }
+  }
+
+  private resetForm(): void {
+    this.code.set('');
+    this.password.set('');
+    this.error.set('');
+    this.errors.set({});
+    this.copied.set(false);
+  }
+}
@@ -0,0 +1,65 @@
+import { Component, OnDestroy, OnInit, inject, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { StoryService, Story } from '../../../services/story.service';
+
+/**
+ * Story Composer - Preview a picked photo or video, add a caption and share it as a story
+ */
+@Component({
+  selector: 'app-story-composer',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './story-composer.component.html',
+  styleUrl: './story-composer.component.css'
+})
+export class StoryComposerComponent implements OnInit, OnDestroy {
+  private storyService = inject(StoryService);
+
+  file = input.required<File>();
+  posted = output<Story>();
+  closed = output<void>();
+
+  previewUrl = signal<string>('');
+  caption = signal<string>('');
+  posting = signal<boolean>(false);
+  error = signal<string>('');
+
+  ngOnInit(): void {
+    this.previewUrl.set(URL.createObjectURL(this.file()));
+  }
+
+  ngOnDestroy(): void {
+    URL.revokeObjectURL(this.previewUrl());
+  }
+
+  isVideo(): boolean {
+    return this.file().type.startsWith('video/');
+  }
+
+  updateCaption(value: string): void {
+    this.caption.set(value);
+  }
+
+  share(): void {
+    if (this.posting()) return;
+
+    this.posting.set(true);
+    this.error.set('');
+
+    this.storyService.createStory(this.file(), this.caption().trim() || undefined).subscribe({
+      next: (response) => {
+        this.posting.set(false);
+        this.posted.emit(response.data);
+      },
+      error: (err) => {
+        console.error('Error posting story:', err);
+        this.error.set(err.error?.message || 'Failed to post story. Please try again.');
+        this.posting.set(false);
+      }
+    });
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+}
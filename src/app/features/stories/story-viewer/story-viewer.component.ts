@@ -0,0 +1,247 @@
+import { Component, ElementRef, HostListener, OnDestroy, OnInit, ViewChild, computed, inject, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { StoryService, StoryGroup, Story, StoryViewer } from '../../../services/story.service';
+
+// How long a photo story stays on screen
+const IMAGE_DURATION_MS = 5000;
+const TICK_MS = 50;
+// Presses longer than this are a pause, not a tap
+const HOLD_THRESHOLD_MS = 250;
+
+/**
+ * Story Viewer - Full-screen player for the stories tray
+ * Plays each author's stories in order with progress bars; tap the left side to go back, anywhere else to advance
+ */
+@Component({
+  selector: 'app-story-viewer',
+  standalone: true,
+  imports: [CommonModule, RouterModule],
+  templateUrl: './story-viewer.component.html',
+  styleUrl: './story-viewer.component.css'
+})
+export class StoryViewerComponent implements OnInit, OnDestroy {
+  @ViewChild('video') video?: ElementRef<HTMLVideoElement>;
+
+  private storyService = inject(StoryService);
+
+  groups = input.required<StoryGroup[]>();
+  startIndex = input<number>(0);
+  closed = output<void>();
+  storySeen = output<{ userId: string; storyId: string }>();
+  storyDeleted = output<{ userId: string; storyId: string }>();
+
+  groupIndex = signal<number>(0);
+  storyIndex = signal<number>(0);
+  progress = signal<number>(0); // 0..1 for the current story
+  paused = signal<boolean>(false);
+
+  // Viewer list for the author's own stories
+  showViewers = signal<boolean>(false);
+  viewers = signal<StoryViewer[]>([]);
+  loadingViewers = signal<boolean>(false);
+
+  readonly group = computed(() => this.groups()[this.groupIndex()] || null);
+  readonly story = computed(() => this.group()?.stories[this.storyIndex()] || null);
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pressedAt = 0;
+
+  ngOnInit(): void {
+    this.groupIndex.set(this.startIndex());
+    // Resume an author's stories at the first one not seen yet
+    const stories = this.group()?.stories || [];
+    const firstUnseen = stories.findIndex(s => !s.seen);
+    this.storyIndex.set(firstUnseen > 0 ? firstUnseen : 0);
+    this.startStory();
+  }
+
+  ngOnDestroy(): void {
+    this.stopTimer();
+  }
+
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Escape') this.close();
+    else if (event.key === 'ArrowRight') this.next();
+    else if (event.key === 'ArrowLeft') this.previous();
+  }
+
+  // Navigation
+
+  next(): void {
+    const group = this.group();
+    if (!group) return;
+
+    if (this.storyIndex() < group.stories.length - 1) {
+      this.storyIndex.update(i => i + 1);
+    } else if (this.groupIndex() < this.groups().length - 1) {
+      this.groupIndex.update(i => i + 1);
+      this.storyIndex.set(0);
+    } else {
+      this.close();
+      return;
+    }
+    this.startStory();
+  }
+
+  previous(): void {
+    if (this.storyIndex() > 0) {
+      this.storyIndex.update(i => i - 1);
+    } else if (this.groupIndex() > 0) {
+      this.groupIndex.update(i => i - 1);
+      this.storyIndex.set(this.group()!.stories.length - 1);
+    }
+    this.startStory();
+  }
+
+  // Tap on the left third goes back, anywhere else goes forward
+  onTap(event: MouseEvent): void {
+    if (Date.now() - this.pressedAt > HOLD_THRESHOLD_MS) return;
+    const target = event.currentTarget as HTMLElement;
+    const x = event.clientX - target.getBoundingClientRect().left;
+    if (x < target.clientWidth / 3) this.previous(); else this.next();
+  }
+
+  // Press and hold to pause
+  press(): void {
+    this.pressedAt = Date.now();
+    this.hold();
+  }
+
+  hold(): void {
+    this.paused.set(true);
+    this.video?.nativeElement.pause();
+  }
+
+  release(): void {
+    this.paused.set(false);
+    this.video?.nativeElement.play().catch(() => {});
+  }
+
+  close(): void {
+    this.stopTimer();
+    this.closed.emit();
+  }
+
+  // Video stories drive their own progress
+
+  onVideoProgress(): void {
+    const video = this.video?.nativeElement;
+    if (video && video.duration) {
+      this.progress.set(video.currentTime / video.duration);
+    }
+  }
+
+  // Progress bar fill for each story of the current author
+  getBarFill(index: number): number {
+    if (index < this.storyIndex()) return 100;
+    if (index > this.storyIndex()) return 0;
+    return Math.min(this.progress() * 100, 100);
+  }
+
+  // Viewers
+
+  toggleViewers(): void {
+    const story = this.story();
+    if (!story) return;
+
+    if (this.showViewers()) {
+      this.showViewers.set(false);
+      this.release();
+      return;
+    }
+
+    this.hold();
+    this.showViewers.set(true);
+    this.loadingViewers.set(true);
+    this.storyService.getViewers(story._id).subscribe({
+      next: (response) => {
+        this.viewers.set(response.data);
+        this.loadingViewers.set(false);
+      },
+      error: (err) => {
+        console.error('Error loading story viewers:', err);
+        this.loadingViewers.set(false);
+      }
+    });
+  }
+
+  deleteStory(): void {
+    const group = this.group();
+    const story = this.story();
+    if (!group || !story) return;
+
+    this.hold();
+    if (!confirm('Delete this story?')) {
+      this.release();
+      return;
+    }
+
+    this.storyService.deleteStory(story._id).subscribe({
+      next: () => {
+        this.storyDeleted.emit({ userId: group.user._id, storyId: story._id });
+        this.close();
+      },
+      error: (err) => {
+        console.error('Error deleting story:', err);
+        this.release();
+      }
+    });
+  }
+
+  // Template helpers
+
+  getMediaUrl(story: Story): string {
+    return this.storyService.getMediaUrl(story.media);
+  }
+
+  getAvatarUrl(group: StoryGroup): string {
+    return this.storyService.getAvatarUrl(group.user);
+  }
+
+  getAge(story: Story): string {
+    const minutes = Math.floor((Date.now() - new Date(story.createdAt).getTime()) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m`;
+    return `${Math.floor(minutes / 60)}h`;
+  }
+
+  getViewerAvatarUrl(viewer: StoryViewer): string {
+    return this.storyService.getAvatarUrl(viewer.user);
+  }
+
+  private startStory(): void {
+    this.stopTimer();
+    this.progress.set(0);
+    this.paused.set(false);
+    this.showViewers.set(false);
+
+    const group = this.group();
+    const story = this.story();
+    if (!group || !story) return;
+
+    if (!story.seen && !group.isOwn) {
+      this.storyService.markViewed(story._id).subscribe({
+        next: () => this.storySeen.emit({ userId: group.user._id, storyId: story._id }),
+        error: (err) => console.error('Error marking story as seen:', err)
+      });
+    }
+
+    // Videos report progress through their own events
+    if (story.mediaType === 'video') return;
+
+    this.timer = setInterval(() => {
+      if (this.paused()) return;
+      this.progress.update(p => p + TICK_MS / IMAGE_DURATION_MS);
+      if (this.progress() >= 1) this.next();
+    }, TICK_MS);
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import { Component, OnInit, inject, input, signal } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { RouterModule } from '@angular/router';
+import { TripService, TripInviteLink, InviteRole, InviteStatus } from '../../../services/trip.service';
+import { environment } from '../../../../environments/environment';
+
+/**
+ * Invite Links - Lets the owner and co-owners create role-scoped invite links
+ * for a trip, copy or revoke them, and see who joined through each one
+ */
+@Component({
+  selector: 'app-trip-invite-links',
+  standalone: true,
+  imports: [DatePipe, RouterModule],
+  templateUrl: './invite-links.component.html',
+  styleUrl: './invite-links.component.css'
+})
+export class InviteLinksComponent implements OnInit {
+  private tripService = inject(TripService);
+
+  tripId = input.required<string>();
+
+  readonly roles: { value: InviteRole; label: string; hint: string }[] = [
+    { value: 'viewer', label: 'Viewer', hint: 'Can see the trip' },
+    { value: 'editor', label: 'Editor', hint: 'Can plan the itinerary, checklist and expenses' },
+    { value: 'member', label: 'Member', hint: 'Joins as a trip member' }
+  ];
+  readonly expiryOptions: { value: number | null; label: string }[] = [
+    { value: 1, label: '1 day' },
+    { value: 7, label: '7 days' },
+    { value: 30, label: '30 days' },
+    { value: null, label: 'Never' }
+  ];
+  private readonly statusLabels: Record<InviteStatus, string> = {
+    active: 'Active',
+    revoked: 'Revoked',
+    expired: 'Expired',
+    used_up: 'Used up'
+  };
+
+  links = signal<TripInviteLink[]>([]);
+  loading = signal<boolean>(false);
+  error = signal<string>('');
+  creating = signal<boolean>(false);
+  role = signal<InviteRole>('viewer');
+  expiresInDays = signal<number | null>(7);
+  maxUses = signal<string>(''); // Empty for unlimited
+  copiedId = signal<string | null>(null);
+  expandedId = signal<string | null>(null);
+
+  ngOnInit(): void {
+    this.loadLinks();
+  }
+
+  loadLinks(): void {
+    this.loading.set(true);
+    this.tripService.getInviteLinks(this.tripId()).subscribe({
+      next: (response) => {
+        this.links.set(response.data);
+        this.loading.set(false);
+      },
+      error: (err) => {
+        console.error('Error loading invite links:', err);
+        this.error.set(err.error?.message || 'Failed to load invite links');
+        this.loading.set(false);
+      }
+    });
+  }
+
+  setExpiry(value: string): void {
+    this.expiresInDays.set(value === '' ? null : Number(value));
+  }
+
+  createLink(): void {
+    const maxUsesText = this.maxUses().trim();
+    const maxUses = maxUsesText ? Number(maxUsesText) : null;
+    if (maxUses !== null && (!Number.isInteger(maxUses) || maxUses < 1)) {
+      this.error.set('Maximum uses must be a whole number of at least 1');
+      return;
+    }
+
+    this.creating.set(true);
+    this.error.set('');
+    this.tripService.createInviteLink(this.tripId(), {
+      role: this.role(),
+      expiresInDays: this.expiresInDays(),
+      maxUses
+    }).subscribe({
+      next: (response) => {
+        this.links.update(links => [response.data, ...links]);
+        this.maxUses.set('');
+        this.creating.set(false);
+        this.copyLink(response.data);
+      },
+      error: (err) => {
+        console.error('Error creating invite link:', err);
+        this.error.set(err.error?.message || 'Failed to create invite link');
+        this.creating.set(false);
+      }
+    });
+  }
+
+  revokeLink(link: TripInviteLink): void {
+    if (!confirm('Revoke this invite link? People who already joined keep their access.')) return;
+
+    this.tripService.revokeInviteLink(this.tripId(), link._id).subscribe({
+      next: (response) => {
+        this.links.update(links => links.map(l => l._id === link._id ? response.data : l));
+      },
+      error: (err) => {
+        console.error('Error revoking invite link:', err);
+        this.error.set(err.error?.message || 'Failed to revoke invite link');
+      }
+    });
+  }
+
+  copyLink(link: TripInviteLink): void {
+    // Build the URL from this origin so links work wherever the app is served
+    const url = `${window.location.origin}/trips/${this.tripId()}?code=${link.code}`;
+    navigator.clipboard.writeText(url).then(() => {
+      this.copiedId.set(link._id);
+      setTimeout(() => {
+        if (this.copiedId() === link._id) this.copiedId.set(null);
+      }, 2000);
+    }).catch(err => console.error('Error copying invite link:', err));
+  }
+
+  toggleUses(link: TripInviteLink): void {
+    this.expandedId.update(id => id === link._id ? null : link._id);
+  }
+
+  getRoleLabel(role: InviteRole): string {
+    return this.roles.find(r => r.value === role)?.label || role;
+  }
+
+  getRoleHint(): string {
+    return this.roles.find(r => r.value === this.role())?.hint || '';
+  }
+
+  getStatusLabel(status: InviteStatus): string {
+    return this.statusLabels[status];
+  }
+
+  getUsesLabel(link: TripInviteLink): string {
+    return link.maxUses ? `${link.uses.length}/${link.maxUses} uses` : `${link.uses.length} ${link.uses.length === 1 ? 'use' : 'uses'}`;
+  }
+
+  getAvatarUrl(user: { profilePicture?: string }): string {
+    const pic = user.profilePicture;
+    if (!pic) return '/assets/images/avatars/user.svg';
+    return pic.startsWith('http') ? pic : `${environment.backendUrl}${pic}`;
+  }
+}
@@ -2,9 +2,16 @@ import { Component, signal, computed, inject, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ActivatedRoute, Router, RouterModule } from '@angular/router';
 import { FormsModule, ReactiveFormsModule } from '@angular/forms';
-import { TripService } from '../../../services/trip.service';
+import { CdkDrag, CdkDragDrop, CdkDropList, CdkDropListGroup, moveItemInArray, transferArrayItem } from '@angular/cdk/drag-drop';
+import { TripService, ExpenseSummary, ExpenseCategory, TripExpense, TripPhoto, TripStatus, TripCancellation, TripAccess, TripPermission, TripRole, ItineraryPosition, ItineraryIssue, TravelMode, TripInvite } from '../../../services/trip.service';
+import { ItineraryValidationService, TravelSettings, DEFAULT_TRAVEL_SETTINGS } from '../../../services/itinerary-validation.service';
 import { AuthService } from '../../../services/auth.service';
+import { ProfileService } from '../../../services/profile.service';
 import { GoogleMapsService } from '../../../services/google-maps.service';
+import { ReportTarget } from '../../../services/report.service';
+import { ReportDialogComponent } from '../../reports/report-dialog/report-dialog.component';
+import { SaveDialogComponent } from '../../collections/save-dialog/save-dialog.component';
+import { InviteLinksComponent } from '../invite-links/invite-links.component';
 import { environment } from '../../../../environments/environment';
 
 interface User {
@@ -27,19 +34,21 @@ interface ChecklistItem {
 interface ItineraryItem {
   _id: string;
   day: number;
+  order: number;
   date: string;
   startTime?: string;
   endTime?: string;
   title: string;
   location: string;
   notes?: string;
+  coordinates?: { lat: number; lng: number } | null;
+  travelMode?: TravelMode;
   createdAt: string;
 }
 
 interface Collaborator {
   user: User;
-  role: 'viewer' | 'editor' | 'admin';
-  addedAt: string;
+  role: TripRole;
 }
 
 interface JoinRequest {
@@ -64,6 +73,8 @@ interface Trip {
   startDate: string;
   endDate: string;
   coverImage?: string;
+  status: TripStatus;
+  cancellation?: TripCancellation;
   isPublic: boolean;
   maxMembers: number;
   tripType: string;
@@ -73,9 +84,13 @@ interface Trip {
   members: User[];
   collaborators: Collaborator[];
   itinerary: ItineraryItem[];
+  itineraryVersion: number;
   checklist: ChecklistItem[];
   joinRequests: JoinRequest[];
-  shareCode: string;
+  invite: TripInvite | null; // Invite link the page was opened with
+  photos: TripPhoto[];
+  access: TripAccess;
+  isSaved: boolean; // Saved to one of the current user's collections
 
   createdAt: string;
   updatedAt: string;
@@ -84,7 +99,7 @@ interface Trip {
 @Component({
   selector: 'app-trip-details',
   standalone: true,
-  imports: [CommonModule, RouterModule, FormsModule, ReactiveFormsModule],
+  imports: [CommonModule, RouterModule, FormsModule, ReactiveFormsModule, CdkDropListGroup, CdkDropList, CdkDrag, ReportDialogComponent, SaveDialogComponent, InviteLinksComponent],
   templateUrl: './trip-details.component.html',
   styleUrl: './trip-details.component.css'
 })
@@ -94,15 +109,18 @@ export class TripDetailsComponent implements OnInit {
   private tripService = inject(TripService);
   private authService = inject(AuthService);
   private googleMaps = inject(GoogleMapsService);
+  private profileService = inject(ProfileService);
+  private itineraryValidation = inject(ItineraryValidationService);
 
   // Core state
   tripId = signal<string>('');
+  inviteCode = signal<string>(''); // From ?code= on invite links
   trip = signal<Trip | null>(null);
   isLoading = signal<boolean>(true);
   error = signal<string | null>(null);
 
   // UI state
-  activeTab = signal<'overview' | 'itinerary' | 'checklist' | 'members' | 'settings'>('overview');
+  activeTab = signal<'overview' | 'itinerary' | 'checklist' | 'expenses' | 'photos' | 'members' | 'settings'>('overview');
 
   // Edit mode states
   isEditingTrip = signal<boolean>(false);
@@ -113,10 +131,28 @@ export class TripDetailsComponent implements OnInit {
   newItineraryItem = signal<Partial<ItineraryItem>>({});
   selectedDay = signal<number>(1);
   togglingItems = signal<Set<string>>(new Set());
+  itinerarySaving = signal<boolean>(false);
+  itineraryError = signal<string | null>(null);
+  travelSettings = signal<TravelSettings>(DEFAULT_TRAVEL_SETTINGS);
+  readonly travelModes: { value: TravelMode; label: string }[] = [
+    { value: 'walking', label: 'Walking' },
+    { value: 'cycling', label: 'Cycling' },
+    { value: 'transit', label: 'Public transport' },
+    { value: 'driving', label: 'Driving' }
+  ];
 
   // Modals and UI
   showDeleteModal = signal<boolean>(false);
+  showCancelModal = signal<boolean>(false);
+  cancelReason = signal<string>('');
+  cancelError = signal<string | null>(null);
+  cancellingTrip = signal<boolean>(false);
   showShareModal = signal<boolean>(false);
+  tripLinkCopied = signal<boolean>(false);
+  joiningWithInvite = signal<boolean>(false);
+  inviteJoinError = signal<string | null>(null);
+  reportTarget = signal<ReportTarget | null>(null);
+  showSaveDialog = signal<boolean>(false);
   showInviteModal = signal<boolean>(false);
   showItineraryModal = signal<boolean>(false);
   editingItineraryId = signal<string | null>(null);
@@ -134,10 +170,55 @@ export class TripDetailsComponent implements OnInit {
     interests: [] as string[]
   });
 
+  // Expenses
+  readonly expenseCategories: { value: ExpenseCategory; label: string }[] = [
+    { value: 'accommodation', label: 'Accommodation' },
+    { value: 'transportation', label: 'Transportation' },
+    { value: 'food', label: 'Food & Drink' },
+    { value: 'activities', label: 'Activities' },
+    { value: 'shopping', label: 'Shopping' },
+    { value: 'other', label: 'Other' }
+  ];
+  expenseSummary = signal<ExpenseSummary | null>(null);
+  expensesLoading = signal<boolean>(false);
+  expenseError = signal<string | null>(null);
+  showExpenseModal = signal<boolean>(false);
+  editingExpenseId = signal<string | null>(null);
+  expenseForm = signal({
+    description: '',
+    amount: 0,
+    currency: '',
+    category: 'other' as ExpenseCategory,
+    paidBy: '',
+    splitAmong: [] as string[],
+    date: ''
+  });
+  budgetInput = signal<string>('');
+  budgetCurrencyInput = signal<string>('');
+  rateRows = signal<{ currency: string; rate: string }[]>([]);
+  rateErrors = signal<string[]>([]);
+  ratesSaving = signal<boolean>(false);
+
+  // Photo album
+  photoUploadDay = signal<string>(''); // '' lets the server pick today's day
+  photoCaption = signal<string>('');
+  photoUploading = signal<boolean>(false);
+  photoError = signal<string | null>(null);
+  selectedPhotoIndex = signal<number | null>(null);
+
   // User search for invitations
   userSearchQuery = signal<string>('');
   searchResults = signal<User[]>([]);
   searchLoading = signal<boolean>(false);
+  inviteRole = signal<TripRole>('editor');
+  invitingUser = signal<string | null>(null);
+  memberError = signal<string | null>(null);
+
+  readonly collaboratorRoles: { value: TripRole; label: string; description: string }[] = [
+    { value: 'viewer', label: 'Viewer', description: 'Can see the plan and expenses but not change anything' },
+    { value: 'editor', label: 'Editor', description: 'Can edit the itinerary, checklist, expenses and photos' },
+    { value: 'co-owner', label: 'Co-owner', description: 'Can also manage members, the budget and trip settings' }
+  ];
 
 
 
@@ -150,23 +231,37 @@ export class TripDetailsComponent implements OnInit {
 
   // Join request processing state
   processingJoinRequests = signal<Set<string>>(new Set());
-  isOwner = computed(() => {
-    const user = this.currentUser();
-    const trip = this.trip();
-    return user && trip && user.id === trip.createdBy.id;
-  });
+  isOwner = computed(() => this.trip()?.access.role === 'owner');
+
+  // Only the owner hands out or takes away the co-owner role
+  assignableRoles = computed(() =>
+    this.isOwner() ? this.collaboratorRoles : this.collaboratorRoles.filter(r => r.value !== 'co-owner'));
 
-  canEdit = computed(() => {
-    const user = this.currentUser();
+  // Everyone who can pay for or share an expense: the creator, members and collaborators
+  tripPeople = computed(() => {
     const trip = this.trip();
-    if (!user || !trip) return false;
+    if (!trip) return [];
+    const people = [trip.createdBy, ...trip.members, ...trip.collaborators.map(c => c.user)];
+    return people.filter((person, index) => person && people.findIndex(p => p?._id === person._id) === index);
+  });
 
-    // Owner can always edit
-    if (this.isOwner()) return true;
+  // Currencies to suggest in the expense form: the budget currency plus any with a rate
+  expenseCurrencies = computed(() => {
+    const summary = this.expenseSummary();
+    if (!summary) return [];
+    return [summary.currency, ...summary.exchangeRates.map(r => r.currency)];
+  });
 
-    // Check if user is a collaborator with edit permissions
-    const collaboration = trip.collaborators.find(c => c.user.id === user.id);
-    return collaboration && (collaboration.role === 'editor' || collaboration.role === 'admin');
+  categoryBreakdown = computed(() => {
+    const summary = this.expenseSummary();
+    if (!summary) return [];
+    return this.expenseCategories
+      .map(c => ({
+        ...c,
+        total: summary.categoryTotals[c.value] || 0,
+        percent: summary.totalExpenses > 0 ? Math.round(((summary.categoryTotals[c.value] || 0) / summary.totalExpenses) * 100) : 0
+      }))
+      .filter(c => c.total > 0);
   });
 
   tripDays = computed(() => {
@@ -198,6 +293,48 @@ export class TripDetailsComponent implements OnInit {
     return days;
   });
 
+  // Album photos grouped by itinerary day, in day order, with undated photos last
+  photoGroups = computed(() => {
+    const trip = this.trip();
+    if (!trip) return [];
+
+    const days = this.tripDays();
+    const groups = days
+      .map(d => ({
+        day: d.day as number | null,
+        label: `Day ${d.day}`,
+        subtitle: d.formattedDate,
+        photos: trip.photos.filter(p => p.day === d.day)
+      }))
+      .filter(g => g.photos.length > 0);
+
+    const undated = trip.photos.filter(p => !p.day || p.day > days.length);
+    if (undated.length > 0) {
+      groups.push({ day: null, label: 'Other photos', subtitle: 'Not tied to a trip day', photos: undated });
+    }
+    return groups;
+  });
+
+  // Flat list in display order so the lightbox can step through every group
+  albumPhotos = computed(() => this.photoGroups().flatMap(g => g.photos));
+
+  selectedPhoto = computed(() => {
+    const index = this.selectedPhotoIndex();
+    const photos = this.albumPhotos();
+    if (index === null || index < 0 || index >= photos.length) return null;
+    return photos[index];
+  });
+
+  // Overlaps, out-of-range days and tight transfers, re-checked on every itinerary change
+  itineraryIssues = computed<ItineraryIssue[]>(() => {
+    const trip = this.trip();
+    if (!trip) return [];
+    return this.itineraryValidation.validate(trip, this.travelSettings());
+  });
+
+  itineraryErrorCount = computed(() => this.itineraryIssues().filter(i => i.severity === 'error').length);
+  itineraryWarningCount = computed(() => this.itineraryIssues().filter(i => i.severity === 'warning').length);
+
   completedChecklistItems = computed(() => {
     const trip = this.trip();
     if (!trip) return 0;
@@ -218,7 +355,9 @@ export class TripDetailsComponent implements OnInit {
       const id = params.get('id');
       if (id) {
         this.tripId.set(id);
+        this.inviteCode.set(this.route.snapshot.queryParamMap.get('code') || '');
         this.fetchTripDetails(id);
+        this.loadTravelSettings();
       } else {
         this.router.navigate(['/trips']);
       }
@@ -231,7 +370,7 @@ export class TripDetailsComponent implements OnInit {
 
     console.log('Fetching trip details for ID:', id);
 
-    this.tripService.getById(id).subscribe({
+    this.tripService.getById(id, this.inviteCode() || undefined).subscribe({
       next: (response) => {
         console.log('Trip API response:', response);
 
@@ -250,6 +389,8 @@ export class TripDetailsComponent implements OnInit {
             startDate: tripData.startDate || '',
             endDate: tripData.endDate || '',
             coverImage: tripData.coverImage,
+            status: tripData.status || 'planning',
+            cancellation: tripData.cancellation,
             isPublic: tripData.isPublic || false,
             maxMembers: tripData.maxMembers || 10,
             tripType: tripData.tripType || 'group',
@@ -265,6 +406,7 @@ export class TripDetailsComponent implements OnInit {
             members: tripData.members || [],
             collaborators: tripData.collaborators || [],
             itinerary: tripData.itinerary || [],
+            itineraryVersion: tripData.itineraryVersion || 0,
             checklist: (tripData.checklist || []).map((item: any) => ({
               _id: item._id,
               text: item.item, // Backend uses 'item' for text content
@@ -272,7 +414,10 @@ export class TripDetailsComponent implements OnInit {
               createdAt: item.addedAt || item.createdAt || new Date().toISOString()
             })),
             joinRequests: tripData.joinRequests || [],
-            shareCode: tripData.shareCode || '',
+            invite: tripData.invite || null,
+            photos: tripData.photos || [],
+            access: tripData.access || { role: null, permissions: [] },
+            isSaved: !!tripData.isSaved,
 
             createdAt: tripData.createdAt || new Date().toISOString(),
             updatedAt: tripData.updatedAt || new Date().toISOString()
@@ -295,6 +440,10 @@ export class TripDetailsComponent implements OnInit {
         // Provide more specific error messages
         if (err.status === 404) {
           this.error.set('Trip not found. It may have been deleted or you don\'t have access to it.');
+        } else if (err.status === 403 && err.error?.blocked) {
+          this.error.set('This trip has been removed by a moderator.');
+        } else if (err.status === 403 && err.error?.invite) {
+          this.error.set(`${err.error.message}. Ask the trip owner for a new link.`);
         } else if (err.status === 403) {
           this.error.set('Access denied. This trip is private.');
         } else if (err.status === 500 && err.error?.message?.includes('ObjectId')) {
@@ -310,6 +459,24 @@ export class TripDetailsComponent implements OnInit {
     });
   }
 
+  /**
+   * Report this trip to the moderators
+   */
+  reportTrip(): void {
+    const trip = this.trip();
+    if (!trip) return;
+    this.reportTarget.set({ type: 'trip', id: trip._id, label: `"${trip.tripName}"` });
+  }
+
+  closeReportDialog(): void {
+    this.reportTarget.set(null);
+  }
+
+  closeSaveDialog(isSaved: boolean): void {
+    this.showSaveDialog.set(false);
+    this.trip.update(trip => trip ? { ...trip, isSaved } : trip);
+  }
+
       initializeEditForm(): void {
     const trip = this.trip();
     if (!trip) return;
@@ -336,8 +503,11 @@ export class TripDetailsComponent implements OnInit {
   }
 
   // Tab navigation
-  setActiveTab(tab: 'overview' | 'itinerary' | 'checklist' | 'members' | 'settings'): void {
+  setActiveTab(tab: 'overview' | 'itinerary' | 'checklist' | 'expenses' | 'photos' | 'members' | 'settings'): void {
     this.activeTab.set(tab);
+    if (tab === 'expenses') {
+      this.loadExpenses();
+    }
   }
 
   // Trip editing
@@ -433,6 +603,8 @@ export class TripDetailsComponent implements OnInit {
     console.log('Auth service isLoggedIn:', this.authService.isLoggedIn());
     console.log('Current user:', this.authService.user());
 
+    if (!this.can('editChecklist')) return;
+
     // Add to toggling set for loading state
     const currentToggling = this.togglingItems();
     currentToggling.add(itemId);
@@ -554,6 +726,331 @@ export class TripDetailsComponent implements OnInit {
     });
   }
 
+  // Expense management
+  loadExpenses(): void {
+    if (!this.tripId()) return;
+
+    this.expensesLoading.set(true);
+    this.expenseError.set(null);
+    this.tripService.getExpenses(this.tripId()).subscribe({
+      next: (response) => {
+        if (response.success) {
+          this.applyExpenseSummary(response.data);
+        }
+        this.expensesLoading.set(false);
+      },
+      error: (err) => {
+        console.error('Error loading expenses:', err);
+        this.expenseError.set(err.error?.message || 'Failed to load expenses');
+        this.expensesLoading.set(false);
+      }
+    });
+  }
+
+  private applyExpenseSummary(summary: ExpenseSummary): void {
+    this.expenseSummary.set(summary);
+    this.budgetInput.set(summary.totalBudget !== null ? String(summary.totalBudget) : '');
+    this.budgetCurrencyInput.set(summary.currency);
+    this.rateRows.set(summary.exchangeRates.map(r => ({ currency: r.currency, rate: String(r.rate) })));
+  }
+
+  openExpenseModal(expense?: TripExpense): void {
+    const everyone = this.tripPeople().map(p => p._id);
+    this.editingExpenseId.set(expense?._id || null);
+    this.expenseForm.set({
+      description: expense?.description || '',
+      amount: expense?.amount || 0,
+      currency: expense?.currency || this.expenseSummary()?.currency || 'USD',
+      category: expense?.category || 'other',
+      paidBy: expense?.paidBy?._id || this.currentUser()?.id || '',
+      splitAmong: expense ? [...expense.splitAmong] : everyone,
+      date: (expense?.date || new Date().toISOString()).split('T')[0]
+    });
+    this.expenseError.set(null);
+    this.showExpenseModal.set(true);
+  }
+
+  closeExpenseModal(): void {
+    this.showExpenseModal.set(false);
+    this.editingExpenseId.set(null);
+  }
+
+  updateExpenseForm(field: string, value: any): void {
+    this.expenseForm.update(form => ({ ...form, [field]: value }));
+  }
+
+  toggleExpenseParticipant(userId: string): void {
+    this.expenseForm.update(form => ({
+      ...form,
+      splitAmong: form.splitAmong.includes(userId)
+        ? form.splitAmong.filter(id => id !== userId)
+        : [...form.splitAmong, userId]
+    }));
+  }
+
+  saveExpense(): void {
+    const form = this.expenseForm();
+    if (!form.description.trim() || !(Number(form.amount) > 0) || form.splitAmong.length === 0) {
+      this.expenseError.set('Add a description, a positive amount and at least one person to split with');
+      return;
+    }
+
+    const body = { ...form, amount: Number(form.amount), currency: form.currency.trim().toUpperCase() };
+    const editingId = this.editingExpenseId();
+    const request = editingId
+      ? this.tripService.updateExpense(this.tripId(), editingId, body)
+      : this.tripService.addExpense(this.tripId(), body);
+
+    request.subscribe({
+      next: (response) => {
+        if (response.success) {
+          this.applyExpenseSummary(response.data);
+          this.closeExpenseModal();
+        }
+      },
+      error: (err) => {
+        console.error('Error saving expense:', err);
+        this.expenseError.set(err.error?.message || 'Failed to save expense');
+      }
+    });
+  }
+
+  deleteExpense(expense: TripExpense): void {
+    if (!confirm(`Delete "${expense.description}"?`)) return;
+
+    this.tripService.deleteExpense(this.tripId(), expense._id).subscribe({
+      next: (response) => {
+        if (response.success) {
+          this.applyExpenseSummary(response.data);
+        }
+      },
+      error: (err) => {
+        console.error('Error deleting expense:', err);
+        this.expenseError.set(err.error?.message || 'Failed to delete expense');
+      }
+    });
+  }
+
+  saveBudget(): void {
+    const value = this.budgetInput().trim();
+    const totalBudget = value === '' ? null : Number(value);
+    if (totalBudget !== null && (!Number.isFinite(totalBudget) || totalBudget < 0)) {
+      this.expenseError.set('Budget must be a non-negative number');
+      return;
+    }
+
+    const currency = this.budgetCurrencyInput().trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      this.expenseError.set('Currency must be a 3-letter code, e.g. EUR');
+      return;
+    }
+
+    this.tripService.updateBudget(this.tripId(), { totalBudget, currency }).subscribe({
+      next: (response) => {
+        if (response.success) {
+          this.applyExpenseSummary(response.data);
+        }
+      },
+      error: (err) => {
+        console.error('Error updating budget:', err);
+        this.expenseError.set(err.error?.message || 'Failed to update budget');
+      }
+    });
+  }
+
+  // Exchange rates
+  addRateRow(): void {
+    this.rateRows.update(rows => [...rows, { currency: '', rate: '' }]);
+  }
+
+  removeRateRow(index: number): void {
+    this.rateRows.update(rows => rows.filter((_, i) => i !== index));
+  }
+
+  updateRateRow(index: number, field: 'currency' | 'rate', value: string): void {
+    this.rateRows.update(rows => rows.map((row, i) => i === index ? { ...row, [field]: value } : row));
+  }
+
+  saveExchangeRates(): void {
+    const rows = this.rateRows().filter(row => row.currency.trim() || row.rate.trim());
+    const invalid = rows.find(row => !/^[A-Za-z]{3}$/.test(row.currency.trim()) || !(Number(row.rate) > 0));
+    if (invalid) {
+      this.rateErrors.set(['Each rate needs a 3-letter currency code and a positive rate']);
+      return;
+    }
+
+    this.ratesSaving.set(true);
+    this.rateErrors.set([]);
+    const rates = rows.map(row => ({ currency: row.currency.trim().toUpperCase(), rate: Number(row.rate) }));
+    this.tripService.updateExchangeRates(this.tripId(), rates).subscribe({
+      next: (response) => {
+        if (response.success) {
+          this.applyExpenseSummary(response.data);
+        }
+        this.ratesSaving.set(false);
+      },
+      error: (err) => {
+        console.error('Error saving exchange rates:', err);
+        this.rateErrors.set([err.error?.message || 'Failed to save exchange rates']);
+        this.ratesSaving.set(false);
+      }
+    });
+  }
+
+  importExchangeRates(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    this.ratesSaving.set(true);
+    this.rateErrors.set([]);
+    file.text().then(csv => {
+      this.tripService.importExchangeRates(this.tripId(), csv).subscribe({
+        next: (response) => {
+          if (response.success) {
+            this.applyExpenseSummary(response.data);
+          }
+          this.ratesSaving.set(false);
+        },
+        error: (err) => {
+          console.error('Error importing exchange rates:', err);
+          this.rateErrors.set(err.error?.errors || [err.error?.message || 'Failed to import exchange rates']);
+          this.ratesSaving.set(false);
+        }
+      });
+    });
+  }
+
+  // Photo album
+  onPhotosSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files || []);
+    input.value = '';
+    if (files.length === 0) return;
+
+    const formData = new FormData();
+    files.slice(0, 10).forEach(file => formData.append('photos', file));
+    if (this.photoUploadDay()) formData.append('day', this.photoUploadDay());
+    if (this.photoCaption().trim()) formData.append('caption', this.photoCaption().trim());
+
+    this.photoUploading.set(true);
+    this.photoError.set(null);
+    this.tripService.uploadPhotos(this.tripId(), formData).subscribe({
+      next: (response) => {
+        if (response.success) {
+          this.setPhotos(response.data);
+          this.photoCaption.set('');
+        }
+        this.photoUploading.set(false);
+      },
+      error: (err) => {
+        console.error('Error uploading photos:', err);
+        this.photoError.set(err.error?.message || 'Failed to upload photos');
+        this.photoUploading.set(false);
+      }
+    });
+  }
+
+  deletePhoto(photo: TripPhoto): void {
+    if (!confirm('Delete this photo from the album?')) return;
+
+    this.tripService.deletePhoto(this.tripId(), photo._id).subscribe({
+      next: (response) => {
+        if (response.success) {
+          // The server clears the cover when it pointed at this photo
+          if (this.isCoverPhoto(photo)) {
+            this.trip.update(trip => trip ? { ...trip, coverImage: undefined } : trip);
+          }
+          this.setPhotos(response.data);
+          this.closePhoto();
+        }
+      },
+      error: (err) => {
+        console.error('Error deleting photo:', err);
+        this.photoError.set(err.error?.message || 'Failed to delete photo');
+      }
+    });
+  }
+
+  setCoverPhoto(photo: TripPhoto): void {
+    this.tripService.setCoverPhoto(this.tripId(), photo._id).subscribe({
+      next: (response) => {
+        if (response.success) {
+          this.trip.update(trip => trip ? { ...trip, coverImage: response.data.coverImage } : trip);
+        }
+      },
+      error: (err) => {
+        console.error('Error setting cover photo:', err);
+        this.photoError.set(err.error?.message || 'Failed to update cover image');
+      }
+    });
+  }
+
+  private setPhotos(photos: TripPhoto[]): void {
+    this.trip.update(trip => trip ? { ...trip, photos } : trip);
+  }
+
+  canManagePhoto(photo: TripPhoto): boolean {
+    return this.can('managePhotos') || photo.uploadedBy?._id === this.currentUser()?.id;
+  }
+
+  isCoverPhoto(photo: TripPhoto): boolean {
+    return !!photo.url && photo.url === this.trip()?.coverImage;
+  }
+
+  getPhotoUrl(photo: TripPhoto): string {
+    if (photo.url.startsWith('http') || photo.url.startsWith('data:')) {
+      return photo.url;
+    }
+    return `${environment.backendUrl}${photo.url}`;
+  }
+
+  // Lightbox
+  openPhoto(photo: TripPhoto): void {
+    const index = this.albumPhotos().findIndex(p => p._id === photo._id);
+    if (index === -1) return;
+    this.selectedPhotoIndex.set(index);
+    document.body.style.overflow = 'hidden';
+  }
+
+  closePhoto(): void {
+    this.selectedPhotoIndex.set(null);
+    document.body.style.overflow = '';
+  }
+
+  nextPhoto(): void {
+    const count = this.albumPhotos().length;
+    const index = this.selectedPhotoIndex();
+    if (!count || index === null) return;
+    this.selectedPhotoIndex.set((index + 1) % count);
+  }
+
+  prevPhoto(): void {
+    const count = this.albumPhotos().length;
+    const index = this.selectedPhotoIndex();
+    if (!count || index === null) return;
+    this.selectedPhotoIndex.set((index - 1 + count) % count);
+  }
+
+  getPersonName(userId: string): string {
+    if (userId === this.currentUser()?.id) return 'You';
+    const person = this.tripPeople().find(p => p._id === userId);
+    return person ? person.fullName || person.username : 'Former member';
+  }
+
+  getCategoryLabel(category: ExpenseCategory): string {
+    return this.expenseCategories.find(c => c.value === category)?.label || 'Other';
+  }
+
+  formatMoney(amount: number, currency = this.expenseSummary()?.currency || 'USD'): string {
+    try {
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+    } catch {
+      return `${amount.toFixed(2)} ${currency}`;
+    }
+  }
+
   // Location suggestions for itinerary
   locationSuggestions = signal<any[]>([]);
   locationSuggestionsOpen = signal<boolean>(false);
@@ -575,7 +1072,9 @@ export class TripDetailsComponent implements OnInit {
       location: '',
       startTime: '',
       endTime: '',
-      notes: ''
+      notes: '',
+      travelMode: undefined,
+      coordinates: undefined
     });
     this.selectedLocation.set(null);
     this.locationSuggestions.set([]);
@@ -593,7 +1092,9 @@ export class TripDetailsComponent implements OnInit {
       location: item.location,
       startTime: item.startTime,
       endTime: item.endTime,
-      notes: item.notes
+      notes: item.notes,
+      travelMode: item.travelMode,
+      coordinates: item.coordinates
     });
     this.selectedLocation.set(null);
     this.locationSuggestions.set([]);
@@ -617,8 +1118,9 @@ export class TripDetailsComponent implements OnInit {
 
     console.log('Location input changed:', query);
 
-    // Update the form field
+    // Update the form field; typed text no longer matches the picked place's coordinates
     this.updateItineraryItem('location', query);
+    this.updateItineraryItem('coordinates', null);
 
     // Clear existing timeout
     if (this.locationSearchTimeout) {
@@ -664,6 +1166,9 @@ export class TripDetailsComponent implements OnInit {
   selectLocationSuggestion(place: any): void {
     this.selectedLocation.set(place);
     this.updateItineraryItem('location', place.displayName?.text || place.name);
+    if (place.location?.lat || place.location?.lng) {
+      this.updateItineraryItem('coordinates', { lat: place.location.lat, lng: place.location.lng });
+    }
     this.locationSuggestions.set([]);
     this.locationSuggestionsOpen.set(false);
 
@@ -791,7 +1296,7 @@ export class TripDetailsComponent implements OnInit {
           const currentTrip = this.trip();
           if (currentTrip) {
             const updatedItinerary = currentTrip.itinerary.filter(item => item._id !== itemId);
-            this.trip.set({ ...currentTrip, itinerary: updatedItinerary });
+            this.trip.set({ ...currentTrip, itinerary: updatedItinerary, itineraryVersion: response.data.itineraryVersion });
           }
         } else {
           console.error('Failed to delete itinerary item');
@@ -806,7 +1311,107 @@ export class TripDetailsComponent implements OnInit {
   getItineraryForDay(day: number): ItineraryItem[] {
     const trip = this.trip();
     if (!trip) return [];
-    return trip.itinerary.filter(item => item.day === day);
+    // Items that were never reordered share order 0, so fall back to their start time
+    return trip.itinerary
+      .filter(item => item.day === day)
+      .sort((a, b) => (a.order || 0) - (b.order || 0) || (a.startTime || '').localeCompare(b.startTime || ''));
+  }
+
+  getItemIssues(itemId: string): ItineraryIssue[] {
+    return this.itineraryIssues().filter(issue => issue.itemIds.includes(itemId));
+  }
+
+  hasItemIssue(itemId: string, severity: ItineraryIssue['severity']): boolean {
+    return this.getItemIssues(itemId).some(issue => issue.severity === severity);
+  }
+
+  // Travel speeds are configured on the server; keep the defaults if they can't be loaded
+  private loadTravelSettings(): void {
+    this.tripService.getConstants().subscribe({
+      next: (response) => {
+        if (response.success && response.data.travelSpeeds) {
+          this.travelSettings.set({
+            speeds: response.data.travelSpeeds,
+            defaultMode: response.data.defaultTravelMode,
+            bufferMinutes: response.data.transferBufferMinutes
+          });
+        }
+      },
+      error: (err) => console.error('Failed to load travel settings:', err)
+    });
+  }
+
+  // Drag-and-drop within a day or onto another day; each drop list's data is its day number
+  onItineraryDrop(event: CdkDragDrop<number>): void {
+    const trip = this.trip();
+    if (!trip || !this.can('editItinerary')) return;
+
+    const fromDay = event.previousContainer.data;
+    const toDay = event.container.data;
+    if (fromDay === toDay && event.previousIndex === event.currentIndex) return;
+
+    const days = new Map(this.tripDays().map(d => [d.day, [...this.getItineraryForDay(d.day)]]));
+    const source = days.get(fromDay);
+    const target = days.get(toDay);
+    if (!source || !target) return;
+
+    if (fromDay === toDay) {
+      moveItemInArray(source, event.previousIndex, event.currentIndex);
+    } else {
+      transferArrayItem(source, target, event.previousIndex, event.currentIndex);
+    }
+
+    // Items on days past the end date aren't shown, so they keep their place
+    const previous = trip.itinerary;
+    const itinerary = [
+      ...[...days.entries()].flatMap(([day, items]) => items.map((item, order) => ({ ...item, day, order }))),
+      ...previous.filter(item => !days.has(item.day))
+    ];
+    const positions: ItineraryPosition[] = itinerary.map(item => ({ id: item._id, day: item.day, order: item.order || 0 }));
+
+    // Show the new order straight away and reconcile with the server's answer
+    this.trip.set({ ...trip, itinerary });
+    this.itinerarySaving.set(true);
+    this.itineraryError.set(null);
+
+    this.tripService.reorderItinerary(this.tripId(), trip.itineraryVersion, positions).subscribe({
+      next: (response) => {
+        this.setItinerary(response.data.itinerary, response.data.itineraryVersion);
+        this.itinerarySaving.set(false);
+      },
+      error: (err) => {
+        console.error('Error reordering itinerary:', err);
+        if (err.status === 409 && err.error?.data) {
+          // Someone else changed the itinerary first; show their version
+          this.setItinerary(err.error.data.itinerary, err.error.data.itineraryVersion);
+        } else {
+          this.trip.update(current => current ? { ...current, itinerary: previous } : current);
+        }
+        this.itineraryError.set(err.error?.message || 'Failed to move activity');
+        this.itinerarySaving.set(false);
+      }
+    });
+  }
+
+  private setItinerary(itinerary: ItineraryItem[], itineraryVersion: number): void {
+    this.trip.update(trip => trip ? { ...trip, itinerary, itineraryVersion } : trip);
+  }
+
+  // Permissions for the current user, as reported by the server with the trip
+  can(permission: TripPermission): boolean {
+    return !!this.trip()?.access.permissions.includes(permission);
+  }
+
+  canManageCollaborator(collaborator: Collaborator): boolean {
+    return this.can('manageMembers') && (collaborator.role !== 'co-owner' || this.isOwner());
+  }
+
+  getRoleLabel(role: TripRole): string {
+    return this.collaboratorRoles.find(r => r.value === role)?.label || role;
+  }
+
+  getRoleDescription(role: TripRole): string {
+    return this.collaboratorRoles.find(r => r.value === role)?.description || '';
   }
 
   // User search and invitation
@@ -818,28 +1423,70 @@ export class TripDetailsComponent implements OnInit {
     }
 
     this.searchLoading.set(true);
-    // TODO: Implement user search API call
-    setTimeout(() => {
-      // Mock search results
-      this.searchResults.set([
-        { _id: '1', id: '1', username: 'john_doe', fullName: 'John Doe', profilePicture: '/assets/images/avatars/avatar1.svg' },
-        { _id: '2', id: '2', username: 'jane_smith', fullName: 'Jane Smith', profilePicture: '/assets/images/avatars/avatar2.svg' }
-      ]);
-      this.searchLoading.set(false);
-    }, 500);
-  }
-
-  inviteUser(userId: string): void {
-    if (!userId) {
-      console.error('Invalid user ID for invitation');
-      return;
-    }
+    this.profileService.searchUsers(query, 1, 10).subscribe({
+      next: (response) => {
+        // Skip people who are already on the trip
+        const trip = this.trip();
+        const existing = new Set([
+          ...this.tripPeople().map(p => p._id),
+          ...(trip?.collaborators || []).map(c => c.user._id)
+        ]);
+        this.searchResults.set(response.data.users.filter(user => !existing.has(user._id)));
+        this.searchLoading.set(false);
+      },
+      error: (err) => {
+        console.error('Error searching users:', err);
+        this.searchResults.set([]);
+        this.searchLoading.set(false);
+      }
+    });
+  }
 
-    // TODO: Implement when backend API is ready
-    console.log('Inviting user:', userId);
-    this.showInviteModal.set(false);
+  openInviteModal(): void {
     this.userSearchQuery.set('');
     this.searchResults.set([]);
+    this.inviteRole.set('editor');
+    this.memberError.set(null);
+    this.showInviteModal.set(true);
+  }
+
+  inviteUser(username: string): void {
+    if (!username) {
+      console.error('Invalid username for invitation');
+      return;
+    }
+
+    this.invitingUser.set(username);
+    this.memberError.set(null);
+    this.tripService.addCollaborator(this.tripId(), username, this.inviteRole()).subscribe({
+      next: (response) => {
+        this.setCollaborators(response.data);
+        this.invitingUser.set(null);
+        this.showInviteModal.set(false);
+        this.userSearchQuery.set('');
+        this.searchResults.set([]);
+      },
+      error: (err) => {
+        console.error('Error inviting user:', err);
+        this.memberError.set(err.error?.message || 'Failed to invite user');
+        this.invitingUser.set(null);
+      }
+    });
+  }
+
+  changeCollaboratorRole(collaborator: Collaborator, select: HTMLSelectElement): void {
+    const role = select.value as TripRole;
+    if (role === collaborator.role) return;
+
+    this.memberError.set(null);
+    this.tripService.updateCollaboratorRole(this.tripId(), collaborator.user._id, role).subscribe({
+      next: (response) => this.setCollaborators(response.data),
+      error: (err) => {
+        console.error('Error changing collaborator role:', err);
+        this.memberError.set(err.error?.message || 'Failed to change role');
+        select.value = collaborator.role;
+      }
+    });
   }
 
   removeCollaborator(userId: string): void {
@@ -848,27 +1495,70 @@ export class TripDetailsComponent implements OnInit {
       return;
     }
 
-    // TODO: Implement when backend API is ready
-    console.log('Removing collaborator:', userId);
+    this.memberError.set(null);
+    this.tripService.removeCollaborator(this.tripId(), userId).subscribe({
+      next: () => {
+        this.trip.update(trip => trip
+          ? { ...trip, collaborators: trip.collaborators.filter(c => c.user._id !== userId) }
+          : trip);
+      },
+      error: (err) => {
+        console.error('Error removing collaborator:', err);
+        this.memberError.set(err.error?.message || 'Failed to remove collaborator');
+      }
+    });
+  }
+
+  private setCollaborators(collaborators: Collaborator[]): void {
+    this.trip.update(trip => trip ? { ...trip, collaborators } : trip);
   }
 
   // Trip sharing
-  generateShareLink(): void {
-    // TODO: Implement when backend API is ready
-    console.log('Generating share link for trip:', this.tripId());
-    // Mock setting a share code for demo
-    const mockShareCode = 'demo-' + Math.random().toString(36).substr(2, 9);
-    this.trip.set({ ...this.trip()!, shareCode: mockShareCode });
+  getTripUrl(): string {
+    return `${window.location.origin}/trips/${this.tripId()}`;
+  }
+
+  copyTripLink(): void {
+    navigator.clipboard.writeText(this.getTripUrl()).then(() => {
+      this.tripLinkCopied.set(true);
+      setTimeout(() => this.tripLinkCopied.set(false), 2000);
+    });
   }
 
-  copyShareLink(): void {
+  /**
+   * Whether the page was opened with a usable invite link the user hasn't joined through yet
+   */
+  canJoinWithInvite(): boolean {
     const trip = this.trip();
-    if (!trip?.shareCode) return;
+    return !!trip && trip.invite?.status === 'active' && !trip.access.role && trip.status !== 'cancelled';
+  }
+
+  getInviteRoleLabel(): string {
+    const role = this.trip()?.invite?.role;
+    return role === 'member' ? 'a member' : role === 'editor' ? 'an editor' : 'a viewer';
+  }
+
+  joinWithInvite(): void {
+    if (!this.currentUser()) {
+      this.router.navigate(['/login'], { queryParams: { returnUrl: this.router.url } });
+      return;
+    }
 
-    const shareUrl = `${window.location.origin}/trips/join/${trip.shareCode}`;
-    navigator.clipboard.writeText(shareUrl).then(() => {
-      // TODO: Show success toast
-      console.log('Share link copied to clipboard');
+    this.joiningWithInvite.set(true);
+    this.inviteJoinError.set(null);
+    this.tripService.joinWithInvite(this.tripId(), this.inviteCode()).subscribe({
+      next: () => {
+        this.joiningWithInvite.set(false);
+        // The code has done its job; drop it from the URL and reload as a member
+        this.inviteCode.set('');
+        this.router.navigate([], { relativeTo: this.route, queryParams: { code: null }, queryParamsHandling: 'merge', replaceUrl: true });
+        this.fetchTripDetails(this.tripId());
+      },
+      error: (err) => {
+        console.error('Error joining with invite link:', err);
+        this.inviteJoinError.set(err.error?.message || 'Failed to join trip');
+        this.joiningWithInvite.set(false);
+      }
     });
   }
 
@@ -888,6 +1578,60 @@ export class TripDetailsComponent implements OnInit {
     this.router.navigate(['/trips']);
   }
 
+  // Trip cancellation
+  canCancelTrip = computed(() => {
+    const status = this.trip()?.status;
+    return this.can('cancelTrip') && (status === 'planning' || status === 'active');
+  });
+
+  openCancelModal(): void {
+    this.cancelReason.set('');
+    this.cancelError.set(null);
+    this.showCancelModal.set(true);
+  }
+
+  closeCancelModal(): void {
+    this.showCancelModal.set(false);
+  }
+
+  cancelTrip(): void {
+    const reason = this.cancelReason().trim();
+    if (!reason) {
+      this.cancelError.set('Please let members know why the trip is cancelled');
+      return;
+    }
+
+    this.cancellingTrip.set(true);
+    this.tripService.cancel(this.tripId(), reason).subscribe({
+      next: (response) => {
+        if (response.success) {
+          this.trip.update(trip => trip ? {
+            ...trip,
+            status: response.data.status,
+            cancellation: response.data.cancellation,
+            joinRequests: trip.joinRequests.map(r => r.status === 'pending' ? { ...r, status: 'rejected' as const } : r)
+          } : trip);
+          this.closeCancelModal();
+        }
+        this.cancellingTrip.set(false);
+      },
+      error: (err) => {
+        console.error('Error cancelling trip:', err);
+        this.cancelError.set(err.error?.message || 'Failed to cancel trip');
+        this.cancellingTrip.set(false);
+      }
+    });
+  }
+
+  getStatusLabel(status: TripStatus): string {
+    switch (status) {
+      case 'active': return 'In progress';
+      case 'completed': return 'Completed';
+      case 'cancelled': return 'Cancelled';
+      default: return 'Planning';
+    }
+  }
+
   // Join request methods
   getPendingJoinRequests(): JoinRequest[] {
     const trip = this.trip();
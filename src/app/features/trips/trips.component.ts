@@ -2,7 +2,7 @@ import { Component, signal, computed, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule, ReactiveFormsModule } from '@angular/forms';
 import { RouterModule } from '@angular/router';
-import { TripService, TripConstants } from '../../services/trip.service';
+import { TripService, TripConstants, TripStatus, TripRole } from '../../services/trip.service';
 import { environment } from '../../../environments/environment';
 import { GoogleMapsService, PlaceResult } from '../../services/google-maps.service';
 
@@ -44,7 +44,7 @@ interface Collaborator {
   id: string;
   username: string;
   profilePic: string;
-  role: 'owner' | 'editor';
+  role: 'owner' | TripRole;
 }
 
 interface Trip {
@@ -54,6 +54,7 @@ interface Trip {
   startDate: string;
   endDate: string;
   coverImage?: string;
+  status?: TripStatus;
   isPublic: boolean;
   destination: string;
   itinerary: ItineraryItem[];
@@ -81,7 +82,7 @@ export class TripsComponent {
   private tripService = inject(TripService);
   private googleMaps = inject(GoogleMapsService);
   // Active tab for navigation
-  activeTab = signal<'upcoming' | 'past' | 'all' | 'requested'>('upcoming');
+  activeTab = signal<'upcoming' | 'active' | 'past' | 'cancelled' | 'all' | 'requested'>('upcoming');
 
   // View mode for trips display
   viewMode = signal<'grid' | 'list'>('grid');
@@ -176,22 +177,23 @@ export class TripsComponent {
     });
   }
 
-  // Computed properties for filtering trips
-  upcomingTrips = computed(() => {
-    const today = new Date().toISOString().split('T')[0];
-    return this.trips().filter(trip => trip.startDate >= today);
-  });
+  // Computed properties for filtering trips by lifecycle status
+  upcomingTrips = computed(() => this.tripsWithStatus('planning'));
+  activeTrips = computed(() => this.tripsWithStatus('active'));
+  pastTrips = computed(() => this.tripsWithStatus('completed'));
+  cancelledTrips = computed(() => this.tripsWithStatus('cancelled'));
 
-  pastTrips = computed(() => {
-    const today = new Date().toISOString().split('T')[0];
-    return this.trips().filter(trip => trip.endDate < today);
-  });
+  private tripsWithStatus(status: TripStatus): any[] {
+    return this.trips().filter(trip => (trip.status || 'planning') === status);
+  }
 
   // Display trips based on active tab
   displayedTrips = computed(() => {
     switch (this.activeTab()) {
       case 'upcoming': return this.upcomingTrips();
+      case 'active': return this.activeTrips();
       case 'past': return this.pastTrips();
+      case 'cancelled': return this.cancelledTrips();
       case 'all': return this.trips();
       case 'requested': return this.requestedTrips();
       default: return this.trips();
@@ -199,10 +201,19 @@ export class TripsComponent {
   });
 
   // Set active tab
-  setActiveTab(tab: 'upcoming' | 'past' | 'all' | 'requested'): void {
+  setActiveTab(tab: 'upcoming' | 'active' | 'past' | 'cancelled' | 'all' | 'requested'): void {
     this.activeTab.set(tab);
   }
 
+  getStatusLabel(status?: TripStatus): string {
+    switch (status) {
+      case 'active': return 'In progress';
+      case 'completed': return 'Completed';
+      case 'cancelled': return 'Cancelled';
+      default: return 'Planning';
+    }
+  }
+
   // Toggle view mode
   toggleViewMode(): void {
     this.viewMode.set(this.viewMode() === 'grid' ? 'list' : 'grid');
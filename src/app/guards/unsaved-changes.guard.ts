@@ -0,0 +1,13 @@
+import { CanDeactivateFn } from '@angular/router';
+
+// Implemented by pages with edits that would be lost on navigation
+export interface HasUnsavedChanges {
+  hasUnsavedChanges: () => boolean;
+}
+
+export const unsavedChangesGuard: CanDeactivateFn<HasUnsavedChanges> = (component) => {
+  if (!component.hasUnsavedChanges()) {
+    return true;
+  }
+  return confirm('You have unsaved changes. Leave this page and discard them?');
+};
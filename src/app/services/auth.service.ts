@@ -38,6 +38,9 @@ export interface User {
   tripsCount: number;
   createdAt: string;
   lastLogin: string;
+  showOnline?: boolean;
+  lastSeen?: string;
+  twoFactorEnabled?: boolean;
 }
 
 export interface AuthResponse {
@@ -48,6 +51,27 @@ export interface AuthResponse {
   user: User;
 }
 
+// Sent instead of tokens when the account has two-factor authentication on
+export interface TwoFactorChallenge {
+  success: boolean;
+  message: string;
+  twoFactorRequired: true;
+  twoFactorToken: string;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallenge;
+
+export function isTwoFactorChallenge(response: LoginResponse): response is TwoFactorChallenge {
+  return (response as TwoFactorChallenge).twoFactorRequired === true;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL of the otpauth:// URI, rendered by the API
+  qrCode: string;
+}
+
 export interface RegisterRequest {
   firstName: string;
   lastName: string;
@@ -60,6 +84,15 @@ export interface RegisterRequest {
   travelHistory?: string[];
 }
 
+// One entry of an API "Validation errors" response
+export interface ApiFieldError {
+  path: string;
+  msg: string;
+}
+
+// Errors thrown by this service carry the API's per-field validation errors, if any
+export type AuthError = Error & { errors?: ApiFieldError[] };
+
 export interface LoginRequest {
   email: string;
   password: string;
@@ -78,6 +111,7 @@ export class AuthService {
   private currentUser = signal<User | null>(null);
   private isAuthenticated = signal<boolean>(false);
   private isLoading = signal<boolean>(false);
+  private twoFactorChallenge = signal<TwoFactorChallenge | null>(null);
   private isCheckingAuth = false;
 
   // Public computed signals
@@ -85,6 +119,8 @@ export class AuthService {
   isLoggedIn = computed(() => this.isAuthenticated());
   loading = computed(() => this.isLoading());
   isAdmin = computed(() => this.currentUser()?.role === 'admin');
+  // Password step passed, waiting for the authenticator or recovery code
+  pendingTwoFactor = computed(() => this.twoFactorChallenge());
 
   constructor(
     private http: HttpClient,
@@ -115,21 +151,56 @@ export class AuthService {
   /**
    * Login user
    */
-  login(credentials: LoginRequest): Observable<AuthResponse> {
+  login(credentials: LoginRequest): Observable<LoginResponse> {
     this.isLoading.set(true);
 
-    return this.http.post<AuthResponse>(`${this.API_URL}/login`, credentials)
+    return this.http.post<LoginResponse>(`${this.API_URL}/login`, credentials)
       .pipe(
-        tap(response => {
-          if (response.success) {
-            this.handleAuthSuccess(response);
-          }
-        }),
+        tap(response => this.handleLoginResponse(response)),
         catchError(this.handleError.bind(this)),
         tap(() => this.isLoading.set(false))
       );
   }
 
+  /**
+   * Finish a login that needs a second factor, with an authenticator or recovery code
+   */
+  verifyTwoFactorLogin(code: string): Observable<AuthResponse> {
+    const challenge = this.twoFactorChallenge();
+    if (!challenge) {
+      return throwError(() => new Error('Your sign-in attempt has expired. Please log in again.'));
+    }
+
+    this.isLoading.set(true);
+
+    return this.http.post<AuthResponse>(`${this.API_URL}/login/2fa`, {
+      twoFactorToken: challenge.twoFactorToken,
+      code
+    }).pipe(
+      tap(response => {
+        if (response.success) {
+          this.twoFactorChallenge.set(null);
+          this.handleAuthSuccess(response);
+        }
+      }),
+      catchError(error => {
+        // An expired sign-in token means starting over from the password step
+        if (error.status === 401 && !error.error?.errors) {
+          this.twoFactorChallenge.set(null);
+        }
+        return this.handleError(error);
+      }),
+      tap(() => this.isLoading.set(false))
+    );
+  }
+
+  /**
+   * Drop a pending two-factor login and go back to the password step
+   */
+  cancelTwoFactorLogin(): void {
+    this.twoFactorChallenge.set(null);
+  }
+
     /**
    * Logout user
    */
@@ -216,18 +287,102 @@ export class AuthService {
   /**
    * Reset password
    */
-  resetPassword(token: string, password: string): Observable<AuthResponse> {
-    return this.http.put<AuthResponse>(`${this.API_URL}/reset-password/${token}`, { password })
+  resetPassword(token: string, password: string): Observable<LoginResponse> {
+    return this.http.put<LoginResponse>(`${this.API_URL}/reset-password/${token}`, { password })
+      .pipe(
+        tap(response => this.handleLoginResponse(response)),
+        catchError(this.handleError.bind(this))
+      );
+  }
+
+  /**
+   * Verify email address with the token from the emailed link
+   */
+  verifyEmail(token: string): Observable<{ success: boolean; message: string }> {
+    return this.http.post<{ success: boolean; message: string }>(`${this.API_URL}/verify-email/${token}`, {})
       .pipe(
         tap(response => {
-          if (response.success) {
-            this.handleAuthSuccess(response);
+          const user = this.currentUser();
+          // The link may belong to another account than the one signed in here
+          if (response.success && user && !user.isVerified) {
+            this.getCurrentUser().subscribe({ error: () => {} });
           }
         }),
         catchError(this.handleError.bind(this))
       );
   }
 
+  /**
+   * Send a new email verification link to the signed-in user
+   */
+  resendVerification(): Observable<{ success: boolean; message: string }> {
+    const token = this.getToken();
+
+    return this.http.post<{ success: boolean; message: string }>(`${this.API_URL}/resend-verification`, {}, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {}
+    }).pipe(
+      catchError(this.handleError.bind(this))
+    );
+  }
+
+  /**
+   * Start two-factor enrollment: a new secret with its QR code
+   */
+  setupTwoFactor(): Observable<{ success: boolean; message: string; data: TwoFactorSetup }> {
+    const token = this.getToken();
+
+    return this.http.post<{ success: boolean; message: string; data: TwoFactorSetup }>(`${this.API_URL}/2fa/setup`, {}, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {}
+    }).pipe(
+      catchError(this.handleError.bind(this))
+    );
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app; returns the recovery codes
+   */
+  enableTwoFactor(code: string): Observable<{ success: boolean; message: string; data: { twoFactorEnabled: boolean; recoveryCodes: string[] } }> {
+    const token = this.getToken();
+
+    return this.http.post<{ success: boolean; message: string; data: { twoFactorEnabled: boolean; recoveryCodes: string[] } }>(`${this.API_URL}/2fa/enable`, { code }, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {}
+    }).pipe(
+      tap(response => {
+        if (response.success) this.setTwoFactorEnabled(true);
+      }),
+      catchError(this.handleError.bind(this))
+    );
+  }
+
+  /**
+   * Turn off two-factor authentication; needs the password and a current code
+   */
+  disableTwoFactor(password: string, code: string): Observable<{ success: boolean; message: string }> {
+    const token = this.getToken();
+
+    return this.http.post<{ success: boolean; message: string }>(`${this.API_URL}/2fa/disable`, { password, code }, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {}
+    }).pipe(
+      tap(response => {
+        if (response.success) this.setTwoFactorEnabled(false);
+      }),
+      catchError(this.handleError.bind(this))
+    );
+  }
+
+  /**
+   * Replace the recovery codes; needs the password and a current code
+   */
+  regenerateRecoveryCodes(password: string, code: string): Observable<{ success: boolean; message: string; data: { recoveryCodes: string[] } }> {
+    const token = this.getToken();
+
+    return this.http.post<{ success: boolean; message: string; data: { recoveryCodes: string[] } }>(`${this.API_URL}/2fa/recovery-codes`, { password, code }, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {}
+    }).pipe(
+      catchError(this.handleError.bind(this))
+    );
+  }
+
   /**
    * Refresh token
    */
@@ -291,6 +446,25 @@ export class AuthService {
     }
   }
 
+  /**
+   * Handle a login or password reset response: tokens, or a two-factor challenge
+   */
+  private handleLoginResponse(response: LoginResponse): void {
+    if (!response.success) return;
+
+    if (isTwoFactorChallenge(response)) {
+      this.twoFactorChallenge.set(response);
+    } else {
+      this.twoFactorChallenge.set(null);
+      this.handleAuthSuccess(response);
+    }
+  }
+
+  private setTwoFactorEnabled(twoFactorEnabled: boolean): void {
+    const user = this.currentUser();
+    if (user) this.updateCurrentUser({ ...user, twoFactorEnabled });
+  }
+
   /**
    * Handle successful authentication
    */
@@ -493,6 +667,7 @@ export class AuthService {
     }
 
     console.error('AuthService Error:', error);
-    return throwError(() => new Error(errorMessage));
+    const authError: AuthError = Object.assign(new Error(errorMessage), { errors: error.error?.errors });
+    return throwError(() => authError);
   }
 }
@@ -0,0 +1,176 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from '../../environments/environment';
+
+// Interfaces
+export type SavedItemType = 'post' | 'trip';
+
+export interface CollectionOwner {
+  _id: string;
+  username: string;
+  fullName: string;
+  profilePicture?: string;
+}
+
+export interface Collection {
+  _id: string;
+  owner: string | CollectionOwner;
+  name: string;
+  description?: string;
+  isPublic: boolean;
+  isDefault: boolean;
+  position: number;
+  itemsCount: number;
+  previews: string[]; // First few post images
+  updatedAt: string;
+}
+
+export interface SavedPostPreview {
+  _id: string;
+  userId: CollectionOwner;
+  caption?: string;
+  media: string[];
+  likesCount: number;
+  commentsCount: number;
+  createdAt: string;
+}
+
+export interface SavedTripPreview {
+  _id: string;
+  tripName: string;
+  destination: string;
+  coverImage?: string;
+  startDate: string;
+  endDate: string;
+  status: string;
+  createdBy: CollectionOwner;
+}
+
+export interface CollectionItem {
+  _id: string;
+  itemType: SavedItemType;
+  itemId: string;
+  addedAt: string;
+  unavailable: boolean; // Deleted, removed or no longer visible; only the owner sees these
+  post?: SavedPostPreview;
+  trip?: SavedTripPreview;
+}
+
+export interface CollectionDetail extends Collection {
+  items: CollectionItem[];
+}
+
+export interface CollectionData {
+  name: string;
+  description?: string;
+  isPublic?: boolean;
+}
+
+export interface SaveStateResponse {
+  success: boolean;
+  message: string;
+  data: {
+    isSaved: boolean;
+    collectionId?: string;
+  };
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class CollectionService {
+  private readonly API_URL = `${environment.backendUrl}/api/collections`;
+  private http = inject(HttpClient);
+
+  /**
+   * Get the current user's collections, default collection first
+   */
+  getMyCollections(): Observable<{ success: boolean; data: Collection[] }> {
+    return this.http.get<{ success: boolean; data: Collection[] }>(this.API_URL);
+  }
+
+  /**
+   * Get a user's shared collections (all of them when it's the current user)
+   */
+  getUserCollections(userId: string): Observable<{ success: boolean; data: Collection[] }> {
+    return this.http.get<{ success: boolean; data: Collection[] }>(`${this.API_URL}/user/${userId}`);
+  }
+
+  /**
+   * Get a collection with its saved posts and trips
+   */
+  getCollection(collectionId: string): Observable<{ success: boolean; data: CollectionDetail }> {
+    return this.http.get<{ success: boolean; data: CollectionDetail }>(`${this.API_URL}/${collectionId}`);
+  }
+
+  /**
+   * Create a collection
+   */
+  createCollection(data: CollectionData): Observable<{ success: boolean; data: Collection }> {
+    return this.http.post<{ success: boolean; data: Collection }>(this.API_URL, data);
+  }
+
+  /**
+   * Rename a collection or change whether it is shared
+   */
+  updateCollection(collectionId: string, data: Partial<CollectionData>): Observable<{ success: boolean; data: Collection }> {
+    return this.http.put<{ success: boolean; data: Collection }>(`${this.API_URL}/${collectionId}`, data);
+  }
+
+  /**
+   * Delete a collection (the default collection can't be deleted)
+   */
+  deleteCollection(collectionId: string): Observable<{ success: boolean; message: string }> {
+    return this.http.delete<{ success: boolean; message: string }>(`${this.API_URL}/${collectionId}`);
+  }
+
+  /**
+   * Save the order of the current user's collections (excluding the default one)
+   */
+  reorderCollections(collectionIds: string[]): Observable<{ success: boolean; message: string }> {
+    return this.http.put<{ success: boolean; message: string }>(`${this.API_URL}/order`, { collectionIds });
+  }
+
+  /**
+   * Add a post or trip to a collection
+   */
+  addItem(collectionId: string, itemType: SavedItemType, itemId: string): Observable<{ success: boolean; data: Collection }> {
+    return this.http.post<{ success: boolean; data: Collection }>(`${this.API_URL}/${collectionId}/items`, { itemType, itemId });
+  }
+
+  /**
+   * Remove a post or trip from a collection
+   */
+  removeItem(collectionId: string, itemType: SavedItemType, itemId: string): Observable<{ success: boolean; data: Collection }> {
+    return this.http.delete<{ success: boolean; data: Collection }>(`${this.API_URL}/${collectionId}/items/${itemType}/${itemId}`);
+  }
+
+  /**
+   * Save the order of a collection's items; itemIds are the collection item ids
+   */
+  reorderItems(collectionId: string, itemIds: string[]): Observable<{ success: boolean; message: string }> {
+    return this.http.put<{ success: boolean; message: string }>(`${this.API_URL}/${collectionId}/items/order`, { itemIds });
+  }
+
+  /**
+   * Save a post or trip, to the default collection unless one is given
+   */
+  saveItem(itemType: SavedItemType, itemId: string, collectionId?: string): Observable<SaveStateResponse> {
+    return this.http.post<SaveStateResponse>(`${this.API_URL}/save`, { itemType, itemId, collectionId });
+  }
+
+  /**
+   * Remove a post or trip from every collection
+   */
+  unsaveItem(itemType: SavedItemType, itemId: string): Observable<SaveStateResponse> {
+    return this.http.delete<SaveStateResponse>(`${this.API_URL}/save/${itemType}/${itemId}`);
+  }
+
+  /**
+   * Get the ids of the current user's collections that contain a post or trip
+   */
+  getContainingCollections(itemType: SavedItemType, itemId: string): Observable<{ success: boolean; data: string[] }> {
+    return this.http.get<{ success: boolean; data: string[] }>(`${this.API_URL}/containing/${itemType}/${itemId}`);
+  }
+}
@@ -15,9 +15,13 @@ export interface CommentUser {
 export interface Comment {
   _id: string;
   postId: string;
-  userId: CommentUser;
+  userId: CommentUser | null; // null once the comment is deleted
   commentText: string;
-  parentComment?: string;
+  parentComment?: string | null;
+  replyCount?: number;
+  isDeleted?: boolean; // "[deleted]" placeholder kept for its replies
+  hashtags?: string[];
+  mentions?: string[]; // Ids of users @mentioned in the comment
   likes: string[];
   likesCount: number;
   isReply: boolean;
@@ -46,6 +50,29 @@ export interface CommentsResponse {
   };
 }
 
+export interface RepliesResponse {
+  success: boolean;
+  data: {
+    replies: Comment[];
+    pagination: {
+      currentPage: number;
+      totalPages: number;
+      totalItems: number;
+      hasNext: boolean;
+      hasPrev: boolean;
+    };
+  };
+}
+
+export interface DeleteCommentResponse {
+  success: boolean;
+  message: string;
+  data: {
+    placeholder: boolean; // Kept as "[deleted]" because it has replies
+    comment?: Comment;
+  };
+}
+
 export interface SingleCommentResponse {
   success: boolean;
   message?: string;
@@ -100,8 +127,8 @@ export class CommentService {
   /**
    * Delete a comment
    */
-  deleteComment(commentId: string): Observable<{ success: boolean; message: string }> {
-    return this.http.delete<{ success: boolean; message: string }>(`${this.API_URL}/${commentId}`).pipe(
+  deleteComment(commentId: string): Observable<DeleteCommentResponse> {
+    return this.http.delete<DeleteCommentResponse>(`${this.API_URL}/${commentId}`).pipe(
       catchError(this.handleError)
     );
   }
@@ -118,8 +145,8 @@ export class CommentService {
   /**
    * Get replies for a comment
    */
-  getRepliesForComment(commentId: string, page: number = 1, limit: number = 10): Observable<CommentsResponse> {
-    return this.http.get<CommentsResponse>(`${this.API_URL}/${commentId}/replies?page=${page}&limit=${limit}`).pipe(
+  getRepliesForComment(commentId: string, page: number = 1, limit: number = 10): Observable<RepliesResponse> {
+    return this.http.get<RepliesResponse>(`${this.API_URL}/${commentId}/replies?page=${page}&limit=${limit}`).pipe(
       catchError(this.handleError)
     );
   }
@@ -170,7 +197,7 @@ export class CommentService {
    * Check if user can edit comment
    */
   canEditComment(comment: Comment, currentUserId?: string): boolean {
-    return currentUserId === comment.userId._id;
+    return !!comment.userId && currentUserId === comment.userId._id;
   }
 
   private handleError(error: HttpErrorResponse): Observable<never> {
@@ -0,0 +1,395 @@
+import { Injectable } from '@angular/core';
+
+export type CropAspect = 'original' | '1:1' | '4:5' | '16:9';
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface ImageEdits {
+  rotation: Rotation;
+  crop: CropAspect; // Centered crop to this aspect ratio
+}
+
+export interface ImageProcessingOptions {
+  maxWidth: number;
+  maxHeight: number;
+  quality: number; // 0..1, for WebP/JPEG
+}
+
+export interface GpsCoordinates {
+  lat: number;
+  lng: number;
+}
+
+export interface ProcessedImage {
+  file: File;
+  width: number;
+  height: number;
+  blurhash: string;
+}
+
+export const CROP_ASPECTS: { value: CropAspect; label: string; ratio: number | null }[] = [
+  { value: 'original', label: 'Original', ratio: null },
+  { value: '1:1', label: 'Square', ratio: 1 },
+  { value: '4:5', label: 'Portrait', ratio: 4 / 5 },
+  { value: '16:9', label: 'Wide', ratio: 16 / 9 }
+];
+
+export const DEFAULT_IMAGE_PROCESSING: ImageProcessingOptions = {
+  maxWidth: 2048,
+  maxHeight: 2048,
+  quality: 0.82
+};
+
+// Blurhash components along each axis; 4x3 suits landscape and portrait photos alike
+const BLURHASH_COMPONENTS_X = 4;
+const BLURHASH_COMPONENTS_Y = 3;
+// Size the image is scaled down to before computing the blurhash
+const BLURHASH_SAMPLE_SIZE = 32;
+const BASE83_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+// EXIF lives in the first APP1 segment, near the start of the file
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+/**
+ * Image Processing Service - Prepares photos for upload in the browser: applies
+ * rotation and crop, scales down to the maximum size and re-encodes as WebP (or
+ * JPEG where WebP encoding isn't supported). Re-encoding drops all EXIF metadata,
+ * including GPS; the GPS position can be read separately to prefill a location.
+ * Also encodes and decodes blurhash placeholders.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ImageProcessingService {
+  private placeholderCache = new Map<string, string>();
+
+  /**
+   * Whether the file is an image the browser can re-encode; animated GIFs are left alone
+   */
+  canProcess(file: File): boolean {
+    return file.type.startsWith('image/') && file.type !== 'image/gif';
+  }
+
+  /**
+   * Rotate, crop, scale and re-encode an image, and compute its blurhash
+   */
+  async process(file: File, edits: ImageEdits, options: ImageProcessingOptions = DEFAULT_IMAGE_PROCESSING): Promise<ProcessedImage> {
+    // createImageBitmap applies the EXIF orientation, so the pixels are upright
+    const bitmap = await createImageBitmap(file);
+
+    try {
+      const quarterTurn = edits.rotation === 90 || edits.rotation === 270;
+      const rotatedWidth = quarterTurn ? bitmap.height : bitmap.width;
+      const rotatedHeight = quarterTurn ? bitmap.width : bitmap.height;
+
+      const crop = this.getCropRect(rotatedWidth, rotatedHeight, edits.crop);
+      const scale = Math.min(1, options.maxWidth / crop.width, options.maxHeight / crop.height);
+      const width = Math.max(1, Math.round(crop.width * scale));
+      const height = Math.max(1, Math.round(crop.height * scale));
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Canvas is not supported');
+
+      context.imageSmoothingQuality = 'high';
+      context.scale(scale, scale);
+      context.translate(-crop.x, -crop.y);
+      context.translate(rotatedWidth / 2, rotatedHeight / 2);
+      context.rotate(edits.rotation * Math.PI / 180);
+      context.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+
+      const blob = await this.encode(canvas, options.quality);
+      const extension = blob.type === 'image/webp' ? 'webp' : 'jpg';
+      const name = `${file.name.replace(/\.[^.]+$/, '') || 'photo'}.${extension}`;
+
+      return {
+        file: new File([blob], name, { type: blob.type, lastModified: Date.now() }),
+        width,
+        height,
+        blurhash: this.getBlurhash(canvas)
+      };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  /**
+   * Blurhash of a file that is uploaded unchanged, such as a GIF
+   */
+  async getFileBlurhash(file: File): Promise<{ blurhash: string; width: number; height: number }> {
+    const bitmap = await createImageBitmap(file);
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = bitmap.width;
+      canvas.height = bitmap.height;
+      canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+      return { blurhash: this.getBlurhash(canvas), width: bitmap.width, height: bitmap.height };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  /**
+   * GPS position stored in a JPEG's EXIF data, if any
+   */
+  async readGps(file: File): Promise<GpsCoordinates | null> {
+    if (file.type !== 'image/jpeg') return null;
+
+    try {
+      const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+      const tiffStart = this.findExifTiffStart(view);
+      return tiffStart === null ? null : this.readGpsFromTiff(view, tiffStart);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Data URL of a small image rendered from a blurhash, cached per hash
+   */
+  getPlaceholderUrl(blurhash: string): string | null {
+    const cached = this.placeholderCache.get(blurhash);
+    if (cached) return cached;
+
+    const pixels = this.decodeBlurhash(blurhash, BLURHASH_SAMPLE_SIZE, BLURHASH_SAMPLE_SIZE);
+    if (!pixels) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = BLURHASH_SAMPLE_SIZE;
+    canvas.height = BLURHASH_SAMPLE_SIZE;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    const imageData = context.createImageData(BLURHASH_SAMPLE_SIZE, BLURHASH_SAMPLE_SIZE);
+    imageData.data.set(pixels);
+    context.putImageData(imageData, 0, 0);
+
+    const url = canvas.toDataURL();
+    this.placeholderCache.set(blurhash, url);
+    return url;
+  }
+
+  private getCropRect(width: number, height: number, aspect: CropAspect): { x: number; y: number; width: number; height: number } {
+    const ratio = CROP_ASPECTS.find(option => option.value === aspect)?.ratio;
+    if (!ratio) return { x: 0, y: 0, width, height };
+
+    let cropWidth = width;
+    let cropHeight = Math.round(width / ratio);
+    if (cropHeight > height) {
+      cropHeight = height;
+      cropWidth = Math.round(height * ratio);
+    }
+    return {
+      x: Math.round((width - cropWidth) / 2),
+      y: Math.round((height - cropHeight) / 2),
+      width: cropWidth,
+      height: cropHeight
+    };
+  }
+
+  private async encode(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
+    const toBlob = (type: string) => new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+
+    // Browsers that can't encode WebP fall back to PNG, so check the type
+    const webp = await toBlob('image/webp');
+    if (webp && webp.type === 'image/webp') return webp;
+
+    const jpeg = await toBlob('image/jpeg');
+    if (!jpeg) throw new Error('Failed to encode image');
+    return jpeg;
+  }
+
+  // ---- Blurhash (https://github.com/woltapp/blurhash) ----
+
+  private getBlurhash(source: HTMLCanvasElement): string {
+    const ratio = source.width / source.height;
+    const width = ratio >= 1 ? BLURHASH_SAMPLE_SIZE : Math.max(1, Math.round(BLURHASH_SAMPLE_SIZE * ratio));
+    const height = ratio >= 1 ? Math.max(1, Math.round(BLURHASH_SAMPLE_SIZE / ratio)) : BLURHASH_SAMPLE_SIZE;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d')!;
+    context.drawImage(source, 0, 0, width, height);
+
+    return this.encodeBlurhash(context.getImageData(0, 0, width, height).data, width, height);
+  }
+
+  private encodeBlurhash(pixels: Uint8ClampedArray, width: number, height: number): string {
+    const factors: number[][] = [];
+    for (let y = 0; y < BLURHASH_COMPONENTS_Y; y++) {
+      for (let x = 0; x < BLURHASH_COMPONENTS_X; x++) {
+        const normalisation = x === 0 && y === 0 ? 1 : 2;
+        let r = 0;
+        let g = 0;
+        let b = 0;
+        for (let j = 0; j < height; j++) {
+          for (let i = 0; i < width; i++) {
+            const basis = normalisation * Math.cos(Math.PI * x * i / width) * Math.cos(Math.PI * y * j / height);
+            const index = 4 * (i + j * width);
+            r += basis * this.sRGBToLinear(pixels[index]);
+            g += basis * this.sRGBToLinear(pixels[index + 1]);
+            b += basis * this.sRGBToLinear(pixels[index + 2]);
+          }
+        }
+        const scale = 1 / (width * height);
+        factors.push([r * scale, g * scale, b * scale]);
+      }
+    }
+
+    const [dc, ...ac] = factors;
+    let hash = this.encode83((BLURHASH_COMPONENTS_X - 1) + (BLURHASH_COMPONENTS_Y - 1) * 9, 1);
+
+    const actualMax = Math.max(...ac.map(factor => Math.max(...factor.map(Math.abs))));
+    const quantisedMax = Math.floor(Math.max(0, Math.min(82, Math.floor(actualMax * 166 - 0.5))));
+    const maximumValue = (quantisedMax + 1) / 166;
+    hash += this.encode83(quantisedMax, 1);
+
+    hash += this.encode83(
+      (this.linearTosRGB(dc[0]) << 16) + (this.linearTosRGB(dc[1]) << 8) + this.linearTosRGB(dc[2]),
+      4
+    );
+    for (const factor of ac) {
+      const [qr, qg, qb] = factor.map(value =>
+        Math.floor(Math.max(0, Math.min(18, Math.floor(this.signPow(value / maximumValue, 0.5) * 9 + 9.5)))));
+      hash += this.encode83(qr * 19 * 19 + qg * 19 + qb, 2);
+    }
+    return hash;
+  }
+
+  private decodeBlurhash(hash: string, width: number, height: number): Uint8ClampedArray | null {
+    if (!hash || hash.length < 6) return null;
+
+    const sizeFlag = this.decode83(hash[0]);
+    const numY = Math.floor(sizeFlag / 9) + 1;
+    const numX = (sizeFlag % 9) + 1;
+    if (hash.length !== 4 + 2 * numX * numY) return null;
+
+    const maximumValue = (this.decode83(hash[1]) + 1) / 166;
+    const colors: number[][] = [];
+    const dc = this.decode83(hash.substring(2, 6));
+    colors.push([dc >> 16, (dc >> 8) & 255, dc & 255].map(value => this.sRGBToLinear(value)));
+    for (let i = 1; i < numX * numY; i++) {
+      const value = this.decode83(hash.substring(4 + i * 2, 6 + i * 2));
+      colors.push([Math.floor(value / (19 * 19)), Math.floor(value / 19) % 19, value % 19]
+        .map(quantised => this.signPow((quantised - 9) / 9, 2) * maximumValue));
+    }
+
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let r = 0;
+        let g = 0;
+        let b = 0;
+        for (let j = 0; j < numY; j++) {
+          for (let i = 0; i < numX; i++) {
+            const basis = Math.cos(Math.PI * x * i / width) * Math.cos(Math.PI * y * j / height);
+            const color = colors[i + j * numX];
+            r += color[0] * basis;
+            g += color[1] * basis;
+            b += color[2] * basis;
+          }
+        }
+        const index = 4 * (x + y * width);
+        pixels[index] = this.linearTosRGB(r);
+        pixels[index + 1] = this.linearTosRGB(g);
+        pixels[index + 2] = this.linearTosRGB(b);
+        pixels[index + 3] = 255;
+      }
+    }
+    return pixels;
+  }
+
+  private encode83(value: number, length: number): string {
+    let result = '';
+    for (let i = 1; i <= length; i++) {
+      const digit = Math.floor(value / Math.pow(83, length - i)) % 83;
+      result += BASE83_CHARS[digit];
+    }
+    return result;
+  }
+
+  private decode83(text: string): number {
+    let value = 0;
+    for (const char of text) {
+      value = value * 83 + BASE83_CHARS.indexOf(char);
+    }
+    return value;
+  }
+
+  private sRGBToLinear(value: number): number {
+    const v = value / 255;
+    return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  }
+
+  private linearTosRGB(value: number): number {
+    const v = Math.max(0, Math.min(1, value));
+    return v <= 0.0031308
+      ? Math.trunc(v * 12.92 * 255 + 0.5)
+      : Math.trunc((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+  }
+
+  private signPow(value: number, exponent: number): number {
+    return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+  }
+
+  // ---- EXIF GPS ----
+
+  // Offset of the TIFF header inside the JPEG's EXIF (APP1) segment
+  private findExifTiffStart(view: DataView): number | null {
+    if (view.getUint16(0) !== 0xFFD8) return null;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xFF00) !== 0xFF00) return null;
+      if (marker === 0xFFE1 && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+        return offset + 10;
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+    return null;
+  }
+
+  private readGpsFromTiff(view: DataView, tiffStart: number): GpsCoordinates | null {
+    const littleEndian = view.getUint16(tiffStart) === 0x4949; // "II"
+    const ifd0 = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+
+    const gpsPointer = this.readIfd(view, ifd0, littleEndian).get(0x8825);
+    if (gpsPointer === undefined) return null;
+
+    const gps = this.readIfd(view, tiffStart + view.getUint32(gpsPointer, littleEndian), littleEndian);
+    const latRef = gps.get(0x0001);
+    const lat = gps.get(0x0002);
+    const lngRef = gps.get(0x0003);
+    const lng = gps.get(0x0004);
+    if (latRef === undefined || lat === undefined || lngRef === undefined || lng === undefined) return null;
+
+    // Degrees, minutes and seconds are stored as three rationals after the value offset
+    const readDegrees = (entry: number): number => {
+      const offset = tiffStart + view.getUint32(entry, littleEndian);
+      const rational = (i: number) =>
+        view.getUint32(offset + i * 8, littleEndian) / (view.getUint32(offset + i * 8 + 4, littleEndian) || 1);
+      return rational(0) + rational(1) / 60 + rational(2) / 3600;
+    };
+
+    const latitude = readDegrees(lat) * (String.fromCharCode(view.getUint8(latRef)) === 'S' ? -1 : 1);
+    const longitude = readDegrees(lng) * (String.fromCharCode(view.getUint8(lngRef)) === 'W' ? -1 : 1);
+    if (!isFinite(latitude) || !isFinite(longitude) || (latitude === 0 && longitude === 0)) return null;
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+
+    return { lat: latitude, lng: longitude };
+  }
+
+  // Map of tag -> position of the entry's value field
+  private readIfd(view: DataView, offset: number, littleEndian: boolean): Map<number, number> {
+    const entries = new Map<number, number>();
+    const count = view.getUint16(offset, littleEndian);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      entries.set(view.getUint16(entry, littleEndian), entry + 8);
+    }
+    return entries;
+  }
+}
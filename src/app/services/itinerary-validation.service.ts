@@ -0,0 +1,152 @@
+import { Injectable, inject } from '@angular/core';
+import { GoogleMapsService, LocationCoordinates } from './google-maps.service';
+import { ItineraryIssue, TravelMode } from './trip.service';
+
+// Interfaces
+export interface ValidatableItineraryItem {
+  _id: string;
+  day: number;
+  title: string;
+  startTime?: string;
+  endTime?: string;
+  coordinates?: LocationCoordinates | null;
+  travelMode?: TravelMode;
+}
+
+export interface TravelSettings {
+  speeds: Record<TravelMode, number>; // Average km/h per mode
+  defaultMode: TravelMode;
+  bufferMinutes: number; // Slack on top of the travel estimate
+}
+
+// Same defaults as the backend; the trip constants endpoint sends the configured values
+export const DEFAULT_TRAVEL_SETTINGS: TravelSettings = {
+  speeds: { walking: 5, cycling: 15, transit: 25, driving: 40 },
+  defaultMode: 'driving',
+  bufferMinutes: 10
+};
+
+/**
+ * Client-side copy of the server's itinerary checks, so problems show up
+ * while the user is still editing or dragging activities around
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ItineraryValidationService {
+  private googleMaps = inject(GoogleMapsService);
+
+  /**
+   * Find overlapping activities, activities outside the trip dates and tight transfers
+   */
+  validate(
+    trip: { startDate: string; endDate: string; itinerary: ValidatableItineraryItem[] },
+    settings: TravelSettings = DEFAULT_TRAVEL_SETTINGS
+  ): ItineraryIssue[] {
+    const totalDays = this.countTripDays(trip.startDate, trip.endDate);
+    const issues: ItineraryIssue[] = [];
+
+    const items = trip.itinerary.map(item => ({
+      id: item._id,
+      day: item.day,
+      title: item.title,
+      start: this.toMinutes(item.startTime),
+      end: this.toMinutes(item.endTime),
+      coordinates: this.hasCoordinates(item.coordinates) ? item.coordinates! : null,
+      travelMode: item.travelMode || settings.defaultMode
+    }));
+
+    items.forEach(item => {
+      if (item.day < 1 || item.day > totalDays) {
+        issues.push({
+          type: 'outside_dates',
+          severity: 'error',
+          day: item.day,
+          itemIds: [item.id],
+          message: `"${item.title}" is on day ${item.day}, but the trip only has ${totalDays} day${totalDays === 1 ? '' : 's'}`
+        });
+      }
+      if (item.start !== null && item.end !== null && item.end <= item.start) {
+        issues.push({
+          type: 'invalid_time',
+          severity: 'error',
+          day: item.day,
+          itemIds: [item.id],
+          message: `"${item.title}" ends before it starts`
+        });
+      }
+    });
+
+    const days = [...new Set(items.map(i => i.day))].sort((a, b) => a - b);
+    days.forEach(day => {
+      const timed = items
+        .filter(i => i.day === day && i.start !== null)
+        .sort((a, b) => a.start! - b.start!);
+
+      // Compare with whichever earlier activity finishes last
+      const endOf = (item: typeof timed[number]) => (item.end !== null && item.end > item.start! ? item.end : item.start!);
+      let previous = timed[0];
+
+      for (let i = 1; i < timed.length; i++) {
+        const current = timed[i];
+        const gapMinutes = current.start! - endOf(previous);
+        const latest = endOf(current) > endOf(previous) ? current : previous;
+
+        if (gapMinutes < 0) {
+          issues.push({
+            type: 'overlap',
+            severity: 'error',
+            day,
+            itemIds: [previous.id, current.id],
+            message: `"${current.title}" starts before "${previous.title}" ends`
+          });
+        } else if (previous.coordinates && current.coordinates) {
+          const km = this.googleMaps.calculateDistance(previous.coordinates, current.coordinates);
+          const travelMinutes = this.estimateTravelMinutes(km, current.travelMode, settings);
+          if (gapMinutes < travelMinutes + settings.bufferMinutes) {
+            issues.push({
+              type: 'tight_transfer',
+              severity: 'warning',
+              day,
+              itemIds: [previous.id, current.id],
+              message: `Only ${gapMinutes} min to get from "${previous.title}" to "${current.title}" (about ${travelMinutes} min ${current.travelMode})`,
+              distanceKm: Math.round(km * 10) / 10,
+              travelMinutes,
+              gapMinutes,
+              travelMode: current.travelMode
+            });
+          }
+        }
+        previous = latest;
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * Minutes needed to cover a distance with the given travel mode
+   */
+  estimateTravelMinutes(km: number, mode: TravelMode, settings: TravelSettings = DEFAULT_TRAVEL_SETTINGS): number {
+    const speed = settings.speeds[mode] || settings.speeds[settings.defaultMode];
+    return Math.ceil((km / speed) * 60);
+  }
+
+  /**
+   * Convert "HH:MM" to minutes after midnight
+   */
+  private toMinutes(time?: string): number | null {
+    const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time || '');
+    return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+  }
+
+  private hasCoordinates(coordinates?: LocationCoordinates | null): boolean {
+    return !!coordinates && Number.isFinite(coordinates.lat) && Number.isFinite(coordinates.lng);
+  }
+
+  private countTripDays(startDate: string, endDate: string): number {
+    const start = new Date(startDate).setHours(0, 0, 0, 0);
+    const end = new Date(endDate).setHours(0, 0, 0, 0);
+    return Math.round((end - start) / (1000 * 60 * 60 * 24)) + 1;
+  }
+}
@@ -1,8 +1,10 @@
 import { Injectable, signal, computed } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable, BehaviorSubject } from 'rxjs';
+import { Observable, Subject } from 'rxjs';
 import { catchError, tap } from 'rxjs/operators';
 import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
+import { RealtimeService, MessageReadEvent, MessageReactionEvent, PresenceEvent, TypingEvent } from './realtime.service';
 
 // Interfaces
 export interface MessageUser {
@@ -10,6 +12,8 @@ export interface MessageUser {
   username: string;
   fullName: string;
   profilePicture: string;
+  isOnline?: boolean;
+  lastSeen?: string | null; // null when the user hides their online status
 }
 
 export interface MessageReaction {
@@ -24,6 +28,7 @@ export interface Message {
   senderId: MessageUser;
   receiverId?: MessageUser;
   messageText: string;
+  mentions?: string[]; // Ids of conversation members @mentioned in the message
   messageType: 'text' | 'image' | 'video' | 'file' | 'location';
   mediaUrl?: string;
   location?: {
@@ -110,6 +115,7 @@ export class MessageService {
   private messages = signal<Message[]>([]);
   private loading = signal<boolean>(false);
   private error = signal<string>('');
+  private typing = signal<Record<string, string[]>>({}); // conversationId -> typing user ids
 
   // Public computed signals
   readonly allConversations = computed(() => this.conversations());
@@ -118,11 +124,26 @@ export class MessageService {
   readonly isLoading = computed(() => this.loading());
   readonly errorMessage = computed(() => this.error());
 
-  // Behavior subjects for real-time updates
-  private newMessageSubject = new BehaviorSubject<Message | null>(null);
-  private messageReadSubject = new BehaviorSubject<{ messageId: string; readBy: string } | null>(null);
-
-  constructor(private http: HttpClient) {}
+  // Typing indicators expire on their own in case the "stopped" event never arrives
+  private readonly TYPING_TIMEOUT = 6000;
+  private typingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  // Subjects for real-time updates
+  private newMessageSubject = new Subject<Message>();
+  private messageReadSubject = new Subject<MessageReadEvent>();
+  private messageReactionSubject = new Subject<MessageReactionEvent>();
+
+  constructor(
+    private http: HttpClient,
+    private authService: AuthService,
+    private realtimeService: RealtimeService
+  ) {
+    this.realtimeService.newMessage$.subscribe(message => this.handleIncomingMessage(message));
+    this.realtimeService.messageRead$.subscribe(event => this.handleMessageRead(event));
+    this.realtimeService.messageReaction$.subscribe(event => this.handleMessageReaction(event));
+    this.realtimeService.presence$.subscribe(event => this.handlePresence(event));
+    this.realtimeService.typing$.subscribe(event => this.setTyping(event.conversationId, event.userId, event.isTyping));
+  }
 
   /**
    * Get user's conversations
@@ -237,9 +258,6 @@ export class MessageService {
 
           // Update conversation's last message
           this.updateConversationLastMessage(conversationId, messageText);
-
-          // Emit new message for real-time updates
-          this.newMessageSubject.next(response.data);
         }
       }),
       catchError(this.handleError)
@@ -261,12 +279,6 @@ export class MessageService {
                 : msg
             )
           );
-
-          // Emit message read event
-          this.messageReadSubject.next({
-            messageId,
-            readBy: response.data.readBy[response.data.readBy.length - 1]?.user._id || ''
-          });
         }
       }),
       catchError(this.handleError)
@@ -366,6 +378,116 @@ export class MessageService {
     this.updateConversationLastMessage(message.conversationId, message.messageText);
   }
 
+  /**
+   * Handle a message pushed over the socket
+   */
+  private handleIncomingMessage(message: Message): void {
+    const isOwnMessage = message.senderId._id === this.authService.user()?._id;
+    const isActive = this.currentConversation()?._id === message.conversationId;
+
+    this.setTyping(message.conversationId, message.senderId._id, false);
+
+    if (isActive && !this.messages().some(msg => msg._id === message._id)) {
+      this.messages.update(prev => [...prev, message]);
+    }
+
+    const conversation = this.conversations().find(conv => conv._id === message.conversationId);
+    if (!conversation) {
+      // First message of a conversation we don't have yet
+      this.getConversations().subscribe({
+        error: (error) => console.error('Error refreshing conversations:', error)
+      });
+    } else {
+      const updated: Conversation = {
+        ...conversation,
+        lastMessage: message.messageText,
+        lastMessageAt: message.createdAt,
+        lastMessageBy: message.senderId,
+        unreadCount: isActive || isOwnMessage ? 0 : (conversation.unreadCount || 0) + 1
+      };
+      this.conversations.update(prev => [updated, ...prev.filter(conv => conv._id !== conversation._id)]);
+    }
+
+    this.newMessageSubject.next(message);
+  }
+
+  /**
+   * Apply a read receipt pushed over the socket
+   */
+  private handleMessageRead(event: MessageReadEvent): void {
+    this.messages.update(prev =>
+      prev.map(msg => {
+        const matches = event.messageId
+          ? msg._id === event.messageId
+          : msg.conversationId === event.conversationId && msg.senderId._id !== event.userId;
+        return matches ? { ...msg, read: true } : msg;
+      })
+    );
+
+    this.messageReadSubject.next(event);
+  }
+
+  /**
+   * Apply reaction changes pushed over the socket
+   */
+  private handleMessageReaction(event: MessageReactionEvent): void {
+    this.messages.update(prev =>
+      prev.map(msg =>
+        msg._id === event.messageId
+          ? { ...msg, reactions: event.reactions }
+          : msg
+      )
+    );
+
+    this.messageReactionSubject.next(event);
+  }
+
+  /**
+   * Apply a presence change to every conversation the user is a member of
+   */
+  private handlePresence(event: PresenceEvent): void {
+    const applyPresence = (conversation: Conversation): Conversation => ({
+      ...conversation,
+      members: conversation.members.map(member =>
+        member._id === event.userId
+          ? { ...member, isOnline: event.isOnline, lastSeen: event.lastSeen }
+          : member
+      )
+    });
+
+    this.conversations.update(prev => prev.map(applyPresence));
+
+    const current = this.currentConversation();
+    if (current) {
+      this.currentConversation.set(applyPresence(current));
+    }
+  }
+
+  /**
+   * Track who is typing in a conversation
+   */
+  private setTyping(conversationId: string, userId: string, isTyping: boolean): void {
+    const key = `${conversationId}:${userId}`;
+    clearTimeout(this.typingTimers.get(key));
+    this.typingTimers.delete(key);
+
+    this.typing.update(prev => {
+      const others = (prev[conversationId] || []).filter(id => id !== userId);
+      return { ...prev, [conversationId]: isTyping ? [...others, userId] : others };
+    });
+
+    if (isTyping) {
+      this.typingTimers.set(key, setTimeout(() => this.setTyping(conversationId, userId, false), this.TYPING_TIMEOUT));
+    }
+  }
+
+  /**
+   * Get the ids of members currently typing in a conversation
+   */
+  getTypingUserIds(conversationId: string): string[] {
+    return this.typing()[conversationId] || [];
+  }
+
   /**
    * Update conversation's last message
    */
@@ -387,17 +509,24 @@ export class MessageService {
   /**
    * Get new message observable
    */
-  getNewMessageObservable(): Observable<Message | null> {
+  getNewMessageObservable(): Observable<Message> {
     return this.newMessageSubject.asObservable();
   }
 
   /**
    * Get message read observable
    */
-  getMessageReadObservable(): Observable<{ messageId: string; readBy: string } | null> {
+  getMessageReadObservable(): Observable<MessageReadEvent> {
     return this.messageReadSubject.asObservable();
   }
 
+  /**
+   * Get message reaction observable
+   */
+  getMessageReactionObservable(): Observable<MessageReactionEvent> {
+    return this.messageReactionSubject.asObservable();
+  }
+
   /**
    * Clear current conversation
    */
@@ -0,0 +1,221 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, throwError } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+
+// Interfaces for notification data
+export type NotificationType =
+  | 'like' | 'comment' | 'follow' | 'unfollow'
+  | 'trip_invite' | 'trip_join' | 'trip_leave' | 'trip_update'
+  | 'message' | 'mention'
+  | 'admin_warning' | 'admin_ban' | 'system';
+
+export type NotificationReferenceModel = 'Post' | 'Comment' | 'Trip' | 'User' | 'Message';
+
+export interface NotificationSender {
+  _id: string;
+  username: string;
+  fullName: string;
+  profilePicture: string;
+}
+
+export interface Notification {
+  _id: string;
+  userId: string;
+  senderId?: NotificationSender;
+  type: NotificationType;
+  referenceId: string;
+  referenceModel: NotificationReferenceModel;
+  message: string;
+  data?: Record<string, any>;
+  isRead: boolean;
+  readAt?: string;
+  priority: 'low' | 'normal' | 'high' | 'urgent';
+  canDismiss: boolean;
+  timeAgo?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NotificationsResponse {
+  success: boolean;
+  data: {
+    notifications: Notification[];
+    unreadCount: number;
+    pagination: {
+      currentPage: number;
+      totalPages: number;
+      totalItems: number;
+      hasNext: boolean;
+      hasPrev: boolean;
+    };
+  };
+}
+
+export interface NotificationUnreadCountResponse {
+  success: boolean;
+  data: {
+    unreadCount: number;
+  };
+}
+
+export interface SingleNotificationResponse {
+  success: boolean;
+  message: string;
+  data: Notification;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationService {
+  private readonly API_URL = `${environment.backendUrl}/api/notifications`;
+  private http = inject(HttpClient);
+
+  // Reactive state
+  private notificationList = signal<Notification[]>([]);
+  private unread = signal<number>(0);
+
+  // Public computed signals
+  readonly notifications = computed(() => this.notificationList());
+  readonly unreadCount = computed(() => this.unread());
+
+  /**
+   * Get current user's notifications
+   */
+  getNotifications(page: number = 1, limit: number = 20, unreadOnly: boolean = false): Observable<NotificationsResponse> {
+    const unreadParam = unreadOnly ? '&unread=true' : '';
+    return this.http.get<NotificationsResponse>(`${this.API_URL}?page=${page}&limit=${limit}${unreadParam}`).pipe(
+      tap(response => {
+        if (response.success) {
+          if (page === 1) {
+            this.notificationList.set(response.data.notifications);
+          } else {
+            this.notificationList.update(prev => [...prev, ...response.data.notifications]);
+          }
+          this.unread.set(response.data.unreadCount);
+        }
+      }),
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Refresh the unread badge count
+   */
+  refreshUnreadCount(): Observable<NotificationUnreadCountResponse> {
+    return this.http.get<NotificationUnreadCountResponse>(`${this.API_URL}/unread-count`).pipe(
+      tap(response => {
+        if (response.success) {
+          this.unread.set(response.data.unreadCount);
+        }
+      }),
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Mark a single notification as read
+   */
+  markAsRead(notificationId: string): Observable<SingleNotificationResponse> {
+    return this.http.put<SingleNotificationResponse>(`${this.API_URL}/${notificationId}/read`, {}).pipe(
+      tap(response => {
+        if (response.success) {
+          const wasUnread = this.notificationList().some(n => n._id === notificationId && !n.isRead);
+          this.notificationList.update(prev =>
+            prev.map(n => n._id === notificationId ? { ...n, isRead: true, readAt: response.data.readAt } : n)
+          );
+          if (wasUnread) {
+            this.unread.update(count => Math.max(0, count - 1));
+          }
+        }
+      }),
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Mark all notifications as read
+   */
+  markAllAsRead(): Observable<{ success: boolean; message: string }> {
+    return this.http.put<{ success: boolean; message: string }>(`${this.API_URL}/mark-all-read`, {}).pipe(
+      tap(response => {
+        if (response.success) {
+          this.notificationList.update(prev => prev.map(n => ({ ...n, isRead: true })));
+          this.unread.set(0);
+        }
+      }),
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Delete a notification
+   */
+  deleteNotification(notificationId: string): Observable<{ success: boolean; message: string }> {
+    return this.http.delete<{ success: boolean; message: string }>(`${this.API_URL}/${notificationId}`).pipe(
+      tap(response => {
+        if (response.success) {
+          const removed = this.notificationList().find(n => n._id === notificationId);
+          this.notificationList.update(prev => prev.filter(n => n._id !== notificationId));
+          if (removed && !removed.isRead) {
+            this.unread.update(count => Math.max(0, count - 1));
+          }
+        }
+      }),
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Reset local state (e.g. on logout)
+   */
+  clear(): void {
+    this.notificationList.set([]);
+    this.unread.set(0);
+  }
+
+  /**
+   * Get the in-app route a notification points to
+   */
+  getNotificationLink(notification: Notification): string[] {
+    switch (notification.referenceModel) {
+      case 'Trip':
+        return ['/trips', notification.referenceId];
+      case 'User':
+        return notification.senderId ? ['/user', notification.senderId.username] : ['/feed'];
+      case 'Message':
+        return ['/messages'];
+      case 'Post':
+        // Likes, comments and mentions, including mentions in comments, carry the post id
+        return ['/post', notification.referenceId];
+      default:
+        return ['/feed'];
+    }
+  }
+
+  /**
+   * Get sender avatar URL
+   */
+  getSenderAvatarUrl(notification: Notification): string {
+    const picture = notification.senderId?.profilePicture;
+    if (picture) {
+      return picture.startsWith('http') ? picture : `${environment.backendUrl}${picture}`;
+    }
+    return '/assets/images/avatars/default-avatar.svg';
+  }
+
+  private handleError(error: HttpErrorResponse): Observable<never> {
+    let errorMessage = 'An unknown error occurred!';
+    if (error.error instanceof ErrorEvent) {
+      // Client-side errors
+      errorMessage = `Error: ${error.error.message}`;
+    } else {
+      // Server-side errors
+      errorMessage = error.error?.message || error.statusText || `Error Code: ${error.status}\nMessage: ${error.message}`;
+    }
+    console.error('NotificationService Error:', errorMessage);
+    return throwError(() => new Error(errorMessage));
+  }
+}
@@ -9,6 +9,7 @@ export interface PostLocation {
   name?: string;
   lat?: number;
   lng?: number;
+  placeId?: string; // Google place id, or a slug of the name
 }
 
 export interface PostUser {
@@ -25,6 +26,7 @@ export interface Post {
   media: string[];
   location?: PostLocation;
   hashtags: string[];
+  mentions?: string[]; // Ids of users @mentioned in the caption
   likes: string[];
   commentsCount: number;
   isPublic: boolean;
@@ -34,14 +36,52 @@ export interface Post {
   updatedAt: string;
   likesCount: number;
   hasLocation: boolean;
+  isSaved?: boolean; // Whether the current user has saved the post to any collection
+  editedAt?: string | null; // Last change to the caption, media or location
+  mediaMeta?: MediaMeta[]; // Placeholders and sizes for images processed before upload
 }
 
+// Blurhash placeholder and pixel size of an uploaded image
+export interface MediaMeta {
+  url: string;
+  blurhash: string;
+  width: number;
+  height: number;
+}
+
+// A previous version of an edited post
+export interface PostVersion {
+  _id: string;
+  caption: string;
+  media: string[]; // Only media the post still has
+  removedMedia: number; // Media files removed from the post since
+  location?: PostLocation;
+  editedAt: string; // When this version was replaced
+}
+
+export interface PostHistoryResponse {
+  success: boolean;
+  data: {
+    editedAt: string | null;
+    versions: PostVersion[]; // Newest first
+  };
+}
+
+// "For you" is ranked; "following" is newest first from followed users only
+export type FeedMode = 'for_you' | 'following';
+
 export interface CreatePostData {
   caption?: string;
   location?: PostLocation;
   isPublic?: boolean;
 }
 
+export interface UpdatePostData {
+  caption?: string;
+  location?: PostLocation | null; // null removes the location
+  isPublic?: boolean;
+}
+
 export interface PostsResponse {
   success: boolean;
   message?: string;
@@ -55,9 +95,48 @@ export interface PostsResponse {
       hasPrev: boolean;
     };
     hashtag?: string;
+    relatedTags?: HashtagSuggestion[]; // Hashtag and place pages, first page only
+    followersCount?: number; // Hashtag page, first page only
+    isFollowing?: boolean; // Whether the current user follows the hashtag
+    place?: Place; // Place page, first page only
     location?: PostLocation;
     radius?: number;
     query?: string;
+    mode?: FeedMode;
+    session?: string; // Pass back with later pages to keep the feed order stable
+    sessionExpired?: boolean; // The session ran out and the feed restarted at page 1
+  };
+}
+
+export interface HashtagSuggestion {
+  tag: string;
+  postsCount: number;
+}
+
+export interface TrendingHashtag extends HashtagSuggestion {
+  authorsCount: number;
+  score: number;
+}
+
+export interface TrendingHashtagsResponse {
+  success: boolean;
+  data: {
+    hashtags: TrendingHashtag[];
+    windowHours: number;
+  };
+}
+
+export interface Place {
+  placeId: string;
+  name: string;
+  lat?: number;
+  lng?: number;
+}
+
+export interface HashtagSearchResponse {
+  success: boolean;
+  data: {
+    hashtags: HashtagSuggestion[];
   };
 }
 
@@ -67,6 +146,15 @@ export interface SinglePostResponse {
   data: Post;
 }
 
+export interface SaveResponse {
+  success: boolean;
+  message: string;
+  data: {
+    isSaved: boolean;
+    collectionId?: string;
+  };
+}
+
 export interface LikeResponse {
   success: boolean;
   message: string;
@@ -88,7 +176,7 @@ export class PostService {
   /**
    * Create a new post with media files
    */
-  createPost(postData: CreatePostData, mediaFiles: File[]): Observable<SinglePostResponse> {
+  createPost(postData: CreatePostData, mediaFiles: File[], mediaMeta?: (Omit<MediaMeta, 'url'> | null)[]): Observable<SinglePostResponse> {
     const formData = new FormData();
 
     // Add text data
@@ -101,6 +189,9 @@ export class PostService {
       formData.append('media', file);
     });
 
+    // One entry per file, in upload order; null for files without a placeholder (videos)
+    if (mediaMeta?.some(meta => meta)) formData.append('mediaMeta', JSON.stringify(mediaMeta));
+
     return this.http.post<SinglePostResponse>(this.API_URL, formData).pipe(
       catchError(this.handleError)
     );
@@ -109,8 +200,9 @@ export class PostService {
   /**
    * Get all posts (feed)
    */
-  getAllPosts(page: number = 1, limit: number = 20): Observable<PostsResponse> {
-    return this.http.get<PostsResponse>(`${this.API_URL}?page=${page}&limit=${limit}`).pipe(
+  getAllPosts(page: number = 1, limit: number = 20, mode: FeedMode = 'for_you', session?: string): Observable<PostsResponse> {
+    const sessionParam = session ? `&session=${session}` : '';
+    return this.http.get<PostsResponse>(`${this.API_URL}?page=${page}&limit=${limit}&mode=${mode}${sessionParam}`).pipe(
       catchError(this.handleError)
     );
   }
@@ -127,13 +219,36 @@ export class PostService {
   /**
    * Update post
    */
-  updatePost(postId: string, postData: Partial<CreatePostData>): Observable<SinglePostResponse> {
-    const updateData: any = {};
-    if (postData.caption !== undefined) updateData.caption = postData.caption;
-    if (postData.location) updateData.location = JSON.stringify(postData.location);
-    if (postData.isPublic !== undefined) updateData.isPublic = postData.isPublic;
+  updatePost(postId: string, postData: UpdatePostData, media?: (string | File)[]): Observable<SinglePostResponse> {
+    const formData = new FormData();
+
+    if (postData.caption !== undefined) formData.append('caption', postData.caption);
+    if (postData.location !== undefined) {
+      formData.append('location', postData.location ? JSON.stringify(postData.location) : '');
+    }
+    if (postData.isPublic !== undefined) formData.append('isPublic', postData.isPublic.toString());
+
+    // Media in display order: URLs of media to keep and new files to upload
+    if (media) {
+      let uploads = 0;
+      const mediaOrder = media.map(item => {
+        if (typeof item === 'string') return item;
+        formData.append('media', item);
+        return `upload:${uploads++}`;
+      });
+      formData.append('mediaOrder', JSON.stringify(mediaOrder));
+    }
 
-    return this.http.put<SinglePostResponse>(`${this.API_URL}/${postId}`, updateData).pipe(
+    return this.http.put<SinglePostResponse>(`${this.API_URL}/${postId}`, formData).pipe(
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Get the previous versions of an edited post (author only)
+   */
+  getPostHistory(postId: string): Observable<PostHistoryResponse> {
+    return this.http.get<PostHistoryResponse>(`${this.API_URL}/${postId}/history`).pipe(
       catchError(this.handleError)
     );
   }
@@ -156,6 +271,28 @@ export class PostService {
     );
   }
 
+  /**
+   * Save post to the default collection, or to the given one
+   */
+  savePost(postId: string, collectionId?: string): Observable<SaveResponse> {
+    return this.http.post<SaveResponse>(`${environment.backendUrl}/api/collections/save`, {
+      itemType: 'post',
+      itemId: postId,
+      collectionId
+    }).pipe(
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Remove post from all of the user's collections
+   */
+  unsavePost(postId: string): Observable<SaveResponse> {
+    return this.http.delete<SaveResponse>(`${environment.backendUrl}/api/collections/save/post/${postId}`).pipe(
+      catchError(this.handleError)
+    );
+  }
+
   /**
    * Get posts by user
    */
@@ -174,6 +311,35 @@ export class PostService {
     );
   }
 
+  /**
+   * Suggest hashtags starting with a prefix, most used first
+   */
+  searchHashtags(prefix: string, limit: number = 8): Observable<HashtagSearchResponse> {
+    const encodedPrefix = encodeURIComponent(prefix);
+    return this.http.get<HashtagSearchResponse>(`${this.API_URL}/hashtags/search?q=${encodedPrefix}&limit=${limit}`).pipe(
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Get trending hashtags over the last `hours` (server default when omitted)
+   */
+  getTrendingHashtags(limit: number = 10, hours?: number): Observable<TrendingHashtagsResponse> {
+    const window = hours ? `&hours=${hours}` : '';
+    return this.http.get<TrendingHashtagsResponse>(`${this.API_URL}/hashtags/trending?limit=${limit}${window}`).pipe(
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Get posts tagged at a place
+   */
+  getPostsByPlace(placeId: string, page: number = 1, limit: number = 20): Observable<PostsResponse> {
+    return this.http.get<PostsResponse>(`${this.API_URL}/place/${encodeURIComponent(placeId)}?page=${page}&limit=${limit}`).pipe(
+      catchError(this.handleError)
+    );
+  }
+
   /**
    * Get posts by location (nearby)
    */
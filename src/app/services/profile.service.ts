@@ -35,6 +35,7 @@ export interface ProfileResponse {
     user: ProfileUser;
     posts: ProfilePost[];
     trips: ProfileTrip[];
+    isBlocked?: boolean;
   };
 }
 
@@ -58,6 +59,34 @@ export interface FollowResponse {
   };
 }
 
+export interface SuggestedUser {
+  user: Pick<ProfileUser, '_id' | 'username' | 'fullName' | 'profilePicture' | 'bio'>;
+  reason: string;
+  reasons: string[];
+  mutualCount: number;
+  score: number;
+}
+
+export interface SuggestionsResponse {
+  success: boolean;
+  data: {
+    suggestions: SuggestedUser[];
+  };
+}
+
+export interface FollowedHashtagsResponse {
+  success: boolean;
+  message?: string;
+  data: {
+    hashtags: string[];
+  };
+}
+
+export interface BlockResponse {
+  success: boolean;
+  message: string;
+}
+
 @Injectable({
   providedIn: 'root'
 })
@@ -200,6 +229,65 @@ export class ProfileService {
     );
   }
 
+  /**
+   * Get people the current user may want to follow, each with the reason they are suggested
+   */
+  getSuggestions(limit: number = 10): Observable<SuggestionsResponse> {
+    return this.http.get<SuggestionsResponse>(`${this.API_URL}/suggestions?limit=${limit}`).pipe(
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Block a user; this also removes follows in both directions
+   */
+  blockUser(userId: string): Observable<BlockResponse> {
+    return this.http.post<BlockResponse>(`${this.API_URL}/block/${userId}`, {}).pipe(
+      tap(response => {
+        if (response.success) {
+          this.authService.removeFollowing(userId);
+        }
+      }),
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Unblock a user
+   */
+  unblockUser(userId: string): Observable<BlockResponse> {
+    return this.http.delete<BlockResponse>(`${this.API_URL}/block/${userId}`).pipe(
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Get the hashtags the current user follows
+   */
+  getFollowedHashtags(): Observable<FollowedHashtagsResponse> {
+    return this.http.get<FollowedHashtagsResponse>(`${this.API_URL}/hashtags`).pipe(
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Follow a hashtag so its posts show up in the feed
+   */
+  followHashtag(tag: string): Observable<FollowedHashtagsResponse> {
+    return this.http.post<FollowedHashtagsResponse>(`${this.API_URL}/hashtags/${tag}`, {}).pipe(
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Unfollow a hashtag
+   */
+  unfollowHashtag(tag: string): Observable<FollowedHashtagsResponse> {
+    return this.http.delete<FollowedHashtagsResponse>(`${this.API_URL}/hashtags/${tag}`).pipe(
+      catchError(this.handleError)
+    );
+  }
+
   /**
    * Check if the current user is following a specific user
    */
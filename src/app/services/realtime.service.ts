@@ -0,0 +1,170 @@
+import { Injectable, signal, computed, inject } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { io, Socket } from 'socket.io-client';
+import { environment } from '../../environments/environment';
+import { AuthService } from './auth.service';
+import type { Message, MessageReaction } from './message.service';
+
+// Interfaces
+export interface MessageReadEvent {
+  conversationId: string;
+  messageId?: string; // Omitted when the whole conversation was read
+  userId: string;
+  readAt: string;
+}
+
+export interface MessageReactionEvent {
+  conversationId: string;
+  messageId: string;
+  reactions: MessageReaction[];
+}
+
+export interface PresenceEvent {
+  userId: string;
+  isOnline: boolean;
+  lastSeen: string | null;
+}
+
+export interface TypingEvent {
+  conversationId: string;
+  userId: string;
+  isTyping: boolean;
+}
+
+// Retry delays after the server rejects the connection (e.g. an expired token)
+const AUTH_RETRY_DELAY = 5000;
+const MAX_AUTH_RETRY_DELAY = 60000;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class RealtimeService {
+  private authService = inject(AuthService);
+
+  private socket: Socket | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Conversation rooms to rejoin whenever the socket (re)connects
+  private joinedConversations = new Set<string>();
+
+  // Reactive state
+  private connected = signal<boolean>(false);
+
+  // Public computed signals
+  readonly isConnected = computed(() => this.connected());
+
+  // Event streams
+  private newMessageSubject = new Subject<Message>();
+  private messageReadSubject = new Subject<MessageReadEvent>();
+  private messageReactionSubject = new Subject<MessageReactionEvent>();
+  private presenceSubject = new Subject<PresenceEvent>();
+  private typingSubject = new Subject<TypingEvent>();
+  private reconnectedSubject = new Subject<void>();
+
+  readonly newMessage$: Observable<Message> = this.newMessageSubject.asObservable();
+  readonly messageRead$: Observable<MessageReadEvent> = this.messageReadSubject.asObservable();
+  readonly messageReaction$: Observable<MessageReactionEvent> = this.messageReactionSubject.asObservable();
+  readonly presence$: Observable<PresenceEvent> = this.presenceSubject.asObservable();
+  readonly typing$: Observable<TypingEvent> = this.typingSubject.asObservable();
+  readonly reconnected$: Observable<void> = this.reconnectedSubject.asObservable();
+
+  /**
+   * Open the socket connection for the signed-in user
+   */
+  connect(): void {
+    if (this.socket || !this.authService.getToken()) {
+      return;
+    }
+
+    let hasConnected = false;
+    let retryDelay = AUTH_RETRY_DELAY;
+
+    const socket = io(environment.backendUrl, {
+      // Read the token on every attempt so reconnects pick up refreshed tokens
+      auth: (cb) => cb({ token: this.authService.getToken() }),
+      transports: ['websocket', 'polling']
+    });
+    this.socket = socket;
+
+    this.socket.on('connect', () => {
+      this.connected.set(true);
+      retryDelay = AUTH_RETRY_DELAY;
+
+      // Rooms are dropped with the old connection, so join them again
+      this.socket?.emit('join-user-room');
+      this.joinedConversations.forEach(conversationId => {
+        this.socket?.emit('join-conversation', conversationId);
+      });
+
+      if (hasConnected) {
+        this.reconnectedSubject.next();
+      }
+      hasConnected = true;
+    });
+
+    this.socket.on('disconnect', () => {
+      this.connected.set(false);
+    });
+
+    this.socket.on('connect_error', (error) => {
+      console.error('Realtime connection error:', error.message);
+
+      // socket.io gives up on connections the server rejected, so try again
+      // later with whatever token we have by then, backing off each time
+      if (!socket.active) {
+        this.retryTimer = setTimeout(() => {
+          this.retryTimer = null;
+          if (this.socket === socket && this.authService.getToken()) {
+            socket.connect();
+          }
+        }, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, MAX_AUTH_RETRY_DELAY);
+      }
+    });
+
+    this.socket.on('new-message', (message: Message) => this.newMessageSubject.next(message));
+    this.socket.on('message-read', (event: MessageReadEvent) => this.messageReadSubject.next(event));
+    this.socket.on('message-reaction', (event: MessageReactionEvent) => this.messageReactionSubject.next(event));
+    this.socket.on('presence', (event: PresenceEvent) => this.presenceSubject.next(event));
+    this.socket.on('user-typing', (event: TypingEvent) => this.typingSubject.next(event));
+  }
+
+  /**
+   * Close the socket connection (e.g. on logout)
+   */
+  disconnect(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.joinedConversations.clear();
+    this.socket?.disconnect();
+    this.socket = null;
+    this.connected.set(false);
+  }
+
+  /**
+   * Subscribe to read receipts and reactions for a conversation
+   */
+  joinConversation(conversationId: string): void {
+    this.joinedConversations.add(conversationId);
+    this.socket?.emit('join-conversation', conversationId);
+  }
+
+  /**
+   * Stop receiving events for a conversation
+   */
+  leaveConversation(conversationId: string): void {
+    this.joinedConversations.delete(conversationId);
+    this.socket?.emit('leave-conversation', conversationId);
+  }
+
+  /**
+   * Tell the other members of a conversation whether we're typing.
+   * Skipped for users who hide their online status.
+   */
+  sendTyping(conversationId: string, isTyping: boolean): void {
+    if (this.authService.user()?.showOnline === false) return;
+    this.socket?.emit('typing', { conversationId, isTyping });
+  }
+}
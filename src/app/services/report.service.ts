@@ -0,0 +1,181 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from '../../environments/environment';
+
+// Interfaces
+export type ReportType = 'post' | 'comment' | 'user' | 'message' | 'trip';
+
+export type ReportReason =
+  | 'spam' | 'harassment' | 'hate_speech' | 'violence' | 'nudity'
+  | 'false_information' | 'copyright' | 'impersonation'
+  | 'inappropriate_content' | 'other';
+
+export type ReportStatus = 'pending' | 'investigating' | 'resolved' | 'dismissed';
+export type ReportPriority = 'low' | 'medium' | 'high' | 'urgent';
+export type ModerationAction = 'warning' | 'content_removed' | 'user_suspended' | 'user_banned';
+
+// Whether the reported content is still up, as seen by the moderation queue
+export type ReportContentState = 'visible' | 'removed' | 'deleted' | 'suspended' | 'banned';
+
+export interface ReportTarget {
+  type: ReportType;
+  id: string;
+  label: string; // Shown in the report dialog, e.g. "@username's post"
+}
+
+export interface ReportUser {
+  _id: string;
+  username: string;
+  fullName: string;
+  profilePicture?: string;
+}
+
+export interface ReportedUser extends ReportUser {
+  role: 'user' | 'admin';
+  isActive: boolean;
+  suspendedUntil?: string;
+}
+
+export interface Report {
+  _id: string;
+  reporterId: ReportUser;
+  reportedType: ReportType;
+  reportedId: string;
+  reportedUser?: ReportedUser | null;
+  contentPreview?: string;
+  contentState: ReportContentState;
+  reason: ReportReason;
+  description?: string;
+  status: ReportStatus;
+  priority: ReportPriority;
+  handledBy?: ReportUser | null;
+  adminNotes?: string;
+  actionTaken: 'none' | ModerationAction;
+  resolvedAt?: string;
+  createdAt: string;
+}
+
+export interface ReportFilters {
+  status?: 'open' | 'all' | ReportStatus;
+  priority?: ReportPriority | '';
+  type?: ReportType | '';
+  assignee?: string; // 'me', 'unassigned' or an admin id
+  page?: number;
+}
+
+export interface ReportStats {
+  statusStats: { _id: ReportStatus; count: number }[];
+  reasonStats: { _id: ReportReason; count: number }[];
+  priorityStats: { _id: ReportPriority; count: number }[];
+  overdueCount: number;
+}
+
+export interface ReportsResponse {
+  success: boolean;
+  data: Report[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    hasMore: boolean;
+  };
+}
+
+export const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: 'spam', label: 'Spam' },
+  { value: 'harassment', label: 'Harassment or bullying' },
+  { value: 'hate_speech', label: 'Hate speech' },
+  { value: 'violence', label: 'Violence or threats' },
+  { value: 'nudity', label: 'Nudity or sexual content' },
+  { value: 'false_information', label: 'False information' },
+  { value: 'copyright', label: 'Copyright infringement' },
+  { value: 'impersonation', label: 'Impersonation' },
+  { value: 'inappropriate_content', label: 'Inappropriate content' },
+  { value: 'other', label: 'Something else' }
+];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ReportService {
+  private readonly API_URL = `${environment.backendUrl}/api/reports`;
+  private readonly ADMIN_URL = `${environment.backendUrl}/api/admin/reports`;
+  private http = inject(HttpClient);
+
+  /**
+   * Report a post, comment, user, message or trip
+   */
+  createReport(target: ReportTarget, reason: ReportReason, description?: string): Observable<any> {
+    return this.http.post(this.API_URL, {
+      reportedType: target.type,
+      reportedId: target.id,
+      reason,
+      description
+    });
+  }
+
+  /**
+   * Get the moderation queue (admin only)
+   */
+  getReports(filters: ReportFilters = {}): Observable<ReportsResponse> {
+    let params = new HttpParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        params = params.set(key, String(value));
+      }
+    });
+    return this.http.get<ReportsResponse>(this.ADMIN_URL, { params });
+  }
+
+  /**
+   * Get report counts for the dashboard (admin only)
+   */
+  getStats(): Observable<{ success: boolean; data: ReportStats }> {
+    return this.http.get<{ success: boolean; data: ReportStats }>(`${this.ADMIN_URL}/stats`);
+  }
+
+  /**
+   * Get admins that reports can be assigned to
+   */
+  getAssignees(): Observable<{ success: boolean; data: ReportUser[] }> {
+    return this.http.get<{ success: boolean; data: ReportUser[] }>(`${this.ADMIN_URL}/assignees`);
+  }
+
+  /**
+   * Assign a report; without an admin id it is assigned to the current admin
+   */
+  assignReport(reportId: string, adminId?: string): Observable<{ success: boolean; data: Report }> {
+    return this.http.put<{ success: boolean; data: Report }>(`${this.ADMIN_URL}/${reportId}/assign`, { adminId });
+  }
+
+  /**
+   * Resolve a report by taking a moderation action
+   */
+  resolveReport(
+    reportId: string,
+    action: ModerationAction,
+    adminNotes?: string,
+    suspensionDays?: number
+  ): Observable<{ success: boolean; data: Report }> {
+    return this.http.put<{ success: boolean; data: Report }>(`${this.ADMIN_URL}/${reportId}/resolve`, {
+      action,
+      adminNotes,
+      suspensionDays
+    });
+  }
+
+  /**
+   * Close a report without taking action
+   */
+  dismissReport(reportId: string, adminNotes?: string): Observable<{ success: boolean; data: Report }> {
+    return this.http.put<{ success: boolean; data: Report }>(`${this.ADMIN_URL}/${reportId}/dismiss`, { adminNotes });
+  }
+
+  /**
+   * Human-readable label for a report reason
+   */
+  getReasonLabel(reason: ReportReason): string {
+    return REPORT_REASONS.find(r => r.value === reason)?.label || reason;
+  }
+}
@@ -0,0 +1,76 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { ApiFieldError } from './auth.service';
+import { ThemePreference } from './theme.service';
+
+// Interfaces
+export interface UserSettings {
+  account: {
+    fullName: string;
+    email: string;
+    isVerified: boolean;
+  };
+  privacy: {
+    showOnline: boolean;
+    allowJoinRequests: boolean;
+  };
+  security: {
+    loginAlerts: boolean;
+    // Read-only; changed through AuthService's two-factor methods
+    twoFactorEnabled: boolean;
+    recoveryCodesRemaining: number;
+  };
+  appearance: {
+    theme: ThemePreference;
+    compactMode: boolean;
+  };
+  updatedAt: string;
+}
+
+// Any subset of the editable settings
+export interface UserSettingsUpdate {
+  account?: Partial<Omit<UserSettings['account'], 'isVerified'>> & { currentPassword?: string };
+  privacy?: Partial<UserSettings['privacy']>;
+  security?: Partial<Pick<UserSettings['security'], 'loginAlerts'>>;
+  appearance?: Partial<UserSettings['appearance']>;
+}
+
+// Validation messages keyed by field path, e.g. "account.email"
+export type FieldErrors = Record<string, string>;
+
+/**
+ * First message per field from an API validation error list
+ */
+export function toFieldErrors(errors: ApiFieldError[] | undefined): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  (errors || []).forEach(error => {
+    if (error.path && !fieldErrors[error.path]) {
+      fieldErrors[error.path] = error.msg;
+    }
+  });
+  return fieldErrors;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SettingsService {
+  private readonly API_URL = `${environment.backendUrl}/api/settings`;
+  private http = inject(HttpClient);
+
+  /**
+   * Get the current user's settings
+   */
+  getSettings(): Observable<{ success: boolean; data: UserSettings }> {
+    return this.http.get<{ success: boolean; data: UserSettings }>(this.API_URL);
+  }
+
+  /**
+   * Save any subset of the settings; responds with the full settings
+   */
+  updateSettings(update: UserSettingsUpdate): Observable<{ success: boolean; message: string; data: UserSettings }> {
+    return this.http.put<{ success: boolean; message: string; data: UserSettings }>(this.API_URL, update);
+  }
+}
@@ -0,0 +1,105 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from '../../environments/environment';
+
+// Interfaces
+export interface StoryUser {
+  _id: string;
+  username: string;
+  fullName: string;
+  profilePicture?: string;
+}
+
+export interface Story {
+  _id: string;
+  media: string;
+  mediaType: 'image' | 'video';
+  caption?: string;
+  createdAt: string;
+  expiresAt: string;
+  seen: boolean;
+  viewersCount?: number; // Only sent to the author
+}
+
+// One author's active stories, as shown in the tray
+export interface StoryGroup {
+  user: StoryUser;
+  stories: Story[];
+  hasUnseen: boolean;
+  latestAt: string;
+  isOwn: boolean;
+}
+
+export interface StoryViewer {
+  user: StoryUser;
+  viewedAt: string;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class StoryService {
+  private readonly API_URL = `${environment.backendUrl}/api/stories`;
+  private http = inject(HttpClient);
+
+  /**
+   * Get the stories tray: own stories first, then followed users with unseen stories
+   */
+  getTray(): Observable<{ success: boolean; data: StoryGroup[] }> {
+    return this.http.get<{ success: boolean; data: StoryGroup[] }>(`${this.API_URL}/tray`);
+  }
+
+  /**
+   * Get a user's active stories
+   */
+  getUserStories(userId: string): Observable<{ success: boolean; data: Story[] }> {
+    return this.http.get<{ success: boolean; data: Story[] }>(`${this.API_URL}/user/${userId}`);
+  }
+
+  /**
+   * Post a photo or video story
+   */
+  createStory(media: File, caption?: string): Observable<{ success: boolean; message: string; data: Story }> {
+    const formData = new FormData();
+    formData.append('media', media);
+    if (caption) formData.append('caption', caption);
+    return this.http.post<{ success: boolean; message: string; data: Story }>(this.API_URL, formData);
+  }
+
+  /**
+   * Mark a story as seen by the current user
+   */
+  markViewed(storyId: string): Observable<{ success: boolean; data: { seen: boolean } }> {
+    return this.http.post<{ success: boolean; data: { seen: boolean } }>(`${this.API_URL}/${storyId}/view`, {});
+  }
+
+  /**
+   * Get who has seen one of the current user's stories
+   */
+  getViewers(storyId: string): Observable<{ success: boolean; data: StoryViewer[] }> {
+    return this.http.get<{ success: boolean; data: StoryViewer[] }>(`${this.API_URL}/${storyId}/viewers`);
+  }
+
+  /**
+   * Delete one of the current user's stories before it expires
+   */
+  deleteStory(storyId: string): Observable<{ success: boolean; message: string }> {
+    return this.http.delete<{ success: boolean; message: string }>(`${this.API_URL}/${storyId}`);
+  }
+
+  /**
+   * Get media URL for display
+   */
+  getMediaUrl(mediaPath: string): string {
+    return mediaPath.startsWith('http') ? mediaPath : `${environment.backendUrl}${mediaPath}`;
+  }
+
+  /**
+   * Get avatar URL for a story author
+   */
+  getAvatarUrl(user: StoryUser): string {
+    if (!user.profilePicture) return '/assets/images/avatars/default-avatar.svg';
+    return this.getMediaUrl(user.profilePicture);
+  }
+}
@@ -0,0 +1,47 @@
+import { Injectable, signal, computed, effect } from '@angular/core';
+
+export type ThemePreference = 'system' | 'light' | 'dark';
+
+/**
+ * Theme Service - Applies the appearance settings (theme and compact mode) to the page.
+ * The last choice is kept in localStorage so it applies before settings load from the server.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ThemeService {
+  private readonly THEME_KEY = 'theme';
+  private readonly COMPACT_KEY = 'compactMode';
+
+  private readonly darkQuery = window.matchMedia('(prefers-color-scheme: dark)');
+  private systemDark = signal(this.darkQuery.matches);
+
+  theme = signal<ThemePreference>(this.getSavedTheme());
+  compactMode = signal<boolean>(localStorage.getItem(this.COMPACT_KEY) === 'true');
+  isDark = computed(() => this.theme() === 'dark' || (this.theme() === 'system' && this.systemDark()));
+
+  constructor() {
+    // Follow the OS setting live while the theme is "system"
+    this.darkQuery.addEventListener('change', event => this.systemDark.set(event.matches));
+
+    effect(() => {
+      document.body.classList.toggle('dark-mode', this.isDark());
+      document.documentElement.classList.toggle('compact-mode', this.compactMode());
+      localStorage.setItem(this.THEME_KEY, this.theme());
+      localStorage.setItem(this.COMPACT_KEY, String(this.compactMode()));
+    });
+  }
+
+  /**
+   * Apply appearance settings loaded from or saved to the server
+   */
+  apply(appearance: { theme: ThemePreference; compactMode: boolean }): void {
+    this.theme.set(appearance.theme);
+    this.compactMode.set(appearance.compactMode);
+  }
+
+  private getSavedTheme(): ThemePreference {
+    const saved = localStorage.getItem(this.THEME_KEY);
+    return saved === 'light' || saved === 'dark' ? saved : 'system';
+  }
+}
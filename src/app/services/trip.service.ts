@@ -16,6 +16,174 @@ export interface JoinRequest {
   requestedAt: string;
 }
 
+export type TripStatus = 'planning' | 'active' | 'completed' | 'cancelled';
+
+export interface TripCancellation {
+  reason: string;
+  cancelledBy?: string;
+  cancelledAt: string;
+}
+
+// Collaborator roles; the creator is always the 'owner'
+export type TripRole = 'viewer' | 'editor' | 'co-owner';
+
+export type TripPermission =
+  | 'view'
+  | 'editItinerary'
+  | 'editChecklist'
+  | 'viewExpenses'
+  | 'editExpenses'
+  | 'editExchangeRates'
+  | 'editBudget'
+  | 'uploadPhotos'
+  | 'managePhotos'
+  | 'manageMembers'
+  | 'editSettings'
+  | 'cancelTrip'
+  | 'deleteTrip';
+
+export interface TripAccess {
+  role: TripRole | 'owner' | null; // null for visitors of public trips
+  permissions: TripPermission[];
+}
+
+// Roles an invite link can grant; 'member' joins as a plain member
+export type InviteRole = 'viewer' | 'editor' | 'member';
+export type InviteStatus = 'active' | 'revoked' | 'expired' | 'used_up';
+
+export interface TripInviteLink {
+  _id: string;
+  code: string;
+  url: string;
+  role: InviteRole;
+  status: InviteStatus;
+  expiresAt: string | null;
+  maxUses: number | null; // null for unlimited
+  uses: {
+    user: { _id: string; username: string; fullName: string; profilePicture?: string } | null;
+    joinedAt: string;
+  }[];
+  createdBy?: { _id: string; username: string; fullName: string };
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+export interface CreateInviteLinkData {
+  role: InviteRole;
+  expiresInDays: number | null;
+  maxUses: number | null;
+}
+
+// What the trip page is told about the invite code it was opened with
+export interface TripInvite {
+  status: InviteStatus | 'invalid';
+  message?: string;
+  role?: InviteRole;
+  expiresAt?: string | null;
+  remainingUses?: number | null;
+}
+
+export interface TripCollaborator {
+  _id: string;
+  user: {
+    _id: string;
+    username: string;
+    fullName: string;
+    profilePicture?: string;
+  };
+  role: TripRole;
+}
+
+export type ExpenseCategory = 'accommodation' | 'transportation' | 'food' | 'activities' | 'shopping' | 'other';
+
+export interface TripExpense {
+  _id: string;
+  description: string;
+  amount: number;
+  currency: string;
+  convertedAmount?: number | null; // In the budget currency; null when no rate is known
+  category: ExpenseCategory;
+  paidBy: {
+    _id: string;
+    username: string;
+    fullName: string;
+    profilePicture?: string;
+  };
+  splitAmong: string[];
+  date: string;
+}
+
+export interface ExchangeRate {
+  currency: string;
+  rate: number; // Units of the budget currency per 1 unit of `currency`
+  updatedAt?: string;
+}
+
+export interface TripBudget {
+  totalBudget?: number;
+  currency: string;
+  expenses: TripExpense[];
+  exchangeRates?: ExchangeRate[];
+}
+
+export interface ExpenseSummary {
+  totalBudget: number | null;
+  currency: string;
+  exchangeRates: ExchangeRate[];
+  missingRates: string[]; // Expense currencies with no rate, left out of the totals
+  expenses: TripExpense[];
+  totalExpenses: number;
+  remainingBudget: number | null;
+  categoryTotals: Record<ExpenseCategory, number>;
+  balances: { userId: string; net: number }[]; // net > 0: is owed money
+  settlements: { from: string; to: string; amount: number }[];
+}
+
+export interface ExpenseInput {
+  description: string;
+  amount: number;
+  currency?: string;
+  category: ExpenseCategory;
+  paidBy?: string;
+  splitAmong?: string[];
+  date?: string;
+}
+
+export type TravelMode = 'walking' | 'cycling' | 'transit' | 'driving';
+
+export interface ItineraryIssue {
+  type: 'overlap' | 'outside_dates' | 'invalid_time' | 'tight_transfer';
+  severity: 'error' | 'warning';
+  day: number;
+  itemIds: string[];
+  message: string;
+  // Only for tight transfers
+  distanceKm?: number;
+  travelMinutes?: number;
+  gapMinutes?: number;
+  travelMode?: TravelMode;
+}
+
+export interface ItineraryPosition {
+  id: string;
+  day: number;
+  order: number;
+}
+
+export interface TripPhoto {
+  _id: string;
+  url: string;
+  caption?: string;
+  day?: number | null; // Itinerary day; unset for photos from outside the trip dates
+  uploadedBy?: {
+    _id: string;
+    username: string;
+    fullName: string;
+    profilePicture?: string;
+  };
+  uploadedAt: string;
+}
+
 export interface TripPayload {
   _id: string;
   tripName: string;
@@ -34,6 +202,8 @@ export interface TripPayload {
   tripType: 'solo' | 'couple' | 'group' | 'family';
   interests: string[];
   coverImage?: string;
+  status?: TripStatus;
+  cancellation?: TripCancellation;
 
   // User and collaboration data
   createdBy?: {
@@ -43,13 +213,21 @@ export interface TripPayload {
     profilePicture?: string;
   };
   members: any[];
-  collaborators: any[];
+  collaborators: TripCollaborator[];
+  access?: TripAccess; // Current user's role, sent with getTrip
+  invite?: TripInvite | null; // Sent with getTrip when opened with an invite code
+  isSaved?: boolean; // Whether the current user saved it to a collection, sent with getTrip
 
   // Trip content
   itinerary: any[];
+  itineraryVersion?: number;
   checklist: any[];
   joinRequests?: JoinRequest[];
   shareCode?: string;
+  budget?: TripBudget;
+  photos?: TripPhoto[];
+  totalExpenses?: number;
+  remainingBudget?: number | null;
 
   // Timestamps
   createdAt?: string;
@@ -59,8 +237,14 @@ export interface TripPayload {
 export interface TripConstants {
   tripTypes: string[];
   interests: string[];
+  travelModes: TravelMode[];
+  defaultTravelMode: TravelMode;
+  travelSpeeds: Record<TravelMode, number>; // Average km/h
+  transferBufferMinutes: number;
 }
 
+export interface ExpenseSummaryResponse { success: boolean; data: ExpenseSummary }
+export interface TripPhotosResponse { success: boolean; message?: string; data: TripPhoto[] }
 export interface TripListResponse { success: boolean; data: { trips: TripPayload[] } }
 export interface TripResponse { success: boolean; data: TripPayload }
 
@@ -85,8 +269,9 @@ export class TripService {
     return this.http.post<TripResponse>(this.API_URL, formData);
   }
 
-  getById(id: string): Observable<TripResponse> {
-    return this.http.get<TripResponse>(`${this.API_URL}/${id}`);
+  getById(id: string, code?: string): Observable<TripResponse> {
+    const query = code ? `?code=${encodeURIComponent(code)}` : '';
+    return this.http.get<TripResponse>(`${this.API_URL}/${id}${query}`);
   }
 
   update(id: string, body: Partial<TripPayload>): Observable<TripResponse> {
@@ -97,6 +282,10 @@ export class TripService {
     return this.http.delete<{ success: boolean; message: string }>(`${this.API_URL}/${id}`);
   }
 
+  cancel(id: string, reason: string): Observable<{ success: boolean; message: string; data: { status: TripStatus; cancellation: TripCancellation } }> {
+    return this.http.post<{ success: boolean; message: string; data: { status: TripStatus; cancellation: TripCancellation } }>(`${this.API_URL}/${id}/cancel`, { reason });
+  }
+
   addItinerary(id: string, item: any): Observable<{ success: boolean; data: any[] }> {
     return this.http.post<{ success: boolean; data: any[] }>(`${this.API_URL}/${id}/itinerary`, item);
   }
@@ -105,8 +294,13 @@ export class TripService {
     return this.http.put<{ success: boolean; data: any }>(`${this.API_URL}/${id}/itinerary/${itemId}`, item);
   }
 
-  deleteItinerary(id: string, itemId: string): Observable<{ success: boolean; message: string }>{
-    return this.http.delete<{ success: boolean; message: string }>(`${this.API_URL}/${id}/itinerary/${itemId}`);
+  deleteItinerary(id: string, itemId: string): Observable<{ success: boolean; message: string; data: { itineraryVersion: number } }>{
+    return this.http.delete<{ success: boolean; message: string; data: { itineraryVersion: number } }>(`${this.API_URL}/${id}/itinerary/${itemId}`);
+  }
+
+  // Sends the full layout; fails with 409 (and the latest itinerary) if `version` is stale
+  reorderItinerary(id: string, version: number, items: ItineraryPosition[]): Observable<{ success: boolean; data: { itinerary: any[]; itineraryVersion: number } }>{
+    return this.http.put<{ success: boolean; data: { itinerary: any[]; itineraryVersion: number } }>(`${this.API_URL}/${id}/itinerary/reorder`, { version, items });
   }
 
   addChecklist(id: string, item: { item: string }): Observable<{ success: boolean; data: any[] }>{
@@ -121,8 +315,64 @@ export class TripService {
     return this.http.delete<{ success: boolean; message: string }>(`${this.API_URL}/${id}/checklist/${itemId}`);
   }
 
-  generateShareLink(id: string): Observable<{ success: boolean; data: { code: string; url: string } }>{
-    return this.http.post<{ success: boolean; data: { code: string; url: string } }>(`${this.API_URL}/${id}/share`, {});
+  getExpenses(id: string): Observable<ExpenseSummaryResponse> {
+    return this.http.get<ExpenseSummaryResponse>(`${this.API_URL}/${id}/expenses`);
+  }
+
+  updateBudget(id: string, body: { totalBudget?: number | null; currency?: string }): Observable<ExpenseSummaryResponse> {
+    return this.http.put<ExpenseSummaryResponse>(`${this.API_URL}/${id}/budget`, body);
+  }
+
+  updateExchangeRates(id: string, rates: { currency: string; rate: number }[]): Observable<ExpenseSummaryResponse> {
+    return this.http.put<ExpenseSummaryResponse>(`${this.API_URL}/${id}/budget/rates`, { rates });
+  }
+
+  importExchangeRates(id: string, csv: string, replace = false): Observable<ExpenseSummaryResponse> {
+    return this.http.post<ExpenseSummaryResponse>(`${this.API_URL}/${id}/budget/rates/import`, { csv, replace });
+  }
+
+  addExpense(id: string, expense: ExpenseInput): Observable<ExpenseSummaryResponse> {
+    return this.http.post<ExpenseSummaryResponse>(`${this.API_URL}/${id}/expenses`, expense);
+  }
+
+  updateExpense(id: string, expenseId: string, expense: Partial<ExpenseInput>): Observable<ExpenseSummaryResponse> {
+    return this.http.put<ExpenseSummaryResponse>(`${this.API_URL}/${id}/expenses/${expenseId}`, expense);
+  }
+
+  deleteExpense(id: string, expenseId: string): Observable<ExpenseSummaryResponse> {
+    return this.http.delete<ExpenseSummaryResponse>(`${this.API_URL}/${id}/expenses/${expenseId}`);
+  }
+
+  uploadPhotos(id: string, formData: FormData): Observable<TripPhotosResponse> {
+    return this.http.post<TripPhotosResponse>(`${this.API_URL}/${id}/photos`, formData);
+  }
+
+  updatePhoto(id: string, photoId: string, body: { caption?: string; day?: number | null }): Observable<TripPhotosResponse> {
+    return this.http.put<TripPhotosResponse>(`${this.API_URL}/${id}/photos/${photoId}`, body);
+  }
+
+  deletePhoto(id: string, photoId: string): Observable<TripPhotosResponse> {
+    return this.http.delete<TripPhotosResponse>(`${this.API_URL}/${id}/photos/${photoId}`);
+  }
+
+  setCoverPhoto(id: string, photoId: string): Observable<{ success: boolean; data: { coverImage: string } }> {
+    return this.http.put<{ success: boolean; data: { coverImage: string } }>(`${this.API_URL}/${id}/photos/${photoId}/cover`, {});
+  }
+
+  getInviteLinks(id: string): Observable<{ success: boolean; data: TripInviteLink[] }>{
+    return this.http.get<{ success: boolean; data: TripInviteLink[] }>(`${this.API_URL}/${id}/invites`);
+  }
+
+  createInviteLink(id: string, body: CreateInviteLinkData): Observable<{ success: boolean; message: string; data: TripInviteLink }>{
+    return this.http.post<{ success: boolean; message: string; data: TripInviteLink }>(`${this.API_URL}/${id}/invites`, body);
+  }
+
+  revokeInviteLink(id: string, inviteId: string): Observable<{ success: boolean; message: string; data: TripInviteLink }>{
+    return this.http.delete<{ success: boolean; message: string; data: TripInviteLink }>(`${this.API_URL}/${id}/invites/${inviteId}`);
+  }
+
+  joinWithInvite(id: string, code: string): Observable<{ success: boolean; message: string; data: { access: TripAccess } }>{
+    return this.http.post<{ success: boolean; message: string; data: { access: TripAccess } }>(`${this.API_URL}/${id}/invites/join`, { code });
   }
 
   requestJoin(id: string, message?: string): Observable<{ success: boolean; message: string }>{
@@ -133,8 +383,12 @@ export class TripService {
     return this.http.post<{ success: boolean; message: string; data?: { joinRequests: JoinRequest[] } }>(`${this.API_URL}/${id}/join/handle`, { action, userId });
   }
 
-  addCollaborator(id: string, username: string): Observable<{ success: boolean; data: any[] }>{
-    return this.http.post<{ success: boolean; data: any[] }>(`${this.API_URL}/${id}/collaborators`, { username, role: 'editor' });
+  addCollaborator(id: string, username: string, role: TripRole = 'editor'): Observable<{ success: boolean; data: TripCollaborator[] }>{
+    return this.http.post<{ success: boolean; data: TripCollaborator[] }>(`${this.API_URL}/${id}/collaborators`, { username, role });
+  }
+
+  updateCollaboratorRole(id: string, userId: string, role: TripRole): Observable<{ success: boolean; message: string; data: TripCollaborator[] }>{
+    return this.http.put<{ success: boolean; message: string; data: TripCollaborator[] }>(`${this.API_URL}/${id}/collaborators/${userId}`, { role });
   }
 
   removeCollaborator(id: string, userId: string): Observable<{ success: boolean; message: string }>{
@@ -163,6 +417,9 @@ export class TripService {
     if (filters.endDate) {
       params.append('endDate', filters.endDate);
     }
+    if (filters.status && filters.status.length > 0) {
+      params.append('status', Array.isArray(filters.status) ? filters.status.join(',') : filters.status);
+    }
     if (filters.page) {
       params.append('page', filters.page.toString());
     }